@@ -0,0 +1,119 @@
+// Adaptive throttling - number of concurrent VM restores per subscription and region, driven by ARM throttling (429)
+
+import * as df from 'durable-functions';
+import { InvocationContext } from '@azure/functions';
+import { RecoverySnapshot, ScopeThrottling, ThrottlingObservation } from './interfaces';
+import { extractSubscriptionIdFromResourceId } from './utils';
+import { getRestoreLocation } from './cross-region';
+import { THROTTLE_TRACKER_ENTITY } from './constants';
+import { ILogger } from './logger';
+
+export interface ConcurrencyLimits {
+    initial: number; // Concurrent VM restores of a scope before any throttling (SNAP_RECOVERY_BATCH_SIZE)
+    min: number;
+    max: number;
+    increaseStep: number; // Added after each batch without throttling
+    adaptive: boolean; // Fixed concurrency (initial) if false
+}
+
+/**
+ * Reads the concurrency limits from the environment
+ * @param batchSize Concurrent VM restores of a scope before any throttling
+ */
+export function getConcurrencyLimits(batchSize: number): ConcurrencyLimits {
+    return {
+        initial: batchSize,
+        min: Math.max(1, parseInt(process.env.SNAP_RECOVERY_MIN_CONCURRENCY || '1')),
+        max: Math.max(batchSize, parseInt(process.env.SNAP_RECOVERY_MAX_CONCURRENCY || String(batchSize * 2))),
+        increaseStep: parseInt(process.env.SNAP_RECOVERY_CONCURRENCY_STEP || '5'),
+        adaptive: (process.env.SNAP_RECOVERY_ADAPTIVE_THROTTLING || 'true').toLowerCase() !== 'false'
+    };
+}
+
+/**
+ * Scope of the throttling of a snapshot: ARM throttles requests per subscription, and the restores of a region share its capacity
+ */
+export function getThrottlingScope(snapshot: RecoverySnapshot): string {
+    return `${extractSubscriptionIdFromResourceId(snapshot.id)}/${getRestoreLocation(snapshot)}`;
+}
+
+/**
+ * Adjusts the concurrency of a scope after a batch (additive increase, multiplicative decrease)
+ * - Throttled requests since the previous batch halve the concurrency and start a cooldown of Retry-After seconds.
+ * - A batch without throttling increases the concurrency by increaseStep.
+ * Before the first batch of the scope the throttling already reported (by other batches of the subscription) is only
+ * taken as the baseline, with its cooldown.
+ * @param current Throttling state of the scope (undefined before its first batch)
+ * @param observation Throttling reported for the scope so far (undefined if never throttled)
+ * @param limits Concurrency limits
+ * @returns New throttling state of the scope
+ */
+export function adjustConcurrency(current: ScopeThrottling | undefined, observation: ThrottlingObservation | undefined, limits: ConcurrencyLimits): ScopeThrottling {
+    const throttledRequests = observation?.throttledRequests || 0;
+    if (!current) {
+        return { concurrency: limits.initial, seenThrottledRequests: throttledRequests, cooldownUntil: getCooldownEnd(observation) };
+    }
+
+    const state: ScopeThrottling = { ...current };
+    if (!limits.adaptive) {
+        return state;
+    }
+
+    if (throttledRequests > state.seenThrottledRequests) {
+        state.concurrency = Math.max(limits.min, Math.floor(state.concurrency / 2));
+        state.seenThrottledRequests = throttledRequests;
+        state.cooldownUntil = getCooldownEnd(observation) || state.cooldownUntil;
+    } else {
+        state.concurrency = Math.min(limits.max, state.concurrency + limits.increaseStep);
+    }
+    return state;
+}
+
+/**
+ * Checks if the VM restores of a scope must wait for the Retry-After of its last throttled request
+ */
+export function isCoolingDown(state: ScopeThrottling | undefined, now: Date): boolean {
+    return !!state?.cooldownUntil && new Date(state.cooldownUntil).getTime() > now.getTime();
+}
+
+/**
+ * Parses a Retry-After header (delay in seconds or HTTP date)
+ * @returns Delay in seconds (0 if missing or invalid)
+ */
+export function parseRetryAfter(value: string | undefined, now: Date): number {
+    if (!value) {
+        return 0;
+    }
+    const seconds = Number(value);
+    if (!isNaN(seconds)) {
+        return Math.max(0, seconds);
+    }
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? 0 : Math.max(0, Math.ceil((date.getTime() - now.getTime()) / 1000));
+}
+
+// End of the Retry-After of the last throttled request
+function getCooldownEnd(observation: ThrottlingObservation | undefined): string | undefined {
+    if (!observation?.lastThrottledAt || !(observation.retryAfterSeconds > 0)) {
+        return undefined;
+    }
+    return new Date(new Date(observation.lastThrottledAt).getTime() + observation.retryAfterSeconds * 1000).toISOString();
+}
+
+/**
+ * Reports the throttling observed by an activity to the throttle tracker of its scope (nothing to report without throttling)
+ * A failed report is only logged, the scope keeps its concurrency.
+ * @param context Invocation context of an activity with a durable client input
+ */
+export async function reportThrottling(context: InvocationContext, logger: ILogger, snapshot: RecoverySnapshot, observation: ThrottlingObservation): Promise<void> {
+    if (!snapshot?.id || !observation?.throttledRequests) {
+        return;
+    }
+    const scope = getThrottlingScope(snapshot);
+    try {
+        const client = df.getClient(context);
+        await client.signalEntity(new df.EntityId(THROTTLE_TRACKER_ENTITY, scope), 'record', observation);
+    } catch (error) {
+        logger.error(`Failed to report ${observation.throttledRequests} throttled requests for ${scope}:`, error);
+    }
+}
@@ -108,3 +108,12 @@ export class LogIngestionError extends AppComponentError {
 
 
 }
+
+export class LogQueryError extends AppComponentError {
+
+    constructor(error: any) {
+        super(error);
+        Object.setPrototypeOf(this, LogQueryError.prototype);
+    }
+
+}
@@ -0,0 +1,89 @@
+// Batch plan - restore plan of a batch kept outside the orchestrator history, read by each generation one batch at a time
+
+import { BatchPlanReport, BatchPlanResults, BatchPlanSlice, BatchPlanSliceRequest, BatchPlanState, BatchSchedule, RecoverySnapshot } from './interfaces';
+import { planRestoreWaves } from './restore-waves';
+import { getThrottlingScope } from './adaptive-throttling';
+import { groupExistingRestoresBySnapshot } from './existing-restore-utils';
+import { failedVmGroupResults } from './snapshot-groups';
+
+/**
+ * Groups the snapshots of a wave by throttling scope (subscription and region), in restore order
+ */
+export function groupSnapshotsByScope(snapshots: RecoverySnapshot[]): Map<string, RecoverySnapshot[]> {
+    const scopes = new Map<string, RecoverySnapshot[]>();
+    for (const snapshot of snapshots) {
+        const scope = getThrottlingScope(snapshot);
+        if (!scopes.has(scope)) {
+            scopes.set(scope, []);
+        }
+        scopes.get(scope).push(snapshot);
+    }
+    return scopes;
+}
+
+/**
+ * Waves of a batch plan with the VM count of each throttling scope, without the snapshots
+ */
+export function buildBatchSchedule(plan: BatchPlanState): BatchSchedule {
+    return {
+        waves: planRestoreWaves(plan.waves, plan.recoveryInfo.snapshots).map(wave => ({
+            name: wave.name,
+            healthGate: wave.healthGate,
+            delayAfterSeconds: wave.delayAfterSeconds,
+            vmCount: wave.snapshots.length,
+            scopes: [...groupSnapshotsByScope(wave.snapshots)].map(([scope, snapshots]) => ({ scope, vmCount: snapshots.length }))
+        })),
+        vmCount: plan.recoveryInfo.snapshots.length,
+        failedGroupCount: failedVmGroupResults(plan.recoveryInfo.failedGroups).length,
+        subnetLocations: plan.recoveryInfo.subnetLocations,
+        snapshotSelection: plan.recoveryInfo.snapshotSelection,
+        cancelRequest: plan.cancelRequest
+    };
+}
+
+/**
+ * Next VMs of some throttling scopes of a wave, with their existing restores
+ * @param plan Batch plan
+ * @param request Wave, and offset and VM count of each scope
+ * @returns One slice per requested scope, in the order of the request
+ */
+export function sliceBatchPlan(plan: BatchPlanState, request: BatchPlanSliceRequest): BatchPlanSlice[] {
+    const wave = planRestoreWaves(plan.waves, plan.recoveryInfo.snapshots)[request.waveIndex];
+    const scopes = groupSnapshotsByScope(wave?.snapshots || []);
+    const existingRestores = groupExistingRestoresBySnapshot(plan.existingResources);
+
+    return request.slices.map(slice => {
+        const snapshots = (scopes.get(slice.scope) || []).slice(slice.offset, slice.offset + slice.count);
+        return {
+            snapshots,
+            existingResources: [].concat(...snapshots.map(snapshot => existingRestores.get(snapshot.snapshotName.toLowerCase()) || []))
+        };
+    });
+}
+
+/**
+ * Records the results of region batches in a batch plan (failures beyond maxReportedFailures are only counted)
+ */
+export function recordBatchResults(plan: BatchPlanState, results: BatchPlanResults): BatchPlanState {
+    const reported = (results.failures || []).slice(0, Math.max(0, results.maxReportedFailures - plan.failures.length));
+    return {
+        ...plan,
+        batches: [...plan.batches, ...(results.batches || [])],
+        failures: [...plan.failures, ...reported],
+        unreportedFailures: plan.unreportedFailures + (results.failures || []).length - reported.length
+    };
+}
+
+/**
+ * Results of a batch plan reported at the end of the batch (without the plan itself)
+ */
+export function buildBatchPlanReport(plan: BatchPlanState): BatchPlanReport {
+    return {
+        failures: plan.failures,
+        unreportedFailures: plan.unreportedFailures,
+        batches: plan.batches,
+        quota: plan.quota,
+        preflight: plan.preflight,
+        snapshotCopies: plan.snapshotCopies
+    };
+}
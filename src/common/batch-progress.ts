@@ -0,0 +1,46 @@
+// Batch progress - live counts of a running batch for the status API
+
+import { BatchProgress, BatchProgressStatus, VmOutcomeTrackerState } from './interfaces';
+
+/**
+ * Combines the custom status of the batch orchestrator with the outcomes reported by the VM creation poller
+ * @param status Custom status of the batch orchestrator
+ * @param outcomes State of the VM outcome tracker of the batch (undefined without async VM creations)
+ * @param now Reference time of the ETA
+ * @returns Progress of the batch, with an ETA once VMs have completed or failed
+ */
+export function buildBatchProgress(status: BatchProgressStatus, outcomes: Pick<VmOutcomeTrackerState, 'succeeded' | 'failed'> | undefined, now: Date): BatchProgress {
+    const asyncSucceeded = Math.min(outcomes?.succeeded || 0, status.queued);
+    const asyncFailed = Math.min(outcomes?.failed || 0, status.queued - asyncSucceeded);
+
+    // Queued async VM creations are in progress until the poller reports their outcome
+    const completed = status.successful - status.queued + asyncSucceeded;
+    const failed = status.failed + asyncFailed;
+    const inProgress = status.inProgress + status.queued - asyncSucceeded - asyncFailed;
+    const notStarted = Math.max(0, status.total - completed - failed - inProgress);
+
+    const progress: BatchProgress = {
+        total: status.total,
+        inProgress,
+        completed,
+        failed,
+        notStarted,
+        batchNumber: status.batchNumber,
+        wave: status.wave,
+        waveNumber: status.waveNumber,
+        waveCount: status.waveCount,
+        phase: status.phase,
+        startedAt: status.startedAt,
+        updatedAt: status.updatedAt
+    };
+
+    // ETA from the rate of finished VMs since the start of the batch
+    const finished = completed + failed;
+    const remaining = inProgress + notStarted;
+    const elapsedMs = now.getTime() - new Date(status.startedAt).getTime();
+    if (status.phase !== 'completed' && finished > 0 && remaining > 0 && elapsedMs > 0) {
+        progress.eta = new Date(now.getTime() + remaining * elapsedMs / finished).toISOString();
+    }
+
+    return progress;
+}
@@ -0,0 +1,49 @@
+// Batch retry - planned VMs of a batch and selection of the VMs to restore again
+
+import { BatchJobState, JobLogEntry, RecoverySnapshot } from './interfaces';
+import { generateGuid } from './utils';
+
+// Fields of an OS disk snapshot recorded by the planned job log entry of its VM
+export type PlannedSnapshot = Pick<RecoverySnapshot, 'id' | 'snapshotName' | 'vmName' | 'vmSize' | 'diskSku' | 'diskProfile'>;
+
+/**
+ * Job log entries recording the VMs planned by a batch before any restore starts,
+ * so that a retry also finds the VMs the batch never reached (cancel, health gate, failed orchestrator)
+ * @param batchId Batch Id of the entries
+ * @param snapshots OS disk snapshots of the VMs restored by the batch
+ */
+export function plannedJobLogEntries(batchId: string, snapshots: PlannedSnapshot[]): JobLogEntry[] {
+    return (snapshots || []).map(snapshot => ({
+        batchId,
+        jobId: generateGuid(),
+        jobOperation: 'VM Planned',
+        jobStatus: 'Restore In Progress',
+        jobType: 'Restore',
+        message: `VM ${snapshot.vmName} planned for restore from ${snapshot.snapshotName}`,
+        snapshotId: snapshot.id,
+        snapshotName: snapshot.snapshotName,
+        vmName: snapshot.vmName,
+        vmSize: snapshot.vmSize,
+        diskSku: snapshot.diskSku,
+        diskProfile: snapshot.diskProfile
+    }));
+}
+
+/**
+ * Selects the VMs of a previous batch to restore again: failed, started but never completed, or planned but never started
+ * @param jobStates Job state of each VM of the previous batch (including the VMs only planned)
+ * @param vmFilter Names of the VMs to retry (all VMs when empty)
+ */
+export function selectRetryJobStates(jobStates: BatchJobState[], vmFilter?: string[]): BatchJobState[] {
+    return (jobStates || [])
+        .filter(state => state.jobStatus === 'Restore Failed' || !state.completed)
+        .filter(state => !vmFilter?.length || vmFilter.includes(state.vmName))
+        .filter(state => !!state.snapshotId);
+}
+
+/**
+ * Describes the job state of a VM retried
+ */
+export function describeRetryJobState(state: BatchJobState): string {
+    return `${state.vmName} (${state.started ? state.jobStatus : 'not started'})`;
+}
@@ -1,8 +1,44 @@
+// Orchestrator names
+export const BATCH_ORCHESTRATOR = 'batchOrchestrator';
+export const BATCH_ROLLBACK_ORCHESTRATOR = 'batchRollbackOrchestrator';
+export const REGION_BATCH_ORCHESTRATOR = 'regionBatchOrchestrator';
+export const VM_RESTORE_ORCHESTRATOR = 'vmRestoreOrchestrator';
+export const SNAPSHOT_COPY_ORCHESTRATOR = 'snapshotCopyOrchestrator';
+
+// Entity names
+export const VM_OUTCOME_TRACKER_ENTITY = 'vmOutcomeTracker';
+export const THROTTLE_TRACKER_ENTITY = 'throttleTracker';
+export const BATCH_PLAN_ENTITY = 'batchPlan';
+
 // Activity names
 export const GET_MOST_RECENT_SNAPSHOTS_ACTIVITY = 'getSnapshotsActivity';
-export const CREATE_VM_ACTIVITY = 'createVmActivity';
+export const RESTORE_DISKS_ACTIVITY = 'restoreDisksActivity';
+export const RESTORE_NIC_ACTIVITY = 'restoreNicActivity';
+export const RESTORE_VM_ACTIVITY = 'restoreVmActivity';
+export const VERIFY_VM_ACTIVITY = 'verifyVmActivity';
+export const COMPENSATE_RESTORE_ACTIVITY = 'compensateRestoreActivity';
 export const CREATE_VM_ASYNC_ACTIVITY = 'createVmAsyncActivity';
+export const ROLLBACK_BATCH_ACTIVITY = 'rollbackBatchActivity';
+export const GET_EXISTING_RESTORES_ACTIVITY = 'getExistingRestoresActivity';
+export const CHECK_VM_HEALTH_ACTIVITY = 'checkVmHealthActivity';
+export const CHECK_QUOTA_ACTIVITY = 'checkQuotaActivity';
+export const VALIDATE_TARGET_ACTIVITY = 'validateTargetActivity';
+export const START_SNAPSHOT_COPY_ACTIVITY = 'startSnapshotCopyActivity';
+export const CHECK_SNAPSHOT_COPIES_ACTIVITY = 'checkSnapshotCopiesActivity';
+export const DELETE_SNAPSHOT_COPIES_ACTIVITY = 'deleteSnapshotCopiesActivity';
+export const GET_SUBNET_CAPACITY_ACTIVITY = 'getSubnetCapacityActivity';
+export const GET_RESOURCE_NAMES_ACTIVITY = 'getResourceNamesActivity';
+export const LOG_PLANNED_VMS_ACTIVITY = 'logPlannedVmsActivity';
+
+// Orchestration events
+export const CANCEL_BATCH_EVENT = 'CancelBatch';
 
 // Queue names
 export const QUEUE_RECOVERY_JOBS = 'recovery-jobs';
-export const QUEUE_CONTROL_VM_CREATION = 'vm-creation-control';
\ No newline at end of file
+export const QUEUE_CONTROL_VM_CREATION = 'vm-creation-control';
+export const QUEUE_CONTROL_VM_CREATION_DEAD_LETTER = 'vm-creation-control-deadletter';
+
+// Resource types of the restored resources (lower case, as returned by Resource Graph)
+export const RESOURCE_TYPE_VM = 'microsoft.compute/virtualmachines';
+export const RESOURCE_TYPE_NIC = 'microsoft.network/networkinterfaces';
+export const RESOURCE_TYPE_DISK = 'microsoft.compute/disks';
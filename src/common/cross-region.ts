@@ -0,0 +1,142 @@
+// Cross-region restore - restores the snapshots of a region without target subnet from copies in the region of a target subnet
+
+import { CrossRegionRestore, RecoverySnapshot, SnapshotCopy, SnapshotCopyProgress, SubnetLocation, VmRestoreResult } from './interfaces';
+
+const MAX_SNAPSHOT_NAME_LENGTH = 80;
+
+/**
+ * Region where the VM of a snapshot is restored (region of the copy for a cross-region restore)
+ */
+export function getRestoreLocation(snapshot: RecoverySnapshot): string {
+    return snapshot.targetLocation || snapshot.location;
+}
+
+/**
+ * Sets the target location of the snapshots of the source regions without target subnet in their region
+ * (target region of the source region, or region of the first target subnet), including their data disk snapshots
+ * @param snapshots OS disk snapshots with their data disk snapshots
+ * @param subnetLocations Target subnets with their locations
+ * @param crossRegion Cross-region restore of the batch
+ * @returns Snapshots, with a target location for the ones restored from a copy
+ */
+export function assignTargetLocations(snapshots: RecoverySnapshot[], subnetLocations: SubnetLocation[], crossRegion: CrossRegionRestore | undefined): RecoverySnapshot[] {
+    if (!crossRegion?.sourceRegions?.length || subnetLocations.length === 0) {
+        return snapshots;
+    }
+
+    const hasSubnet = (location: string): boolean => subnetLocations.some(subnetLocation => subnetLocation.location.toLowerCase() === location?.toLowerCase());
+    const sourceRegions = crossRegion.sourceRegions.map(region => region.toLowerCase());
+    const targetRegions = new Map(Object.entries(crossRegion.targetRegions || {}).map(([source, target]) => [source.toLowerCase(), target.toLowerCase()]));
+
+    return snapshots.map(snapshot => {
+        const location = snapshot.location.toLowerCase();
+        if (hasSubnet(location) || !sourceRegions.includes(location)) {
+            return snapshot;
+        }
+        const targetLocation = targetRegions.get(location) || subnetLocations[0].location.toLowerCase();
+        if (!hasSubnet(targetLocation)) {
+            return snapshot;
+        }
+        return {
+            ...snapshot,
+            targetLocation,
+            dataDiskSnapshots: snapshot.dataDiskSnapshots?.map(dataDisk => ({ ...dataDisk, targetLocation }))
+        };
+    });
+}
+
+/**
+ * Name of the copy of a snapshot in a region (the snapshot name is shortened to the 80 characters allowed)
+ */
+export function buildSnapshotCopyName(snapshotName: string, location: string): string {
+    const suffix = `-${location}`;
+    return `${snapshotName.substring(0, MAX_SNAPSHOT_NAME_LENGTH - suffix.length)}${suffix}`;
+}
+
+/**
+ * OS and data disk snapshots to copy to their target location
+ */
+export function listSnapshotsToCopy(snapshots: RecoverySnapshot[]): RecoverySnapshot[] {
+    return snapshots
+        .filter(snapshot => !!snapshot.targetLocation)
+        .flatMap(snapshot => [snapshot, ...(snapshot.dataDiskSnapshots || [])])
+        .map(({ dataDiskSnapshots, ...snapshot }) => snapshot);
+}
+
+/**
+ * Failed copies of the snapshots to copy, when the copy orchestration failed before returning them
+ * The copy names are the ones of the started copies, so that they are still deleted with the batch.
+ * @param snapshots OS and data disk snapshots to copy
+ * @param error Error of the copy orchestration
+ */
+export function failAllSnapshotCopies(snapshots: RecoverySnapshot[], error: string): SnapshotCopy[] {
+    return snapshots.map(snapshot => ({
+        sourceSnapshotId: snapshot.id,
+        copyName: buildSnapshotCopyName(snapshot.snapshotName, snapshot.targetLocation),
+        location: snapshot.targetLocation,
+        status: 'failed',
+        completionPercent: 0,
+        error
+    }));
+}
+
+/**
+ * Sets the copy of the OS and data disk snapshots whose copy completed
+ */
+export function applySnapshotCopies(snapshots: RecoverySnapshot[], copies: SnapshotCopy[]): RecoverySnapshot[] {
+    const copyIds = new Map(copies.filter(copy => copy.status === 'completed').map(copy => [copy.sourceSnapshotId.toLowerCase(), copy.copyId]));
+    const withCopy = (snapshot: RecoverySnapshot): RecoverySnapshot => copyIds.has(snapshot.id.toLowerCase())
+        ? { ...snapshot, copyId: copyIds.get(snapshot.id.toLowerCase()) }
+        : snapshot;
+
+    return snapshots.map(snapshot => ({
+        ...withCopy(snapshot),
+        dataDiskSnapshots: snapshot.dataDiskSnapshots?.map(withCopy)
+    }));
+}
+
+/**
+ * Failed results of the VMs with a snapshot copy that failed (OS or data disk)
+ * The other members of the VM group of such a VM fail with it.
+ * @param copies Snapshot copies of the batch
+ * @param snapshots OS disk snapshots of the batch
+ * @returns Failed results, one per VM not restored
+ */
+export function failedCopyResults(copies: SnapshotCopy[], snapshots: RecoverySnapshot[]): VmRestoreResult[] {
+    const failedCopies = new Map(copies.filter(copy => copy.status !== 'completed').map(copy => [copy.sourceSnapshotId.toLowerCase(), copy]));
+    const findFailedCopy = (snapshot: RecoverySnapshot): SnapshotCopy | undefined => [snapshot, ...(snapshot.dataDiskSnapshots || [])]
+        .map(disk => failedCopies.get(disk.id.toLowerCase()))
+        .find(copy => !!copy);
+    const failedGroups = new Set(snapshots.filter(snapshot => snapshot.vmGroup && findFailedCopy(snapshot)).map(snapshot => snapshot.vmGroup));
+
+    return snapshots
+        .filter(snapshot => findFailedCopy(snapshot) || failedGroups.has(snapshot.vmGroup))
+        .map(snapshot => {
+            const failedCopy = findFailedCopy(snapshot);
+            return {
+                success: false,
+                vmName: snapshot.vmName,
+                snapshotId: snapshot.id,
+                snapshotName: snapshot.snapshotName,
+                snapshotSelection: snapshot.snapshotSelection,
+                vmGroup: snapshot.vmGroup,
+                message: failedCopy
+                    ? `Copy of snapshot ${failedCopy.sourceSnapshotId} to ${failedCopy.location} failed: ${failedCopy.error || failedCopy.status}`
+                    : `Snapshot copy failed for another member of VM group ${snapshot.vmGroup}`
+            };
+        });
+}
+
+/**
+ * Progress of the snapshot copies (custom status of the snapshot copy orchestrator)
+ */
+export function summarizeSnapshotCopies(copies: SnapshotCopy[], now: Date): SnapshotCopyProgress {
+    return {
+        total: copies.length,
+        completed: copies.filter(copy => copy.status === 'completed').length,
+        failed: copies.filter(copy => copy.status === 'failed').length,
+        copying: copies.filter(copy => copy.status === 'copying').length,
+        completionPercent: copies.length > 0 ? Math.floor(copies.reduce((total, copy) => total + copy.completionPercent, 0) / copies.length) : 100,
+        updatedAt: now.toISOString()
+    };
+}
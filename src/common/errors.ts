@@ -133,3 +133,48 @@ export function classifyError(error: any): AppError {
     // Default to transient for unknown errors (can be overridden)
     return new TransientError(`Unknown error: ${error.message}`, error);
 }
+
+/**
+ * Classify errors from VM Manager operations (restore of disks, NICs and VMs)
+ */
+export function classifyVmManagerError(error: any, operation: string): AppError {
+    const message = error.message || error.toString();
+    
+    // IP address out of range of the subnet address space
+    if (message.includes('does not belong to the range of subnet prefix')) {
+        return new PermanentError(`${operation} failed - IP address does not belong to the range of subnet prefix: ${message}`, error);
+    }
+
+    // Rate limiting (checked before the quotas: "rate limit" errors are retried)
+    if (message.includes('throttle') || message.includes('rate limit') || message.includes('TooManyRequests')) {
+        return new TransientError(`${operation} failed due to rate limiting: ${message}`, error);
+    }
+
+    // Azure quota exceeded (QuotaExceeded, OperationNotAllowed ... quota): retrying does not help until the quota is raised
+    if (/quota/i.test(message)) {
+        return new PermanentError(`${operation} failed - quota exceeded: ${message}`, error);
+    }
+    
+    // Resource already exists
+    if (message.includes('already exists') || message.includes('ConflictError')) {
+        return new PermanentError(`${operation} failed - resource already exists: ${message}`, error);
+    }
+    
+    // Authentication/authorization
+    if (message.includes('Unauthorized') || message.includes('Forbidden') || message.includes('does not have authorization')) {
+        return new PermanentError(`${operation} failed - authentication/authorization error: ${message}`, error);
+    }
+    
+    // Network/connectivity issues
+    if (message.includes('timeout') || message.includes('network') || message.includes('connection')) {
+        return new TransientError(`${operation} failed due to network issues: ${message}`, error);
+    }
+    
+    // Resource not found
+    if (message.includes('NotFound') || message.includes('does not exist')) {
+        return new PermanentError(`${operation} failed - resource not found: ${message}`, error);
+    }
+    
+    // Default classification
+    return classifyError(error);
+}
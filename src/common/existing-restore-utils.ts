@@ -0,0 +1,87 @@
+// Existing restores - detects the resources already restored from a snapshot by a previous run
+
+import { ExistingRestoreMode, RecoveryResource, RecoverySnapshot, VmRestoreResult } from './interfaces';
+import { RESOURCE_TYPE_DISK, RESOURCE_TYPE_VM } from './constants';
+
+/**
+ * Groups restored resources by the OS disk snapshot they were restored from (smcp-recovery tag)
+ * @param resources Restored resources of the target resource group
+ * @returns Resources by lower case snapshot name (resources without snapshot name are ignored)
+ */
+export function groupExistingRestoresBySnapshot(resources: RecoveryResource[]): Map<string, RecoveryResource[]> {
+    const existingRestores = new Map<string, RecoveryResource[]>();
+    for (const resource of resources || []) {
+        const snapshotName = resource.tracking?.snapshotName?.toLowerCase();
+        if (!snapshotName) {
+            continue;
+        }
+        if (!existingRestores.has(snapshotName)) {
+            existingRestores.set(snapshotName, []);
+        }
+        existingRestores.get(snapshotName).push(resource);
+    }
+    return existingRestores;
+}
+
+/**
+ * Finds the VM already restored from a snapshot, if any
+ */
+export function findExistingVm(resources: RecoveryResource[]): RecoveryResource | undefined {
+    return (resources || []).find(resource => resource.type.toLowerCase() === RESOURCE_TYPE_VM);
+}
+
+/**
+ * Finds a disk already restored from a snapshot (OS or data disk), if any
+ */
+export function findExistingDisk(resources: RecoveryResource[], snapshot: RecoverySnapshot): RecoveryResource | undefined {
+    return (resources || []).find(resource =>
+        resource.type.toLowerCase() === RESOURCE_TYPE_DISK &&
+        resource.sourceResourceId?.toLowerCase() === snapshot.id.toLowerCase()
+    );
+}
+
+/**
+ * Resolves a snapshot already restored by a previous run without calling the create VM activity
+ * @param snapshot OS disk snapshot
+ * @param targetSubnetId Subnet the VM would be restored to
+ * @param resources Resources already restored from the snapshot
+ * @param mode Existing restore mode
+ * @returns Result of the VM, or undefined if the VM must be restored (nothing found, partial restore to adopt or replace mode)
+ */
+export function resolveExistingRestore(snapshot: RecoverySnapshot, targetSubnetId: string, resources: RecoveryResource[], mode: ExistingRestoreMode = 'skip'): VmRestoreResult | undefined {
+    if (!resources?.length || mode === 'replace') {
+        return undefined;
+    }
+
+    const result: VmRestoreResult = {
+        success: false,
+        vmName: snapshot.vmName,
+        snapshotId: snapshot.id,
+        snapshotName: snapshot.snapshotName,
+        targetSubnetId: targetSubnetId,
+        existing: true,
+        snapshotSelection: snapshot.snapshotSelection
+    };
+
+    const existingVm = findExistingVm(resources);
+    if (existingVm) {
+        result.success = true;
+        result.vmId = existingVm.id;
+        result.message = `VM ${existingVm.name} already restored from snapshot ${snapshot.snapshotName}`;
+        return result;
+    }
+
+    if (mode === 'skip') {
+        result.message = `Partial restore from snapshot ${snapshot.snapshotName} found (${describeExistingResources(resources).join(', ')}), use existingRestoreMode 'adopt' or 'replace' to restore the VM`;
+        return result;
+    }
+
+    return undefined;
+}
+
+/**
+ * Short description of restored resources (type and name)
+ */
+export function describeExistingResources(resources: RecoveryResource[]): string[] {
+    return (resources || []).map(resource => `${resource.type.split('/').pop()} ${resource.name}`);
+}
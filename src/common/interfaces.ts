@@ -7,8 +7,293 @@ export interface RecoveryBatch {
     maxTimeGenerated: string; // ISO datetime string
     useOriginalIpAddress: boolean; // Whether to preserve original IP addresses
     waitForVmCreationCompletion: boolean; // Whether to wait for VM creation to complete
+    waitForVmCreationOutcomes?: boolean; // Without waitForVmCreationCompletion: wait for the outcomes reported by the VM creation poller
     vmFilter?: string[];
     batchId?: string;
+    dryRun?: boolean; // Only return the restore plan, without creating any resource
+    compensationMode?: CompensationMode; // What to do with the resources created for a VM whose restore failed (default: delete)
+    existingRestoreMode?: ExistingRestoreMode; // What to do with VMs already restored from the same snapshot (default: skip)
+    retryBatchId?: string; // Only restore the VMs of this previous batch that failed or never completed, from the same snapshots
+    snapshotSelection?: SnapshotSelection; // Snapshot selected for each VM (default: latest at or before maxTimeGenerated)
+    vmSnapshotSelections?: VmSnapshotSelection[]; // Per-VM selections overriding snapshotSelection (e.g. a pinned snapshot)
+    vmGroups?: VmGroup[]; // VMs restored from the same snapshot run (crash-consistent groups)
+    waves?: RestoreWave[]; // Ordered waves of VMs, each one started after the previous one passed its health gate
+    quotaCheck?: QuotaCheckMode; // vCPU and disk quota pre-flight check (default: enforce)
+    preflightCheck?: PreflightCheckMode; // Pre-flight validation of the target subnets, IPs, names and VM sizes (default: enforce)
+    vmSizeMapping?: VmSizeMapping; // Rules changing the VM size of the smcp-recovery-info tag (default: restore the source size)
+    zonePlacement?: ZonePlacement; // Availability zone of the restored VMs and disks (default: zone of the smcp-recovery-info tag)
+    crossRegion?: CrossRegionRestore; // Restore the snapshots of regions without target subnet in another region, from copies
+    subnetMapping?: SubnetMapping; // Target subnet per source VNet/subnet (default: first subnet in the location of the snapshot)
+    subnetDistribution?: SubnetDistributionMode; // Distribution of the VMs over the target subnets of a region (default: fill-first)
+    naming?: RestoreNaming; // Name templates of the restored VMs, NICs and disks (default: source VM name, '-nic' and '-{diskProfile}-{date}' suffixes)
+    continuation?: BatchContinuation; // Internal: state of the orchestrator carried over by continueAsNew (never set by callers)
+}
+
+// ARM throttling (429 responses) observed by the activities of a subscription and region
+export interface ThrottlingObservation {
+    throttledRequests: number;
+    retryAfterSeconds: number; // Retry-After of the last throttled request
+    lastThrottledAt?: string; // ISO datetime
+}
+
+// Adaptive concurrency of the VM restores of a subscription and region
+export interface ScopeThrottling {
+    concurrency: number; // Concurrent VM restores per batch
+    seenThrottledRequests: number; // Throttled requests already taken into account
+    cooldownUntil?: string; // ISO datetime, no VM restore is started before (Retry-After)
+}
+
+// Progress of a running batch, published by the batch orchestrator as its custom status
+export interface BatchProgressStatus {
+    total: number; // VMs of the batch (including the VMs of failed groups)
+    successful: number; // Restored VMs (and queued async VM creations)
+    failed: number;
+    queued: number; // Async VM creations queued for the VM creation poller
+    inProgress: number; // VMs of the running batch
+    batchNumber: number;
+    wave?: string; // Wave in progress (only with waves)
+    waveNumber?: number;
+    waveCount?: number;
+    phase: 'copying snapshots' | 'restoring' | 'health gate' | 'waiting for outcomes' | 'rolling back' | 'completed';
+    startedAt: string; // ISO datetime
+    updatedAt: string; // ISO datetime
+}
+
+// Live progress of a batch: custom status of the orchestrator combined with the outcomes reported by the VM creation poller
+export interface BatchProgress {
+    total: number;
+    inProgress: number;
+    completed: number;
+    failed: number;
+    notStarted: number;
+    batchNumber: number;
+    wave?: string;
+    waveNumber?: number;
+    waveCount?: number;
+    phase: BatchProgressStatus['phase'];
+    startedAt: string;
+    updatedAt: string;
+    eta?: string; // ISO datetime, from the completion rate so far
+}
+
+// State of the batch orchestrator carried over to its next generation (continueAsNew keeps the history bounded):
+// only the cursor of the batch, the restore plan and the reported failures are kept by the batch plan entity
+export interface BatchContinuation {
+    startedAt: string; // ISO datetime of the first generation
+    generation: number;
+    waveIndex: number; // Wave in progress
+    offsets: { [scope: string]: number }; // VMs of each throttling scope (subscription/region) already started in the wave in progress
+    throttling: { [scope: string]: ScopeThrottling }; // Adaptive concurrency of each throttling scope
+    batchNumber: number; // Last batch number started
+    totals: { processed: number; successful: number; failed: number; queued: number; };
+    waveResults: WaveResult[]; // Completed waves
+    wave: WaveProgress; // Wave in progress
+    blockedVmCount?: number; // VMs failed by the naming templates, the pre-flight validation or the snapshot copy before any VM was created
+}
+
+// Restore plan of a batch, kept by the batch plan entity (key: batchId) instead of the input of each orchestrator generation
+export interface BatchPlanState {
+    recoveryInfo: RecoveryInfo;
+    existingResources: RecoveryResource[];
+    waves?: RestoreWave[]; // Waves of the request
+    quota?: QuotaReport; // Quota pre-flight check (not done with quotaCheck 'skip')
+    preflight?: PreflightReport; // Pre-flight validation (not done with preflightCheck 'skip')
+    snapshotCopies?: SnapshotCopy[]; // Cross-region restore: copies of the snapshots in the regions of the target subnets
+    failures: VmRestoreResult[]; // Failed VMs (up to SNAP_RECOVERY_MAX_REPORTED_FAILURES)
+    unreportedFailures: number; // Failed VMs not in failures
+    batches: string[]; // Instance IDs of the region batch sub-orchestrations
+    cancelRequest?: BatchCancelRequest; // Recorded by httpCancel, so that a cancel request raised while the orchestrator continues as new is not lost
+}
+
+// Waves of the batch plan without their snapshots, read by each generation of the batch orchestrator
+export interface BatchSchedule {
+    waves: ScheduledWave[];
+    vmCount: number; // VMs to restore
+    failedGroupCount: number; // VMs of the VM groups without a common snapshot run
+    subnetLocations: SubnetLocation[];
+    snapshotSelection?: SnapshotSelection;
+    cancelRequest?: BatchCancelRequest;
+}
+
+export interface ScheduledWave {
+    name: string;
+    healthGate: boolean;
+    delayAfterSeconds: number;
+    vmCount: number;
+    scopes: { scope: string; vmCount: number }[]; // VMs of each throttling scope (subscription/region), in restore order
+}
+
+// Next VMs of some throttling scopes of a wave, read from the batch plan entity for a batch
+export interface BatchPlanSliceRequest {
+    waveIndex: number;
+    slices: { scope: string; offset: number; count: number }[];
+}
+
+export interface BatchPlanSlice {
+    snapshots: RecoverySnapshot[];
+    existingResources: RecoveryResource[]; // Existing restores of the snapshots
+}
+
+// Results of region batches recorded in the batch plan entity
+export interface BatchPlanResults {
+    batches: string[];
+    failures: VmRestoreResult[];
+    maxReportedFailures: number;
+}
+
+// Results of the batch read from the batch plan entity at the end of the batch
+export type BatchPlanReport = Pick<BatchPlanState, 'failures' | 'unreportedFailures' | 'batches' | 'quota' | 'preflight' | 'snapshotCopies'>;
+
+// Progress of the wave in progress (restored and failed VMs are only kept for the health gate)
+export interface WaveProgress {
+    successful: number;
+    failed: number;
+    restoredVms: { vmName: string; subscriptionId: string }[];
+    failedVms: string[];
+}
+
+// Input of the sub-orchestration restoring the VMs of one region in one batch
+export interface RegionBatchInput {
+    batchId: string;
+    batchNumber: number;
+    region: string;
+    targetResourceGroup: string;
+    useOriginalIpAddress: boolean;
+    waitForVmCreationCompletion: boolean;
+    compensationMode?: CompensationMode;
+    existingRestoreMode: ExistingRestoreMode;
+    snapshots: RecoverySnapshot[];
+    subnetLocations: SubnetLocation[];
+    existingResources: RecoveryResource[]; // Resources already restored from the snapshots of the batch
+    collectVms: boolean; // Return the restored and failed VMs (for the health gate of the wave)
+    vmSizeMapping?: VmSizeMapping;
+    subnetMapping?: SubnetMapping;
+}
+
+// Compact result of a region batch sub-orchestration (kept in the history of the batch orchestrator)
+export interface RegionBatchSummary {
+    instanceId: string;
+    region: string;
+    batchNumber: number;
+    total: number;
+    successful: number;
+    failed: number;
+    queued: number; // Async VM creations queued for the VM creation poller (counted as successful)
+    failures: VmRestoreResult[];
+    restoredVms?: { vmName: string; subscriptionId: string }[];
+}
+
+// Outcome of an async VM creation reported by the VM creation poller
+export interface VmCreationOutcome {
+    batchId: string;
+    jobId: string;
+    vmName: string;
+    snapshotId: string;
+    snapshotName: string;
+    success: boolean;
+    vmId?: string;
+    ipAddress?: string;
+    message?: string;
+}
+
+// State of the VM creation outcome tracker of a batch
+export interface VmOutcomeTrackerState {
+    jobIds: string[]; // Reported jobs (the poller can report a job twice)
+    succeeded: number;
+    failed: number;
+    failures: VmRestoreResult[];
+}
+
+export interface RestoreWave {
+    name: string;
+    vmNames: string[];
+    healthGate?: boolean; // Wait for the VMs to be running with the guest agent ready before the next wave (default: true)
+    delayAfterSeconds?: number; // Fixed delay before the next wave
+}
+
+export interface WaveResult {
+    name: string;
+    vmCount: number;
+    successful: number;
+    failed: number;
+    healthGate: 'passed' | 'failed' | 'skipped' | 'not started';
+    message?: string;
+}
+
+export interface VmHealthRequest {
+    targetResourceGroup: string;
+    vms: { vmName: string; subscriptionId: string }[];
+}
+
+export interface VmHealth {
+    vmName: string;
+    healthy: boolean; // VM running with the guest agent ready
+    powerState?: string;
+    provisioningState?: string;
+    agentStatus?: string;
+    message?: string;
+}
+
+export interface VmGroup {
+    name: string;
+    vmNames: string[];
+    toleranceSeconds?: number; // Maximum time between the snapshots of a run without run ID (default: SNAP_RECOVERY_GROUP_TOLERANCE_SECONDS)
+}
+
+export interface FailedVmGroup {
+    name: string;
+    vmNames: string[];
+    reason: string;
+}
+
+export type CompensationMode = 'delete' | 'keep';
+
+export type SnapshotSelectionPolicy = 'latest' | 'nearest' | 'window' | 'pinned';
+
+// Times are ISO datetimes, 'latest' (now) or relative times before now ('-30m', '-6h', '-2d')
+export interface SnapshotSelection {
+    policy: SnapshotSelectionPolicy;
+    time?: string; // latest: upper bound (default maxTimeGenerated), nearest: target time
+    minTime?: string; // window only
+    maxTime?: string; // window only
+    snapshotId?: string; // pinned only: OS disk snapshot resource ID
+}
+
+export interface VmSnapshotSelection extends SnapshotSelection {
+    vmName: string;
+}
+
+export type ExistingRestoreMode = 'skip' | 'adopt' | 'replace';
+
+// What to do if the quota of a region is not enough for the VMs of the batch: fail before creating anything, only report, or skip the check
+export type QuotaCheckMode = 'enforce' | 'warn' | 'skip';
+
+// Rules choosing the VM size restored instead of the source size (sizes are matched case-insensitively)
+export interface VmSizeMapping {
+    overrides?: { [sourceVmSize: string]: string }; // Explicit target size per source size
+    fallbacks?: { [vmSize: string]: string[] }; // Sizes tried in order when the size is not offered in the region or out of quota
+    familyFallback?: boolean; // Then try the other versions of the size, newest first (e.g. Standard_D4s_v3 -> Standard_D4s_v5)
+    drill?: { vCpuRatio?: number; minVCpus?: number }; // Downsize for drills: smallest size of the same family with at least vCpuRatio (0.5) x the vCPUs, and minVCpus (2)
+}
+
+// VM size restored for a source size and the rule that chose it
+export interface VmSizeResolution {
+    vmSize: string;
+    rule: 'source' | 'override' | 'drill' | 'fallback';
+    message?: string;
+}
+
+// What to do with the VMs blocked by the pre-flight validation: fail them before creating anything, only report, or skip the validation
+export type PreflightCheckMode = 'enforce' | 'warn' | 'skip';
+
+// Availability zone of the restored VMs: zone of the source VM, one zone for every VM, round-robin over zones, or regional
+export type ZonePlacementMode = 'source' | 'fixed' | 'spread' | 'regional';
+
+export interface ZonePlacement {
+    mode: ZonePlacementMode;
+    zone?: string; // fixed only: zone of every VM, e.g. '1'
+    zones?: string[]; // spread only: zones used in turn (default '1', '2', '3')
+    vmZones?: { [vmName: string]: string }; // Zone of specific VMs, overriding the mode ('' for regional)
 }
 
 export interface RecoverySnapshot {
@@ -23,6 +308,22 @@ export interface RecoverySnapshot {
     diskProfile: 'os-disk' | 'data-disk';
     ipAddress: string;
     securityType: string;
+    lun?: number; // Data disks only: LUN of the disk in the source VM
+    caching?: string; // Data disks only: host caching of the disk in the source VM
+    dataDiskSnapshots?: RecoverySnapshot[]; // OS disks only: data-disk snapshots from the same point in time
+    snapshotSelection?: string; // Selection policy that chose the snapshot
+    runId?: string; // Snapshot run of the smcp-recovery-info tag (if any)
+    vmGroup?: string; // VM group restored from the same snapshot run
+    zone?: string; // Availability zone of the source VM (smcp-recovery-info tag, none for regional VMs)
+    targetZone?: string; // OS disks only: availability zone of the restored VM and its disks (none: regional)
+    targetLocation?: string; // Cross-region restore: region of the target subnet, where the snapshot is copied and the VM restored
+    copyId?: string; // Cross-region restore: copy of the snapshot in targetLocation, the disk is created from it
+    sourceSubnetId?: string; // Subnet of the source VM (smcp-recovery-info tag)
+    targetSubnetId?: string; // OS disks only: target subnet assigned by the subnet distribution
+    targetVmName?: string; // OS disks only: name of the restored VM (naming templates)
+    targetNicName?: string; // OS disks only: name of the NIC of the restored VM (naming templates)
+    targetDiskName?: string; // Name of the restored disk (naming templates)
+    replacedResources?: CompensatedResource[]; // OS disks only: resources with the restored names, deleted before the restore (collision strategy 'replace')
 }
 
 export interface NewVmDetails {
@@ -31,18 +332,27 @@ export interface NewVmDetails {
     useOriginalIpAddress: boolean; // Whether to preserve original IP addresses
     sourceSnapshot: RecoverySnapshot;
     batchId: string;
+    compensationMode?: CompensationMode;
+    existingRestoreMode?: ExistingRestoreMode;
+    existingResources?: RecoveryResource[]; // Resources already restored from the same snapshot
+    vmSizeMapping?: VmSizeMapping;
 }
 
 export interface VmDisk {
     name: string;
     id: string;
     osType: "Windows" | "Linux";
+    lun?: number;
+    caching?: string;
+    adopted?: boolean; // Disk restored by a previous run (not deleted if the restore fails)
 }
 
 export interface VmInfo {
     name: string;
     id: string;
     ipAddress: string;
+    vmSize?: string; // Size of the restored VM (after the size mapping rules)
+    zone?: string; // Availability zone of the restored VM (none: regional)
 }
 
 export interface VmNic {
@@ -52,29 +362,102 @@ export interface VmNic {
 }
 
 export interface VmCreationPollMessage {
-    pollerUrl: string;
+    pollerUrl: string; // Serialized state of the VM creation poller (resumed by the VM creation poller)
     operationId: string;
     vmName: string;
     targetResourceGroup: string;
     sourceSnapshot: RecoverySnapshot;
     nicInfo: VmNic;
+    vmSize?: string; // Size of the VM being created (after the size mapping rules)
+    targetSubnetId?: string;
+    osDisk?: VmDisk;
+    dataDisks?: VmDisk[];
+    compensationMode?: CompensationMode;
     jobId: string;
     batchId: string;
     createdAt: string; // ISO datetime
     retryCount?: number;
 }
 
+// Poll message that can no longer be processed, moved to the dead-letter queue of the VM creation poller
+export interface VmPollDeadLetterMessage {
+    reason: string;
+    deadLetteredAt: string; // ISO datetime
+    retryCount?: number;
+    pollMessage?: VmCreationPollMessage;
+    rawMessage?: string; // Message text if it could not be parsed
+}
+
 export interface VmCreationResult {
     success: boolean;
     vmInfo?: VmInfo;
     pollerMessage?: VmCreationPollMessage;
     error?: string;
+    vmFailed?: boolean; // The VM creation itself failed (not only the status check)
+}
+
+export interface VmRestoreResult {
+    success: boolean;
+    vmName: string;
+    snapshotId: string;
+    snapshotName: string;
+    targetSubnetId?: string;
+    restoredVmName?: string; // Name of the restored VM, if not the source VM name
+    vmId?: string;
+    ipAddress?: string;
+    zone?: string; // Availability zone of the restored VM (none: regional)
+    jobId?: string;
+    operationId?: string; // Only for async VM creation (VM creation polling in progress)
+    message?: string;
+    existing?: boolean; // VM already restored from the same snapshot by a previous run
+    snapshotSelection?: string; // Selection policy that chose the snapshot
+    vmGroup?: string; // VM group restored from the same snapshot run
+    phases?: RestorePhaseResult[]; // Only for sync VM creation: restore phases with their durations
+}
+
+export type RestorePhase = 'disks' | 'nic' | 'vm' | 'verify';
+
+export interface RestorePhaseResult {
+    phase: RestorePhase;
+    status: 'succeeded' | 'failed';
+    startTime: string;
+    durationSeconds: number;
+    message?: string;
+}
+
+// Result of a restore phase activity: permanent failures are returned instead of thrown, so that they are not retried
+export interface RestorePhaseOutcome<T> {
+    value?: T;
+    permanentError?: string;
+}
+
+// Input of the restore phase activities, with the results of the previous phases
+export interface RestorePhaseInput {
+    vmDetails: NewVmDetails;
+    jobId: string;
+    osDisk?: VmDisk;
+    dataDisks?: VmDisk[];
+    nic?: VmNic;
+    vm?: VmInfo;
+}
+
+export interface RestoredDisks {
+    osDisk: VmDisk;
+    dataDisks: VmDisk[];
+}
+
+export interface CompensateRestoreInput {
+    vmDetails: NewVmDetails;
+    jobId: string;
+    resources: CompensatedResource[]; // Resources created by the completed (and failed) phases, in creation order
+    failedPhase: RestorePhase;
+    error: string;
 }
 
 export interface JobLogEntry {
     batchId: string;
     jobId: string;
-    jobOperation: 'VM Create Start' | 'VM Create End' | 'VM Create Polling' |'Error';
+    jobOperation: 'VM Planned' | 'VM Create Start' | 'VM Create End' | 'VM Create Polling' |'Error';
     jobStatus: 'Restore In Progress' | 'Restore Completed' | 'Restore Failed';
     jobType: 'Restore';
     message: string;
@@ -86,6 +469,33 @@ export interface JobLogEntry {
     diskProfile: 'os-disk' | 'data-disk';
     vmId?: string;
     ipAddress?: string;
+    compensation?: string; // JSON CompensationOutcome of a failed restore
+    restoredVmSize?: string; // Size of the restored VM when known (vmSize is the source size)
+    zone?: string; // Availability zone of the restored VM (none: regional)
+    subnetId?: string; // Subnet of the NIC of the restored VM
+}
+
+export interface BatchJobState {
+    vmName: string;
+    snapshotId: string; // OS disk snapshot selected by the batch
+    snapshotName: string;
+    jobStatus: JobLogEntry['jobStatus']; // Status of the last log entry of the VM
+    message: string;
+    completed: boolean; // Whether the VM reached 'Restore Completed'
+    started: boolean; // Whether the restore of the VM started (false: only planned by the batch)
+}
+
+export interface CompensatedResource {
+    type: 'vm' | 'nic' | 'disk';
+    name: string;
+    resourceGroup: string;
+}
+
+export interface CompensationOutcome {
+    mode: CompensationMode;
+    deleted: CompensatedResource[];
+    kept: CompensatedResource[];
+    failed: { resource: CompensatedResource; error: string }[];
 }
 
 export interface SubnetLocation {
@@ -93,12 +503,255 @@ export interface SubnetLocation {
     location: string;
 }
 
+// Target subnet of the VMs whose source VNet and subnet ('{vnetName}/{subnetName}') match a prefix or a regular expression
+export interface SubnetMappingRule {
+    match: 'prefix' | 'regex'; // Case-insensitive
+    pattern: string;
+    targetSubnetId: string; // One of the targetSubnetIds of the batch
+}
+
+// Handling of a restored name already used in the target resource group by a resource not restored from the same snapshot
+// ('replace' only replaces resources restored by a recovery)
+export type NameCollisionStrategy = 'suffix' | 'fail' | 'replace';
+
+// Name templates of the restored resources, with the tokens {vmName} (source VM), {batchId}, {date}, {index}, {diskProfile} and {lun}
+export interface RestoreNaming {
+    vmName?: string; // Default '{vmName}'
+    nicName?: string; // Default: restored VM name with '-nic'
+    diskName?: string; // Default: restored VM name, disk profile, LUN of the data disks and date
+    onCollision?: NameCollisionStrategy; // Default: fail
+}
+
+// Distribution of the VMs over the target subnets of a region: first subnet with free IP addresses, or the subnets in turn
+export type SubnetDistributionMode = 'fill-first' | 'round-robin';
+
+export interface SubnetMapping {
+    rules: SubnetMappingRule[]; // The first matching rule with a target subnet in the restore location is used
+    defaultSubnetId?: string; // Target subnet of the VMs matching no rule (default: first subnet in the restore location)
+}
+
 export interface RecoveryInfo {
     snapshots: RecoverySnapshot[];
     subnetLocations: SubnetLocation[];
+    snapshotSelection?: SnapshotSelection; // Batch selection with resolved times
+    failedGroups?: FailedVmGroup[]; // VM groups without a common snapshot run (none of their VMs is restored)
 }
 
 export interface TrackingInfo {
     batchId: string;
     jobId: string;
+    snapshotName?: string; // OS disk snapshot the VM was restored from (used to detect existing restores)
+}
+
+export interface BatchCancelRequest {
+    reason?: string;
+    rollback: boolean; // Whether to delete the disks, NICs and VMs already created for the batch
+}
+
+export interface BatchRollbackInput {
+    batchId: string;
+    targetResourceGroup: string;
+}
+
+export interface RecoveryResource {
+    id: string;
+    name: string;
+    type: string;
+    resourceGroup: string;
+    subscriptionId: string;
+    tracking: TrackingInfo;
+    sourceResourceId?: string; // Disks only: snapshot the disk was created from
+}
+
+export interface ExistingRestoresRequest {
+    targetResourceGroup: string;
+    subscriptionIds: string[];
+}
+
+export interface SubnetCapacityRequest {
+    subnetIds: string[];
+}
+
+export interface ResourceNamesRequest {
+    targetResourceGroup: string;
+    subscriptionIds: string[];
+}
+
+export interface BatchRollbackResult {
+    batchId: string;
+    deleted: RecoveryResource[];
+    failed: { resource: RecoveryResource; error: string }[];
+}
+
+export interface RecoveryPlanVm {
+    vmName: string;
+    snapshotId: string;
+    snapshotName: string;
+    snapshotTime: string;
+    location: string;
+    targetSubnetId: string;
+    ipAddress: string; // Original IP address or 'Dynamic'
+    vmSize: string;
+    securityType: string;
+    nicName: string;
+    osDiskName: string;
+    dataDiskNames: string[];
+    existingResources?: string[]; // Resources already restored from the same snapshot (adopted or replaced)
+    existingRestoreMode?: ExistingRestoreMode;
+    snapshotSelection?: string; // Selection policy that chose the snapshot
+    vmGroup?: string;
+    zone?: string; // Availability zone of the restored VM (none: regional)
+    diskSkus?: string[]; // SKUs of the OS and data disks
+    copiedFrom?: string; // Cross-region restore: region of the snapshots, copied to location before the restore
+    sourceSubnet?: string; // Source VNet and subnet ('{vnetName}/{subnetName}') of the subnet mapping rules
+    restoredVmName?: string; // Name of the restored VM, if not the source VM name
+    replacedResources?: CompensatedResource[]; // Resources with the restored names deleted before the restore
+}
+
+export interface RecoveryPlanSkippedVm {
+    vmName: string;
+    snapshotId: string;
+    snapshotName: string;
+    reason: string;
+}
+
+export interface RecoveryPlan {
+    batchId: string;
+    targetResourceGroup: string;
+    maxTimeGenerated: string;
+    vms: RecoveryPlanVm[];
+    skipped: RecoveryPlanSkippedVm[];
+    waves?: { name: string; vmNames: string[] }[]; // Restore order of the VMs
+    quota?: QuotaReport; // Quota pre-flight check of the VMs that would be restored
+    preflight?: PreflightReport; // Pre-flight validation of the VMs that would be restored
+}
+
+// Restore of the snapshots of regions without target subnet in the region of a target subnet, from copies (CopyStart)
+export interface CrossRegionRestore {
+    sourceRegions: string[]; // Regions of the snapshots to copy, searched in addition to the regions of the target subnets
+    targetRegions?: { [sourceRegion: string]: string }; // Region of the target subnets per source region (default: region of the first target subnet)
+    deleteCopies?: boolean; // Delete the copies at the end of the batch (default: false)
+}
+
+// Copy of a snapshot in the region of the target subnets
+export interface SnapshotCopy {
+    sourceSnapshotId: string;
+    copyName: string; // In the target resource group of the subscription of the snapshot
+    copyId?: string;
+    location: string;
+    status: 'copying' | 'completed' | 'failed';
+    completionPercent: number;
+    error?: string;
+}
+
+export interface SnapshotCopyInput {
+    batchId: string;
+    targetResourceGroup: string;
+    snapshots: RecoverySnapshot[]; // OS and data disk snapshots to copy (with their targetLocation)
+}
+
+// Progress of the snapshot copies, published by the snapshot copy orchestrator as its custom status
+export interface SnapshotCopyProgress {
+    total: number;
+    completed: number;
+    failed: number;
+    copying: number;
+    completionPercent: number; // Average of the copies
+    updatedAt: string; // ISO datetime
+}
+
+// vCPUs and disks needed by the VMs restored in a subscription and region
+export interface QuotaRequirement {
+    subscriptionId: string;
+    location: string;
+    vmSizes: { [vmSize: string]: number }; // VM count per size
+    diskSkus: { [diskSku: string]: number }; // OS and data disk count per SKU
+}
+
+export interface QuotaCheckRequest {
+    requirements: QuotaRequirement[];
+    vmSizeMapping?: VmSizeMapping; // The vCPUs are counted for the mapped sizes
+}
+
+// Compute usage of a subscription in a region (usage names like 'cores', 'standardDSv3Family' or 'PremiumDiskCount')
+export interface ComputeUsage {
+    name: string;
+    currentValue: number;
+    limit: number;
+}
+
+// VM size offered in a region (resource SKU)
+export interface VmSizeInfo {
+    name: string;
+    family: string; // Quota family, e.g. standardDSv3Family
+    vCpus: number;
+    zones?: string[]; // Availability zones of the region where the size is offered (none: not zonal)
+}
+
+export interface QuotaCheck {
+    quota: string; // Usage name
+    kind: 'vm family' | 'regional vcpus' | 'disks';
+    required: number;
+    currentValue?: number;
+    limit?: number;
+    available?: number;
+    status: 'pass' | 'fail' | 'unknown'; // unknown: no usage reported for the quota
+    details: string; // What the requirement is made of, e.g. "4 x Standard_D4s_v3 (16 vCPUs)"
+}
+
+export interface QuotaRegionReport {
+    subscriptionId: string;
+    location: string;
+    passed: boolean;
+    checks: QuotaCheck[];
+    unknownVmSizes: string[]; // VM sizes not offered in the region (their vCPUs are not counted)
+}
+
+export interface QuotaReport {
+    passed: boolean;
+    regions: QuotaRegionReport[];
+    shortfalls: string[]; // One message per failed check
+}
+
+export interface PreflightRequest {
+    targetResourceGroup: string;
+    useOriginalIpAddress: boolean;
+    vmSizeMapping?: VmSizeMapping;
+    vms: RecoveryPlanVm[]; // VMs that would be restored
+}
+
+// Address space of a target subnet
+export interface SubnetCapacity {
+    subnetId: string;
+    addressPrefixes: string[];
+    usedIpAddresses: number; // IP configurations in the subnet
+}
+
+// VM, NIC or disk of the target resource group
+export interface ResourceNameInfo {
+    type: string;
+    name: string;
+    snapshotName?: string; // Snapshot it was restored from (smcp-recovery tag), if restored
+}
+
+// State of the target environment read by the pre-flight validation
+export interface PreflightEnvironment {
+    subnets: SubnetCapacity[];
+    ipAddresses: { subnetId: string; ipAddress: string; available: boolean }[]; // Original IP addresses in the prefix of their subnet
+    resourceNames: { [subscriptionId: string]: ResourceNameInfo[] }; // VMs and NICs of the target resource group
+    vmSizes: { [scope: string]: VmSizeInfo[] }; // VM sizes offered per "{subscriptionId}/{region}"
+}
+
+export interface PreflightVmResult {
+    vmName: string;
+    snapshotId: string;
+    snapshotName: string;
+    errors: string[]; // Blocking: the VM is not restored (with preflightCheck 'enforce')
+    warnings: string[];
+}
+
+export interface PreflightReport {
+    passed: boolean; // No blocking error
+    blockedVms: number;
+    vms: PreflightVmResult[]; // VMs with errors or warnings
 }
@@ -0,0 +1,160 @@
+// Pre-flight validation - checks the target subnets, IP addresses, names and VM sizes before any VM is created
+
+import { PreflightEnvironment, PreflightReport, PreflightRequest, PreflightVmResult, RecoverySnapshot, VmRestoreResult } from './interfaces';
+import { extractSubscriptionIdFromResourceId } from './utils';
+import { RESOURCE_TYPE_NIC, RESOURCE_TYPE_VM } from './constants';
+import { resolveVmSize } from './vm-size-mapping';
+import { isZonalOnlyDiskSku } from './zone-placement';
+
+// Azure reserves the first four addresses and the last address of each subnet prefix
+const AZURE_RESERVED_ADDRESSES = 5;
+const DYNAMIC_IP_ADDRESS = 'Dynamic';
+
+/**
+ * Checks if an IPv4 address belongs to a CIDR prefix
+ */
+export function isIpInPrefix(ipAddress: string, prefix: string): boolean {
+    const [network, length] = prefix.split('/');
+    const address = ipv4ToNumber(ipAddress);
+    const networkAddress = ipv4ToNumber(network);
+    const prefixLength = parseInt(length);
+    if (address === undefined || networkAddress === undefined || isNaN(prefixLength)) {
+        return false;
+    }
+    const mask = prefixLength === 0 ? 0 : (~0 << (32 - prefixLength)) >>> 0;
+    return ((address & mask) >>> 0) === ((networkAddress & mask) >>> 0);
+}
+
+/**
+ * Usable addresses of a subnet (IPv4 prefixes only, without the addresses reserved by Azure)
+ */
+export function countUsableAddresses(addressPrefixes: string[]): number {
+    return addressPrefixes
+        .filter(prefix => ipv4ToNumber(prefix.split('/')[0]) !== undefined)
+        .reduce((total, prefix) => total + Math.max(0, Math.pow(2, 32 - parseInt(prefix.split('/')[1])) - AZURE_RESERVED_ADDRESSES), 0);
+}
+
+/**
+ * Validates the VMs of a restore plan against the target environment
+ * - Errors (blocking): VM size not offered in the region (or in the zone of the VM), zonal-only disk SKU of a regional VM,
+ *   original IP outside the subnet prefix or already in use,
+ *   VM or NIC name used by a resource not restored from the same snapshot, no free IP left in the subnet.
+ * - Warnings: original IP requested without an IP recorded for the VM, original IP possibly held by an existing restore.
+ * @param request VMs that would be restored
+ * @param environment Target subnets, IP addresses, resources and VM sizes
+ * @returns Report with the VMs that have errors or warnings
+ */
+export function validateTargetEnvironment(request: PreflightRequest, environment: PreflightEnvironment): PreflightReport {
+    const subnets = new Map(environment.subnets.map(subnet => [subnet.subnetId.toLowerCase(), subnet]));
+    const freeIpAddresses = new Map(environment.subnets.map(subnet => [subnet.subnetId.toLowerCase(), countUsableAddresses(subnet.addressPrefixes) - subnet.usedIpAddresses]));
+    const requestedIpAddresses = new Map<string, string>();
+
+    const results: PreflightVmResult[] = [];
+    for (const vm of request.vms) {
+        const result: PreflightVmResult = { vmName: vm.vmName, snapshotId: vm.snapshotId, snapshotName: vm.snapshotName, errors: [], warnings: [] };
+        const subscriptionId = extractSubscriptionIdFromResourceId(vm.snapshotId);
+        const subnetKey = vm.targetSubnetId.toLowerCase();
+        const subnet = subnets.get(subnetKey);
+
+        // VM size offered in the region (after the size mapping rules, the quota is checked separately)
+        const vmSizes = environment.vmSizes[`${subscriptionId}/${vm.location}`];
+        if (vmSizes) {
+            const vmSize = resolveVmSize(vm.vmSize, request.vmSizeMapping, vmSizes);
+            const size = vmSizes.find(size => size.name.toLowerCase() === vmSize.vmSize?.toLowerCase());
+            if (!size) {
+                result.errors.push(`VM size ${vmSize.vmSize} is not offered in ${vm.location} for subscription ${subscriptionId}`);
+            } else if (vm.zone && !size.zones?.includes(vm.zone)) {
+                result.errors.push(`VM size ${vmSize.vmSize} is not offered in zone ${vm.zone} of ${vm.location} for subscription ${subscriptionId}${size.zones?.length > 0 ? ` (zones ${size.zones.join(', ')})` : ''}`);
+            }
+            if (size && vmSize.rule !== 'source') {
+                result.warnings.push(vmSize.message);
+            }
+        }
+
+        // Zonal-only disk SKUs (Premium SSD v2, Ultra Disk) need a zone
+        const zonalOnlyDiskSkus = [...new Set((vm.diskSkus || []).filter(isZonalOnlyDiskSku))];
+        if (!vm.zone && zonalOnlyDiskSkus.length > 0) {
+            result.errors.push(`Disk SKU ${zonalOnlyDiskSkus.join(', ')} can only be restored in an availability zone, the VM has no zone`);
+        }
+
+        // Original IP address in the subnet prefix and free
+        if (request.useOriginalIpAddress && vm.ipAddress !== DYNAMIC_IP_ADDRESS) {
+            const ipKey = `${subnetKey}|${vm.ipAddress}`;
+            const availability = environment.ipAddresses.find(ip => ip.subnetId.toLowerCase() === subnetKey && ip.ipAddress === vm.ipAddress);
+            if (subnet && !subnet.addressPrefixes.some(prefix => isIpInPrefix(vm.ipAddress, prefix))) {
+                result.errors.push(`Original IP address ${vm.ipAddress} is not in the address prefixes of subnet ${subnet.subnetId} (${subnet.addressPrefixes.join(', ')})`);
+            } else if (requestedIpAddresses.has(ipKey)) {
+                result.errors.push(`Original IP address ${vm.ipAddress} is also requested by VM ${requestedIpAddresses.get(ipKey)}`);
+            } else if (availability && !availability.available) {
+                if (vm.existingResources?.length > 0) {
+                    result.warnings.push(`Original IP address ${vm.ipAddress} is in use, possibly by the existing restore (${vm.existingRestoreMode})`);
+                } else {
+                    result.errors.push(`Original IP address ${vm.ipAddress} is already in use in subnet ${vm.targetSubnetId}`);
+                }
+            }
+            requestedIpAddresses.set(ipKey, requestedIpAddresses.get(ipKey) || vm.vmName);
+        } else if (request.useOriginalIpAddress) {
+            result.warnings.push('No original IP address recorded for the VM, a dynamic IP address will be assigned');
+        }
+
+        // Free IP addresses left in the subnet (in the order of the plan)
+        if (subnet) {
+            const free = freeIpAddresses.get(subnetKey);
+            if (free <= 0) {
+                result.errors.push(`No free IP address left in subnet ${subnet.subnetId} for the VMs of the batch`);
+            }
+            freeIpAddresses.set(subnetKey, free - 1);
+        }
+
+        // VM and NIC names not used by other resources of the target resource group (except the ones replaced by the restore)
+        const resources = environment.resourceNames[subscriptionId] || [];
+        for (const [type, name, description, replacedType] of [[RESOURCE_TYPE_VM, vm.restoredVmName || vm.vmName, 'VM', 'vm'], [RESOURCE_TYPE_NIC, vm.nicName, 'NIC', 'nic']]) {
+            const conflict = resources.find(resource => resource.type.toLowerCase() === type && resource.name.toLowerCase() === name.toLowerCase());
+            const replaced = vm.replacedResources?.some(resource => resource.type === replacedType && resource.name.toLowerCase() === name.toLowerCase());
+            if (conflict && !replaced && conflict.snapshotName?.toLowerCase() !== vm.snapshotName.toLowerCase()) {
+                result.errors.push(`${description} name ${name} is already used in resource group ${request.targetResourceGroup}${conflict.snapshotName ? ` by a restore of snapshot ${conflict.snapshotName}` : ''}`);
+            }
+        }
+
+        if (result.errors.length > 0 || result.warnings.length > 0) {
+            results.push(result);
+        }
+    }
+
+    const blockedVms = results.filter(result => result.errors.length > 0).length;
+    return { passed: blockedVms === 0, blockedVms, vms: results };
+}
+
+/**
+ * Failed results of the VMs blocked by the pre-flight validation
+ * The other members of the VM group of a blocked VM fail with it (a group is restored from the same snapshot run or not at all).
+ * @param report Pre-flight validation report
+ * @param snapshots OS disk snapshots of the batch
+ * @returns Failed results, one per VM not restored
+ */
+export function blockedPreflightResults(report: PreflightReport, snapshots: RecoverySnapshot[]): VmRestoreResult[] {
+    const blocked = new Map(report.vms.filter(result => result.errors.length > 0).map(result => [result.vmName, result]));
+    const blockedGroups = new Set(snapshots.filter(snapshot => blocked.has(snapshot.vmName) && snapshot.vmGroup).map(snapshot => snapshot.vmGroup));
+
+    return snapshots
+        .filter(snapshot => blocked.has(snapshot.vmName) || blockedGroups.has(snapshot.vmGroup))
+        .map(snapshot => ({
+            success: false,
+            vmName: snapshot.vmName,
+            snapshotId: snapshot.id,
+            snapshotName: snapshot.snapshotName,
+            snapshotSelection: snapshot.snapshotSelection,
+            vmGroup: snapshot.vmGroup,
+            message: blocked.has(snapshot.vmName)
+                ? `Pre-flight validation failed: ${blocked.get(snapshot.vmName).errors.join('; ')}`
+                : `Pre-flight validation failed for another member of VM group ${snapshot.vmGroup}`
+        }));
+}
+
+function ipv4ToNumber(ipAddress: string): number | undefined {
+    const octets = (ipAddress || '').split('.').map(octet => Number(octet));
+    if (octets.length !== 4 || octets.some(octet => !Number.isInteger(octet) || octet < 0 || octet > 255)) {
+        return undefined;
+    }
+    return octets.reduce((value, octet) => value * 256 + octet, 0);
+}
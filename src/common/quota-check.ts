@@ -0,0 +1,137 @@
+// Quota check - vCPUs per VM family and disks per SKU needed by a batch, compared with the compute usage of each region
+
+import { ComputeUsage, QuotaCheck, QuotaRegionReport, QuotaReport, QuotaRequirement, RecoverySnapshot, VmSizeInfo, VmSizeMapping } from './interfaces';
+import { extractSubscriptionIdFromResourceId } from './utils';
+import { resolveVmSize } from './vm-size-mapping';
+import { getRestoreLocation } from './cross-region';
+
+const REGIONAL_VCPUS_USAGE = 'cores';
+const DEFAULT_DISK_SKU = 'Standard_LRS';
+
+// Compute usage counting the managed disks of each disk SKU
+const DISK_SKU_USAGES: { [diskSku: string]: string } = {
+    'standard_lrs': 'StandardDiskCount',
+    'standardssd_lrs': 'StandardSSDDiskCount',
+    'standardssd_zrs': 'StandardSSDZRSDiskCount',
+    'premium_lrs': 'PremiumDiskCount',
+    'premium_zrs': 'PremiumZRSDiskCount',
+    'premiumv2_lrs': 'PremiumV2DiskCount',
+    'ultrassd_lrs': 'UltraSSDDiskCount'
+};
+
+/**
+ * Totals the VM sizes and disk SKUs of the snapshots to restore per subscription and region
+ * @param snapshots OS disk snapshots of the VMs to restore (with their data disk snapshots)
+ * @returns One requirement per subscription and region, in the order of the snapshots
+ */
+export function buildQuotaRequirements(snapshots: RecoverySnapshot[]): QuotaRequirement[] {
+    const requirements = new Map<string, QuotaRequirement>();
+    for (const snapshot of snapshots) {
+        const subscriptionId = extractSubscriptionIdFromResourceId(snapshot.id);
+        const location = getRestoreLocation(snapshot);
+        const key = `${subscriptionId}/${location}`;
+        if (!requirements.has(key)) {
+            requirements.set(key, { subscriptionId, location, vmSizes: {}, diskSkus: {} });
+        }
+        const requirement = requirements.get(key);
+        requirement.vmSizes[snapshot.vmSize] = (requirement.vmSizes[snapshot.vmSize] || 0) + 1;
+        for (const disk of [snapshot, ...(snapshot.dataDiskSnapshots || [])]) {
+            const diskSku = disk.diskSku || DEFAULT_DISK_SKU;
+            requirement.diskSkus[diskSku] = (requirement.diskSkus[diskSku] || 0) + 1;
+        }
+    }
+    return [...requirements.values()];
+}
+
+/**
+ * Compares the requirement of a subscription and region with its compute usage and quota
+ * - One check per VM family (vCPUs), one for the regional vCPUs and one per disk SKU (disk count).
+ * - A quota without reported usage is 'unknown' and does not fail the region.
+ * - With size mapping rules the vCPUs of the mapped sizes are counted (each size is mapped on its own, so fallbacks
+ *   chosen for the quota of one size do not take the vCPUs of the others into account).
+ * @param requirement VM sizes and disk SKUs to restore
+ * @param usages Compute usage of the subscription in the region
+ * @param vmSizes VM sizes offered in the region
+ * @param vmSizeMapping Size mapping rules of the batch
+ * @returns Report of the region
+ */
+export function evaluateQuota(requirement: QuotaRequirement, usages: ComputeUsage[], vmSizes: VmSizeInfo[], vmSizeMapping?: VmSizeMapping): QuotaRegionReport {
+    const usagesByName = new Map(usages.map(usage => [usage.name.toLowerCase(), usage]));
+    const sizesByName = new Map(vmSizes.map(size => [size.name.toLowerCase(), size]));
+
+    // vCPUs per VM family
+    const families = new Map<string, { vCpus: number; sizes: string[] }>();
+    const unknownVmSizes: string[] = [];
+    let totalVCpus = 0;
+    for (const [sourceVmSize, count] of Object.entries(requirement.vmSizes)) {
+        const vmSize = resolveVmSize(sourceVmSize, vmSizeMapping, vmSizes, usages).vmSize;
+        const size = sizesByName.get(vmSize.toLowerCase());
+        if (!size) {
+            unknownVmSizes.push(vmSize);
+            continue;
+        }
+        if (!families.has(size.family)) {
+            families.set(size.family, { vCpus: 0, sizes: [] });
+        }
+        const family = families.get(size.family);
+        family.vCpus += count * size.vCpus;
+        family.sizes.push(`${count} x ${size.name} (${count * size.vCpus} vCPUs)`);
+        totalVCpus += count * size.vCpus;
+    }
+
+    const checks: QuotaCheck[] = [];
+    for (const [familyName, family] of families) {
+        checks.push(buildCheck(familyName, 'vm family', family.vCpus, usagesByName.get(familyName.toLowerCase()), family.sizes.join(', ')));
+    }
+    if (totalVCpus > 0) {
+        checks.push(buildCheck(REGIONAL_VCPUS_USAGE, 'regional vcpus', totalVCpus, usagesByName.get(REGIONAL_VCPUS_USAGE), `${totalVCpus} vCPUs in ${families.size} VM families`));
+    }
+
+    // Disk count per SKU
+    for (const [diskSku, count] of Object.entries(requirement.diskSkus)) {
+        const usageName = DISK_SKU_USAGES[diskSku.toLowerCase()] || `${diskSku} disks`;
+        checks.push(buildCheck(usageName, 'disks', count, usagesByName.get(usageName.toLowerCase()), `${count} x ${diskSku} disks`));
+    }
+
+    return {
+        subscriptionId: requirement.subscriptionId,
+        location: requirement.location,
+        passed: checks.every(check => check.status !== 'fail'),
+        checks,
+        unknownVmSizes
+    };
+}
+
+/**
+ * Combines the reports of the regions (the check passes if every region passes)
+ */
+export function summarizeQuotaReport(regions: QuotaRegionReport[]): QuotaReport {
+    const shortfalls: string[] = [];
+    for (const region of regions) {
+        for (const check of region.checks.filter(check => check.status === 'fail')) {
+            shortfalls.push(`${region.location} (subscription ${region.subscriptionId}): ${check.quota} needs ${check.required}, ${check.available} available of ${check.limit} (${check.details})`);
+        }
+    }
+    return {
+        passed: shortfalls.length === 0,
+        regions,
+        shortfalls
+    };
+}
+
+function buildCheck(quota: string, kind: QuotaCheck['kind'], required: number, usage: ComputeUsage | undefined, details: string): QuotaCheck {
+    if (!usage) {
+        return { quota, kind, required, status: 'unknown', details };
+    }
+    const available = Math.max(0, usage.limit - usage.currentValue);
+    return {
+        quota,
+        kind,
+        required,
+        currentValue: usage.currentValue,
+        limit: usage.limit,
+        available,
+        status: required <= available ? 'pass' : 'fail',
+        details
+    };
+}
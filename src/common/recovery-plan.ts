@@ -0,0 +1,95 @@
+// Recovery plan - describes what a RecoveryBatch would restore without creating any resource
+
+import { RecoveryBatch, RecoveryInfo, RecoveryPlan, RecoveryPlanVm, RecoveryPlanSkippedVm, RecoveryResource } from './interfaces';
+import { findSubnetForSnapshot, getSourceSubnet, noSubnetFoundMessage } from './subnet-utils';
+import { getRestoredDiskName, getRestoredNicName } from './restore-naming';
+import { describeExistingResources, resolveExistingRestore } from './existing-restore-utils';
+import { planRestoreWaves } from './restore-waves';
+import { getRestoreLocation } from './cross-region';
+
+/**
+ * Builds the restore plan for a recovery batch
+ * @param input Recovery batch
+ * @param recoveryInfo Snapshots and subnet locations returned by getSnapshotsActivity
+ * @param planDate Date used to generate the disk names (orchestration time for deterministic replays)
+ * @param existingRestores Resources already restored by a previous run, by lower case snapshot name
+ * @returns Plan with the VMs that would be restored and the snapshots that would be skipped
+ */
+export function buildRecoveryPlan(input: RecoveryBatch, recoveryInfo: RecoveryInfo, planDate: Date, existingRestores: Map<string, RecoveryResource[]> = new Map()): RecoveryPlan {
+    const existingRestoreMode = input.existingRestoreMode || 'skip';
+    const vms: RecoveryPlanVm[] = [];
+    const skipped: RecoveryPlanSkippedVm[] = [];
+
+    for (const snapshot of recoveryInfo.snapshots) {
+        const matchingSubnet = findSubnetForSnapshot(snapshot, recoveryInfo.subnetLocations, input.subnetMapping);
+        if (!matchingSubnet) {
+            skipped.push({
+                vmName: snapshot.vmName,
+                snapshotId: snapshot.id,
+                snapshotName: snapshot.snapshotName,
+                reason: noSubnetFoundMessage(snapshot)
+            });
+            continue;
+        }
+
+        const existingResources = existingRestores.get(snapshot.snapshotName.toLowerCase()) || [];
+        const existingResult = resolveExistingRestore(snapshot, matchingSubnet.subnetId, existingResources, existingRestoreMode);
+        if (existingResult) {
+            skipped.push({
+                vmName: snapshot.vmName,
+                snapshotId: snapshot.id,
+                snapshotName: snapshot.snapshotName,
+                reason: existingResult.message
+            });
+            continue;
+        }
+
+        vms.push({
+            vmName: snapshot.vmName,
+            snapshotId: snapshot.id,
+            snapshotName: snapshot.snapshotName,
+            snapshotTime: snapshot.timeCreated,
+            location: getRestoreLocation(snapshot),
+            targetSubnetId: matchingSubnet.subnetId,
+            ipAddress: input.useOriginalIpAddress && snapshot.ipAddress ? snapshot.ipAddress : 'Dynamic',
+            vmSize: snapshot.vmSize,
+            securityType: snapshot.securityType,
+            nicName: getRestoredNicName(snapshot),
+            osDiskName: getRestoredDiskName(snapshot, planDate),
+            dataDiskNames: (snapshot.dataDiskSnapshots || []).map(dataDisk => getRestoredDiskName(dataDisk, planDate)),
+            existingResources: existingResources.length > 0 ? describeExistingResources(existingResources) : undefined,
+            existingRestoreMode: existingResources.length > 0 ? existingRestoreMode : undefined,
+            snapshotSelection: snapshot.snapshotSelection,
+            vmGroup: snapshot.vmGroup,
+            zone: snapshot.targetZone,
+            diskSkus: [snapshot, ...(snapshot.dataDiskSnapshots || [])].map(disk => disk.diskSku),
+            copiedFrom: snapshot.targetLocation ? snapshot.location : undefined,
+            sourceSubnet: input.subnetMapping ? getSourceSubnet(snapshot) : undefined,
+            restoredVmName: snapshot.targetVmName,
+            replacedResources: snapshot.replacedResources
+        });
+    }
+
+    // VM groups without a common snapshot run
+    for (const group of recoveryInfo.failedGroups || []) {
+        for (const vmName of group.vmNames) {
+            skipped.push({ vmName, snapshotId: null, snapshotName: null, reason: group.reason });
+        }
+    }
+
+    // Restore order of the VMs that would be restored
+    const plannedVms = vms.map(vm => vm.vmName);
+    const waves = input.waves?.length > 0
+        ? planRestoreWaves(input.waves, recoveryInfo.snapshots.filter(snapshot => plannedVms.includes(snapshot.vmName)))
+            .map(wave => ({ name: wave.name, vmNames: wave.snapshots.map(snapshot => snapshot.vmName) }))
+        : undefined;
+
+    return {
+        batchId: input.batchId,
+        targetResourceGroup: input.targetResourceGroup,
+        maxTimeGenerated: input.maxTimeGenerated,
+        vms,
+        skipped,
+        waves
+    };
+}
@@ -0,0 +1,176 @@
+// Restore naming - names of the restored VMs, NICs and disks from name templates, with the collision strategy of the batch
+
+import { CompensatedResource, RecoverySnapshot, ResourceNameInfo, RestoreNaming, VmRestoreResult } from './interfaces';
+import { buildDiskName, buildNicName, extractSubscriptionIdFromResourceId, formatDateYYYYMMDDTHHMM } from './utils';
+import { RESOURCE_TYPE_DISK, RESOURCE_TYPE_NIC, RESOURCE_TYPE_VM } from './constants';
+
+type NamedResourceType = CompensatedResource['type'];
+
+// Azure naming rules of VMs, NICs and managed disks: letters, digits, underscores, periods and hyphens,
+// starting with a letter or a digit and ending with a letter, a digit or an underscore
+const AZURE_NAME = /^[a-z0-9]([a-z0-9_.-]*[a-z0-9_])?$/i;
+const AZURE_NAME_CHARACTERS = /^[a-z0-9_.-]*$/i;
+const NAME_TOKEN = /\{(\w+)\}/g;
+const VM_NAME_TOKENS = ['vmName', 'batchId', 'date', 'index'];
+const DISK_NAME_TOKENS = [...VM_NAME_TOKENS, 'diskProfile', 'lun'];
+
+const NAMED_RESOURCES: { [type in NamedResourceType]: { resourceType: string; maxLength: number; description: string } } = {
+    vm: { resourceType: RESOURCE_TYPE_VM, maxLength: 64, description: 'VM' },
+    nic: { resourceType: RESOURCE_TYPE_NIC, maxLength: 80, description: 'NIC' },
+    disk: { resourceType: RESOURCE_TYPE_DISK, maxLength: 80, description: 'Disk' }
+};
+
+/**
+ * Name of the restored VM of an OS disk snapshot
+ */
+export function getRestoredVmName(snapshot: RecoverySnapshot): string {
+    return snapshot.targetVmName || snapshot.vmName;
+}
+
+/**
+ * Name of the NIC of the restored VM of an OS disk snapshot
+ */
+export function getRestoredNicName(snapshot: RecoverySnapshot): string {
+    return snapshot.targetNicName || buildNicName(getRestoredVmName(snapshot));
+}
+
+/**
+ * Name of the disk restored from an OS or data disk snapshot
+ * @param disk OS or data disk snapshot
+ * @param date Date of the default name
+ */
+export function getRestoredDiskName(disk: RecoverySnapshot, date: Date): string {
+    return disk.targetDiskName || buildDiskName(disk, date);
+}
+
+/**
+ * Validates a name template: known tokens and characters allowed in Azure names
+ * @param template Name template
+ * @param type Resource named by the template ({diskProfile} and {lun} are only allowed in disk names)
+ * @returns Validation errors (empty if the template is valid)
+ */
+export function validateNameTemplate(template: any, type: NamedResourceType): string[] {
+    if (typeof template !== 'string' || template.length === 0) {
+        return ['must be a non-empty string'];
+    }
+    const errors: string[] = [];
+    const tokens = type === 'disk' ? DISK_NAME_TOKENS : VM_NAME_TOKENS;
+    const unknownTokens = (template.match(NAME_TOKEN) || []).map(match => match.slice(1, -1)).filter(token => !tokens.includes(token));
+    if (unknownTokens.length > 0) {
+        errors.push(`has unknown tokens ${unknownTokens.map(token => `{${token}}`).join(', ')} (allowed: ${tokens.map(token => `{${token}}`).join(', ')})`);
+    }
+    if (!AZURE_NAME_CHARACTERS.test(template.replace(NAME_TOKEN, ''))) {
+        errors.push('may only contain letters, digits, underscores, periods, hyphens and tokens');
+    }
+    return errors;
+}
+
+/**
+ * Assigns the names of the restored VMs, NICs and disks of the snapshots from the name templates of the batch
+ * - The names must follow the Azure naming rules and length limits (64 characters for VMs, 80 for NICs and disks).
+ * - A name used in the target resource group by a resource not restored from the same snapshot, or by another VM
+ *   of the batch, is a collision: 'suffix' appends -1, -2... until the name is free, 'fail' fails the VM and
+ *   'replace' deletes the resource before the restore (only resources restored by a recovery are replaced, names of
+ *   other resources or of another VM of the batch fail the VM).
+ * The other members of the VM group of a failed VM fail with it.
+ * @param snapshots OS disk snapshots to restore, with their data disk snapshots
+ * @param naming Name templates and collision strategy of the batch
+ * @param resourceNames VMs, NICs and disks of the target resource group, per subscription
+ * @param targetResourceGroup Target resource group
+ * @param batchId Batch Id ({batchId} token)
+ * @param date Date of the batch ({date} token)
+ * @returns Snapshots with the names of their restored resources, and the failed results of the VMs without valid names
+ */
+export function assignRestoreNames(snapshots: RecoverySnapshot[], naming: RestoreNaming, resourceNames: { [subscriptionId: string]: ResourceNameInfo[] },
+    targetResourceGroup: string, batchId: string, date: Date): { snapshots: RecoverySnapshot[]; failures: VmRestoreResult[] } {
+
+    const strategy = naming.onCollision || 'fail';
+    const usedNames = new Map<string, { snapshotName?: string; batchVmName?: string }>();
+    const nameKey = (subscriptionId: string, resourceType: string, name: string): string => `${subscriptionId}|${resourceType}|${name}`.toLowerCase();
+    for (const [subscriptionId, resources] of Object.entries(resourceNames)) {
+        resources.forEach(resource => usedNames.set(nameKey(subscriptionId, resource.type, resource.name), { snapshotName: resource.snapshotName }));
+    }
+
+    const named: RecoverySnapshot[] = [];
+    const errors = new Map<string, string[]>();
+    snapshots.forEach((snapshot, index) => {
+        const subscriptionId = extractSubscriptionIdFromResourceId(snapshot.id);
+        const tokens: { [token: string]: string } = { vmName: snapshot.vmName, batchId, date: formatDateYYYYMMDDTHHMM(date), index: String(index + 1) };
+        const vmErrors: string[] = [];
+        const replacedResources: CompensatedResource[] = [];
+
+        // Name of a resource of the VM, after the collision strategy
+        const claim = (type: NamedResourceType, name: string): string => {
+            const resource = NAMED_RESOURCES[type];
+            if (name.length > resource.maxLength || !AZURE_NAME.test(name)) {
+                vmErrors.push(`${resource.description} name ${name} is not a valid Azure name (letters, digits, underscores, periods and hyphens, starting with a letter or a digit, ending with a letter, a digit or an underscore, up to ${resource.maxLength} characters)`);
+                return name;
+            }
+            const findConflict = (candidate: string) => {
+                const used = usedNames.get(nameKey(subscriptionId, resource.resourceType, candidate));
+                return used && used.snapshotName?.toLowerCase() !== snapshot.snapshotName.toLowerCase() ? used : undefined;
+            };
+
+            let claimedName = name;
+            const conflict = findConflict(name);
+            if (conflict && strategy === 'suffix') {
+                for (let suffix = 1; findConflict(claimedName); suffix++) {
+                    claimedName = `${name.substring(0, resource.maxLength - `-${suffix}`.length)}-${suffix}`;
+                }
+            } else if (conflict && strategy === 'replace' && !conflict.batchVmName && conflict.snapshotName) {
+                replacedResources.push({ type, name, resourceGroup: targetResourceGroup });
+            } else if (conflict) {
+                vmErrors.push(`${resource.description} name ${name} is already used in resource group ${targetResourceGroup}${conflict.batchVmName ? ` by VM ${conflict.batchVmName} of the batch` : conflict.snapshotName ? ` by a restore of snapshot ${conflict.snapshotName}` : strategy === 'replace' ? ' by a resource not restored by a recovery, which is not replaced' : ''}`);
+            }
+            usedNames.set(nameKey(subscriptionId, resource.resourceType, claimedName), { snapshotName: snapshot.snapshotName, batchVmName: snapshot.vmName });
+            return claimedName;
+        };
+
+        const vmName = claim('vm', renderName(naming.vmName || '{vmName}', tokens));
+        const nicName = claim('nic', naming.nicName ? renderName(naming.nicName, tokens) : buildNicName(vmName));
+        const diskNames = [snapshot, ...(snapshot.dataDiskSnapshots || [])].map(disk => claim('disk', naming.diskName
+            ? renderDiskName(naming.diskName, disk, tokens)
+            : buildDiskName({ ...disk, vmName }, date)));
+
+        if (vmErrors.length > 0) {
+            errors.set(snapshot.vmName, vmErrors);
+            return;
+        }
+        named.push({
+            ...snapshot,
+            targetVmName: vmName,
+            targetNicName: nicName,
+            targetDiskName: diskNames[0],
+            dataDiskSnapshots: snapshot.dataDiskSnapshots?.map((dataDisk, diskIndex) => ({ ...dataDisk, targetDiskName: diskNames[diskIndex + 1] })),
+            replacedResources: replacedResources.length > 0 ? replacedResources : undefined
+        });
+    });
+
+    const failedGroups = new Set(snapshots.filter(snapshot => errors.has(snapshot.vmName) && snapshot.vmGroup).map(snapshot => snapshot.vmGroup));
+    return {
+        snapshots: named.filter(snapshot => !failedGroups.has(snapshot.vmGroup)),
+        failures: snapshots
+            .filter(snapshot => errors.has(snapshot.vmName) || failedGroups.has(snapshot.vmGroup))
+            .map(snapshot => ({
+                success: false,
+                vmName: snapshot.vmName,
+                snapshotId: snapshot.id,
+                snapshotName: snapshot.snapshotName,
+                snapshotSelection: snapshot.snapshotSelection,
+                vmGroup: snapshot.vmGroup,
+                message: errors.has(snapshot.vmName)
+                    ? `Naming failed: ${errors.get(snapshot.vmName).join('; ')}`
+                    : `Naming failed for another member of VM group ${snapshot.vmGroup}`
+            }))
+    };
+}
+
+function renderName(template: string, tokens: { [token: string]: string }): string {
+    return template.replace(NAME_TOKEN, (match, token) => tokens[token] ?? match);
+}
+
+// Data disk names without {lun} get the LUN suffix, so that the disks of a VM keep distinct names
+function renderDiskName(template: string, disk: RecoverySnapshot, tokens: { [token: string]: string }): string {
+    const name = renderName(template, { ...tokens, diskProfile: disk.diskProfile, lun: String(disk.lun ?? '') });
+    return disk.diskProfile === 'data-disk' && !template.includes('{lun}') ? `${name}-lun${disk.lun}` : name;
+}
@@ -0,0 +1,77 @@
+// Restore transaction - tracks the resources created while restoring a VM and compensates them on failure
+
+import { ILogger } from './logger';
+import { CompensatedResource, CompensationMode, CompensationOutcome } from './interfaces';
+import { _getString } from './apperror';
+
+interface CompensationStep {
+    resource: CompensatedResource;
+    compensate: () => Promise<void>;
+}
+
+export class RestoreTransaction {
+
+    private steps: CompensationStep[] = [];
+
+    constructor(private logger: ILogger) {}
+
+    /**
+     * Registers a created resource together with the step that deletes it
+     * @param resource Resource created (or being created) by the restore
+     * @param compensate Step that deletes the resource (must succeed if the resource does not exist)
+     */
+    public register(resource: CompensatedResource, compensate: () => Promise<void>): void {
+        this.steps.push({ resource, compensate });
+    }
+
+    public get resources(): CompensatedResource[] {
+        return this.steps.map(step => step.resource);
+    }
+
+    /**
+     * Runs the compensation steps in reverse order of creation (VM, then NIC, then disks)
+     * @param mode 'delete' to delete the resources or 'keep' to only report them
+     * @returns Outcome with the deleted, kept and failed resources
+     */
+    public async compensate(mode: CompensationMode = 'delete'): Promise<CompensationOutcome> {
+        const outcome: CompensationOutcome = {
+            mode,
+            deleted: [],
+            kept: [],
+            failed: []
+        };
+
+        if (mode === 'keep') {
+            outcome.kept = this.resources;
+            if (outcome.kept.length > 0) {
+                this.logger.warn(`Keeping ${outcome.kept.length} partial resources: ${outcome.kept.map(r => `${r.type} ${r.name}`).join(', ')}`);
+            }
+            return outcome;
+        }
+
+        for (const step of [...this.steps].reverse()) {
+            try {
+                await step.compensate();
+                outcome.deleted.push(step.resource);
+            } catch (error) {
+                this.logger.error(`Failed to delete partial ${step.resource.type} ${step.resource.name}: ${_getString(error)}`);
+                outcome.failed.push({ resource: step.resource, error: _getString(error) });
+            }
+        }
+
+        this.logger.info(`Compensation completed: ${outcome.deleted.length} partial resources deleted, ${outcome.failed.length} failed`);
+        return outcome;
+    }
+
+}
+
+/**
+ * Short description of a compensation outcome for log messages
+ */
+export function describeCompensationOutcome(outcome: CompensationOutcome): string {
+    if (outcome.mode === 'keep') {
+        return `kept ${outcome.kept.length} partial resources`;
+    }
+    const failed = outcome.failed.length > 0 ? `, failed to delete ${outcome.failed.map(f => `${f.resource.type} ${f.resource.name}`).join(', ')}` : '';
+    return `deleted ${outcome.deleted.length} partial resources${failed}`;
+}
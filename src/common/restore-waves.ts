@@ -0,0 +1,37 @@
+// Restore waves - ordered groups of VMs restored one after the other, each gated on the health of the previous one
+
+import { RecoverySnapshot, RestoreWave } from './interfaces';
+
+export interface PlannedWave {
+    name: string;
+    snapshots: RecoverySnapshot[];
+    healthGate: boolean; // Wait for the VMs of the wave to be running with the guest agent ready before the next wave
+    delayAfterSeconds: number; // Fixed delay after the wave (and its health gate) before the next wave
+}
+
+export const DEFAULT_WAVE_NAME = 'default';
+
+/**
+ * Splits the snapshots into the waves of the request, in order.
+ * VMs without a wave are restored in a last default wave (without health gate).
+ * Without waves in the request all the VMs are restored in the default wave, as a single restore.
+ * @param waves Waves of the request
+ * @param snapshots OS disk snapshots to restore
+ * @returns Waves with their snapshots (waves without snapshots are kept to report them)
+ */
+export function planRestoreWaves(waves: RestoreWave[] | undefined, snapshots: RecoverySnapshot[]): PlannedWave[] {
+    const plannedWaves: PlannedWave[] = (waves || []).map(wave => ({
+        name: wave.name,
+        snapshots: snapshots.filter(snapshot => wave.vmNames.includes(snapshot.vmName)),
+        healthGate: wave.healthGate !== false,
+        delayAfterSeconds: wave.delayAfterSeconds || 0
+    }));
+
+    const wavedVms = new Set((waves || []).flatMap(wave => wave.vmNames));
+    const remaining = snapshots.filter(snapshot => !wavedVms.has(snapshot.vmName));
+    if (remaining.length > 0 || plannedWaves.length === 0) {
+        plannedWaves.push({ name: DEFAULT_WAVE_NAME, snapshots: remaining, healthGate: false, delayAfterSeconds: 0 });
+    }
+
+    return plannedWaves;
+}
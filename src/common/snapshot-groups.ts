@@ -0,0 +1,111 @@
+// Snapshot groups - picks the snapshots of a VM group from the same snapshot run (crash-consistent restore)
+
+import { FailedVmGroup, RecoverySnapshot, SnapshotSelection, VmGroup, VmRestoreResult } from './interfaces';
+
+export interface VmGroupRun {
+    snapshots: RecoverySnapshot[]; // One OS disk snapshot per member
+    runId?: string; // Run ID of the smcp-recovery-info tag (runs matched on timestamps have none)
+    runTime: number; // Most recent snapshot time of the run (ms)
+}
+
+/**
+ * Finds the snapshot run of a VM group: the members' OS disk snapshots with the same run ID or,
+ * if the snapshots have no run ID, taken within toleranceSeconds of each other
+ * - With the 'latest' and 'window' selection policies the most recent run is selected.
+ * - With the 'nearest' selection policy the run closest to the selection time is selected.
+ * @param group VM group
+ * @param candidates OS disk snapshots of the members allowed by the selection
+ * @param selection Batch selection with resolved times
+ * @param toleranceSeconds Maximum time between the snapshots of a run without run ID
+ * @returns Run of the group, or an error message if a member has no snapshot of a common run
+ */
+export function findVmGroupRun(group: VmGroup, candidates: RecoverySnapshot[], selection: SnapshotSelection, toleranceSeconds: number): VmGroupRun | { error: string } {
+    const snapshotsByVm = new Map<string, RecoverySnapshot[]>();
+    for (const vmName of group.vmNames) {
+        snapshotsByVm.set(vmName, candidates.filter(snapshot => snapshot.vmName === vmName));
+    }
+
+    const missingVms = group.vmNames.filter(vmName => snapshotsByVm.get(vmName).length === 0);
+    if (missingVms.length > 0) {
+        return { error: `No snapshot found for ${missingVms.join(', ')} of VM group ${group.name}` };
+    }
+
+    // Runs with a run ID shared by all members take precedence over runs matched on timestamps
+    let runs = findRunsById(group, snapshotsByVm);
+    if (runs.length === 0) {
+        runs = findRunsByTime(group, snapshotsByVm, toleranceSeconds * 1000);
+    }
+    if (runs.length === 0) {
+        return { error: `No snapshot run with all the members of VM group ${group.name} (same run ID or within ${toleranceSeconds}s)` };
+    }
+
+    if (selection.policy === 'nearest') {
+        const target = new Date(selection.time).getTime();
+        return runs.reduce((nearest, run) => Math.abs(run.runTime - target) < Math.abs(nearest.runTime - target) ? run : nearest);
+    }
+    return runs.reduce((latest, run) => run.runTime > latest.runTime ? run : latest);
+}
+
+/**
+ * Short description of the run of a VM group (echoed as the snapshot selection of its members)
+ */
+export function describeVmGroupRun(group: VmGroup, run: VmGroupRun): string {
+    return run.runId
+        ? `group ${group.name} run ${run.runId}`
+        : `group ${group.name} snapshots at ${new Date(run.runTime).toISOString()}`;
+}
+
+/**
+ * Failed results of the VMs of the groups without a common snapshot run (no VM of the group is restored)
+ */
+export function failedVmGroupResults(failedGroups: FailedVmGroup[]): VmRestoreResult[] {
+    return (failedGroups || []).flatMap(group => group.vmNames.map(vmName => ({
+        success: false,
+        vmName: vmName,
+        snapshotId: null,
+        snapshotName: null,
+        vmGroup: group.name,
+        message: group.reason
+    })));
+}
+
+// Runs whose run ID has a snapshot for every member (latest snapshot of the run per member)
+function findRunsById(group: VmGroup, snapshotsByVm: Map<string, RecoverySnapshot[]>): VmGroupRun[] {
+    const runIds = [...new Set(snapshotsByVm.get(group.vmNames[0]).map(snapshot => snapshot.runId).filter(runId => !!runId))];
+
+    const runs: VmGroupRun[] = [];
+    for (const runId of runIds) {
+        const snapshots = group.vmNames.map(vmName => latest(snapshotsByVm.get(vmName).filter(snapshot => snapshot.runId === runId)));
+        if (snapshots.every(snapshot => !!snapshot)) {
+            runs.push({ snapshots, runId, runTime: Math.max(...snapshots.map(time)) });
+        }
+    }
+    return runs;
+}
+
+// Runs anchored on each candidate snapshot time, with the closest snapshot of every member within the tolerance
+function findRunsByTime(group: VmGroup, snapshotsByVm: Map<string, RecoverySnapshot[]>, toleranceMs: number): VmGroupRun[] {
+    const anchorTimes = [...new Set([].concat(...snapshotsByVm.values()).map(time))];
+
+    const runs: VmGroupRun[] = [];
+    for (const anchorTime of anchorTimes) {
+        const snapshots = group.vmNames.map(vmName => closest(snapshotsByVm.get(vmName), anchorTime));
+        const times = snapshots.map(time);
+        if (Math.max(...times) - Math.min(...times) <= toleranceMs) {
+            runs.push({ snapshots, runTime: Math.max(...times) });
+        }
+    }
+    return runs;
+}
+
+function time(snapshot: RecoverySnapshot): number {
+    return new Date(snapshot.timeCreated).getTime();
+}
+
+function latest(snapshots: RecoverySnapshot[]): RecoverySnapshot | undefined {
+    return snapshots.length > 0 ? snapshots.reduce((a, b) => time(b) > time(a) ? b : a) : undefined;
+}
+
+function closest(snapshots: RecoverySnapshot[], target: number): RecoverySnapshot {
+    return snapshots.reduce((a, b) => Math.abs(time(b) - target) < Math.abs(time(a) - target) ? b : a);
+}
@@ -0,0 +1,142 @@
+// Snapshot selection - policies choosing the OS disk snapshot restored for each VM
+
+import { SnapshotSelection, VmSnapshotSelection } from './interfaces';
+
+const SELECTION_POLICIES = ['latest', 'nearest', 'window', 'pinned'];
+const RELATIVE_TIME_PATTERN = /^-(\d+)([mhd])$/;
+const RELATIVE_TIME_UNIT_SECONDS = { m: 60, h: 3600, d: 86400 };
+
+/**
+ * Resolves a selection time expression into an ISO datetime
+ * @param expression ISO datetime, 'latest' (now) or relative time before now ('-30m', '-6h', '-2d')
+ * @param now Reference time of the relative expressions
+ * @returns ISO datetime or undefined if the expression is not valid
+ */
+export function resolveSelectionTime(expression: string, now: Date): string | undefined {
+    if (typeof expression !== 'string' || expression.trim() === '') {
+        return undefined;
+    }
+
+    const value = expression.trim().toLowerCase();
+    if (value === 'latest') {
+        return now.toISOString();
+    }
+
+    const relative = RELATIVE_TIME_PATTERN.exec(value);
+    if (relative) {
+        const seconds = parseInt(relative[1]) * RELATIVE_TIME_UNIT_SECONDS[relative[2]];
+        return new Date(now.getTime() - seconds * 1000).toISOString();
+    }
+
+    const date = new Date(expression);
+    return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+/**
+ * Validates a snapshot selection (policy and the fields it requires)
+ * @param selection Snapshot selection to validate
+ * @param field Name of the field in the error messages
+ * @returns Validation errors (empty if valid)
+ */
+export function validateSnapshotSelection(selection: any, field: string): string[] {
+    if (!selection || typeof selection !== 'object') {
+        return [`${field} must be an object`];
+    }
+    if (!SELECTION_POLICIES.includes(selection.policy)) {
+        return [`${field}.policy must be one of ${SELECTION_POLICIES.map(policy => `'${policy}'`).join(', ')}`];
+    }
+
+    const errors: string[] = [];
+    const now = new Date();
+    const checkTime = (name: string, required: boolean) => {
+        if (selection[name] === undefined) {
+            if (required) {
+                errors.push(`${field}.${name} is required for the '${selection.policy}' policy`);
+            }
+        } else if (!resolveSelectionTime(selection[name], now)) {
+            errors.push(`${field}.${name} must be an ISO datetime, 'latest' or a relative time like '-6h'`);
+        }
+    };
+
+    switch (selection.policy) {
+        case 'latest':
+            checkTime('time', false);
+            break;
+        case 'nearest':
+            checkTime('time', true);
+            break;
+        case 'window':
+            checkTime('minTime', true);
+            checkTime('maxTime', true);
+            if (errors.length === 0 && resolveSelectionTime(selection.minTime, now) > resolveSelectionTime(selection.maxTime, now)) {
+                errors.push(`${field}.minTime must be before ${field}.maxTime`);
+            }
+            break;
+        case 'pinned':
+            if (typeof selection.snapshotId !== 'string' || !selection.snapshotId.toLowerCase().includes('/providers/microsoft.compute/snapshots/')) {
+                errors.push(`${field}.snapshotId must be a snapshot resource ID for the 'pinned' policy`);
+            }
+            break;
+    }
+
+    return errors;
+}
+
+/**
+ * Resolves the time expressions of a selection into ISO datetimes
+ * @param selection Snapshot selection (defaults to the latest snapshot at or before maxTimeGenerated)
+ * @param maxTimeGenerated Upper bound of the 'latest' policy when no time is given
+ * @param now Reference time of the relative expressions
+ * @returns Selection with absolute times only
+ */
+export function resolveSnapshotSelection<T extends SnapshotSelection>(selection: T | undefined, maxTimeGenerated: string, now: Date): T {
+    const resolved = { ...(selection || { policy: 'latest' }) } as T;
+
+    switch (resolved.policy) {
+        case 'latest':
+            resolved.time = resolveSelectionTime(resolved.time || maxTimeGenerated, now);
+            break;
+        case 'nearest':
+            resolved.time = resolveSelectionTime(resolved.time, now);
+            break;
+        case 'window':
+            resolved.minTime = resolveSelectionTime(resolved.minTime, now);
+            resolved.maxTime = resolveSelectionTime(resolved.maxTime, now);
+            break;
+    }
+
+    return resolved;
+}
+
+/**
+ * Short description of a resolved selection (echoed in the results and used to group the VMs sharing a selection)
+ */
+export function describeSnapshotSelection(selection: SnapshotSelection): string {
+    switch (selection.policy) {
+        case 'latest':
+            return `latest at or before ${selection.time}`;
+        case 'nearest':
+            return `nearest to ${selection.time}`;
+        case 'window':
+            return `latest between ${selection.minTime} and ${selection.maxTime}`;
+        case 'pinned':
+            return `pinned ${selection.snapshotId}`;
+    }
+}
+
+/**
+ * Groups the per-VM selections (other than pinned) sharing the same resolved selection
+ * @returns VM names by selection description
+ */
+export function groupVmSnapshotSelections(vmSelections: VmSnapshotSelection[]): Map<string, { selection: SnapshotSelection, vmNames: string[] }> {
+    const groups = new Map<string, { selection: SnapshotSelection, vmNames: string[] }>();
+    for (const vmSelection of vmSelections) {
+        const key = describeSnapshotSelection(vmSelection);
+        if (!groups.has(key)) {
+            const { vmName, ...selection } = vmSelection;
+            groups.set(key, { selection, vmNames: [] });
+        }
+        groups.get(key).vmNames.push(vmSelection.vmName);
+    }
+    return groups;
+}
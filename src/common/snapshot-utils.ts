@@ -0,0 +1,70 @@
+// Snapshot utilities for grouping and selecting the snapshots used to restore a VM
+
+import { ILogger } from './logger';
+import { RecoverySnapshot } from './interfaces';
+
+/**
+ * Groups the snapshots of each VM into a single OS disk snapshot carrying its data disk snapshots
+ * - For each VM the most recent OS disk snapshot is the anchor for the restore point.
+ * - For each data disk LUN the snapshot closest in time to the OS disk snapshot is selected.
+ * - Data disk snapshots without a LUN get the next free LUN.
+ * - Data disk snapshots of VMs without an OS disk snapshot are discarded.
+ * @param snapshots Flat list of OS and data disk snapshots
+ * @param logger Logger instance
+ * @returns OS disk snapshots with the matching data disk snapshots in dataDiskSnapshots
+ */
+export function groupSnapshotsByVm(snapshots: RecoverySnapshot[], logger: ILogger): RecoverySnapshot[] {
+    const snapshotsByVm = new Map<string, RecoverySnapshot[]>();
+    for (const snapshot of snapshots) {
+        const vmSnapshots = snapshotsByVm.get(snapshot.vmName) || [];
+        vmSnapshots.push(snapshot);
+        snapshotsByVm.set(snapshot.vmName, vmSnapshots);
+    }
+
+    const grouped: RecoverySnapshot[] = [];
+    for (const [vmName, vmSnapshots] of snapshotsByVm) {
+        const osDiskSnapshots = vmSnapshots.filter(s => s.diskProfile === 'os-disk');
+        if (osDiskSnapshots.length === 0) {
+            logger.warn(`Skipping ${vmSnapshots.length} data disk snapshot(s) of VM ${vmName}: no OS disk snapshot found`);
+            continue;
+        }
+
+        // Most recent OS disk snapshot is the restore point
+        const osDisk = osDiskSnapshots.reduce((latest, s) => snapshotTime(s) > snapshotTime(latest) ? s : latest);
+        const osTime = snapshotTime(osDisk);
+
+        // Closest data disk snapshot per LUN
+        const dataDisksByLun = new Map<number, RecoverySnapshot>();
+        const dataDisksWithoutLun: RecoverySnapshot[] = [];
+        for (const dataDisk of vmSnapshots.filter(s => s.diskProfile === 'data-disk')) {
+            if (!Number.isInteger(dataDisk.lun)) {
+                dataDisksWithoutLun.push(dataDisk);
+                continue;
+            }
+            const current = dataDisksByLun.get(dataDisk.lun);
+            if (!current || Math.abs(snapshotTime(dataDisk) - osTime) < Math.abs(snapshotTime(current) - osTime)) {
+                dataDisksByLun.set(dataDisk.lun, dataDisk);
+            }
+        }
+
+        for (const dataDisk of dataDisksWithoutLun) {
+            let lun = 0;
+            while (dataDisksByLun.has(lun)) {
+                lun++;
+            }
+            logger.warn(`Data disk snapshot ${dataDisk.snapshotName} of VM ${vmName} has no LUN, attaching it to LUN ${lun}`);
+            dataDisksByLun.set(lun, { ...dataDisk, lun });
+        }
+
+        grouped.push({
+            ...osDisk,
+            dataDiskSnapshots: [...dataDisksByLun.values()].sort((a, b) => a.lun - b.lun)
+        });
+    }
+
+    return grouped;
+}
+
+function snapshotTime(snapshot: RecoverySnapshot): number {
+    return new Date(snapshot.timeCreated).getTime();
+}
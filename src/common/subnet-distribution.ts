@@ -0,0 +1,68 @@
+// Subnet distribution - spreads the VMs of a region over its target subnets by free IP addresses
+
+import { RecoverySnapshot, SubnetCapacity, SubnetDistributionMode, SubnetLocation, SubnetMapping } from './interfaces';
+import { findMappedSubnet, listLocationSubnets } from './subnet-utils';
+import { countUsableAddresses } from './preflight-validation';
+import { getRestoreLocation } from './cross-region';
+
+/**
+ * Target subnets whose capacity is needed to distribute the snapshots (regions with several target subnets)
+ */
+export function listSubnetsToDistribute(snapshots: RecoverySnapshot[], subnetLocations: SubnetLocation[]): string[] {
+    const subnetIds = new Set<string>();
+    for (const snapshot of snapshots) {
+        const locationSubnets = listLocationSubnets(snapshot, subnetLocations);
+        if (locationSubnets.length > 1) {
+            locationSubnets.forEach(subnetLocation => subnetIds.add(subnetLocation.subnetId));
+        }
+    }
+    return [...subnetIds];
+}
+
+/**
+ * Assigns the target subnet (targetSubnetId) of the VMs not mapped by a subnet mapping rule, among the subnets of their region
+ * - 'fill-first' (default): first subnet with a free IP address left, in the order of targetSubnetIds.
+ * - 'round-robin': the subnets with a free IP address left in turn.
+ * The VMs mapped by a rule take the IP addresses of their subnet first. When no subnet of the region has a free
+ * IP address left the VM gets the first one (the pre-flight validation reports it).
+ * @param snapshots OS disk snapshots of the VMs to restore, in the restore order
+ * @param subnetLocations Target subnets with their locations
+ * @param capacities Address space of the target subnets (a subnet without capacity is considered free)
+ * @param mode Distribution mode of the batch
+ * @param subnetMapping Subnet mapping rules of the batch
+ * @returns Snapshots, with a target subnet for the ones of regions with several subnets
+ */
+export function distributeSubnets(snapshots: RecoverySnapshot[], subnetLocations: SubnetLocation[], capacities: SubnetCapacity[], mode: SubnetDistributionMode = 'fill-first', subnetMapping?: SubnetMapping): RecoverySnapshot[] {
+    const freeIpAddresses = new Map(capacities.map(capacity => [capacity.subnetId.toLowerCase(), countUsableAddresses(capacity.addressPrefixes) - capacity.usedIpAddresses]));
+    const hasFreeIpAddress = (subnetId: string): boolean => (freeIpAddresses.get(subnetId.toLowerCase()) ?? 1) > 0;
+    const useIpAddress = (subnetId: string): void => {
+        if (freeIpAddresses.has(subnetId.toLowerCase())) {
+            freeIpAddresses.set(subnetId.toLowerCase(), freeIpAddresses.get(subnetId.toLowerCase()) - 1);
+        }
+    };
+
+    // VMs mapped by a rule
+    const mappedSubnets = new Map(snapshots.map(snapshot => [snapshot.id, findMappedSubnet(snapshot, listLocationSubnets(snapshot, subnetLocations), subnetMapping)]));
+    for (const subnet of mappedSubnets.values()) {
+        if (subnet) {
+            useIpAddress(subnet.subnetId);
+        }
+    }
+
+    // Other VMs of the regions with several subnets
+    const nextSubnet = new Map<string, number>();
+    return snapshots.map(snapshot => {
+        const locationSubnets = listLocationSubnets(snapshot, subnetLocations);
+        if (locationSubnets.length <= 1 || mappedSubnets.get(snapshot.id)) {
+            return snapshot;
+        }
+
+        const location = getRestoreLocation(snapshot);
+        const start = mode === 'round-robin' ? nextSubnet.get(location) || 0 : 0;
+        const candidates = [...locationSubnets.slice(start), ...locationSubnets.slice(0, start)];
+        const subnet = candidates.find(candidate => hasFreeIpAddress(candidate.subnetId)) || locationSubnets[0];
+        nextSubnet.set(location, (locationSubnets.indexOf(subnet) + 1) % locationSubnets.length);
+        useIpAddress(subnet.subnetId);
+        return { ...snapshot, targetSubnetId: subnet.subnetId };
+    });
+}
@@ -0,0 +1,77 @@
+// Subnet utilities for choosing the target subnet of a restored VM
+
+import { RecoverySnapshot, SubnetLocation, SubnetMapping, SubnetMappingRule } from './interfaces';
+import { getRestoreLocation } from './cross-region';
+
+const SOURCE_SUBNET_PATH = /\/virtualNetworks\/([^/]+)\/subnets\/([^/]+)/i;
+
+/**
+ * Finds the target subnet for a snapshot, among the subnets in the same location as the snapshot (or as its copy)
+ * - Subnet assigned by the subnet distribution.
+ * - With subnet mapping rules: subnet of the first rule matching the source VNet/subnet, or the default subnet.
+ * - Otherwise, or if the mapped subnet is in another location: first subnet in the location.
+ * @param snapshot Snapshot to restore
+ * @param subnetLocations Target subnets with their locations
+ * @param subnetMapping Subnet mapping rules of the batch
+ * @returns Matching subnet or undefined if there is no subnet in the snapshot location
+ */
+export function findSubnetForSnapshot(snapshot: RecoverySnapshot, subnetLocations: SubnetLocation[], subnetMapping?: SubnetMapping): SubnetLocation | undefined {
+    const locationSubnets = listLocationSubnets(snapshot, subnetLocations);
+    return findSubnet(locationSubnets, snapshot.targetSubnetId)
+        || findMappedSubnet(snapshot, locationSubnets, subnetMapping)
+        || locationSubnets[0];
+}
+
+/**
+ * Target subnets in the restore location of a snapshot, in the order of targetSubnetIds
+ */
+export function listLocationSubnets(snapshot: RecoverySnapshot, subnetLocations: SubnetLocation[]): SubnetLocation[] {
+    return subnetLocations.filter(subnetLocation => subnetLocation.location === getRestoreLocation(snapshot));
+}
+
+/**
+ * Subnet of the first subnet mapping rule matching the source VNet/subnet of a snapshot, or the default subnet
+ * @param snapshot Snapshot to restore
+ * @param locationSubnets Target subnets in the restore location of the snapshot
+ * @param subnetMapping Subnet mapping rules of the batch
+ * @returns Mapped subnet or undefined if no rule (or default) has a subnet in the location
+ */
+export function findMappedSubnet(snapshot: RecoverySnapshot, locationSubnets: SubnetLocation[], subnetMapping?: SubnetMapping): SubnetLocation | undefined {
+    if (!subnetMapping) {
+        return undefined;
+    }
+    const sourceSubnet = getSourceSubnet(snapshot);
+    const rule = (subnetMapping.rules || []).find(rule => matchesSubnetRule(rule, sourceSubnet) && findSubnet(locationSubnets, rule.targetSubnetId));
+    return rule ? findSubnet(locationSubnets, rule.targetSubnetId) : findSubnet(locationSubnets, subnetMapping.defaultSubnetId);
+}
+
+/**
+ * Source VNet and subnet of a snapshot ('{vnetName}/{subnetName}' of the subnet ID in the smcp-recovery-info tag)
+ */
+export function getSourceSubnet(snapshot: RecoverySnapshot): string | undefined {
+    const match = SOURCE_SUBNET_PATH.exec(snapshot.sourceSubnetId || '');
+    return match ? `${match[1]}/${match[2]}` : undefined;
+}
+
+/**
+ * Checks if a source VNet/subnet matches a subnet mapping rule (snapshots without source subnet match no rule)
+ */
+export function matchesSubnetRule(rule: SubnetMappingRule, sourceSubnet: string | undefined): boolean {
+    if (!sourceSubnet) {
+        return false;
+    }
+    return rule.match === 'regex'
+        ? new RegExp(rule.pattern, 'i').test(sourceSubnet)
+        : sourceSubnet.toLowerCase().startsWith(rule.pattern.toLowerCase());
+}
+
+/**
+ * Reason reported when no subnet is found for a snapshot
+ */
+export function noSubnetFoundMessage(snapshot: RecoverySnapshot): string {
+    return `No subnet found in location ${snapshot.location} for snapshot ${snapshot.snapshotName}`;
+}
+
+function findSubnet(subnets: SubnetLocation[], subnetId: string | undefined): SubnetLocation | undefined {
+    return subnetId ? subnets.find(subnetLocation => subnetLocation.subnetId.toLowerCase() === subnetId.toLowerCase()) : undefined;
+}
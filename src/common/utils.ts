@@ -1,3 +1,5 @@
+import { RecoverySnapshot } from './interfaces';
+
 
 // Generate GUID
 // This function generates a random GUID (Globally Unique Identifier) in the format xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx
@@ -9,6 +11,16 @@ export function generateGuid(): string {
     });
 }
 
+// Whether a value is a GUID in the format xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx (e.g. a batch Id)
+export function isGuid(value: any): boolean {
+    return typeof value === 'string' && /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value);
+}
+
+// Whether a value is a valid resource group name (1 to 90 letters, digits, '_', '-', '.', '(' or ')', not ending with '.')
+export function isResourceGroupName(value: any): boolean {
+    return typeof value === 'string' && /^[\w\-.()]{0,89}[\w\-()]$/.test(value);
+}
+
 export function formatDateYYYYMMDDTHHMMSS(date: Date): string {
     const pad = (n: number) => n.toString().padStart(2, '0');
     return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}T${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
@@ -24,6 +36,17 @@ export function formatDateYYYYMMDD(date: Date): string {
     return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
 }
 
+// Name of the disk restored from a snapshot (data disks carry the LUN to keep names unique)
+export function buildDiskName(snapshot: RecoverySnapshot, date: Date): string {
+    const lunSuffix = snapshot.diskProfile === 'data-disk' ? `-lun${snapshot.lun}` : '';
+    return `${snapshot.vmName}-${snapshot.diskProfile}${lunSuffix}-${formatDateYYYYMMDDTHHMM(date)}`;
+}
+
+// Name of the network interface of a restored VM
+export function buildNicName(vmName: string): string {
+    return `${vmName}-nic`;
+}
+
 export function extractResourceGroupFromResourceId(resourceId: string): string | null {
     if (!resourceId) {
         return null;
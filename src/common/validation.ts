@@ -2,6 +2,9 @@
 // This module provides runtime type checking for TypeScript interfaces
 
 import { RecoveryBatch } from './interfaces';
+import { validateSnapshotSelection } from './snapshot-selection';
+import { validateNameTemplate } from './restore-naming';
+import { isGuid } from './utils';
 
 
 /**
@@ -17,7 +20,312 @@ export function isBatchOrchestratorInput(obj: any): obj is RecoveryBatch {
            typeof obj.maxTimeGenerated === 'string' &&
            typeof obj.useOriginalIpAddress === 'boolean' &&
            typeof obj.waitForVmCreationCompletion === 'boolean' &&
-           (obj.vmFilter === undefined || Array.isArray(obj.vmFilter));
+           (obj.vmFilter === undefined || Array.isArray(obj.vmFilter)) &&
+           (obj.dryRun === undefined || typeof obj.dryRun === 'boolean') &&
+           (obj.waitForVmCreationOutcomes === undefined || typeof obj.waitForVmCreationOutcomes === 'boolean') &&
+           (obj.compensationMode === undefined || ['delete', 'keep'].includes(obj.compensationMode)) &&
+           (obj.existingRestoreMode === undefined || ['skip', 'adopt', 'replace'].includes(obj.existingRestoreMode)) &&
+           (obj.retryBatchId === undefined || isGuid(obj.retryBatchId)) &&
+           (obj.quotaCheck === undefined || ['enforce', 'warn', 'skip'].includes(obj.quotaCheck)) &&
+           (obj.preflightCheck === undefined || ['enforce', 'warn', 'skip'].includes(obj.preflightCheck)) &&
+           (obj.subnetDistribution === undefined || ['fill-first', 'round-robin'].includes(obj.subnetDistribution)) &&
+           getSnapshotSelectionErrors(obj).length === 0 &&
+           getVmGroupErrors(obj).length === 0 &&
+           getWaveErrors(obj).length === 0 &&
+           getVmSizeMappingErrors(obj).length === 0 &&
+           getZonePlacementErrors(obj).length === 0 &&
+           getCrossRegionErrors(obj).length === 0 &&
+           getSubnetMappingErrors(obj).length === 0 &&
+           getNamingErrors(obj).length === 0;
+}
+
+/**
+ * Validates the name templates of a RecoveryBatch (tokens and characters, the names are validated when assigned)
+ * @param obj The object to validate
+ * @returns Validation errors (empty if the templates are valid or not provided)
+ */
+export function getNamingErrors(obj: any): string[] {
+  const naming = obj.naming;
+  if (naming === undefined) {
+    return [];
+  }
+  if (!naming || typeof naming !== 'object' || Array.isArray(naming)) {
+    return ['naming must be an object if provided'];
+  }
+
+  const errors: string[] = [];
+  for (const [field, type] of [['vmName', 'vm'], ['nicName', 'nic'], ['diskName', 'disk']] as const) {
+    if (naming[field] !== undefined) {
+      errors.push(...validateNameTemplate(naming[field], type).map(error => `naming.${field} ${error}`));
+    }
+  }
+  if (naming.onCollision !== undefined && !['suffix', 'fail', 'replace'].includes(naming.onCollision)) {
+    errors.push("naming.onCollision must be 'suffix', 'fail' or 'replace' if provided");
+  }
+  return errors;
+}
+
+/**
+ * Validates the subnet mapping rules of a RecoveryBatch (the target subnets must be target subnets of the batch)
+ * @param obj The object to validate
+ * @returns Validation errors (empty if the rules are valid or not provided)
+ */
+export function getSubnetMappingErrors(obj: any): string[] {
+  const mapping = obj.subnetMapping;
+  if (mapping === undefined) {
+    return [];
+  }
+  if (!mapping || typeof mapping !== 'object' || Array.isArray(mapping)) {
+    return ['subnetMapping must be an object if provided'];
+  }
+
+  const targetSubnetIds = Array.isArray(obj.targetSubnetIds) ? obj.targetSubnetIds.map((subnetId: any) => String(subnetId).toLowerCase()) : [];
+  const isTargetSubnet = (subnetId: any): boolean => typeof subnetId === 'string' && targetSubnetIds.includes(subnetId.toLowerCase());
+  const errors: string[] = [];
+  if (!Array.isArray(mapping.rules)) {
+    return ['subnetMapping.rules must be an array'];
+  }
+  mapping.rules.forEach((rule: any, index: number) => {
+    if (!rule || typeof rule !== 'object') {
+      errors.push(`subnetMapping.rules[${index}] must be an object`);
+      return;
+    }
+    if (!['prefix', 'regex'].includes(rule.match)) {
+      errors.push(`subnetMapping.rules[${index}].match must be 'prefix' or 'regex'`);
+    }
+    if (typeof rule.pattern !== 'string' || rule.pattern.length === 0) {
+      errors.push(`subnetMapping.rules[${index}].pattern must be a non-empty string`);
+    } else if (rule.match === 'regex') {
+      try {
+        new RegExp(rule.pattern, 'i');
+      } catch (error) {
+        errors.push(`subnetMapping.rules[${index}].pattern is not a valid regular expression: ${error.message}`);
+      }
+    }
+    if (!isTargetSubnet(rule.targetSubnetId)) {
+      errors.push(`subnetMapping.rules[${index}].targetSubnetId must be one of targetSubnetIds`);
+    }
+  });
+  if (mapping.defaultSubnetId !== undefined && !isTargetSubnet(mapping.defaultSubnetId)) {
+    errors.push('subnetMapping.defaultSubnetId must be one of targetSubnetIds if provided');
+  }
+  return errors;
+}
+
+/**
+ * Validates the cross-region restore of a RecoveryBatch
+ * @param obj The object to validate
+ * @returns Validation errors (empty if the cross-region restore is valid or not provided)
+ */
+export function getCrossRegionErrors(obj: any): string[] {
+  const crossRegion = obj.crossRegion;
+  if (crossRegion === undefined) {
+    return [];
+  }
+  if (!crossRegion || typeof crossRegion !== 'object' || Array.isArray(crossRegion)) {
+    return ['crossRegion must be an object if provided'];
+  }
+
+  const errors: string[] = [];
+  if (!Array.isArray(crossRegion.sourceRegions) || crossRegion.sourceRegions.length === 0 ||
+      !crossRegion.sourceRegions.every((region: any) => typeof region === 'string' && region.length > 0)) {
+    errors.push('crossRegion.sourceRegions must be a non-empty array of region names');
+  }
+  if (crossRegion.targetRegions !== undefined && (!crossRegion.targetRegions || typeof crossRegion.targetRegions !== 'object' ||
+      Array.isArray(crossRegion.targetRegions) || !Object.values(crossRegion.targetRegions).every(region => typeof region === 'string' && region.length > 0))) {
+    errors.push('crossRegion.targetRegions must map source regions to target region names if provided');
+  }
+  if (crossRegion.deleteCopies !== undefined && typeof crossRegion.deleteCopies !== 'boolean') {
+    errors.push('crossRegion.deleteCopies must be a boolean if provided');
+  }
+  return errors;
+}
+
+/**
+ * Validates the zone placement of a RecoveryBatch
+ * @param obj The object to validate
+ * @returns Validation errors (empty if the placement is valid or not provided)
+ */
+export function getZonePlacementErrors(obj: any): string[] {
+  const placement = obj.zonePlacement;
+  if (placement === undefined) {
+    return [];
+  }
+  if (!placement || typeof placement !== 'object' || Array.isArray(placement)) {
+    return ['zonePlacement must be an object if provided'];
+  }
+
+  const isZone = (zone: any): boolean => typeof zone === 'string' && /^[1-9]$/.test(zone);
+  const errors: string[] = [];
+  if (!['source', 'fixed', 'spread', 'regional'].includes(placement.mode)) {
+    errors.push("zonePlacement.mode must be 'source', 'fixed', 'spread' or 'regional'");
+  }
+  if (placement.mode === 'fixed' && !isZone(placement.zone)) {
+    errors.push("zonePlacement.zone must be a zone number (e.g. '1') with the 'fixed' mode");
+  }
+  if (placement.zones !== undefined && (!Array.isArray(placement.zones) || placement.zones.length === 0 || !placement.zones.every(isZone))) {
+    errors.push("zonePlacement.zones must be a non-empty array of zone numbers (e.g. ['1', '2']) if provided");
+  }
+  if (placement.vmZones !== undefined && (typeof placement.vmZones !== 'object' || Array.isArray(placement.vmZones) ||
+      !Object.values(placement.vmZones || {}).every(zone => zone === '' || isZone(zone)))) {
+    errors.push("zonePlacement.vmZones must map VM names to zone numbers ('' for regional)");
+  }
+  return errors;
+}
+
+/**
+ * Validates the VM size mapping rules of a RecoveryBatch
+ * @param obj The object to validate
+ * @returns Validation errors (empty if the rules are valid or not provided)
+ */
+export function getVmSizeMappingErrors(obj: any): string[] {
+  const mapping = obj.vmSizeMapping;
+  if (mapping === undefined) {
+    return [];
+  }
+  if (!mapping || typeof mapping !== 'object' || Array.isArray(mapping)) {
+    return ['vmSizeMapping must be an object if provided'];
+  }
+
+  const errors: string[] = [];
+  if (mapping.overrides !== undefined && (typeof mapping.overrides !== 'object' || Array.isArray(mapping.overrides) ||
+      !Object.values(mapping.overrides || {}).every(vmSize => typeof vmSize === 'string' && vmSize.trim() !== ''))) {
+    errors.push('vmSizeMapping.overrides must map source VM sizes to VM sizes');
+  }
+  if (mapping.fallbacks !== undefined && (typeof mapping.fallbacks !== 'object' || Array.isArray(mapping.fallbacks) ||
+      !Object.values(mapping.fallbacks || {}).every(vmSizes => Array.isArray(vmSizes) && vmSizes.every(vmSize => typeof vmSize === 'string')))) {
+    errors.push('vmSizeMapping.fallbacks must map VM sizes to arrays of VM sizes');
+  }
+  if (mapping.familyFallback !== undefined && typeof mapping.familyFallback !== 'boolean') {
+    errors.push('vmSizeMapping.familyFallback must be a boolean if provided');
+  }
+  if (mapping.drill !== undefined) {
+    const drill = mapping.drill;
+    if (!drill || typeof drill !== 'object') {
+      errors.push('vmSizeMapping.drill must be an object if provided');
+    } else {
+      if (drill.vCpuRatio !== undefined && (typeof drill.vCpuRatio !== 'number' || drill.vCpuRatio <= 0 || drill.vCpuRatio > 1)) {
+        errors.push('vmSizeMapping.drill.vCpuRatio must be a number greater than 0 and at most 1 if provided');
+      }
+      if (drill.minVCpus !== undefined && (!Number.isInteger(drill.minVCpus) || drill.minVCpus < 1)) {
+        errors.push('vmSizeMapping.drill.minVCpus must be a positive integer if provided');
+      }
+    }
+  }
+  return errors;
+}
+
+/**
+ * Validates the restore waves of a RecoveryBatch
+ * @param obj The object to validate
+ * @returns Validation errors (empty if the waves are valid or not provided)
+ */
+export function getWaveErrors(obj: any): string[] {
+  if (obj.waves === undefined) {
+    return [];
+  }
+  if (!Array.isArray(obj.waves)) {
+    return ['waves must be an array if provided'];
+  }
+
+  const errors: string[] = [];
+  const wavedVms = new Set<string>();
+  obj.waves.forEach((wave: any, index: number) => {
+    if (typeof wave?.name !== 'string' || !wave.name.trim()) {
+      errors.push(`waves[${index}].name must be a non-empty string`);
+    }
+    if (!Array.isArray(wave?.vmNames) || wave.vmNames.length === 0 || !wave.vmNames.every((vmName: any) => typeof vmName === 'string')) {
+      errors.push(`waves[${index}].vmNames must be a non-empty array of VM names`);
+      return;
+    }
+    if (wave.healthGate !== undefined && typeof wave.healthGate !== 'boolean') {
+      errors.push(`waves[${index}].healthGate must be a boolean if provided`);
+    }
+    if (wave.delayAfterSeconds !== undefined && (typeof wave.delayAfterSeconds !== 'number' || wave.delayAfterSeconds < 0)) {
+      errors.push(`waves[${index}].delayAfterSeconds must be a non-negative number if provided`);
+    }
+    for (const vmName of wave.vmNames) {
+      if (wavedVms.has(vmName)) {
+        errors.push(`VM ${vmName} cannot belong to more than one wave`);
+      }
+      wavedVms.add(vmName);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Validates the batch and per-VM snapshot selections of a RecoveryBatch
+ * @param obj The object to validate
+ * @returns Validation errors (empty if the selections are valid or not provided)
+ */
+export function getSnapshotSelectionErrors(obj: any): string[] {
+  const errors: string[] = [];
+
+  if (obj.snapshotSelection !== undefined) {
+    errors.push(...validateSnapshotSelection(obj.snapshotSelection, 'snapshotSelection'));
+  }
+
+  if (obj.vmSnapshotSelections !== undefined) {
+    if (!Array.isArray(obj.vmSnapshotSelections)) {
+      errors.push('vmSnapshotSelections must be an array if provided');
+    } else {
+      obj.vmSnapshotSelections.forEach((vmSelection: any, index: number) => {
+        if (typeof vmSelection?.vmName !== 'string' || !vmSelection.vmName.trim()) {
+          errors.push(`vmSnapshotSelections[${index}].vmName must be a non-empty string`);
+        }
+        errors.push(...validateSnapshotSelection(vmSelection, `vmSnapshotSelections[${index}]`));
+      });
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validates the crash-consistent VM groups of a RecoveryBatch
+ * @param obj The object to validate
+ * @returns Validation errors (empty if the groups are valid or not provided)
+ */
+export function getVmGroupErrors(obj: any): string[] {
+  const errors: string[] = [];
+  if (obj.vmGroups === undefined) {
+    return errors;
+  }
+  if (!Array.isArray(obj.vmGroups)) {
+    return ['vmGroups must be an array if provided'];
+  }
+
+  if (obj.snapshotSelection?.policy === 'pinned') {
+    errors.push("vmGroups cannot be used with a 'pinned' snapshotSelection");
+  }
+
+  const groupedVms = new Set<string>();
+  const selectedVms = Array.isArray(obj.vmSnapshotSelections) ? obj.vmSnapshotSelections.map((vmSelection: any) => vmSelection?.vmName) : [];
+  obj.vmGroups.forEach((group: any, index: number) => {
+    if (typeof group?.name !== 'string' || !group.name.trim()) {
+      errors.push(`vmGroups[${index}].name must be a non-empty string`);
+    }
+    if (!Array.isArray(group?.vmNames) || group.vmNames.length === 0 || !group.vmNames.every((vmName: any) => typeof vmName === 'string')) {
+      errors.push(`vmGroups[${index}].vmNames must be a non-empty array of VM names`);
+      return;
+    }
+    if (group.toleranceSeconds !== undefined && (typeof group.toleranceSeconds !== 'number' || group.toleranceSeconds < 0)) {
+      errors.push(`vmGroups[${index}].toleranceSeconds must be a non-negative number if provided`);
+    }
+    for (const vmName of group.vmNames) {
+      if (groupedVms.has(vmName)) {
+        errors.push(`VM ${vmName} cannot belong to more than one VM group`);
+      }
+      if (selectedVms.includes(vmName)) {
+        errors.push(`VM ${vmName} of vmGroups[${index}] cannot also have a vmSnapshotSelections entry`);
+      }
+      groupedVms.add(vmName);
+    }
+  });
+
+  return errors;
 }
 
 /**
@@ -192,6 +500,47 @@ export function validateBatchOrchestratorInput(obj: any): RecoveryBatch {
       if (obj.vmFilter !== undefined && !Array.isArray(obj.vmFilter)) {
         errors.push('vmFilter must be an array if provided');
       }
+
+      if (obj.dryRun !== undefined && typeof obj.dryRun !== 'boolean') {
+        errors.push('dryRun must be a boolean (true or false) if provided');
+      }
+
+      if (obj.waitForVmCreationOutcomes !== undefined && typeof obj.waitForVmCreationOutcomes !== 'boolean') {
+        errors.push('waitForVmCreationOutcomes must be a boolean (true or false) if provided');
+      }
+
+      if (obj.compensationMode !== undefined && !['delete', 'keep'].includes(obj.compensationMode)) {
+        errors.push("compensationMode must be 'delete' or 'keep' if provided");
+      }
+
+      if (obj.existingRestoreMode !== undefined && !['skip', 'adopt', 'replace'].includes(obj.existingRestoreMode)) {
+        errors.push("existingRestoreMode must be 'skip', 'adopt' or 'replace' if provided");
+      }
+
+      if (obj.retryBatchId !== undefined && !isGuid(obj.retryBatchId)) {
+        errors.push('retryBatchId must be a batch Id (GUID) if provided');
+      }
+
+      if (obj.quotaCheck !== undefined && !['enforce', 'warn', 'skip'].includes(obj.quotaCheck)) {
+        errors.push("quotaCheck must be 'enforce', 'warn' or 'skip' if provided");
+      }
+
+      if (obj.preflightCheck !== undefined && !['enforce', 'warn', 'skip'].includes(obj.preflightCheck)) {
+        errors.push("preflightCheck must be 'enforce', 'warn' or 'skip' if provided");
+      }
+
+      if (obj.subnetDistribution !== undefined && !['fill-first', 'round-robin'].includes(obj.subnetDistribution)) {
+        errors.push("subnetDistribution must be 'fill-first' or 'round-robin' if provided");
+      }
+
+      errors.push(...getSnapshotSelectionErrors(obj));
+      errors.push(...getVmGroupErrors(obj));
+      errors.push(...getWaveErrors(obj));
+      errors.push(...getVmSizeMappingErrors(obj));
+      errors.push(...getZonePlacementErrors(obj));
+      errors.push(...getCrossRegionErrors(obj));
+      errors.push(...getSubnetMappingErrors(obj));
+      errors.push(...getNamingErrors(obj));
     }
     
     throw new Error(`Invalid BatchOrchestratorInput: ${errors.join(', ')}`);
@@ -204,7 +553,24 @@ export function validateBatchOrchestratorInput(obj: any): RecoveryBatch {
     maxTimeGenerated: validateMaxTimeGenerated(obj.maxTimeGenerated),
     useOriginalIpAddress: obj.useOriginalIpAddress,
     waitForVmCreationCompletion: obj.waitForVmCreationCompletion,
-    vmFilter: obj.vmFilter
+    waitForVmCreationOutcomes: obj.waitForVmCreationOutcomes,
+    vmFilter: obj.vmFilter,
+    dryRun: obj.dryRun,
+    compensationMode: obj.compensationMode,
+    existingRestoreMode: obj.existingRestoreMode,
+    retryBatchId: obj.retryBatchId,
+    quotaCheck: obj.quotaCheck,
+    preflightCheck: obj.preflightCheck,
+    vmSizeMapping: obj.vmSizeMapping,
+    zonePlacement: obj.zonePlacement,
+    crossRegion: obj.crossRegion,
+    subnetMapping: obj.subnetMapping,
+    subnetDistribution: obj.subnetDistribution,
+    naming: obj.naming,
+    snapshotSelection: obj.snapshotSelection,
+    vmSnapshotSelections: obj.vmSnapshotSelections,
+    vmGroups: obj.vmGroups,
+    waves: obj.waves
   };
   
   return validated;
@@ -337,6 +703,89 @@ export function sanitizeBatchOrchestratorInput(input: any): RecoveryBatch {
     sanitized.vmFilter = input.vmFilter;
   }
 
+  // Only include dryRun if it was requested
+  if (input.dryRun !== undefined && input.dryRun !== null) {
+    sanitized.dryRun = Boolean(input.dryRun);
+  }
+
+  // Only include waitForVmCreationOutcomes if it was requested
+  if (input.waitForVmCreationOutcomes !== undefined && input.waitForVmCreationOutcomes !== null) {
+    sanitized.waitForVmCreationOutcomes = Boolean(input.waitForVmCreationOutcomes);
+  }
+
+  // Only include compensationMode if it was requested
+  if (input.compensationMode !== undefined && input.compensationMode !== null) {
+    sanitized.compensationMode = input.compensationMode;
+  }
+
+  // Only include existingRestoreMode if it was requested
+  if (input.existingRestoreMode !== undefined && input.existingRestoreMode !== null) {
+    sanitized.existingRestoreMode = input.existingRestoreMode;
+  }
+
+  // Only include retryBatchId if it was requested
+  if (input.retryBatchId !== undefined && input.retryBatchId !== null) {
+    sanitized.retryBatchId = String(input.retryBatchId).trim();
+  }
+
+  // Only include quotaCheck if it was requested
+  if (input.quotaCheck !== undefined && input.quotaCheck !== null) {
+    sanitized.quotaCheck = input.quotaCheck;
+  }
+
+  // Only include preflightCheck if it was requested
+  if (input.preflightCheck !== undefined && input.preflightCheck !== null) {
+    sanitized.preflightCheck = input.preflightCheck;
+  }
+
+  // Only include vmSizeMapping if it was requested
+  if (input.vmSizeMapping !== undefined && input.vmSizeMapping !== null) {
+    sanitized.vmSizeMapping = input.vmSizeMapping;
+  }
+
+  // Only include zonePlacement if it was requested
+  if (input.zonePlacement !== undefined && input.zonePlacement !== null) {
+    sanitized.zonePlacement = input.zonePlacement;
+  }
+
+  // Only include crossRegion if it was requested
+  if (input.crossRegion !== undefined && input.crossRegion !== null) {
+    sanitized.crossRegion = input.crossRegion;
+  }
+
+  // Only include subnetMapping if it was requested
+  if (input.subnetMapping !== undefined && input.subnetMapping !== null) {
+    sanitized.subnetMapping = input.subnetMapping;
+  }
+
+  // Only include subnetDistribution if it was requested
+  if (input.subnetDistribution !== undefined && input.subnetDistribution !== null) {
+    sanitized.subnetDistribution = input.subnetDistribution;
+  }
+
+  // Only include naming if it was requested
+  if (input.naming !== undefined && input.naming !== null) {
+    sanitized.naming = input.naming;
+  }
+
+  // Only include the snapshot selections if they were requested
+  if (input.snapshotSelection !== undefined && input.snapshotSelection !== null) {
+    sanitized.snapshotSelection = input.snapshotSelection;
+  }
+  if (input.vmSnapshotSelections !== undefined && input.vmSnapshotSelections !== null) {
+    sanitized.vmSnapshotSelections = input.vmSnapshotSelections;
+  }
+
+  // Only include vmGroups if they were requested
+  if (input.vmGroups !== undefined && input.vmGroups !== null) {
+    sanitized.vmGroups = input.vmGroups;
+  }
+
+  // Only include waves if they were requested
+  if (input.waves !== undefined && input.waves !== null) {
+    sanitized.waves = input.waves;
+  }
+
   // Validate the sanitized input
   return validateBatchOrchestratorInput(sanitized);
 }
\ No newline at end of file
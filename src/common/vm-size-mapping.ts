@@ -0,0 +1,83 @@
+// VM size mapping - chooses the VM size restored for a source size (overrides, drill downsizing and fallbacks)
+
+import { ComputeUsage, VmSizeInfo, VmSizeMapping, VmSizeResolution } from './interfaces';
+
+const DEFAULT_DRILL_VCPU_RATIO = 0.5;
+const DEFAULT_DRILL_MIN_VCPUS = 2;
+const VERSION_SUFFIX = /_v(\d+)$/i;
+
+/**
+ * Resolves the VM size restored for a source size
+ * 1. An override replaces the source size.
+ * 2. The drill profile downsizes it to the smallest size of the same family with enough vCPUs.
+ * 3. If the size is not offered in the region or its family has not enough free vCPUs, the fallbacks of the
+ *    source size (or of the size) are tried in order, then the other versions of the size with familyFallback.
+ * Without offered sizes only the override is applied. Without usage for a family its quota is not checked.
+ * @param sourceVmSize Size of the smcp-recovery-info tag
+ * @param mapping Size mapping rules of the batch
+ * @param offeredSizes VM sizes offered in the region
+ * @param usages Compute usage of the subscription in the region
+ * @returns Size to restore and the rule that chose it (the size stays unavailable if no fallback is available)
+ */
+export function resolveVmSize(sourceVmSize: string, mapping: VmSizeMapping | undefined, offeredSizes?: VmSizeInfo[], usages: ComputeUsage[] = []): VmSizeResolution {
+    const override = findByName(mapping?.overrides, sourceVmSize);
+    const resolution: VmSizeResolution = override
+        ? { vmSize: override, rule: 'override', message: `VM size ${sourceVmSize} overridden with ${override}` }
+        : { vmSize: sourceVmSize, rule: 'source' };
+    if (!mapping || !offeredSizes) {
+        return resolution;
+    }
+
+    const offered = new Map(offeredSizes.map(size => [size.name.toLowerCase(), size]));
+    const freeVCpus = new Map(usages.map(usage => [usage.name.toLowerCase(), usage.limit - usage.currentValue]));
+    const isAvailable = (vmSize: string): boolean => {
+        const size = offered.get(vmSize.toLowerCase());
+        const free = size ? freeVCpus.get(size.family?.toLowerCase()) : undefined;
+        return !!size && (free === undefined || free >= size.vCpus);
+    };
+
+    // Downsize for drills within the family of the size
+    const current = offered.get(resolution.vmSize.toLowerCase());
+    if (mapping.drill && current) {
+        const minVCpus = Math.max(mapping.drill.minVCpus ?? DEFAULT_DRILL_MIN_VCPUS, Math.ceil(current.vCpus * (mapping.drill.vCpuRatio ?? DEFAULT_DRILL_VCPU_RATIO)));
+        const smaller = offeredSizes
+            .filter(size => size.family === current.family && size.vCpus >= minVCpus && size.vCpus < current.vCpus && isAvailable(size.name))
+            .sort((a, b) => a.vCpus - b.vCpus || a.name.localeCompare(b.name))[0];
+        if (smaller) {
+            resolution.vmSize = smaller.name;
+            resolution.rule = 'drill';
+            resolution.message = `VM size ${sourceVmSize} downsized for drill to ${smaller.name} (${smaller.vCpus} of ${current.vCpus} vCPUs)`;
+        }
+    }
+
+    if (isAvailable(resolution.vmSize)) {
+        return resolution;
+    }
+
+    // Fallbacks of an unavailable size
+    const candidates = [
+        ...(findByName(mapping.fallbacks, sourceVmSize) || findByName(mapping.fallbacks, resolution.vmSize) || []),
+        ...(mapping.familyFallback ? findOtherVersions(resolution.vmSize, offeredSizes) : [])
+    ];
+    const fallback = candidates.find(isAvailable);
+    const reason = offered.has(resolution.vmSize.toLowerCase()) ? 'out of quota' : 'not offered in the region';
+    if (fallback) {
+        return { vmSize: fallback, rule: 'fallback', message: `VM size ${resolution.vmSize} is ${reason}, falling back to ${fallback}` };
+    }
+    return { ...resolution, message: `VM size ${resolution.vmSize} is ${reason} and no fallback is available` };
+}
+
+// Other versions of a size offered in the region, newest first (e.g. Standard_D4s_v5 and Standard_D4s_v4 for Standard_D4s_v3)
+function findOtherVersions(vmSize: string, offeredSizes: VmSizeInfo[]): string[] {
+    const base = vmSize.replace(VERSION_SUFFIX, '').toLowerCase();
+    const version = (name: string): number => parseInt(VERSION_SUFFIX.exec(name)?.[1] || '1');
+    return offeredSizes
+        .filter(size => size.name.replace(VERSION_SUFFIX, '').toLowerCase() === base && size.name.toLowerCase() !== vmSize.toLowerCase())
+        .sort((a, b) => version(b.name) - version(a.name))
+        .map(size => size.name);
+}
+
+function findByName<T>(values: { [name: string]: T } | undefined, name: string): T | undefined {
+    const key = Object.keys(values || {}).find(key => key.toLowerCase() === name?.toLowerCase());
+    return key !== undefined ? values[key] : undefined;
+}
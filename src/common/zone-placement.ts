@@ -0,0 +1,56 @@
+// Zone placement - availability zone of the restored VMs and of their disks
+
+import { RecoverySnapshot, ZonePlacement } from './interfaces';
+
+const DEFAULT_SPREAD_ZONES = ['1', '2', '3'];
+
+// Disk SKUs that can only be created in an availability zone, and zone-redundant SKUs that cannot be pinned to one
+const ZONAL_ONLY_DISK_SKUS = ['premiumv2_lrs', 'ultrassd_lrs'];
+const ZONE_REDUNDANT_DISK_SKU = /_zrs$/i;
+
+/**
+ * Assigns the availability zone of each VM to restore (targetZone of its OS disk snapshot)
+ * - 'source' (default): zone of the smcp-recovery-info tag, regional if the source VM had none.
+ * - 'fixed': the zone of the placement for every VM.
+ * - 'spread': the zones of the placement in turn, in the order of the snapshots.
+ * - 'regional': no zone.
+ * The zones of vmZones override the mode ('' for regional).
+ * @param snapshots OS disk snapshots to restore
+ * @param placement Zone placement of the batch
+ * @returns Snapshots with their target zone
+ */
+export function assignTargetZones(snapshots: RecoverySnapshot[], placement: ZonePlacement | undefined): RecoverySnapshot[] {
+    const mode = placement?.mode || 'source';
+    const spreadZones = placement?.zones?.length > 0 ? placement.zones : DEFAULT_SPREAD_ZONES;
+    let spreadIndex = 0;
+
+    return snapshots.map(snapshot => {
+        let targetZone: string;
+        if (placement?.vmZones && Object.prototype.hasOwnProperty.call(placement.vmZones, snapshot.vmName)) {
+            targetZone = placement.vmZones[snapshot.vmName];
+        } else if (mode === 'source') {
+            targetZone = snapshot.zone;
+        } else if (mode === 'fixed') {
+            targetZone = placement.zone;
+        } else if (mode === 'spread') {
+            targetZone = spreadZones[spreadIndex++ % spreadZones.length];
+        }
+        return { ...snapshot, targetZone: targetZone || undefined };
+    });
+}
+
+/**
+ * Checks if a disk SKU can only be created in an availability zone (Premium SSD v2 and Ultra Disk)
+ */
+export function isZonalOnlyDiskSku(diskSku: string): boolean {
+    return ZONAL_ONLY_DISK_SKUS.includes((diskSku || '').toLowerCase());
+}
+
+/**
+ * Zones of a disk restored for a VM: the zone of the VM, except for zone-redundant SKUs
+ * @param diskSku SKU of the source disk
+ * @param zone Availability zone of the VM (none: regional)
+ */
+export function getDiskZones(diskSku: string, zone: string | undefined): string[] | undefined {
+    return zone && !ZONE_REDUNDANT_DISK_SKU.test(diskSku || '') ? [zone] : undefined;
+}
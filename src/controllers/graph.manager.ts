@@ -2,8 +2,9 @@
 import { ILogger } from '../common/logger';
 import { DefaultAzureCredential } from "@azure/identity";
 import { ResourceGraphClient } from "@azure/arm-resourcegraph";
-import { RecoverySnapshot } from "../common/interfaces";
+import { RecoverySnapshot, RecoveryResource, SnapshotSelection, TrackingInfo } from "../common/interfaces";
 import { ResourceGraphError, _getString } from "../common/apperror";
+import { isGuid, isResourceGroupName } from "../common/utils";
 
 export class ResourceGraphManager {
 
@@ -14,43 +15,120 @@ export class ResourceGraphManager {
         this.clientGraph = new ResourceGraphClient(credential);
     }
 
-    // Get the most recent snapshots in a certain region for all VMs
-    public async getMostRecentSnapshotsInRegions(regions: string[], maxTimeGenerated: Date, vmFilter?: string[]): Promise<Array<RecoverySnapshot>> {
+    // Get the most recent OS disk snapshots in a certain region for all VMs, together with the
+    // data disk snapshots of the same VM taken within toleranceSeconds of the OS disk snapshot
+    public async getMostRecentSnapshotsInRegions(regions: string[], maxTimeGenerated: Date, vmFilter?: string[], toleranceSeconds: number = 600): Promise<Array<RecoverySnapshot>> {
+        return this.getSnapshotsBySelection(regions, { policy: 'latest', time: maxTimeGenerated.toISOString() }, vmFilter, [], toleranceSeconds);
+    }
+
+
+    // Get the OS disk snapshot chosen by a selection policy (latest, nearest or window, with resolved times) in a certain
+    // region for all VMs, together with the data disk snapshots of the same VM taken within toleranceSeconds of the OS disk snapshot
+    // (data disk snapshots taken after the selection time, or after the end of the window, are excluded)
+    public async getSnapshotsBySelection(regions: string[], selection: SnapshotSelection, vmFilter?: string[], excludeVms?: string[], toleranceSeconds: number = 600): Promise<Array<RecoverySnapshot>> {
 
         try {
 
             const filterForVms = vmFilter && vmFilter.length > 0 
                 ? `| where vmName in (${vmFilter.map(vm => `'${vm}'`).join(", ")})`
                 : "";
+            const excludeForVms = excludeVms && excludeVms.length > 0
+                ? `| where vmName !in (${excludeVms.map(vm => `'${vm}'`).join(", ")})`
+                : "";
+
+            let selectAnchor: string;
+            let maxTime: string;
+            switch (selection.policy) {
+                case 'latest':
+                    selectAnchor = `| where timeCreated <= todatetime('${selection.time}')
+                    | summarize arg_max(timeCreated, location, id) by vmName`;
+                    maxTime = selection.time;
+                    break;
+                case 'window':
+                    selectAnchor = `| where timeCreated between (todatetime('${selection.minTime}') .. todatetime('${selection.maxTime}'))
+                    | summarize arg_max(timeCreated, location, id) by vmName`;
+                    maxTime = selection.maxTime;
+                    break;
+                case 'nearest':
+                    selectAnchor = `| extend distance = abs(datetime_diff('second', timeCreated, todatetime('${selection.time}')))
+                    | summarize arg_min(distance, timeCreated, location, id) by vmName`;
+                    break;
+                default:
+                    throw new Error(`Unsupported snapshot selection policy: ${selection.policy}`);
+            }
 
             const query = `resources
                     | where type == 'microsoft.compute/snapshots'
                     | where location in (${regions.map(region => `'${region}'`).join(", ")})
                     | extend timeCreated = todatetime(properties.timeCreated)
-                    | where timeCreated <= todatetime('${maxTimeGenerated.toISOString()}')
                     | where tags['smcp-recovery-info'] != ''
                     | extend smcpRecoveryInfo = tostring(tags['smcp-recovery-info'])
-                    | extend vmName = extract('vmName\\\":\\\"([^\\\"]+)', 1, smcpRecoveryInfo) ${filterForVms}
-                    | project snapshotName = name, vmName, timeCreated
-                    | summarize latestSnapshotTime = max(timeCreated) by vmName
-                    | join kind=inner (
-                        resources
-                        | where type == 'microsoft.compute/snapshots'
-                        | where tags['smcp-recovery-info'] != ''
-                        | extend smcpRecoveryInfo = tostring(tags['smcp-recovery-info']) 
-                        | extend vmName = extract('vmName\\\":\\\"([^\\\"]+)', 1, smcpRecoveryInfo), vmSize = extract('vmSize\\\":\\\"([^\\\"]+)', 1, smcpRecoveryInfo), diskSku = extract('diskSku\\\":\\\"([^\\\"]+)', 1, smcpRecoveryInfo), diskProfile = extract('diskProfile\\\":\\\"([^\\\"]+)', 1, smcpRecoveryInfo), ipAddress = extract('ipAddress\\\":\\\"([^\\\"]+)', 1, smcpRecoveryInfo), securityType = coalesce(extract('securityType\\\":\\\"([^\\\"]+)', 1, smcpRecoveryInfo), 'Standard')
-                        | project snapshotName = name, vmName, vmSize, diskSku, diskProfile, ipAddress, timeCreated = todatetime(properties.timeCreated), resourceGroup, id, location, securityType
-                        ) on vmName, $left.latestSnapshotTime == $right.timeCreated
-                    | project snapshotName, resourceGroup, id, location, timeCreated, vmName, vmSize, diskSku, diskProfile, ipAddress, securityType`;
-
-            const result = await this.clientGraph.resources(
-                {
-                    query: query
-                },
-                { resultFormat: "table" }
-            );
-
-            return result.data;
+                    | extend vmName = extract('vmName\\\":\\\"([^\\\"]+)', 1, smcpRecoveryInfo), diskProfile = extract('diskProfile\\\":\\\"([^\\\"]+)', 1, smcpRecoveryInfo) ${filterForVms} ${excludeForVms}
+                    | where diskProfile == 'os-disk'
+                    ${selectAnchor}
+                    | project vmName, latestSnapshotTime = timeCreated, latestSnapshotLocation = location, latestSnapshotId = id
+                    ${withDataDiskSnapshots(toleranceSeconds, maxTime)}`;
+
+            return await this.queryAllPages(query);
+        } catch (error) {
+            const message = `Unable to query resource graph with error: ${_getString(error)}`;
+            this.logger.error(message);
+            throw new ResourceGraphError(message);
+        }
+    }
+
+
+    // Get the given OS disk snapshots, together with the data disk snapshots of the same VM
+    // taken within toleranceSeconds of each OS disk snapshot (used to retry a batch with the same snapshots)
+    public async getSnapshotsByIds(osDiskSnapshotIds: string[], toleranceSeconds: number = 600): Promise<Array<RecoverySnapshot>> {
+
+        try {
+
+            const query = `resources
+                    | where type == 'microsoft.compute/snapshots'
+                    | where id in~ (${osDiskSnapshotIds.map(id => `'${id}'`).join(", ")})
+                    | where tags['smcp-recovery-info'] != ''
+                    | extend smcpRecoveryInfo = tostring(tags['smcp-recovery-info'])
+                    | extend vmName = extract('vmName\\\":\\\"([^\\\"]+)', 1, smcpRecoveryInfo), diskProfile = extract('diskProfile\\\":\\\"([^\\\"]+)', 1, smcpRecoveryInfo)
+                    | where diskProfile == 'os-disk'
+                    | project vmName, latestSnapshotTime = todatetime(properties.timeCreated), latestSnapshotLocation = location, latestSnapshotId = id
+                    ${withDataDiskSnapshots(toleranceSeconds)}`;
+
+            return await this.queryAllPages(query);
+        } catch (error) {
+            const message = `Unable to query resource graph with error: ${_getString(error)}`;
+            this.logger.error(message);
+            throw new ResourceGraphError(message);
+        }
+    }
+
+
+    // Get all the OS disk snapshots of some VMs allowed by a selection policy (latest or window bounds, with resolved times),
+    // used to find the snapshot run of a VM group
+    public async getOsDiskSnapshotsOfVms(regions: string[], vmNames: string[], selection: SnapshotSelection): Promise<Array<RecoverySnapshot>> {
+
+        try {
+
+            let timeFilter = "";
+            if (selection.policy === 'latest') {
+                timeFilter = `| where timeCreated <= todatetime('${selection.time}')`;
+            } else if (selection.policy === 'window') {
+                timeFilter = `| where timeCreated between (todatetime('${selection.minTime}') .. todatetime('${selection.maxTime}'))`;
+            }
+
+            const query = `resources
+                    | where type == 'microsoft.compute/snapshots'
+                    | where location in (${regions.map(region => `'${region}'`).join(", ")})
+                    | extend timeCreated = todatetime(properties.timeCreated)
+                    | where tags['smcp-recovery-info'] != ''
+                    | extend smcpRecoveryInfo = tostring(tags['smcp-recovery-info'])
+                    | extend vmName = extract('vmName\\\":\\\"([^\\\"]+)', 1, smcpRecoveryInfo), diskProfile = extract('diskProfile\\\":\\\"([^\\\"]+)', 1, smcpRecoveryInfo), runId = extract('runId\\\":\\\"([^\\\"]+)', 1, smcpRecoveryInfo)
+                    | where vmName in (${vmNames.map(vm => `'${vm}'`).join(", ")})
+                    | where diskProfile == 'os-disk'
+                    ${timeFilter}
+                    | project snapshotName = name, resourceGroup, id, location, timeCreated, vmName, diskProfile, runId`;
+
+            return await this.queryAllPages(query);
         } catch (error) {
             const message = `Unable to query resource graph with error: ${_getString(error)}`;
             this.logger.error(message);
@@ -58,4 +136,82 @@ export class ResourceGraphManager {
         }
     }
 
+
+    // Get the VMs, NICs and disks created by a recovery batch (tagged with smcp-recovery tracking info)
+    public async getRecoveryResourcesByBatchId(batchId: string, resourceGroup: string): Promise<Array<RecoveryResource>> {
+
+        try {
+            // The batch Id and the resource group are part of the query
+            if (!isGuid(batchId)) {
+                throw new ResourceGraphError(`Invalid batch Id ${batchId}: must be a GUID`);
+            }
+            if (!isResourceGroupName(resourceGroup)) {
+                throw new ResourceGraphError(`Invalid resource group name ${resourceGroup}`);
+            }
+
+            const query = `resources
+                    | where type in~ ('microsoft.compute/virtualmachines', 'microsoft.network/networkinterfaces', 'microsoft.compute/disks')
+                    | where resourceGroup =~ '${resourceGroup}'
+                    | where tostring(parse_json(tostring(tags['smcp-recovery'])).batchId) == '${batchId}'
+                    | project id, name, type, resourceGroup, subscriptionId, tracking = tostring(tags['smcp-recovery'])`;
+
+            const rows = await this.queryAllPages(query);
+
+            const resources: RecoveryResource[] = [];
+            for (const row of rows) {
+                let tracking: TrackingInfo;
+                try {
+                    tracking = JSON.parse(row.tracking);
+                } catch {
+                    this.logger.warn(`Ignoring resource ${row.id} with invalid smcp-recovery tag: ${row.tracking}`);
+                    continue;
+                }
+                if (tracking?.batchId === batchId) {
+                    resources.push({ ...row, tracking });
+                }
+            }
+
+            return resources;
+        } catch (error) {
+            const message = `Unable to query resource graph with error: ${_getString(error)}`;
+            this.logger.error(message);
+            throw new ResourceGraphError(message);
+        }
+    }
+
+    // Run a query and follow the skip token to get all the pages of results
+    private async queryAllPages(query: string): Promise<Array<any>> {
+        const rows = [];
+        let skipToken: string | undefined;
+
+        do {
+            const result = await this.clientGraph.resources({
+                query: query,
+                options: skipToken ? { skipToken } : undefined
+            });
+            rows.push(...result.data);
+            skipToken = result.skipToken;
+        } while (skipToken);
+
+        return rows;
+    }
+
+}
+
+// Joins the anchor OS disk snapshots (vmName, latestSnapshotTime, latestSnapshotLocation, latestSnapshotId) with
+// the data disk snapshots of the same VM and location taken within toleranceSeconds (and not after maxTime, if set)
+function withDataDiskSnapshots(toleranceSeconds: number, maxTime?: string): string {
+    const timeFilter = maxTime ? `| where timeCreated <= todatetime('${maxTime}')` : '';
+    return `| join kind=inner (
+                        resources
+                        | where type == 'microsoft.compute/snapshots'
+                        | where tags['smcp-recovery-info'] != ''
+                        | extend smcpRecoveryInfo = tostring(tags['smcp-recovery-info']) 
+                        | extend vmName = extract('vmName\\\":\\\"([^\\\"]+)', 1, smcpRecoveryInfo), vmSize = extract('vmSize\\\":\\\"([^\\\"]+)', 1, smcpRecoveryInfo), diskSku = extract('diskSku\\\":\\\"([^\\\"]+)', 1, smcpRecoveryInfo), diskProfile = extract('diskProfile\\\":\\\"([^\\\"]+)', 1, smcpRecoveryInfo), ipAddress = extract('ipAddress\\\":\\\"([^\\\"]+)', 1, smcpRecoveryInfo), securityType = coalesce(extract('securityType\\\":\\\"([^\\\"]+)', 1, smcpRecoveryInfo), 'Standard'), lun = toint(extract('lun\\\":\\\"?([0-9]+)', 1, smcpRecoveryInfo)), caching = extract('caching\\\":\\\"([^\\\"]+)', 1, smcpRecoveryInfo), runId = extract('runId\\\":\\\"([^\\\"]+)', 1, smcpRecoveryInfo), zone = extract('zone\\\":\\\"?([0-9]+)', 1, smcpRecoveryInfo), sourceSubnetId = extract('subnetId\\\":\\\"([^\\\"]+)', 1, smcpRecoveryInfo)
+                        | project snapshotName = name, vmName, vmSize, diskSku, diskProfile, ipAddress, timeCreated = todatetime(properties.timeCreated), resourceGroup, id, location, securityType, lun, caching, runId, zone, sourceSubnetId
+                        ${timeFilter}
+                        ) on vmName, $left.latestSnapshotLocation == $right.location
+                    | where abs(datetime_diff('second', timeCreated, latestSnapshotTime)) <= ${toleranceSeconds}
+                    | where diskProfile == 'data-disk' or id =~ latestSnapshotId
+                    | project snapshotName, resourceGroup, id, location, timeCreated, vmName, vmSize, diskSku, diskProfile, ipAddress, securityType, lun, caching, runId, zone, sourceSubnetId`;
 }
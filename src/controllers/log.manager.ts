@@ -1,21 +1,32 @@
 // Log ingestion
 import { ILogger } from '../common/logger';
 import { LogsIngestionClient, isAggregateLogsUploadError } from "@azure/monitor-ingestion";
+import { LogsQueryClient, LogsQueryResultStatus, LogsTable } from "@azure/monitor-query";
 import { DefaultAzureCredential } from "@azure/identity";
-import { LogIngestionError, LogIngestionAggregateError, _getString } from "../common/apperror";
-import { JobLogEntry } from "../common/interfaces";
+import { LogIngestionError, LogIngestionAggregateError, LogQueryError, _getString } from "../common/apperror";
+import { BatchJobState, JobLogEntry } from "../common/interfaces";
+import { isGuid } from "../common/utils";
 
 
 export class LogManager {
 
     private logClient: LogsIngestionClient;
+    private queryClient: LogsQueryClient;
 
     constructor(private logger: ILogger) {
         const credential = new DefaultAzureCredential();
         this.logClient = new LogsIngestionClient(process.env.LOGS_INGESTION_ENDPOINT, credential);
+        this.queryClient = new LogsQueryClient(credential);
     }
 
     public async uploadLog(log: JobLogEntry) {
+        await this.uploadLogs([log]);
+    }
+
+    /**
+     * Uploads several job log entries at once (the ingestion client splits large uploads)
+     */
+    public async uploadLogs(logs: JobLogEntry[]) {
 
         try {
             if (!process.env.LOGS_INGESTION_ENDPOINT || !process.env.LOGS_INGESTION_RULE_ID || !process.env.LOGS_INGESTION_STREAM_NAME) {
@@ -24,12 +35,13 @@ export class LogManager {
                 throw new LogIngestionError(message);
             }
 
-            const _logsData = {
+            const timeGenerated = new Date().toISOString();
+            const _logsData = logs.map(log => ({
                 ...log,
-                TimeGenerated: new Date().toISOString()
-            };
+                TimeGenerated: timeGenerated
+            }));
 
-            const result = await this.logClient.upload(process.env.LOGS_INGESTION_RULE_ID, process.env.LOGS_INGESTION_STREAM_NAME, [_logsData]);
+            const result = await this.logClient.upload(process.env.LOGS_INGESTION_RULE_ID, process.env.LOGS_INGESTION_STREAM_NAME, _logsData);
         } catch (e) {
             let aggregateErrors = isAggregateLogsUploadError(e) ? e.errors : [];
             if (aggregateErrors.length > 0) {
@@ -48,6 +60,44 @@ export class LogManager {
         }
     }
 
+    /**
+     * Gets the state of each VM of a batch from its job log entries (last entry and whether the restore completed)
+     * @param batchId Batch Id of the job log entries
+     * @returns One state per VM that has at least one log entry in the batch (the VMs planned by the batch have one)
+     */
+    public async getBatchJobStates(batchId: string): Promise<BatchJobState[]> {
+
+        try {
+            if (!process.env.LOGS_WORKSPACE_ID) {
+                const message = "Environment variable LOGS_WORKSPACE_ID must be set.";
+                this.logger.error(message);
+                throw new LogQueryError(message);
+            }
+            // The batch Id is part of the query
+            if (!isGuid(batchId)) {
+                throw new LogQueryError(`Invalid batch Id ${batchId}: must be a GUID`);
+            }
+
+            const tableName = process.env.LOGS_TABLE_NAME || 'SnapshotsRecoveryJobs_CL';
+            const query = `${tableName}
+                    | where batchId == '${batchId}'
+                    | summarize completedCount = countif(jobStatus == 'Restore Completed'), startedCount = countif(jobOperation != 'VM Planned'), arg_max(TimeGenerated, jobStatus, snapshotId, snapshotName, message) by vmName
+                    | project vmName, snapshotId, snapshotName, jobStatus, message, completed = completedCount > 0, started = startedCount > 0`;
+
+            const lookbackDays = parseInt(process.env.SNAP_RECOVERY_RETRY_LOOKBACK_DAYS || '30');
+            const result = await this.queryClient.queryWorkspace(process.env.LOGS_WORKSPACE_ID, query, { duration: `P${lookbackDays}D` });
+            if (result.status !== LogsQueryResultStatus.Success) {
+                throw new LogQueryError(`Partial query result: ${_getString(result.partialError?.message)}`);
+            }
+
+            return toRows(result.tables[0]).map(toBatchJobState);
+        } catch (e) {
+            const message = `Unable to query job logs of batch ${batchId} with error: ${_getString(e)}`;
+            this.logger.error(message);
+            throw new LogQueryError(message);
+        }
+    }
+
 /*
     async function sendLogToAzureMonitor(vmName: string, status: string, message: string) {
         const timestamp = new Date().toISOString();
@@ -72,3 +122,33 @@ export class LogManager {
     }
 */
 }
+
+// Converts a query result table into objects keyed by column name
+function toRows(table: LogsTable): Array<{ [column: string]: unknown }> {
+    if (!table) {
+        return [];
+    }
+    return table.rows.map(row => {
+        const item: { [column: string]: unknown } = {};
+        table.columnDescriptors.forEach((column, index) => item[column.name] = row[index]);
+        return item;
+    });
+}
+
+// Job state of a VM from a row of the batch job states query
+function toBatchJobState(row: { [column: string]: unknown }): BatchJobState {
+    return {
+        vmName: String(row.vmName ?? ''),
+        snapshotId: String(row.snapshotId ?? ''),
+        snapshotName: String(row.snapshotName ?? ''),
+        jobStatus: String(row.jobStatus ?? '') as BatchJobState['jobStatus'],
+        message: String(row.message ?? ''),
+        completed: toBoolean(row.completed),
+        started: toBoolean(row.started)
+    };
+}
+
+// Boolean column of a query result row
+function toBoolean(value: unknown): boolean {
+    return value === true || value === 'true' || value === 1;
+}
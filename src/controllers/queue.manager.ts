@@ -46,31 +46,13 @@ export class QueueManager {
     }
 
     /**
-     * Send a message to retry VM polling after a delay
+     * Send a message to retry VM polling after a delay (the message stays invisible in the queue until then)
+     * @param message Poll message, with the retry count of the next poll
+     * @param delaySeconds Visibility delay of the message
      */
     async scheduleVmPollRetry(message: VmCreationPollMessage, delaySeconds: number = 60): Promise<void> {
-        try {
-            this.logger.info(`Scheduling VM poll retry for: ${message.vmName} in ${delaySeconds} seconds`);
-            
-            // Update retry count
-            const retryMessage = {
-                ...message,
-                retryCount: (message.retryCount || 0) + 1
-            };
-            
-            const messageText = JSON.stringify(retryMessage);
-            const encodedMessage = Buffer.from(messageText).toString('base64');
-            
-            // Send message - delay will be handled by the polling function
-            const queueClient = await this.queueServiceClient.getQueueClient(this.queueName);
-            await queueClient.sendMessage(encodedMessage);
-            
-            this.logger.info(`Scheduled VM poll retry for: ${message.vmName}, retry count: ${retryMessage.retryCount}`);
-            
-        } catch (error) {
-            this.logger.error(`Failed to schedule VM poll retry for ${message.vmName}:`, error);
-            throw error;
-        }
+        this.logger.info(`Scheduling VM poll retry for: ${message.vmName} in ${delaySeconds} seconds, retry count: ${message.retryCount || 0}`);
+        await this.sendMessage(JSON.stringify(message), delaySeconds);
     }
 
 }
@@ -1,30 +1,79 @@
 // Disk snapshots
 import { ILogger } from '../common/logger';
-import { ComputeManagementClient } from "@azure/arm-compute";
+import { ComputeManagementClient, Snapshot } from "@azure/arm-compute";
 import { NetworkManagementClient } from "@azure/arm-network";
 import { DefaultAzureCredential } from "@azure/identity";
 import { VmError, _getString } from "../common/apperror";
-import { NewVmDetails, VmDisk, VmNic, VmInfo, TrackingInfo, VmCreationResult, VmCreationPollMessage } from '../common/interfaces';
-import { formatDateYYYYMMDDTHHMM } from '../common/utils';
+import { NewVmDetails, VmDisk, VmNic, VmInfo, TrackingInfo, VmCreationResult, VmCreationPollMessage, RecoverySnapshot, RecoveryResource, VmHealth, ThrottlingObservation, ComputeUsage, VmSizeInfo, SubnetCapacity, ResourceNameInfo, VmSizeResolution, SnapshotCopy, CompensatedResource } from '../common/interfaces';
+import { extractResourceGroupFromResourceId, extractSubscriptionIdFromResourceId } from '../common/utils';
+import { getRestoredDiskName, getRestoredNicName, getRestoredVmName } from '../common/restore-naming';
+import { RESOURCE_TYPE_VM, RESOURCE_TYPE_NIC, RESOURCE_TYPE_DISK } from '../common/constants';
+import { findExistingDisk } from '../common/existing-restore-utils';
+import { RestoreTransaction } from '../common/restore-transaction';
+import { parseRetryAfter } from '../common/adaptive-throttling';
+import { parseSubnetId } from '../common/azure-resource-utils';
+import { resolveVmSize } from '../common/vm-size-mapping';
+import { getDiskZones, isZonalOnlyDiskSku } from '../common/zone-placement';
+import { buildSnapshotCopyName, getRestoreLocation } from '../common/cross-region';
 
  
 export class VmManager {
 
     private computeClient: ComputeManagementClient;
     private networkClient: NetworkManagementClient;
+    private throttling: ThrottlingObservation = { throttledRequests: 0, retryAfterSeconds: 0 };
 
     constructor(private logger: ILogger, subscriptionId: string) {
         const credential = new DefaultAzureCredential();
         this.computeClient = new ComputeManagementClient(credential, subscriptionId);
         this.networkClient = new NetworkManagementClient(credential, subscriptionId);
+
+        // Record every throttled request, including the ones retried by the SDK
+        const throttlingPolicy = {
+            name: 'throttlingObserverPolicy',
+            sendRequest: async (request, next) => {
+                const response = await next(request);
+                if (response.status === 429) {
+                    this.throttling.throttledRequests++;
+                    this.throttling.retryAfterSeconds = parseRetryAfter(response.headers.get('retry-after'), new Date());
+                    this.throttling.lastThrottledAt = new Date().toISOString();
+                    this.logger.warn(`ARM request throttled (429), Retry-After: ${this.throttling.retryAfterSeconds}s: ${request.method} ${request.url}`);
+                }
+                return response;
+            }
+        };
+        this.computeClient.pipeline.addPolicy(throttlingPolicy, { afterPhase: 'Retry' });
+        this.networkClient.pipeline.addPolicy(throttlingPolicy, { afterPhase: 'Retry' });
     }
 
-    public async createDiskFromSnapshot(source: NewVmDetails, jobId: string): Promise<VmDisk> {
+    /**
+     * Throttled requests (429) of the compute and network clients since the creation of the manager
+     */
+    public get throttlingObservation(): ThrottlingObservation {
+        return { ...this.throttling };
+    }
+
+    public async createDiskFromSnapshot(source: NewVmDetails, jobId: string, snapshot: RecoverySnapshot = source.sourceSnapshot, transaction?: RestoreTransaction): Promise<VmDisk> {
 
         try {
+            // Adopt the disk already restored from the same snapshot by a previous run (not compensated on failure)
+            const existingDisk = source.existingRestoreMode === 'adopt' ? findExistingDisk(source.existingResources, snapshot) : undefined;
+            if (existingDisk) {
+                const adoptedDisk = await this.computeClient.disks.get(existingDisk.resourceGroup, existingDisk.name);
+                this.logger.info(`Adopting existing disk ${adoptedDisk.name} restored from snapshot ${snapshot.id}`);
+                return {
+                    id: adoptedDisk.id,
+                    name: adoptedDisk.name,
+                    osType: adoptedDisk.osType,
+                    lun: snapshot.lun,
+                    caching: snapshot.caching,
+                    adopted: true
+                };
+            }
+
             let newDisk: VmDisk = null;
             let diskExists = false;
-            const diskName = `${source.sourceSnapshot.vmName}-${source.sourceSnapshot.diskProfile}-${formatDateYYYYMMDDTHHMM(new Date())}`;
+            const diskName = getRestoredDiskName(snapshot, new Date());
 
             // Add mandatory tags from environment variable
             let allTags = {};
@@ -38,36 +87,113 @@ export class VmManager {
             // Tracking Id
             const tracking: TrackingInfo = {
                 batchId: source.batchId,
-                jobId: jobId
+                jobId: jobId,
+                snapshotName: source.sourceSnapshot.snapshotName
             }
 
-            const result = await this.computeClient.disks.beginCreateOrUpdateAndWait(source.targetResourceGroup, diskName, {
-                location: source.sourceSnapshot.location,
+            // Disks are created in the zone of the VM (zonal-only SKUs keep their SKU, which needs a zone)
+            const zone = source.sourceSnapshot.targetZone;
+            const diskParameters: any = {
+                location: getRestoreLocation(snapshot),
+                zones: getDiskZones(snapshot.diskSku, zone),
                 creationData: {
                     createOption: "Copy",
-                    sourceResourceId: source.sourceSnapshot.id
+                    sourceResourceId: snapshot.copyId || snapshot.id
                 },
                 tags: { ...allTags,
                     "smcp-recovery": JSON.stringify(tracking)
                 }
-            });
+            };
+            if (isZonalOnlyDiskSku(snapshot.diskSku)) {
+                if (!zone) {
+                    throw new Error(`Disk SKU ${snapshot.diskSku} can only be restored in an availability zone`);
+                }
+                diskParameters.sku = { name: snapshot.diskSku };
+            }
+
+            const result = await this.computeClient.disks.beginCreateOrUpdateAndWait(source.targetResourceGroup, diskName, diskParameters);
 
             newDisk = {
                 id: result.id,
                 name: diskName,
-                osType: result.osType
+                osType: result.osType,
+                lun: snapshot.lun,
+                caching: snapshot.caching
             };
 
+            transaction?.register(
+                { type: 'disk', name: diskName, resourceGroup: source.targetResourceGroup },
+                () => this.deleteDisk(source.targetResourceGroup, diskName, jobId)
+            );
+
             return newDisk;
 
         } catch (error) {
-            const message = `Unable to create disk from snapshot '${source.sourceSnapshot.id}' with error: ${_getString(error)}`;
+            const message = `Unable to create disk from snapshot '${snapshot.id}' with error: ${_getString(error)}`;
             this.logger.error(message);
             throw new VmError(message);
         }
     }
 
 
+    /**
+     * Creates the data disks of a VM from the data disk snapshots grouped with its OS disk snapshot
+     * @param source New VM details
+     * @param jobId Job Id used for tracking
+     * @param transaction Optional restore transaction where the created disks are registered
+     * @returns Data disks with the LUN and caching of the source disks
+     */
+    public async createDataDisksFromSnapshots(source: NewVmDetails, jobId: string, transaction?: RestoreTransaction): Promise<VmDisk[]> {
+        const dataDiskSnapshots = source.sourceSnapshot.dataDiskSnapshots || [];
+        if (dataDiskSnapshots.length === 0) {
+            return [];
+        }
+
+        this.logger.info(`Creating ${dataDiskSnapshots.length} data disks for VM ${source.sourceSnapshot.vmName}`);
+
+        // Wait for all the disks before failing, so that every created disk is registered in the transaction
+        const errors = [];
+        const dataDisks = await Promise.all(dataDiskSnapshots.map(snapshot =>
+            this.createDiskFromSnapshot(source, jobId, snapshot, transaction).catch(error => {
+                errors.push(error);
+                return null;
+            })
+        ));
+        if (errors.length > 0) {
+            throw errors[0];
+        }
+
+        return dataDisks;
+    }
+
+
+    /**
+     * Creates the network interface of a restored VM in its target subnet
+     * @param source New VM details
+     * @param jobId Job Id used for tracking
+     * @param transaction Optional restore transaction where the created NIC is registered
+     * @returns Network interface details
+     */
+    public async createNetworkInterfaceForVm(source: NewVmDetails, jobId: string, transaction?: RestoreTransaction): Promise<VmNic> {
+        const tracking: TrackingInfo = {
+            batchId: source.batchId,
+            jobId: jobId,
+            snapshotName: source.sourceSnapshot.snapshotName
+        }
+
+        return this.createNetworkInterface(
+            tracking,
+            source.targetResourceGroup,
+            getRestoredNicName(source.sourceSnapshot),
+            source.targetSubnetId,
+            getRestoreLocation(source.sourceSnapshot),
+            source.useOriginalIpAddress,
+            source.sourceSnapshot.ipAddress,
+            transaction
+        );
+    }
+
+
     /**
      * Creates a network interface in the specified subnet using Azure SDK
      * @param resourceGroupName Resource group name
@@ -76,6 +202,7 @@ export class VmManager {
      * @param location Azure region
      * @param useOriginalIpAddress Whether to use original IP or dynamic allocation
      * @param originalIpAddress Original IP address from snapshot (optional)
+     * @param transaction Optional restore transaction where the created NIC is registered
      * @returns Network interface details
      */
     private async createNetworkInterface(
@@ -85,7 +212,8 @@ export class VmManager {
         subnetId: string, 
         location: string,
         useOriginalIpAddress: boolean,
-        originalIpAddress?: string
+        originalIpAddress?: string,
+        transaction?: RestoreTransaction
     ): Promise<VmNic> {
 
         try {
@@ -151,6 +279,11 @@ export class VmManager {
                 ipAddress: nicResult.ipConfigurations?.[0]?.privateIPAddress || 'Unknown'
             };
 
+            transaction?.register(
+                { type: 'nic', name: nicName, resourceGroup: resourceGroupName },
+                () => this.deleteNetworkInterface(resourceGroupName, nicName, tracking.jobId)
+            );
+
             this.logger.info(`Successfully created network interface: ${nicOutput.id} with IP: ${nicOutput.ipAddress}`);
             return nicOutput;
 
@@ -162,26 +295,29 @@ export class VmManager {
     }
 
 
-    public async createVirtualMachine(source: NewVmDetails, osDisk: VmDisk, jobId: string): Promise<VmInfo> {
+    public async createVirtualMachine(source: NewVmDetails, osDisk: VmDisk, jobId: string, dataDisks: VmDisk[] = [], transaction?: RestoreTransaction, existingNic?: VmNic): Promise<VmInfo> {
 
         try {
             let newVm: VmInfo = null;
+            const vmName = getRestoredVmName(source.sourceSnapshot);
 
             // Tracking Id
             const tracking: TrackingInfo = {
                 batchId: source.batchId,
-                jobId: jobId
+                jobId: jobId,
+                snapshotName: source.sourceSnapshot.snapshotName
             }
 
-            // Create network interface in the target subnet
-            const nic = await this.createNetworkInterface(
+            // Create network interface in the target subnet (unless created by a previous restore phase)
+            const nic = existingNic || await this.createNetworkInterface(
                 tracking,
                 source.targetResourceGroup,
-                `${source.sourceSnapshot.vmName}-nic`,
+                getRestoredNicName(source.sourceSnapshot),
                 source.targetSubnetId,
-                source.sourceSnapshot.location,
+                getRestoreLocation(source.sourceSnapshot),
                 source.useOriginalIpAddress,
-                source.sourceSnapshot.ipAddress
+                source.sourceSnapshot.ipAddress,
+                transaction
             );
 
             // Add mandatory tags from environment variable
@@ -194,16 +330,25 @@ export class VmManager {
             }
 
             // Step 2: Create the virtual machine
+            const vmSize = await this.resolveVmSize(source);
             let vmConfig: any = {
-                location: source.sourceSnapshot.location,
-                hardwareProfile: { vmSize: source.sourceSnapshot.vmSize },
+                location: getRestoreLocation(source.sourceSnapshot),
+                zones: source.sourceSnapshot.targetZone ? [source.sourceSnapshot.targetZone] : undefined,
+                hardwareProfile: { vmSize: vmSize.vmSize },
                 storageProfile: {
                     osDisk: {
                         osType: osDisk.osType,
                         name: osDisk.name,
                         createOption: "Attach",
                         managedDisk: { id: osDisk.id }
-                    }
+                    },
+                    dataDisks: dataDisks.map(dataDisk => ({
+                        lun: dataDisk.lun,
+                        name: dataDisk.name,
+                        createOption: "Attach",
+                        caching: dataDisk.caching || "None",
+                        managedDisk: { id: dataDisk.id }
+                    }))
                 },
                 // Note: When attaching existing OS disk, don't include osProfile
                 // The OS configuration comes from the attached disk
@@ -236,12 +381,25 @@ export class VmManager {
                 //this.logger.info(`Adding TrustedLaunch security profile to VM: ${source.sourceSnapshot.vmName}`);
             }
 
-            const result = await this.computeClient.virtualMachines.beginCreateOrUpdateAndWait(source.targetResourceGroup, source.sourceSnapshot.vmName, vmConfig);
+            // Ultra disks can only be attached to a VM with the Ultra SSD capability
+            if ([source.sourceSnapshot, ...(source.sourceSnapshot.dataDiskSnapshots || [])].some(disk => disk.diskSku?.toLowerCase() === 'ultrassd_lrs')) {
+                vmConfig.additionalCapabilities = { ultraSSDEnabled: true };
+            }
+
+            // The VM resource may exist in a failed state even if the creation fails
+            transaction?.register(
+                { type: 'vm', name: vmName, resourceGroup: source.targetResourceGroup },
+                () => this.deleteVirtualMachine(source.targetResourceGroup, vmName, jobId)
+            );
+
+            const result = await this.computeClient.virtualMachines.beginCreateOrUpdateAndWait(source.targetResourceGroup, vmName, vmConfig);
 
             newVm = {
                 id: result.id,
                 name: result.name,
-                ipAddress: nic.ipAddress
+                ipAddress: nic.ipAddress,
+                vmSize: vmSize.vmSize,
+                zone: source.sourceSnapshot.targetZone
             };
 
             this.logger.info(`Successfully created VM: ${newVm.name} with ID: ${newVm.id} and IP address: ${newVm.ipAddress}`);
@@ -256,38 +414,50 @@ export class VmManager {
     }
 
 
-    public async createVirtualMachineAsync(source: NewVmDetails, osDisk: VmDisk, jobId: string): Promise<VmCreationResult> {
+    public async createVirtualMachineAsync(source: NewVmDetails, osDisk: VmDisk, jobId: string, dataDisks: VmDisk[] = [], transaction?: RestoreTransaction): Promise<VmCreationResult> {
 
         try {
+            const vmName = getRestoredVmName(source.sourceSnapshot);
 
             // Tracking Id
             const tracking: TrackingInfo = {
                 batchId: source.batchId,
-                jobId: jobId
+                jobId: jobId,
+                snapshotName: source.sourceSnapshot.snapshotName
             }
 
             // Create network interface in the target subnet
             const nic = await this.createNetworkInterface(
                 tracking,
                 source.targetResourceGroup,
-                `${source.sourceSnapshot.vmName}-nic`,
+                getRestoredNicName(source.sourceSnapshot),
                 source.targetSubnetId,
-                source.sourceSnapshot.location,
+                getRestoreLocation(source.sourceSnapshot),
                 source.useOriginalIpAddress,
-                source.sourceSnapshot.ipAddress
+                source.sourceSnapshot.ipAddress,
+                transaction
             );
 
             // Step 2: Create the virtual machine
+            const vmSize = await this.resolveVmSize(source);
             let vmConfig: any = {
-                location: source.sourceSnapshot.location,
-                hardwareProfile: { vmSize: source.sourceSnapshot.vmSize },
+                location: getRestoreLocation(source.sourceSnapshot),
+                zones: source.sourceSnapshot.targetZone ? [source.sourceSnapshot.targetZone] : undefined,
+                hardwareProfile: { vmSize: vmSize.vmSize },
                 storageProfile: {
                     osDisk: {
                         osType: osDisk.osType,
                         name: osDisk.name,
                         createOption: "Attach",
                         managedDisk: { id: osDisk.id }
-                    }
+                    },
+                    dataDisks: dataDisks.map(dataDisk => ({
+                        lun: dataDisk.lun,
+                        name: dataDisk.name,
+                        createOption: "Attach",
+                        caching: dataDisk.caching || "None",
+                        managedDisk: { id: dataDisk.id }
+                    }))
                 },
                 // Note: When attaching existing OS disk, don't include osProfile
                 // The OS configuration comes from the attached disk
@@ -320,8 +490,19 @@ export class VmManager {
                 //this.logger.info(`Adding TrustedLaunch security profile to VM: ${source.sourceSnapshot.vmName}`);
             }
 
+            // Ultra disks can only be attached to a VM with the Ultra SSD capability
+            if ([source.sourceSnapshot, ...(source.sourceSnapshot.dataDiskSnapshots || [])].some(disk => disk.diskSku?.toLowerCase() === 'ultrassd_lrs')) {
+                vmConfig.additionalCapabilities = { ultraSSDEnabled: true };
+            }
+
+            // The VM resource may exist in a failed state even if the creation fails
+            transaction?.register(
+                { type: 'vm', name: vmName, resourceGroup: source.targetResourceGroup },
+                () => this.deleteVirtualMachine(source.targetResourceGroup, vmName, jobId)
+            );
+
             // Start the async VM creation operation
-            const poller = await this.computeClient.virtualMachines.beginCreateOrUpdate(source.targetResourceGroup, source.sourceSnapshot.vmName, vmConfig);
+            const poller = await this.computeClient.virtualMachines.beginCreateOrUpdate(source.targetResourceGroup, vmName, vmConfig);
             const operationState = poller.getOperationState();
             
             // Generate a unique operation ID for tracking
@@ -331,12 +512,17 @@ export class VmManager {
 
             // Create message for queue-based polling
             const pollMessage: VmCreationPollMessage = {
-                pollerUrl: poller.toString(), // This may contain serialized poller info
+                pollerUrl: poller.toString(), // Serialized poller state, used to resume the operation
                 operationId: operationId,
-                vmName: source.sourceSnapshot.vmName,
+                vmName: vmName,
                 targetResourceGroup: source.targetResourceGroup,
                 sourceSnapshot: source.sourceSnapshot,
                 nicInfo: nic,
+                vmSize: vmSize.vmSize,
+                targetSubnetId: source.targetSubnetId,
+                osDisk: osDisk,
+                dataDisks: dataDisks,
+                compensationMode: source.compensationMode,
                 jobId: jobId,
                 batchId: source.batchId,
                 createdAt: new Date().toISOString(),
@@ -360,8 +546,101 @@ export class VmManager {
 
     /**
      * Check the status of a VM creation operation and return the result
+     * The operation is resumed from the serialized poller state of the poll message, so that a failed operation
+     * is reported with its error code and message. Poll messages without poller state fall back to the VM resource.
      */
     public async checkVmCreationStatus(pollMessage: VmCreationPollMessage): Promise<VmCreationResult> {
+        if (!pollMessage.pollerUrl) {
+            return this.checkVmCreationStatusFromResource(pollMessage);
+        }
+
+        try {
+            this.logger.info(`Resuming VM creation operation for: ${pollMessage.vmName}, operation ID: ${pollMessage.operationId}`);
+
+            // The initial request is not sent again when resuming, the parameters are only required by the signature
+            const poller = await this.computeClient.virtualMachines.beginCreateOrUpdate(
+                pollMessage.targetResourceGroup,
+                pollMessage.vmName,
+                { location: getRestoreLocation(pollMessage.sourceSnapshot) },
+                { resumeFrom: pollMessage.pollerUrl }
+            );
+
+            let pollError: any;
+            try {
+                await poller.poll();
+            } catch (error) {
+                pollError = error;
+            }
+
+            const operationState = poller.getOperationState();
+            this.logger.info(`VM ${pollMessage.vmName} creation operation status: ${operationState.status}`);
+
+            if (operationState.status === 'succeeded') {
+                const vm = poller.getResult();
+                const vmInfo: VmInfo = {
+                    id: vm?.id,
+                    name: vm?.name || pollMessage.vmName,
+                    ipAddress: pollMessage.nicInfo.ipAddress,
+                    vmSize: vm?.hardwareProfile?.vmSize || pollMessage.vmSize,
+                    zone: vm?.zones?.[0] || pollMessage.sourceSnapshot?.targetZone
+                };
+
+                this.logger.info(`VM creation completed successfully: ${vmInfo.name} with IP: ${vmInfo.ipAddress}`);
+                return {
+                    success: true,
+                    vmInfo: vmInfo
+                };
+            }
+
+            if (operationState.status === 'failed' || operationState.status === 'canceled') {
+                // The operation failed: polling ends right away with the error of the operation
+                const lroError: any = operationState.error || pollError;
+                const errorCode = lroError?.code ? `${lroError.code}: ` : '';
+                const errorMsg = `VM creation ${operationState.status} for ${pollMessage.vmName}: ${errorCode}${lroError?.message || 'no error details'}`;
+                this.logger.error(errorMsg);
+
+                return {
+                    success: false,
+                    error: errorMsg,
+                    vmFailed: true
+                };
+            }
+
+            if (pollError) {
+                // The status could not be checked (the operation itself did not fail)
+                const errorMsg = `Error checking VM creation operation: ${_getString(pollError)}`;
+                this.logger.error(errorMsg);
+                return {
+                    success: false,
+                    error: errorMsg
+                };
+            }
+
+            // VM creation still in progress, poll again from the updated poller state
+            this.logger.info(`VM ${pollMessage.vmName} still being created, status: ${operationState.status}`);
+            return {
+                success: false,
+                error: `VM creation still in progress, status: ${operationState.status}`,
+                pollerMessage: {
+                    ...pollMessage,
+                    pollerUrl: poller.toString(),
+                    retryCount: (pollMessage.retryCount || 0) + 1
+                }
+            };
+
+        } catch (error) {
+            const message = `Unable to resume VM creation operation for '${pollMessage.vmName}' with error: ${_getString(error)}`;
+            this.logger.error(message);
+
+            return {
+                success: false,
+                error: message
+            };
+        }
+    }
+
+    // Status of a VM creation from the VM resource (poll messages without poller state)
+    private async checkVmCreationStatusFromResource(pollMessage: VmCreationPollMessage): Promise<VmCreationResult> {
         try {
             this.logger.info(`Checking VM creation status for: ${pollMessage.vmName}, operation ID: ${pollMessage.operationId}`);
             
@@ -402,7 +681,9 @@ export class VmManager {
                 const vmInfo: VmInfo = {
                     id: vm.id,
                     name: vm.name,
-                    ipAddress: pollMessage.nicInfo.ipAddress
+                    ipAddress: pollMessage.nicInfo.ipAddress,
+                    vmSize: vm?.hardwareProfile?.vmSize || pollMessage.vmSize,
+                    zone: vm?.zones?.[0] || pollMessage.sourceSnapshot?.targetZone
                 };
 
                 this.logger.info(`VM creation completed successfully: ${vmInfo.name} with IP: ${vmInfo.ipAddress}`);
@@ -418,7 +699,8 @@ export class VmManager {
                 
                 return {
                     success: false,
-                    error: errorMsg
+                    error: errorMsg,
+                    vmFailed: true
                 };
             } else {
                 // VM creation still in progress (Creating, Updating, etc.)
@@ -445,4 +727,520 @@ export class VmManager {
         }
     }
 
+
+    /**
+     * Deletes a virtual machine (attached disks and NICs are kept)
+     * @param resourceGroupName Resource group name
+     * @param vmName Virtual machine name
+     * @param jobId Optional job Id - the VM is only deleted if its smcp-recovery tag has this job Id
+     */
+    public async deleteVirtualMachine(resourceGroupName: string, vmName: string, jobId?: string): Promise<void> {
+        try {
+            if (jobId) {
+                const vm = await this.computeClient.virtualMachines.get(resourceGroupName, vmName);
+                assertCreatedByJob(vm.tags, jobId, `VM ${vmName}`);
+            }
+            this.logger.info(`Deleting VM ${vmName} in resource group ${resourceGroupName}`);
+            await this.computeClient.virtualMachines.beginDeleteAndWait(resourceGroupName, vmName);
+        } catch (error) {
+            if (isNotFoundError(error)) {
+                this.logger.info(`VM ${vmName} no longer exists`);
+                return;
+            }
+            const message = `Unable to delete vm '${vmName}' with error: ${_getString(error)}`;
+            this.logger.error(message);
+            throw new VmError(message);
+        }
+    }
+
+    /**
+     * Deletes a network interface
+     * @param resourceGroupName Resource group name
+     * @param nicName Network interface name
+     * @param jobId Optional job Id - the NIC is only deleted if its smcp-recovery tag has this job Id
+     */
+    public async deleteNetworkInterface(resourceGroupName: string, nicName: string, jobId?: string): Promise<void> {
+        try {
+            if (jobId) {
+                const nic = await this.networkClient.networkInterfaces.get(resourceGroupName, nicName);
+                assertCreatedByJob(nic.tags, jobId, `network interface ${nicName}`);
+            }
+            this.logger.info(`Deleting network interface ${nicName} in resource group ${resourceGroupName}`);
+            await this.networkClient.networkInterfaces.beginDeleteAndWait(resourceGroupName, nicName);
+        } catch (error) {
+            if (isNotFoundError(error)) {
+                this.logger.info(`Network interface ${nicName} no longer exists`);
+                return;
+            }
+            const message = `Unable to delete network interface '${nicName}' with error: ${_getString(error)}`;
+            this.logger.error(message);
+            throw new VmError(message);
+        }
+    }
+
+    /**
+     * Deletes a managed disk
+     * @param resourceGroupName Resource group name
+     * @param diskName Disk name
+     * @param jobId Optional job Id - the disk is only deleted if its smcp-recovery tag has this job Id
+     */
+    public async deleteDisk(resourceGroupName: string, diskName: string, jobId?: string): Promise<void> {
+        try {
+            if (jobId) {
+                const disk = await this.computeClient.disks.get(resourceGroupName, diskName);
+                assertCreatedByJob(disk.tags, jobId, `disk ${diskName}`);
+            }
+            this.logger.info(`Deleting disk ${diskName} in resource group ${resourceGroupName}`);
+            await this.computeClient.disks.beginDeleteAndWait(resourceGroupName, diskName);
+        } catch (error) {
+            if (isNotFoundError(error)) {
+                this.logger.info(`Disk ${diskName} no longer exists`);
+                return;
+            }
+            const message = `Unable to delete disk '${diskName}' with error: ${_getString(error)}`;
+            this.logger.error(message);
+            throw new VmError(message);
+        }
+    }
+
+
+    /**
+     * Lists the VMs, NICs and disks of a resource group created by a restore (with the smcp-recovery tag)
+     * @param resourceGroupName Resource group name
+     * @returns Restored resources with their tracking info (empty if the resource group does not exist)
+     */
+    public async listRecoveryResources(resourceGroupName: string): Promise<RecoveryResource[]> {
+        try {
+            const resources: RecoveryResource[] = [];
+
+            for await (const vm of this.computeClient.virtualMachines.list(resourceGroupName)) {
+                addRecoveryResource(resources, vm, RESOURCE_TYPE_VM);
+            }
+            for await (const nic of this.networkClient.networkInterfaces.list(resourceGroupName)) {
+                addRecoveryResource(resources, nic, RESOURCE_TYPE_NIC);
+            }
+            for await (const disk of this.computeClient.disks.listByResourceGroup(resourceGroupName)) {
+                addRecoveryResource(resources, disk, RESOURCE_TYPE_DISK, disk.creationData?.sourceResourceId);
+            }
+
+            return resources;
+        } catch (error) {
+            if (isNotFoundError(error)) {
+                this.logger.info(`Resource group ${resourceGroupName} does not exist`);
+                return [];
+            }
+            const message = `Unable to list restored resources in resource group '${resourceGroupName}' with error: ${_getString(error)}`;
+            this.logger.error(message);
+            throw new VmError(message);
+        }
+    }
+
+    /**
+     * Deletes restored resources in dependency order: VMs first (releases NICs and disks), then NICs and finally disks.
+     * Each resource is only deleted if its smcp-recovery tag still has the job Id of its tracking info.
+     * @param resources Restored resources to delete
+     * @returns Deleted and failed resources
+     */
+    public async deleteRecoveryResources(resources: RecoveryResource[]): Promise<{ deleted: RecoveryResource[]; failed: { resource: RecoveryResource; error: string }[] }> {
+        const deleted: RecoveryResource[] = [];
+        const failed: { resource: RecoveryResource; error: string }[] = [];
+
+        for (const resourceType of [RESOURCE_TYPE_VM, RESOURCE_TYPE_NIC, RESOURCE_TYPE_DISK]) {
+            const resourcesOfType = resources.filter(resource => resource.type.toLowerCase() === resourceType);
+
+            await Promise.all(resourcesOfType.map(async (resource: RecoveryResource) => {
+                try {
+                    if (resourceType === RESOURCE_TYPE_VM) {
+                        await this.deleteVirtualMachine(resource.resourceGroup, resource.name, resource.tracking?.jobId);
+                    } else if (resourceType === RESOURCE_TYPE_NIC) {
+                        await this.deleteNetworkInterface(resource.resourceGroup, resource.name, resource.tracking?.jobId);
+                    } else {
+                        await this.deleteDisk(resource.resourceGroup, resource.name, resource.tracking?.jobId);
+                    }
+                    deleted.push(resource);
+                } catch (error) {
+                    failed.push({ resource, error: _getString(error) });
+                }
+            }));
+        }
+
+        return { deleted, failed };
+    }
+
+    /**
+     * Deletes the resources of the target resource group whose names are taken by a restore (collision strategy 'replace'):
+     * VMs first, then NICs and finally disks
+     * Only resources restored by a recovery (smcp-recovery tag with a snapshot name) are deleted, the others are refused.
+     * @param resources Resources to delete
+     * @returns Failed resources (refused if they were not restored by a recovery)
+     */
+    public async deleteReplacedResources(resources: CompensatedResource[]): Promise<{ resource: CompensatedResource; error: string; refused?: boolean }[]> {
+        const failed: { resource: CompensatedResource; error: string; refused?: boolean }[] = [];
+
+        for (const type of ['vm', 'nic', 'disk']) {
+            await Promise.all(resources.filter(resource => resource.type === type).map(async (resource: CompensatedResource) => {
+                try {
+                    const tags = type === 'vm'
+                        ? (await this.computeClient.virtualMachines.get(resource.resourceGroup, resource.name)).tags
+                        : type === 'nic'
+                            ? (await this.networkClient.networkInterfaces.get(resource.resourceGroup, resource.name)).tags
+                            : (await this.computeClient.disks.get(resource.resourceGroup, resource.name)).tags;
+                    if (!getTrackedSnapshotName(tags)) {
+                        this.logger.warn(`Refusing to replace ${type} ${resource.name}: it was not restored by a recovery`);
+                        failed.push({ resource, error: 'not restored by a recovery', refused: true });
+                        return;
+                    }
+
+                    if (type === 'vm') {
+                        await this.deleteVirtualMachine(resource.resourceGroup, resource.name);
+                    } else if (type === 'nic') {
+                        await this.deleteNetworkInterface(resource.resourceGroup, resource.name);
+                    } else {
+                        await this.deleteDisk(resource.resourceGroup, resource.name);
+                    }
+                } catch (error) {
+                    if (isNotFoundError(error)) {
+                        return;
+                    }
+                    failed.push({ resource, error: _getString(error) });
+                }
+            }));
+        }
+
+        return failed;
+    }
+
+
+    /**
+     * Gets the health of a restored VM from its instance view (running with the guest agent ready)
+     * @param resourceGroupName Resource group name
+     * @param vmName VM name
+     * @returns Health of the VM (not healthy if the VM does not exist yet)
+     */
+    public async getVmHealth(resourceGroupName: string, vmName: string): Promise<VmHealth> {
+        try {
+            const instanceView = await this.computeClient.virtualMachines.instanceView(resourceGroupName, vmName);
+
+            const powerState = instanceView.statuses?.find(status => status.code?.startsWith('PowerState/'))?.code?.replace('PowerState/', '');
+            const provisioningState = instanceView.statuses?.find(status => status.code?.startsWith('ProvisioningState/'))?.code?.replace('ProvisioningState/', '');
+            const agentStatus = instanceView.vmAgent?.statuses?.[0]?.displayStatus;
+            const healthy = powerState === 'running' && agentStatus === 'Ready';
+
+            return {
+                vmName,
+                healthy,
+                powerState,
+                provisioningState,
+                agentStatus,
+                message: healthy ? undefined : `VM ${vmName} is ${powerState || 'unknown'} with guest agent ${agentStatus || 'not reporting'}`
+            };
+        } catch (error) {
+            if (isNotFoundError(error)) {
+                return { vmName, healthy: false, message: `VM ${vmName} does not exist yet` };
+            }
+            const message = `Unable to get instance view of VM '${vmName}' with error: ${_getString(error)}`;
+            this.logger.error(message);
+            throw new VmError(message);
+        }
+    }
+
+    /**
+     * Resolves the size of a restored VM with the size mapping rules of the batch
+     * Without rules the source size is used without reading the offered sizes and the quota of the region.
+     * @param source New VM details
+     * @returns Size to restore and the rule that chose it
+     */
+    public async resolveVmSize(source: NewVmDetails): Promise<VmSizeResolution> {
+        const sourceVmSize = source.sourceSnapshot.vmSize;
+        if (!source.vmSizeMapping) {
+            return { vmSize: sourceVmSize, rule: 'source' };
+        }
+
+        const location = getRestoreLocation(source.sourceSnapshot);
+        const [offeredSizes, usages] = await Promise.all([this.listVmSizes(location), this.listComputeUsages(location)]);
+        const resolution = resolveVmSize(sourceVmSize, source.vmSizeMapping, offeredSizes, usages);
+        if (resolution.rule !== 'source') {
+            this.logger.info(`${resolution.message} for VM ${source.sourceSnapshot.vmName}`);
+        } else if (resolution.message) {
+            this.logger.warn(`${resolution.message} for VM ${source.sourceSnapshot.vmName}`);
+        }
+        return resolution;
+    }
+
+    /**
+     * Lists the VMs, NICs and disks of a resource group, with the snapshot they were restored from if any
+     * @param resourceGroupName Resource group name
+     * @returns VMs, NICs and disks (none if the resource group does not exist)
+     */
+    public async listResourceNames(resourceGroupName: string): Promise<ResourceNameInfo[]> {
+        try {
+            const resources: ResourceNameInfo[] = [];
+            for await (const vm of this.computeClient.virtualMachines.list(resourceGroupName)) {
+                resources.push({ type: RESOURCE_TYPE_VM, name: vm.name, snapshotName: getTrackedSnapshotName(vm.tags) });
+            }
+            for await (const nic of this.networkClient.networkInterfaces.list(resourceGroupName)) {
+                resources.push({ type: RESOURCE_TYPE_NIC, name: nic.name, snapshotName: getTrackedSnapshotName(nic.tags) });
+            }
+            for await (const disk of this.computeClient.disks.listByResourceGroup(resourceGroupName)) {
+                resources.push({ type: RESOURCE_TYPE_DISK, name: disk.name, snapshotName: getTrackedSnapshotName(disk.tags) });
+            }
+            return resources;
+        } catch (error) {
+            if (isNotFoundError(error)) {
+                return [];
+            }
+            const message = `Unable to list the VMs, NICs and disks of resource group '${resourceGroupName}' with error: ${_getString(error)}`;
+            this.logger.error(message);
+            throw new VmError(message);
+        }
+    }
+
+    /**
+     * Gets the address prefixes of a subnet and the number of IP configurations using it
+     * @param subnetId Subnet resource ID
+     */
+    public async getSubnetCapacity(subnetId: string): Promise<SubnetCapacity> {
+        try {
+            const parsed = parseSubnetId(subnetId);
+            const subnet = await this.networkClient.subnets.get(parsed.resourceGroupName, parsed.parentResourceName, parsed.resourceName);
+            return {
+                subnetId,
+                addressPrefixes: subnet.addressPrefixes?.length > 0 ? subnet.addressPrefixes : [subnet.addressPrefix].filter(prefix => !!prefix),
+                usedIpAddresses: subnet.ipConfigurations?.length || 0
+            };
+        } catch (error) {
+            const message = `Unable to get subnet '${subnetId}' with error: ${_getString(error)}`;
+            this.logger.error(message);
+            throw new VmError(message);
+        }
+    }
+
+    /**
+     * Checks if a private IP address is free in the virtual network of a subnet
+     * @param subnetId Subnet resource ID
+     * @param ipAddress Private IP address
+     */
+    public async isIpAddressAvailable(subnetId: string, ipAddress: string): Promise<boolean> {
+        try {
+            const parsed = parseSubnetId(subnetId);
+            const result = await this.networkClient.virtualNetworks.checkIPAddressAvailability(parsed.resourceGroupName, parsed.parentResourceName, ipAddress);
+            return result.available === true;
+        } catch (error) {
+            const message = `Unable to check IP address ${ipAddress} in subnet '${subnetId}' with error: ${_getString(error)}`;
+            this.logger.error(message);
+            throw new VmError(message);
+        }
+    }
+
+    /**
+     * Lists the compute usage and quota of the subscription in a region (vCPUs per VM family, regional vCPUs, disk counts)
+     * @param location Region name
+     */
+    public async listComputeUsages(location: string): Promise<ComputeUsage[]> {
+        try {
+            const usages: ComputeUsage[] = [];
+            for await (const usage of this.computeClient.usageOperations.list(location)) {
+                if (usage.name?.value) {
+                    usages.push({ name: usage.name.value, currentValue: usage.currentValue, limit: usage.limit });
+                }
+            }
+            return usages;
+        } catch (error) {
+            const message = `Unable to list compute usages in ${location} with error: ${_getString(error)}`;
+            this.logger.error(message);
+            throw new VmError(message);
+        }
+    }
+
+    /**
+     * Lists the VM sizes offered to the subscription in a region, with their quota family, vCPUs and availability zones
+     * Sizes restricted for the subscription in the region are not listed, zones restricted for the subscription are left out.
+     * @param location Region name
+     */
+    public async listVmSizes(location: string): Promise<VmSizeInfo[]> {
+        try {
+            const sizes: VmSizeInfo[] = [];
+            for await (const sku of this.computeClient.resourceSkus.list({ filter: `location eq '${location}'` })) {
+                if (sku.resourceType !== 'virtualMachines' || !sku.name || sku.restrictions?.some(restriction => restriction.type === 'Location')) {
+                    continue;
+                }
+                const vCpus = parseInt(sku.capabilities?.find(capability => capability.name === 'vCPUs')?.value || '0');
+                const restrictedZones = sku.restrictions?.filter(restriction => restriction.type === 'Zone').flatMap(restriction => restriction.restrictionInfo?.zones || []) || [];
+                const zones = (sku.locationInfo?.[0]?.zones || []).filter(zone => !restrictedZones.includes(zone)).sort();
+                sizes.push({ name: sku.name, family: sku.family, vCpus, zones });
+            }
+            return sizes;
+        } catch (error) {
+            const message = `Unable to list VM sizes in ${location} with error: ${_getString(error)}`;
+            this.logger.error(message);
+            throw new VmError(message);
+        }
+    }
+
+    /**
+     * Starts the copy of a snapshot to its target location (CopyStart), in the target resource group
+     * A copy of the same snapshot started by a previous run is reused.
+     * @param snapshot Snapshot with its target location
+     * @param targetResourceGroup Resource group of the copy
+     * @param batchId Batch of the restore (tagged on the copy)
+     * @returns Copy with its progress
+     */
+    public async startSnapshotCopy(snapshot: RecoverySnapshot, targetResourceGroup: string, batchId: string): Promise<SnapshotCopy> {
+        const copyName = buildSnapshotCopyName(snapshot.snapshotName, snapshot.targetLocation);
+        try {
+            let copy: Snapshot;
+            try {
+                copy = await this.computeClient.snapshots.get(targetResourceGroup, copyName);
+            } catch (error) {
+                if (!isNotFoundError(error)) {
+                    throw error;
+                }
+            }
+            if (copy && copy.creationData?.sourceResourceId?.toLowerCase() !== snapshot.id.toLowerCase()) {
+                throw new Error(`Snapshot ${copyName} already exists in resource group ${targetResourceGroup} and is not a copy of the snapshot`);
+            }
+
+            if (copy) {
+                this.logger.info(`Reusing copy ${copyName} of snapshot ${snapshot.snapshotName} (${copy.completionPercent ?? 100}% copied)`);
+            } else {
+                // Add mandatory tags from environment variable
+                let allTags = {};
+                const mandatoryTags = JSON.parse(process.env.SNAP_RECOVERY_MANDATORY_TAGS || "[]");
+                for (const tag of mandatoryTags) {
+                    if (tag.key && tag.value) {
+                        allTags[tag.key] = tag.value;
+                    }
+                }
+
+                this.logger.info(`Copying snapshot ${snapshot.snapshotName} from ${snapshot.location} to ${snapshot.targetLocation} as ${copyName}`);
+                copy = await this.computeClient.snapshots.beginCreateOrUpdateAndWait(targetResourceGroup, copyName, {
+                    location: snapshot.targetLocation,
+                    incremental: true,
+                    creationData: {
+                        createOption: "CopyStart",
+                        sourceResourceId: snapshot.id
+                    },
+                    tags: { ...allTags,
+                        "smcp-recovery-copy": JSON.stringify({ batchId, sourceSnapshotId: snapshot.id })
+                    }
+                });
+            }
+
+            return toSnapshotCopy(snapshot.id, copyName, snapshot.targetLocation, copy);
+        } catch (error) {
+            const message = `Unable to copy snapshot '${snapshot.id}' to ${snapshot.targetLocation} with error: ${_getString(error)}`;
+            this.logger.error(message);
+            throw new VmError(message);
+        }
+    }
+
+    /**
+     * Gets the progress of a snapshot copy
+     * @param copy Snapshot copy
+     * @param targetResourceGroup Resource group of the copy
+     * @returns Copy with its current progress (failed if the copy no longer exists)
+     */
+    public async getSnapshotCopy(copy: SnapshotCopy, targetResourceGroup: string): Promise<SnapshotCopy> {
+        try {
+            const snapshot = await this.computeClient.snapshots.get(targetResourceGroup, copy.copyName);
+            return toSnapshotCopy(copy.sourceSnapshotId, copy.copyName, copy.location, snapshot);
+        } catch (error) {
+            if (isNotFoundError(error)) {
+                return { ...copy, status: 'failed', error: `Snapshot copy ${copy.copyName} no longer exists` };
+            }
+            const message = `Unable to get snapshot copy '${copy.copyName}' with error: ${_getString(error)}`;
+            this.logger.error(message);
+            throw new VmError(message);
+        }
+    }
+
+    /**
+     * Deletes a snapshot copy (only snapshots tagged as a copy by a restore are deleted)
+     * @param resourceGroupName Resource group name
+     * @param copyName Snapshot copy name
+     */
+    public async deleteSnapshotCopy(resourceGroupName: string, copyName: string): Promise<void> {
+        try {
+            const copy = await this.computeClient.snapshots.get(resourceGroupName, copyName);
+            if (!copy.tags?.['smcp-recovery-copy']) {
+                throw new Error(`Snapshot ${copyName} is not a snapshot copy of a restore`);
+            }
+            this.logger.info(`Deleting snapshot copy ${copyName} in resource group ${resourceGroupName}`);
+            await this.computeClient.snapshots.beginDeleteAndWait(resourceGroupName, copyName);
+        } catch (error) {
+            if (isNotFoundError(error)) {
+                this.logger.info(`Snapshot copy ${copyName} no longer exists`);
+                return;
+            }
+            const message = `Unable to delete snapshot copy '${copyName}' with error: ${_getString(error)}`;
+            this.logger.error(message);
+            throw new VmError(message);
+        }
+    }
+
+}
+
+// Adds a resource to the list if it has a valid smcp-recovery tag
+function addRecoveryResource(resources: RecoveryResource[], resource: { id?: string; name?: string; tags?: { [key: string]: string } }, type: string, sourceResourceId?: string): void {
+    if (!resource.tags?.['smcp-recovery']) {
+        return;
+    }
+    let tracking: TrackingInfo;
+    try {
+        tracking = JSON.parse(resource.tags['smcp-recovery']);
+    } catch {
+        return;
+    }
+    resources.push({
+        id: resource.id,
+        name: resource.name,
+        type: type,
+        resourceGroup: extractResourceGroupFromResourceId(resource.id),
+        subscriptionId: extractSubscriptionIdFromResourceId(resource.id),
+        tracking: tracking,
+        sourceResourceId: sourceResourceId
+    });
+}
+
+// Snapshot name of the smcp-recovery tag, if the resource was restored
+function getTrackedSnapshotName(tags: { [key: string]: string } | undefined): string | undefined {
+    try {
+        return (JSON.parse(tags?.['smcp-recovery'] || '{}') as TrackingInfo).snapshotName;
+    } catch {
+        return undefined;
+    }
+}
+
+// Protects resources not created by the restore job (e.g. an existing VM with the same name) from being deleted
+function assertCreatedByJob(tags: { [key: string]: string } | undefined, jobId: string, resourceDescription: string): void {
+    let tracking: TrackingInfo;
+    try {
+        tracking = JSON.parse(tags?.['smcp-recovery'] || '{}');
+    } catch {
+        tracking = undefined;
+    }
+    if (tracking?.jobId !== jobId) {
+        throw new VmError(`Refusing to delete ${resourceDescription}: it was not created by job ${jobId}`);
+    }
+}
+
+// Progress of a snapshot copy (the background copy of CopyStart is complete at 100%)
+function toSnapshotCopy(sourceSnapshotId: string, copyName: string, location: string, snapshot: Snapshot): SnapshotCopy {
+    const completionPercent = snapshot.completionPercent ?? 100;
+    const error = snapshot.copyCompletionError
+        ? `${snapshot.copyCompletionError.errorCode}: ${snapshot.copyCompletionError.errorMessage}`
+        : snapshot.provisioningState === 'Failed' ? 'Provisioning failed' : undefined;
+    return {
+        sourceSnapshotId,
+        copyName,
+        copyId: snapshot.id,
+        location,
+        status: error ? 'failed' : completionPercent >= 100 ? 'completed' : 'copying',
+        completionPercent,
+        error
+    };
+}
+
+function isNotFoundError(error: any): boolean {
+    return error?.statusCode === 404 || error?.code === 'ResourceNotFound' || error?.code === 'NotFound';
 }
@@ -0,0 +1,50 @@
+import * as df from 'durable-functions';
+import { EntityContext, EntityHandler } from 'durable-functions';
+import { BATCH_PLAN_ENTITY } from '../common/constants';
+import { BatchCancelRequest, BatchPlanResults, BatchPlanSliceRequest, BatchPlanState } from '../common/interfaces';
+import { buildBatchPlanReport, buildBatchSchedule, recordBatchResults, sliceBatchPlan } from '../common/batch-plan';
+
+// Restore plan of a batch (entity key: batchId), created by the first generation of the batch orchestrator.
+// The next generations only carry their cursor and read the VMs of each batch from the plan.
+const batchPlan: EntityHandler<BatchPlanState> = (context: EntityContext<BatchPlanState>) => {
+
+    const state = context.df.getState();
+
+    switch (context.df.operationName) {
+        case 'create': {
+            // A cancel request recorded before the plan was created is kept
+            const plan = context.df.getInput() as BatchPlanState;
+            context.df.setState({ ...plan, cancelRequest: state?.cancelRequest });
+            break;
+        }
+        case 'cancel': {
+            const cancelRequest = context.df.getInput() as BatchCancelRequest;
+            if (!state?.cancelRequest) {
+                context.df.setState({ ...(state || {} as BatchPlanState), cancelRequest });
+            }
+            break;
+        }
+        case 'schedule':
+            // Read by each generation of the batch orchestrator (without the snapshots, to keep its history small)
+            context.df.return(state?.recoveryInfo ? buildBatchSchedule(state) : undefined);
+            break;
+        case 'slice':
+            context.df.return(state?.recoveryInfo ? sliceBatchPlan(state, context.df.getInput() as BatchPlanSliceRequest) : []);
+            break;
+        case 'record':
+            if (state?.recoveryInfo) {
+                context.df.setState(recordBatchResults(state, context.df.getInput() as BatchPlanResults));
+            }
+            break;
+        case 'report':
+            context.df.return(state?.recoveryInfo ? buildBatchPlanReport(state) : undefined);
+            break;
+        case 'delete':
+            context.df.destructOnExit();
+            break;
+    }
+};
+
+df.app.entity(BATCH_PLAN_ENTITY, batchPlan);
+
+export default batchPlan;
@@ -0,0 +1,61 @@
+import * as df from 'durable-functions';
+import { ActivityHandler } from 'durable-functions';
+import { InvocationContext } from '@azure/functions';
+import { CHECK_QUOTA_ACTIVITY } from '../common/constants';
+import { AzureLogger } from '../common/logger';
+import { QuotaCheckRequest, QuotaRegionReport, QuotaReport } from '../common/interfaces';
+import { VmManager } from '../controllers/vm.manager';
+import { _getString } from '../common/apperror';
+import { PermanentError, TransientError, classifyError } from '../common/errors';
+import { evaluateQuota, summarizeQuotaReport } from '../common/quota-check';
+
+/**
+ * Quota pre-flight check: compares the vCPUs per VM family and the disks per SKU of a batch
+ * with the compute usage and quota of each subscription and region
+ */
+const checkQuotaActivity: ActivityHandler = async (input: QuotaCheckRequest, context: InvocationContext): Promise<QuotaReport> => {
+
+    const logger = new AzureLogger(context);
+    logger.info('Activity function checkQuotaActivity trigger request.');
+
+    try {
+        // Input validation (permanent errors)
+        if (!input?.requirements || !Array.isArray(input.requirements)) {
+            throw new PermanentError('requirements array is required');
+        }
+
+        const regions: QuotaRegionReport[] = [];
+        for (const requirement of input.requirements) {
+            const vmManager = new VmManager(logger, requirement.subscriptionId);
+            const [usages, vmSizes] = await Promise.all([
+                vmManager.listComputeUsages(requirement.location),
+                vmManager.listVmSizes(requirement.location)
+            ]);
+            const region = evaluateQuota(requirement, usages, vmSizes, input.vmSizeMapping);
+            if (region.unknownVmSizes.length > 0) {
+                logger.warn(`VM sizes not offered in ${requirement.location} (subscription ${requirement.subscriptionId}), their vCPUs are not counted: ${region.unknownVmSizes.join(', ')}`);
+            }
+            regions.push(region);
+        }
+
+        const report = summarizeQuotaReport(regions);
+        if (report.passed) {
+            logger.info(`✅ Quota pre-flight check passed in ${regions.length} subscription regions`);
+        } else {
+            logger.warn(`Quota pre-flight check failed: ${report.shortfalls.join('; ')}`);
+        }
+        return report;
+
+    } catch (error) {
+        const classifiedError = classifyError(error);
+        logger.error(`❌ Failed to check the quota: ${_getString(classifiedError)}`, {
+            errorType: classifiedError.constructor.name,
+            isRetriable: classifiedError instanceof TransientError
+        });
+        throw classifiedError;
+    }
+};
+
+df.app.activity(CHECK_QUOTA_ACTIVITY, { handler: checkQuotaActivity });
+
+export default checkQuotaActivity;
@@ -0,0 +1,56 @@
+import * as df from 'durable-functions';
+import { ActivityHandler } from 'durable-functions';
+import { InvocationContext } from '@azure/functions';
+import { CHECK_SNAPSHOT_COPIES_ACTIVITY } from '../common/constants';
+import { AzureLogger } from '../common/logger';
+import { SnapshotCopy } from '../common/interfaces';
+import { VmManager } from '../controllers/vm.manager';
+import { extractSubscriptionIdFromResourceId } from '../common/utils';
+import { _getString } from '../common/apperror';
+import { PermanentError, TransientError, classifyError } from '../common/errors';
+
+/**
+ * Reads the progress of snapshot copies (cross-region restore)
+ */
+const checkSnapshotCopiesActivity: ActivityHandler = async (input: { targetResourceGroup: string, copies: SnapshotCopy[] }, context: InvocationContext): Promise<SnapshotCopy[]> => {
+
+    const logger = new AzureLogger(context);
+    logger.info('Activity function checkSnapshotCopiesActivity trigger request.');
+
+    try {
+        // Input validation (permanent errors)
+        if (!input?.targetResourceGroup) {
+            throw new PermanentError('targetResourceGroup is required');
+        }
+        if (!input.copies || !Array.isArray(input.copies)) {
+            throw new PermanentError('copies array is required');
+        }
+
+        // Copies are read with the VM manager of the subscription of their snapshot
+        const vmManagers = new Map<string, VmManager>();
+        const copies: SnapshotCopy[] = [];
+        for (const copy of input.copies) {
+            const subscriptionId = extractSubscriptionIdFromResourceId(copy.sourceSnapshotId);
+            if (!vmManagers.has(subscriptionId)) {
+                vmManagers.set(subscriptionId, new VmManager(logger, subscriptionId));
+            }
+            copies.push(await vmManagers.get(subscriptionId).getSnapshotCopy(copy, input.targetResourceGroup));
+        }
+
+        const copying = copies.filter(copy => copy.status === 'copying').length;
+        logger.info(`Snapshot copies: ${copies.length - copying} of ${copies.length} finished`);
+        return copies;
+
+    } catch (error) {
+        const classifiedError = classifyError(error);
+        logger.error(`❌ Failed to check the snapshot copies: ${_getString(classifiedError)}`, {
+            errorType: classifiedError.constructor.name,
+            isRetriable: classifiedError instanceof TransientError
+        });
+        throw classifiedError;
+    }
+};
+
+df.app.activity(CHECK_SNAPSHOT_COPIES_ACTIVITY, { handler: checkSnapshotCopiesActivity });
+
+export default checkSnapshotCopiesActivity;
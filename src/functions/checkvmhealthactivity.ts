@@ -0,0 +1,46 @@
+import * as df from 'durable-functions';
+import { ActivityHandler } from 'durable-functions';
+import { InvocationContext } from '@azure/functions';
+import { CHECK_VM_HEALTH_ACTIVITY } from '../common/constants';
+import { AzureLogger } from '../common/logger';
+import { VmHealth, VmHealthRequest } from '../common/interfaces';
+import { VmManager } from '../controllers/vm.manager';
+import { _getString } from '../common/apperror';
+import { PermanentError, TransientError, classifyError } from '../common/errors';
+
+const checkVmHealthActivity: ActivityHandler = async (input: VmHealthRequest, context: InvocationContext): Promise<VmHealth[]> => {
+
+    const logger = new AzureLogger(context);
+    logger.info('Activity function checkVmHealthActivity trigger request.');
+
+    try {
+        // Input validation (permanent errors)
+        if (!input?.targetResourceGroup) {
+            throw new PermanentError('targetResourceGroup is required');
+        }
+        if (!input.vms || !Array.isArray(input.vms)) {
+            throw new PermanentError('vms array is required');
+        }
+
+        // VMs are checked with the VM manager of their subscription
+        const health: VmHealth[] = await Promise.all(input.vms.map(vm =>
+            new VmManager(logger, vm.subscriptionId).getVmHealth(input.targetResourceGroup, vm.vmName)
+        ));
+
+        const healthyCount = health.filter(vmHealth => vmHealth.healthy).length;
+        logger.info(`${healthyCount} of ${health.length} VMs healthy in resource group ${input.targetResourceGroup}`);
+        return health;
+
+    } catch (error) {
+        const classifiedError = classifyError(error);
+        logger.error(`❌ Failed to check VM health in ${input?.targetResourceGroup}: ${_getString(classifiedError)}`, {
+            errorType: classifiedError.constructor.name,
+            isRetriable: classifiedError instanceof TransientError
+        });
+        throw classifiedError;
+    }
+};
+
+df.app.activity(CHECK_VM_HEALTH_ACTIVITY, { handler: checkVmHealthActivity });
+
+export default checkVmHealthActivity;
@@ -0,0 +1,99 @@
+import * as df from 'durable-functions';
+import { ActivityHandler } from 'durable-functions';
+import { InvocationContext } from '@azure/functions';
+import { COMPENSATE_RESTORE_ACTIVITY } from '../common/constants';
+import { AzureLogger, ILogger } from '../common/logger';
+import { CompensateRestoreInput, CompensationOutcome, JobLogEntry } from '../common/interfaces';
+import { VmManager } from '../controllers/vm.manager';
+import { extractSubscriptionIdFromResourceId } from '../common/utils';
+import { _getString } from '../common/apperror';
+import { LogManager } from "../controllers/log.manager";
+import { RestoreTransaction, describeCompensationOutcome } from '../common/restore-transaction';
+import { PermanentError, TransientError, classifyError } from '../common/errors';
+
+/**
+ * Compensation of a failed VM restore sub-orchestration: deletes (or keeps) the resources of the completed phases
+ * and logs the failure of the restore job
+ */
+const compensateRestoreActivity: ActivityHandler = async (input: CompensateRestoreInput, context: InvocationContext): Promise<CompensationOutcome> => {
+
+    const logger = new AzureLogger(context);
+    logger.info('Activity function compensateRestoreActivity trigger request.');
+
+    try {
+        // Input validation (permanent errors)
+        const vmDetails = input?.vmDetails;
+        if (!vmDetails?.sourceSnapshot) {
+            throw new PermanentError('vmDetails with sourceSnapshot is required');
+        }
+
+        const subscriptionId = extractSubscriptionIdFromResourceId(vmDetails.sourceSnapshot.id);
+        const vmManager = new VmManager(logger, subscriptionId);
+        const transaction = buildRestoreTransaction(input, vmManager, logger);
+
+        // Compensate the partial resources created for the VM (delete or keep and report)
+        const compensation = await transaction.compensate(vmDetails.compensationMode || 'delete');
+        const compensationSummary = transaction.resources.length > 0 ? ` (${describeCompensationOutcome(compensation)})` : '';
+
+        const msgFailActivity = `❌ Failed to create VM from snapshot ${vmDetails.sourceSnapshot.id} in ${input.failedPhase} phase: ${input.error}${compensationSummary}`;
+        logger.error(msgFailActivity);
+
+        // Restore failed
+        const logEntryFailed: JobLogEntry = {
+            batchId: vmDetails.batchId,
+            jobId: input.jobId,
+            jobOperation: 'Error',
+            jobStatus: 'Restore Failed',
+            jobType: 'Restore',
+            message: msgFailActivity,
+            vmName: vmDetails.sourceSnapshot.vmName,
+            vmSize: vmDetails.sourceSnapshot.vmSize,
+            diskProfile: vmDetails.sourceSnapshot.diskProfile,
+            diskSku: vmDetails.sourceSnapshot.diskSku,
+            snapshotId: vmDetails.sourceSnapshot.id,
+            snapshotName: vmDetails.sourceSnapshot.snapshotName,
+            compensation: JSON.stringify(compensation)
+        }
+        const logManager = new LogManager(logger);
+        try {
+            await logManager.uploadLog(logEntryFailed);
+        } catch (logError) {
+            logger.error('Failed to log error entry:', logError);
+        }
+
+        return compensation;
+
+    } catch (error) {
+        const classifiedError = classifyError(error);
+        logger.error(`❌ Failed to compensate restore of VM ${input?.vmDetails?.sourceSnapshot?.vmName}: ${_getString(classifiedError)}`, {
+            errorType: classifiedError.constructor.name,
+            isRetriable: classifiedError instanceof TransientError
+        });
+        throw classifiedError;
+    }
+};
+
+/**
+ * Rebuilds the restore transaction of a VM from the resources of its completed phases (in creation order)
+ */
+function buildRestoreTransaction(input: CompensateRestoreInput, vmManager: VmManager, logger: ILogger): RestoreTransaction {
+    const transaction = new RestoreTransaction(logger);
+    for (const resource of input.resources || []) {
+        switch (resource.type) {
+            case 'disk':
+                transaction.register(resource, () => vmManager.deleteDisk(resource.resourceGroup, resource.name, input.jobId));
+                break;
+            case 'nic':
+                transaction.register(resource, () => vmManager.deleteNetworkInterface(resource.resourceGroup, resource.name, input.jobId));
+                break;
+            case 'vm':
+                transaction.register(resource, () => vmManager.deleteVirtualMachine(resource.resourceGroup, resource.name, input.jobId));
+                break;
+        }
+    }
+    return transaction;
+}
+
+df.app.activity(COMPENSATE_RESTORE_ACTIVITY, { handler: compensateRestoreActivity });
+
+export default compensateRestoreActivity;
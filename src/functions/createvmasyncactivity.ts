@@ -3,13 +3,16 @@ import { ActivityHandler } from 'durable-functions';
 import { InvocationContext } from '@azure/functions';
 import { AzureLogger } from '../common/logger';
 import { CREATE_VM_ASYNC_ACTIVITY, QUEUE_CONTROL_VM_CREATION } from '../common/constants';
-import { JobLogEntry, NewVmDetails, VmCreationResult, VmDisk } from '../common/interfaces';
+import { CompensationOutcome, JobLogEntry, NewVmDetails, VmCreationResult, VmDisk } from '../common/interfaces';
 import { VmManager } from '../controllers/vm.manager';
 import { QueueManager } from "../controllers/queue.manager";
 import { extractSubscriptionIdFromResourceId, generateGuid } from '../common/utils';
 import { _getString } from '../common/apperror';
 import { LogManager } from "../controllers/log.manager";
-import { PermanentError, TransientError, BusinessError, classifyError } from '../common/errors';
+import { RestoreTransaction, describeCompensationOutcome } from '../common/restore-transaction';
+import { describeExistingResources } from '../common/existing-restore-utils';
+import { PermanentError, TransientError, BusinessError, classifyError, classifyVmManagerError } from '../common/errors';
+import { reportThrottling } from '../common/adaptive-throttling';
 
 
 const createVmAsyncActivity: ActivityHandler = async (input: NewVmDetails, context: InvocationContext): Promise<VmCreationResult> => {
@@ -20,6 +23,11 @@ const createVmAsyncActivity: ActivityHandler = async (input: NewVmDetails, conte
     // Create Job Id (correlation Id) for operation
     const jobId = generateGuid();
 
+    // Resources created for the VM, compensated if the restore fails
+    const transaction = new RestoreTransaction(logger);
+
+    let vmManager: VmManager;
+
     try {
         // Input validation (permanent errors)
         if (!input) {
@@ -35,13 +43,13 @@ const createVmAsyncActivity: ActivityHandler = async (input: NewVmDetails, conte
             throw new PermanentError('targetResourceGroup is required');
         }
 
-        // Business logic validation
+        // Business logic validation (data disk snapshots are restored together with the OS disk snapshot of the VM)
         if (input.sourceSnapshot.diskProfile !== 'os-disk') {
             throw new BusinessError(`Cannot create VM from ${input.sourceSnapshot.diskProfile} snapshot. Only os-disk snapshots are supported.`);
         }
 
         // Log start
-        const msgStart = `Starting async VM creation for ${input.sourceSnapshot.vmName} from ${input.sourceSnapshot.id}`;
+        const msgStart = `Starting async VM creation for ${input.sourceSnapshot.vmName} from ${input.sourceSnapshot.id} with ${input.sourceSnapshot.dataDiskSnapshots?.length || 0} data disks`;
         const logEntryStart: JobLogEntry = {
             jobId: jobId,
             jobOperation: 'VM Create Start',
@@ -61,22 +69,52 @@ const createVmAsyncActivity: ActivityHandler = async (input: NewVmDetails, conte
 
         // Create disk from snapshot (can have transient failures)
         const subscriptionId = extractSubscriptionIdFromResourceId(input.sourceSnapshot.id);
-        const vmManager = new VmManager(logger, subscriptionId);
+        vmManager = new VmManager(logger, subscriptionId);
         
+        // Delete the resources already restored from the same snapshot by a previous run
+        if (input.existingRestoreMode === 'replace' && input.existingResources?.length > 0) {
+            logger.warn(`Replacing ${input.existingResources.length} resources already restored from snapshot ${input.sourceSnapshot.snapshotName}: ${describeExistingResources(input.existingResources).join(', ')}`);
+            const { failed } = await vmManager.deleteRecoveryResources(input.existingResources);
+            if (failed.length > 0) {
+                throw new TransientError(`Unable to replace existing restore: failed to delete ${failed.map(f => `${f.resource.name} (${f.error})`).join(', ')}`);
+            }
+        }
+
+        // Delete the resources whose names are taken by the restore (naming collision strategy 'replace')
+        if (input.sourceSnapshot.replacedResources?.length > 0) {
+            logger.warn(`Replacing ${input.sourceSnapshot.replacedResources.length} resources with the names of the restore: ${input.sourceSnapshot.replacedResources.map(resource => `${resource.type} ${resource.name}`).join(', ')}`);
+            const failed = await vmManager.deleteReplacedResources(input.sourceSnapshot.replacedResources);
+            if (failed.length > 0) {
+                // Resources not restored by a recovery are never replaced, retrying does not help
+                const message = `Unable to replace the resources with the names of the restore: failed to delete ${failed.map(f => `${f.resource.name} (${f.error})`).join(', ')}`;
+                throw failed.some(f => f.refused) ? new PermanentError(message) : new TransientError(message);
+            }
+        }
+
         let osDisk: VmDisk;
         try {
-            osDisk = await vmManager.createDiskFromSnapshot(input, jobId);
+            osDisk = await vmManager.createDiskFromSnapshot(input, jobId, undefined, transaction);
             logger.info(`✅ Successfully created new disk: ${osDisk.id}`);
         } catch (error) {
             const classifiedError = classifyVmManagerError(error, 'disk creation');
             throw classifiedError;
         }
+
+        // Create data disks from the data disk snapshots of the same point in time
+        let dataDisks: VmDisk[];
+        try {
+            dataDisks = await vmManager.createDataDisksFromSnapshots(input, jobId, transaction);
+            dataDisks.forEach(dataDisk => logger.info(`✅ Successfully created new data disk for LUN ${dataDisk.lun}: ${dataDisk.id}`));
+        } catch (error) {
+            const classifiedError = classifyVmManagerError(error, 'data disk creation');
+            throw classifiedError;
+        }
         
         // Start VM creation (async with queue polling)
         let vmCreationResult: VmCreationResult;
         try {
 
-            vmCreationResult = await vmManager.createVirtualMachineAsync(input, osDisk, jobId);
+            vmCreationResult = await vmManager.createVirtualMachineAsync(input, osDisk, jobId, dataDisks, transaction);
             
             if (vmCreationResult.success && vmCreationResult.pollerMessage) {
                 // VM creation started successfully, send to polling queue
@@ -92,7 +130,10 @@ const createVmAsyncActivity: ActivityHandler = async (input: NewVmDetails, conte
                     ...logEntryStart,
                     jobOperation: 'VM Create Polling',
                     jobStatus: 'Restore In Progress',
-                    message: msgPolling
+                    message: msgPolling,
+                    restoredVmSize: vmCreationResult.pollerMessage.vmSize,
+                    zone: input.sourceSnapshot.targetZone,
+                    subnetId: input.targetSubnetId
                 };
                 await logManager.uploadLog(logEntryPolling);
                 
@@ -112,7 +153,11 @@ const createVmAsyncActivity: ActivityHandler = async (input: NewVmDetails, conte
         // Classify the error if it hasn't been classified yet
         const classifiedError = classifyError(error);
         
-        const msgFailActivity = `❌ Failed to start VM creation from snapshot ${input.sourceSnapshot?.id}: ${_getString(classifiedError)}`;
+        // Compensate the partial resources created for the VM (delete or keep and report)
+        const compensation: CompensationOutcome = await transaction.compensate(input?.compensationMode || 'delete');
+        const compensationSummary = transaction.resources.length > 0 ? ` (${describeCompensationOutcome(compensation)})` : '';
+
+        const msgFailActivity = `❌ Failed to start VM creation from snapshot ${input.sourceSnapshot?.id}: ${_getString(classifiedError)}${compensationSummary}`;
         logger.error(msgFailActivity, {
             errorType: classifiedError.constructor.name,
             isRetriable: classifiedError instanceof TransientError,
@@ -132,7 +177,8 @@ const createVmAsyncActivity: ActivityHandler = async (input: NewVmDetails, conte
             diskSku: input.sourceSnapshot?.diskSku,
             snapshotId: input.sourceSnapshot?.id,
             snapshotName: input.sourceSnapshot?.snapshotName,
-            batchId: input.batchId
+            batchId: input.batchId,
+            compensation: JSON.stringify(compensation)
         };
         const logManager = new LogManager(logger);
         try {
@@ -146,50 +192,15 @@ const createVmAsyncActivity: ActivityHandler = async (input: NewVmDetails, conte
             success: false,
             error: classifiedError.message
         };
+    } finally {
+        await reportThrottling(context, logger, input?.sourceSnapshot, vmManager?.throttlingObservation);
     }
 };
 
-/**
- * Classify errors from VM Manager operations
- */
-function classifyVmManagerError(error: any, operation: string): Error {
-    const message = error.message || error.toString();
-    
-    // Azure quota exceeded
-    if (message.includes('quota') || message.includes('limit')) {
-        return new TransientError(`${operation} failed due to quota limits: ${message}`, error);
-    }
-    
-    // Resource already exists
-    if (message.includes('already exists') || message.includes('ConflictError')) {
-        return new PermanentError(`${operation} failed - resource already exists: ${message}`, error);
-    }
-    
-    // Authentication/authorization
-    if (message.includes('Unauthorized') || message.includes('Forbidden')) {
-        return new PermanentError(`${operation} failed - authentication/authorization error: ${message}`, error);
-    }
-    
-    // Network/connectivity issues
-    if (message.includes('timeout') || message.includes('network') || message.includes('connection')) {
-        return new TransientError(`${operation} failed due to network issues: ${message}`, error);
-    }
-    
-    // Rate limiting
-    if (message.includes('throttle') || message.includes('rate limit')) {
-        return new TransientError(`${operation} failed due to rate limiting: ${message}`, error);
-    }
-    
-    // Resource not found
-    if (message.includes('NotFound') || message.includes('does not exist')) {
-        return new PermanentError(`${operation} failed - resource not found: ${message}`, error);
-    }
-    
-    // Default classification
-    return classifyError(error);
-}
-
-df.app.activity(CREATE_VM_ASYNC_ACTIVITY, { handler: createVmAsyncActivity });
+df.app.activity(CREATE_VM_ASYNC_ACTIVITY, {
+    extraInputs: [df.input.durableClient()],
+    handler: createVmAsyncActivity
+});
 
 export { CREATE_VM_ASYNC_ACTIVITY };
 export default createVmAsyncActivity;
\ No newline at end of file
@@ -0,0 +1,60 @@
+import * as df from 'durable-functions';
+import { ActivityHandler } from 'durable-functions';
+import { InvocationContext } from '@azure/functions';
+import { DELETE_SNAPSHOT_COPIES_ACTIVITY } from '../common/constants';
+import { AzureLogger } from '../common/logger';
+import { SnapshotCopy } from '../common/interfaces';
+import { VmManager } from '../controllers/vm.manager';
+import { extractSubscriptionIdFromResourceId } from '../common/utils';
+import { _getString } from '../common/apperror';
+import { PermanentError, TransientError, classifyError } from '../common/errors';
+
+/**
+ * Deletes the snapshot copies of a cross-region restore once the batch is done
+ * A copy that cannot be deleted is reported without failing the others.
+ */
+const deleteSnapshotCopiesActivity: ActivityHandler = async (input: { targetResourceGroup: string, copies: SnapshotCopy[] }, context: InvocationContext): Promise<{ deleted: string[], failed: string[] }> => {
+
+    const logger = new AzureLogger(context);
+    logger.info('Activity function deleteSnapshotCopiesActivity trigger request.');
+
+    try {
+        // Input validation (permanent errors)
+        if (!input?.targetResourceGroup) {
+            throw new PermanentError('targetResourceGroup is required');
+        }
+        if (!input.copies || !Array.isArray(input.copies)) {
+            throw new PermanentError('copies array is required');
+        }
+
+        const result = { deleted: [], failed: [] };
+        const vmManagers = new Map<string, VmManager>();
+        for (const copy of input.copies) {
+            const subscriptionId = extractSubscriptionIdFromResourceId(copy.sourceSnapshotId);
+            if (!vmManagers.has(subscriptionId)) {
+                vmManagers.set(subscriptionId, new VmManager(logger, subscriptionId));
+            }
+            try {
+                await vmManagers.get(subscriptionId).deleteSnapshotCopy(input.targetResourceGroup, copy.copyName);
+                result.deleted.push(copy.copyName);
+            } catch (error) {
+                result.failed.push(copy.copyName);
+            }
+        }
+
+        logger.info(`Deleted ${result.deleted.length} snapshot copies, ${result.failed.length} failed`);
+        return result;
+
+    } catch (error) {
+        const classifiedError = classifyError(error);
+        logger.error(`❌ Failed to delete the snapshot copies: ${_getString(classifiedError)}`, {
+            errorType: classifiedError.constructor.name,
+            isRetriable: classifiedError instanceof TransientError
+        });
+        throw classifiedError;
+    }
+};
+
+df.app.activity(DELETE_SNAPSHOT_COPIES_ACTIVITY, { handler: deleteSnapshotCopiesActivity });
+
+export default deleteSnapshotCopiesActivity;
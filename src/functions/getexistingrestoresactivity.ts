@@ -0,0 +1,47 @@
+import * as df from 'durable-functions';
+import { ActivityHandler } from 'durable-functions';
+import { InvocationContext } from '@azure/functions';
+import { GET_EXISTING_RESTORES_ACTIVITY } from '../common/constants';
+import { AzureLogger } from '../common/logger';
+import { ExistingRestoresRequest, RecoveryResource } from '../common/interfaces';
+import { VmManager } from '../controllers/vm.manager';
+import { _getString } from '../common/apperror';
+import { PermanentError, TransientError, classifyError } from '../common/errors';
+
+const getExistingRestoresActivity: ActivityHandler = async (input: ExistingRestoresRequest, context: InvocationContext): Promise<RecoveryResource[]> => {
+
+    const logger = new AzureLogger(context);
+    logger.info('Activity function getExistingRestoresActivity trigger request.');
+
+    try {
+        // Input validation (permanent errors)
+        if (!input?.targetResourceGroup) {
+            throw new PermanentError('targetResourceGroup is required');
+        }
+        if (!input.subscriptionIds || !Array.isArray(input.subscriptionIds)) {
+            throw new PermanentError('subscriptionIds array is required');
+        }
+
+        // List the resources restored in the target resource group of each subscription (read directly, Resource Graph can lag behind)
+        const resources: RecoveryResource[] = [];
+        for (const subscriptionId of input.subscriptionIds) {
+            const vmManager = new VmManager(logger, subscriptionId);
+            resources.push(...await vmManager.listRecoveryResources(input.targetResourceGroup));
+        }
+
+        logger.info(`Found ${resources.length} restored resources in resource group ${input.targetResourceGroup}`);
+        return resources;
+
+    } catch (error) {
+        const classifiedError = classifyError(error);
+        logger.error(`❌ Failed to get existing restores in ${input?.targetResourceGroup}: ${_getString(classifiedError)}`, {
+            errorType: classifiedError.constructor.name,
+            isRetriable: classifiedError instanceof TransientError
+        });
+        throw classifiedError;
+    }
+};
+
+df.app.activity(GET_EXISTING_RESTORES_ACTIVITY, { handler: getExistingRestoresActivity });
+
+export default getExistingRestoresActivity;
@@ -0,0 +1,49 @@
+import * as df from 'durable-functions';
+import { ActivityHandler } from 'durable-functions';
+import { InvocationContext } from '@azure/functions';
+import { GET_RESOURCE_NAMES_ACTIVITY } from '../common/constants';
+import { AzureLogger } from '../common/logger';
+import { ResourceNameInfo, ResourceNamesRequest } from '../common/interfaces';
+import { VmManager } from '../controllers/vm.manager';
+import { _getString } from '../common/apperror';
+import { PermanentError, TransientError, classifyError } from '../common/errors';
+
+/**
+ * Lists the names of the VMs, NICs and disks of the target resource group of each subscription (for the naming templates)
+ */
+const getResourceNamesActivity: ActivityHandler = async (input: ResourceNamesRequest, context: InvocationContext): Promise<{ [subscriptionId: string]: ResourceNameInfo[] }> => {
+
+    const logger = new AzureLogger(context);
+    logger.info('Activity function getResourceNamesActivity trigger request.');
+
+    try {
+        // Input validation (permanent errors)
+        if (!input?.targetResourceGroup) {
+            throw new PermanentError('targetResourceGroup is required');
+        }
+        if (!input.subscriptionIds || !Array.isArray(input.subscriptionIds)) {
+            throw new PermanentError('subscriptionIds array is required');
+        }
+
+        const resourceNames: { [subscriptionId: string]: ResourceNameInfo[] } = {};
+        for (const subscriptionId of input.subscriptionIds) {
+            const vmManager = new VmManager(logger, subscriptionId);
+            resourceNames[subscriptionId] = await vmManager.listResourceNames(input.targetResourceGroup);
+        }
+
+        logger.info(`Listed the resource names of resource group ${input.targetResourceGroup} in ${input.subscriptionIds.length} subscriptions`);
+        return resourceNames;
+
+    } catch (error) {
+        const classifiedError = classifyError(error);
+        logger.error(`❌ Failed to list the resource names of ${input?.targetResourceGroup}: ${_getString(classifiedError)}`, {
+            errorType: classifiedError.constructor.name,
+            isRetriable: classifiedError instanceof TransientError
+        });
+        throw classifiedError;
+    }
+};
+
+df.app.activity(GET_RESOURCE_NAMES_ACTIVITY, { handler: getResourceNamesActivity });
+
+export default getResourceNamesActivity;
@@ -5,8 +5,15 @@ import { InvocationContext } from '@azure/functions';
 import { GET_MOST_RECENT_SNAPSHOTS_ACTIVITY } from '../common/constants';
 import { AzureLogger } from "../common/logger";
 import { ResourceGraphManager } from "../controllers/graph.manager";
-import { RecoveryBatch, RecoveryInfo, RecoverySnapshot, SubnetLocation } from '../common/interfaces';
+import { LogManager } from "../controllers/log.manager";
+import { FailedVmGroup, RecoveryBatch, RecoveryInfo, RecoverySnapshot, SnapshotSelection, SubnetLocation, VmGroup } from '../common/interfaces';
 import { AzureLocationResolver } from '../common/azure-location-resolver';
+import { groupSnapshotsByVm } from '../common/snapshot-utils';
+import { describeSnapshotSelection, groupVmSnapshotSelections, resolveSnapshotSelection } from '../common/snapshot-selection';
+import { describeVmGroupRun, findVmGroupRun } from '../common/snapshot-groups';
+import { findSubnetForSnapshot } from '../common/subnet-utils';
+import { assignTargetLocations } from '../common/cross-region';
+import { describeRetryJobState, selectRetryJobStates } from '../common/batch-retry';
 import { PermanentError, TransientError, BusinessError, AzureError, classifyError } from '../common/errors';
 
 // Activity functions receive context as the second parameter
@@ -56,23 +63,57 @@ const getSnapshotsActivity: ActivityHandler = async (input: RecoveryBatch, conte
         const uniqueLocations: string[] = [...new Set(subnetLocations.map((sl: SubnetLocation) => sl.location))];
         logger.info(`Determined ${uniqueLocations.length} unique locations: ${uniqueLocations.join(', ')} for ${subnetLocations.length} subnets`);
 
+        // Cross-region restore: the snapshots of the source regions are also searched, to be copied to a region of the subnets
+        const crossRegions = (input.crossRegion?.sourceRegions || []).map(region => region.toLowerCase()).filter(region => !uniqueLocations.includes(region));
+        if (crossRegions.length > 0) {
+            uniqueLocations.push(...crossRegions);
+            logger.info(`Cross-region restore of the snapshots of ${crossRegions.join(', ')}`);
+        }
+
+        // Resolve the relative times of the batch selection (echoed in the orchestrator result)
+        const snapshotSelection = resolveSnapshotSelection(input.snapshotSelection, input.maxTimeGenerated, new Date());
+        logger.info(`Snapshot selection: ${describeSnapshotSelection(snapshotSelection)}, ${input.vmSnapshotSelections?.length || 0} per-VM selections`);
+
         // Get snapshots from all regions
         let snapshots;
+        let groupSnapshots: RecoverySnapshot[] = [];
+        let failedGroups: FailedVmGroup[] = [];
         try {
             const graphManager = new ResourceGraphManager(logger);
-            snapshots = await graphManager.getMostRecentSnapshotsInRegions(uniqueLocations, maxTimeDate, input.vmFilter);
+            const diskGroupTolerance = parseInt(process.env.SNAP_RECOVERY_DISK_GROUP_TOLERANCE_SECONDS || '600'); // 10 minutes
+            if (input.vmGroups?.length > 0 && !input.retryBatchId) {
+                // Crash-consistent VM groups first, their VMs are excluded from the other selections
+                const groupResult = await getVmGroupSnapshots(graphManager, uniqueLocations, subnetLocations, input, snapshotSelection, diskGroupTolerance, logger);
+                groupSnapshots = groupResult.snapshots;
+                failedGroups = groupResult.failedGroups;
+            }
+            if (input.retryBatchId) {
+                // Retry: same OS disk snapshots the previous batch selected for the VMs that did not complete
+                const snapshotIds = await getRetrySnapshotIds(input, logger);
+                snapshots = snapshotIds.length > 0 ? await graphManager.getSnapshotsByIds(snapshotIds, diskGroupTolerance) : [];
+            } else {
+                snapshots = await getSelectedSnapshots(graphManager, uniqueLocations, input, snapshotSelection, diskGroupTolerance, logger);
+            }
             
             if (!snapshots) {
                 snapshots = [];
             }
+            snapshots.push(...groupSnapshots);
             
             logger.info(`Found ${snapshots.length} snapshots in regions ${uniqueLocations.join(', ')}`);
         } catch (error) {
             const classifiedError = classifyResourceGraphError(error);
             throw classifiedError;
         }
+
+        // Group OS and data disk snapshots of the same VM
+        snapshots = groupSnapshotsByVm(snapshots, logger);
+        logger.info(`Grouped snapshots into ${snapshots.length} VMs`);
+
+        // Region where the snapshots without subnet in their region are copied and restored
+        snapshots = assignTargetLocations(snapshots, subnetLocations, input.crossRegion);
         
-        return { snapshots, subnetLocations };
+        return { snapshots, subnetLocations, snapshotSelection, failedGroups };
 
     } catch (error) {
         // Log error details for debugging
@@ -98,6 +139,115 @@ const getSnapshotsActivity: ActivityHandler = async (input: RecoveryBatch, conte
 
 };
 
+/**
+ * Gets the snapshots chosen by the batch selection for the VMs without their own selection,
+ * then the snapshots chosen by the per-VM selections (pinned snapshots first, then one query per selection)
+ */
+async function getSelectedSnapshots(graphManager: ResourceGraphManager, regions: string[], input: RecoveryBatch, snapshotSelection: SnapshotSelection, toleranceSeconds: number, logger: AzureLogger): Promise<RecoverySnapshot[]> {
+    const vmSelections = (input.vmSnapshotSelections || [])
+        .filter(vmSelection => !input.vmFilter?.length || input.vmFilter.includes(vmSelection.vmName))
+        .map(vmSelection => resolveSnapshotSelection(vmSelection, input.maxTimeGenerated, new Date()));
+    const groupVms = getVmGroups(input).flatMap(group => group.vmNames);
+    const selectedVms = [...vmSelections.map(vmSelection => vmSelection.vmName), ...groupVms];
+    const snapshots: RecoverySnapshot[] = [];
+
+    // Batch selection (a pinned batch selection restores a single VM)
+    if (!input.vmFilter?.length || input.vmFilter.some(vmName => !selectedVms.includes(vmName))) {
+        const batchSnapshots = snapshotSelection.policy === 'pinned'
+            ? await graphManager.getSnapshotsByIds([snapshotSelection.snapshotId], toleranceSeconds)
+            : await graphManager.getSnapshotsBySelection(regions, snapshotSelection, input.vmFilter, selectedVms, toleranceSeconds);
+        snapshots.push(...withSnapshotSelection(batchSnapshots, describeSnapshotSelection(snapshotSelection)));
+    }
+
+    // Pinned snapshots of single VMs
+    const pinnedSelections = vmSelections.filter(vmSelection => vmSelection.policy === 'pinned');
+    if (pinnedSelections.length > 0) {
+        const pinnedSnapshots = await graphManager.getSnapshotsByIds(pinnedSelections.map(vmSelection => vmSelection.snapshotId), toleranceSeconds);
+        for (const pinnedSelection of pinnedSelections) {
+            const vmSnapshots = pinnedSnapshots.filter(snapshot => snapshot.vmName === pinnedSelection.vmName);
+            if (vmSnapshots.length === 0) {
+                logger.warn(`Pinned snapshot ${pinnedSelection.snapshotId} of VM ${pinnedSelection.vmName} not found (or taken from another VM)`);
+            }
+            snapshots.push(...withSnapshotSelection(vmSnapshots, describeSnapshotSelection(pinnedSelection)));
+        }
+    }
+
+    // Other policies of single VMs, one query per distinct selection
+    const selectionGroups = groupVmSnapshotSelections(vmSelections.filter(vmSelection => vmSelection.policy !== 'pinned'));
+    for (const [description, group] of selectionGroups) {
+        const groupSnapshots = await graphManager.getSnapshotsBySelection(regions, group.selection, group.vmNames, [], toleranceSeconds);
+        snapshots.push(...withSnapshotSelection(groupSnapshots, description));
+    }
+
+    return snapshots;
+}
+
+/**
+ * Gets the snapshots of each crash-consistent VM group from the same snapshot run.
+ * A group without a common run, or with a VM without subnet in its location, fails as a whole (none of its VMs is restored).
+ */
+async function getVmGroupSnapshots(graphManager: ResourceGraphManager, regions: string[], subnetLocations: SubnetLocation[], input: RecoveryBatch, snapshotSelection: SnapshotSelection, toleranceSeconds: number, logger: AzureLogger): Promise<{ snapshots: RecoverySnapshot[], failedGroups: FailedVmGroup[] }> {
+    const snapshots: RecoverySnapshot[] = [];
+    const failedGroups: FailedVmGroup[] = [];
+    const defaultGroupTolerance = parseInt(process.env.SNAP_RECOVERY_GROUP_TOLERANCE_SECONDS || '300'); // 5 minutes
+
+    for (const group of getVmGroups(input)) {
+        const candidates = await graphManager.getOsDiskSnapshotsOfVms(regions, group.vmNames, snapshotSelection);
+        const run = findVmGroupRun(group, candidates, snapshotSelection, group.toleranceSeconds ?? defaultGroupTolerance);
+        if ('error' in run) {
+            logger.warn(`VM group ${group.name} failed: ${run.error}`);
+            failedGroups.push({ name: group.name, vmNames: group.vmNames, reason: run.error });
+            continue;
+        }
+
+        const runSnapshots = await graphManager.getSnapshotsByIds(run.snapshots.map(snapshot => snapshot.id), toleranceSeconds);
+        const missingSubnetVms = assignTargetLocations(run.snapshots, subnetLocations, input.crossRegion)
+            .filter(snapshot => !findSubnetForSnapshot(snapshot, subnetLocations, input.subnetMapping) || !runSnapshots.some(runSnapshot => runSnapshot.id === snapshot.id))
+            .map(snapshot => snapshot.vmName);
+        if (missingSubnetVms.length > 0) {
+            const reason = `No subnet or snapshot found for ${missingSubnetVms.join(', ')} of VM group ${group.name}`;
+            logger.warn(`VM group ${group.name} failed: ${reason}`);
+            failedGroups.push({ name: group.name, vmNames: group.vmNames, reason });
+            continue;
+        }
+
+        const description = describeVmGroupRun(group, run);
+        logger.info(`VM group ${group.name}: ${description}`);
+        snapshots.push(...withSnapshotSelection(runSnapshots, description).map(snapshot => ({ ...snapshot, vmGroup: group.name })));
+    }
+
+    return { snapshots, failedGroups };
+}
+
+// VM groups restricted to the VMs of the VM filter (groups without VMs are ignored)
+function getVmGroups(input: RecoveryBatch): VmGroup[] {
+    if (input.retryBatchId) {
+        return [];
+    }
+    return (input.vmGroups || [])
+        .map(group => ({ ...group, vmNames: group.vmNames.filter(vmName => !input.vmFilter?.length || input.vmFilter.includes(vmName)) }))
+        .filter(group => group.vmNames.length > 0);
+}
+
+// Records the selection that chose the snapshots
+function withSnapshotSelection(snapshots: RecoverySnapshot[], description: string): RecoverySnapshot[] {
+    return (snapshots || []).map(snapshot => ({ ...snapshot, snapshotSelection: description }));
+}
+
+/**
+ * Gets the OS disk snapshots of the VMs of a previous batch whose restore failed, never completed or never started
+ * (based on the job log entries of the batch, including the VMs planned at its start, optionally restricted by the VM filter)
+ */
+async function getRetrySnapshotIds(input: RecoveryBatch, logger: AzureLogger): Promise<string[]> {
+    const logManager = new LogManager(logger);
+    const jobStates = await logManager.getBatchJobStates(input.retryBatchId);
+
+    const retryStates = selectRetryJobStates(jobStates, input.vmFilter);
+
+    logger.info(`Retrying ${retryStates.length} of ${jobStates.length} VMs of batch ${input.retryBatchId}: ${retryStates.map(describeRetryJobState).join(', ')}`);
+    return retryStates.map(state => state.snapshotId);
+}
+
 /**
  * Classify errors from Location Resolver operations
  */
@@ -0,0 +1,48 @@
+import * as df from 'durable-functions';
+import { ActivityHandler } from 'durable-functions';
+import { InvocationContext } from '@azure/functions';
+import { GET_SUBNET_CAPACITY_ACTIVITY } from '../common/constants';
+import { AzureLogger } from '../common/logger';
+import { SubnetCapacity, SubnetCapacityRequest } from '../common/interfaces';
+import { VmManager } from '../controllers/vm.manager';
+import { extractSubscriptionIdFromResourceId } from '../common/utils';
+import { _getString } from '../common/apperror';
+import { PermanentError, TransientError, classifyError } from '../common/errors';
+
+/**
+ * Reads the address prefixes and used IP addresses of target subnets (for the subnet distribution)
+ */
+const getSubnetCapacityActivity: ActivityHandler = async (input: SubnetCapacityRequest, context: InvocationContext): Promise<SubnetCapacity[]> => {
+
+    const logger = new AzureLogger(context);
+    logger.info('Activity function getSubnetCapacityActivity trigger request.');
+
+    try {
+        // Input validation (permanent errors)
+        if (!input?.subnetIds || !Array.isArray(input.subnetIds)) {
+            throw new PermanentError('subnetIds array is required');
+        }
+
+        // Read with the VM manager of the subnet subscription
+        const capacities: SubnetCapacity[] = [];
+        for (const subnetId of input.subnetIds) {
+            const vmManager = new VmManager(logger, extractSubscriptionIdFromResourceId(subnetId));
+            capacities.push(await vmManager.getSubnetCapacity(subnetId));
+        }
+
+        logger.info(`Read the capacity of ${capacities.length} subnets`);
+        return capacities;
+
+    } catch (error) {
+        const classifiedError = classifyError(error);
+        logger.error(`❌ Failed to get the capacity of the target subnets: ${_getString(classifiedError)}`, {
+            errorType: classifiedError.constructor.name,
+            isRetriable: classifiedError instanceof TransientError
+        });
+        throw classifiedError;
+    }
+};
+
+df.app.activity(GET_SUBNET_CAPACITY_ACTIVITY, { handler: getSubnetCapacityActivity });
+
+export default getSubnetCapacityActivity;
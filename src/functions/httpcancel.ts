@@ -0,0 +1,107 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import * as df from 'durable-functions';
+import { OrchestrationRuntimeStatus } from 'durable-functions';
+import { BatchCancelRequest, RecoveryBatch } from '../common/interfaces';
+import { BATCH_PLAN_ENTITY, BATCH_ROLLBACK_ORCHESTRATOR, CANCEL_BATCH_EVENT } from '../common/constants';
+import { generateGuid } from '../common/utils';
+import { AzureLogger } from '../common/logger';
+
+const httpCancel = async (request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> => {
+
+    const logger = new AzureLogger(context);
+
+    // Batch Id and instance ID are the same for batches started by queueStart or httpStart
+    const instanceId = request.params.id;
+    logger.info(`HTTP cancel function triggered for: ${instanceId}`);
+
+    // Optional body: { "rollback": true, "reason": "..." }
+    let cancelRequest: BatchCancelRequest;
+    try {
+        const body = await request.text();
+        const parsed = body && body.trim() !== '' ? JSON.parse(body) : {};
+        if (parsed.rollback !== undefined && typeof parsed.rollback !== 'boolean') {
+            return { status: 400, jsonBody: { error: 'rollback must be a boolean (true or false) if provided' } };
+        }
+        cancelRequest = {
+            rollback: parsed.rollback === true,
+            reason: parsed.reason !== undefined ? String(parsed.reason) : undefined
+        };
+    } catch (error) {
+        return { status: 400, jsonBody: { error: `Invalid JSON format: ${error.message}` } };
+    }
+
+    try {
+        const client = df.getClient(context);
+
+        let status: df.DurableOrchestrationStatus;
+        try {
+            status = await client.getStatus(instanceId, { showInput: true });
+        } catch (error) {
+            if (error.message?.includes('404')) {
+                return { status: 404, jsonBody: { error: `No recovery batch found for ${instanceId}` } };
+            }
+            throw error;
+        }
+
+        const input = status.input as RecoveryBatch;
+
+        // Running batch: the orchestrator stops between batches and runs the rollback itself
+        if (status.runtimeStatus === OrchestrationRuntimeStatus.Running || status.runtimeStatus === OrchestrationRuntimeStatus.Pending) {
+            await client.raiseEvent(instanceId, CANCEL_BATCH_EVENT, cancelRequest);
+            // Also recorded in the batch plan, as an event raised while the orchestrator continues as new can be lost
+            if (input?.batchId) {
+                await client.signalEntity(new df.EntityId(BATCH_PLAN_ENTITY, input.batchId), 'cancel', cancelRequest);
+            }
+            logger.info(`✅ Cancel requested for batch ${input?.batchId}, rollback: ${cancelRequest.rollback}`);
+            return {
+                status: 202,
+                jsonBody: {
+                    instanceId: instanceId,
+                    batchId: input?.batchId,
+                    status: 'CancelRequested',
+                    rollback: cancelRequest.rollback
+                }
+            };
+        }
+
+        // Batch no longer running: only the rollback can still be done
+        if (!cancelRequest.rollback) {
+            return { status: 409, jsonBody: { error: `Recovery batch ${instanceId} is not running (status: ${status.runtimeStatus})` } };
+        }
+        if (!input?.batchId) {
+            return { status: 409, jsonBody: { error: `Recovery batch ${instanceId} has no batchId to rollback` } };
+        }
+
+        const rollbackInstanceId = await client.startNew(BATCH_ROLLBACK_ORCHESTRATOR, {
+            instanceId: `${input.batchId}-rollback-${generateGuid()}`,
+            input: { batchId: input.batchId, targetResourceGroup: input.targetResourceGroup }
+        });
+        logger.info(`✅ Rollback started for batch ${input.batchId} with instance ID: ${rollbackInstanceId}`);
+
+        return {
+            status: 202,
+            jsonBody: {
+                instanceId: instanceId,
+                batchId: input.batchId,
+                status: 'RollbackStarted',
+                rollback: true,
+                rollbackInstanceId: rollbackInstanceId
+            }
+        };
+
+    } catch (error) {
+        logger.error(`❌ Failed to cancel ${instanceId}:`, error.message);
+        return { status: 500, jsonBody: { error: `Failed to cancel recovery batch: ${error.message}` } };
+    }
+};
+
+// Register the function to cancel a recovery batch over HTTP
+app.http('httpCancel', {
+    route: 'recoveries/{id}/cancel',
+    methods: ['POST'],
+    authLevel: 'function',
+    extraInputs: [df.input.durableClient()],
+    handler: httpCancel
+});
+
+export default httpCancel;
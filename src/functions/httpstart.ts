@@ -0,0 +1,64 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import * as df from 'durable-functions';
+import { RecoveryBatch } from '../common/interfaces';
+import { validateBatchOrchestratorInputStrict } from '../common/validation';
+import { generateGuid } from '../common/utils';
+import { BATCH_ORCHESTRATOR } from '../common/constants';
+import { AzureLogger } from '../common/logger';
+
+const httpStart = async (request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> => {
+
+    const logger = new AzureLogger(context);
+    logger.info('HTTP start function triggered');
+
+    // Parse and validate the request body (same validation as the queue trigger)
+    let input: RecoveryBatch;
+    try {
+        const body = await request.text();
+        if (!body || body.trim() === '') {
+            return { status: 400, jsonBody: { error: 'Empty request body - expected RecoveryBatch JSON' } };
+        }
+
+        input = validateBatchOrchestratorInputStrict(JSON.parse(body));
+    } catch (error) {
+        logger.warn('❌ Input validation or parsing failed:', error.message);
+        return { status: 400, jsonBody: { error: error instanceof SyntaxError ? `Invalid JSON format: ${error.message}` : error.message } };
+    }
+
+    // Start the orchestrator with the validated input
+    try {
+        const client = df.getClient(context);
+
+        // Create Batch Id for correlation (also used as instance ID to query the batch status)
+        input.batchId = generateGuid();
+
+        const instanceId: string = await client.startNew(BATCH_ORCHESTRATOR, { instanceId: input.batchId, input });
+        logger.info(`✅ Orchestrator started successfully with instance ID: ${instanceId}`);
+
+        const statusUri = `${new URL(request.url).origin}/api/recoveries/${instanceId}`;
+        return {
+            status: 202,
+            headers: { 'Location': statusUri },
+            jsonBody: {
+                batchId: input.batchId,
+                instanceId: instanceId,
+                dryRun: input.dryRun || false,
+                statusUri: statusUri
+            }
+        };
+    } catch (error) {
+        logger.error('❌ Failed to start orchestrator:', error.message);
+        return { status: 500, jsonBody: { error: `Failed to start orchestrator: ${error.message}` } };
+    }
+};
+
+// Register the function to start a recovery batch over HTTP
+app.http('httpStart', {
+    route: 'recoveries',
+    methods: ['POST'],
+    authLevel: 'function',
+    extraInputs: [df.input.durableClient()],
+    handler: httpStart
+});
+
+export default httpStart;
@@ -0,0 +1,135 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import * as df from 'durable-functions';
+import { OrchestrationRuntimeStatus } from 'durable-functions';
+import { BatchProgressStatus, RecoveryBatch, VmOutcomeTrackerState, VmRestoreResult } from '../common/interfaces';
+import { VM_OUTCOME_TRACKER_ENTITY } from '../common/constants';
+import { buildBatchProgress } from '../common/batch-progress';
+import { AzureLogger } from '../common/logger';
+
+const httpStatus = async (request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> => {
+
+    const logger = new AzureLogger(context);
+
+    // Batch Id and instance ID are the same for batches started by queueStart or httpStart
+    const instanceId = request.params.id;
+    logger.info(`HTTP status function triggered for: ${instanceId}`);
+
+    try {
+        const client = df.getClient(context);
+
+        let status: df.DurableOrchestrationStatus;
+        try {
+            status = await client.getStatus(instanceId, { showInput: true });
+        } catch (error) {
+            if (error.message?.includes('404')) {
+                return { status: 404, jsonBody: { error: `No recovery batch found for ${instanceId}` } };
+            }
+            throw error;
+        }
+
+        const input = status.input as RecoveryBatch;
+        const output = status.output as any;
+
+        const response: any = {
+            instanceId: status.instanceId,
+            batchId: input?.batchId,
+            runtimeStatus: status.runtimeStatus,
+            createdTime: status.createdTime,
+            lastUpdatedTime: status.lastUpdatedTime,
+            customStatus: status.customStatus
+        };
+
+        // Live progress: custom status of the orchestrator and outcomes of the async VM creations reported by the poller
+        const progressStatus = status.customStatus as BatchProgressStatus;
+        if (progressStatus?.phase) {
+            let outcomes: VmOutcomeTrackerState;
+            if (progressStatus.queued > 0 && input?.batchId) {
+                try {
+                    const entityState = await client.readEntityState<VmOutcomeTrackerState>(new df.EntityId(VM_OUTCOME_TRACKER_ENTITY, input.batchId));
+                    outcomes = entityState.entityExists ? entityState.entityState : undefined;
+                } catch (error) {
+                    logger.warn(`Unable to read the VM creation outcomes of batch ${input.batchId}: ${error.message}`);
+                }
+            }
+            response.progress = buildBatchProgress(progressStatus, outcomes, new Date());
+
+            // Progress of the snapshot copies of a cross-region restore (custom status of the copy sub-orchestration)
+            if (progressStatus.phase === 'copying snapshots') {
+                try {
+                    const copyStatus = await client.getStatus(`${instanceId}-copy`);
+                    response.snapshotCopy = copyStatus.customStatus;
+                } catch (error) {
+                    logger.warn(`Unable to read the snapshot copy progress of ${instanceId}: ${error.message}`);
+                }
+            }
+        }
+
+        if (status.runtimeStatus === OrchestrationRuntimeStatus.Completed && output) {
+            if (output.dryRun) {
+                response.plan = output.plan;
+            } else {
+                const results: VmRestoreResult[] = output.results || [];
+                response.counts = {
+                    total: output.totalProcessed ?? results.length,
+                    successful: output.successful ?? results.filter(result => result.success).length,
+                    failed: output.failed ?? results.filter(result => !result.success).length
+                };
+                if (output.failures) {
+                    // Hierarchical fan-out: only the failed VMs are reported, the restored VMs are in the job log
+                    response.failures = output.failures;
+                    response.unreportedFailures = output.unreportedFailures;
+                    response.batches = output.batches;
+                    if (output.pendingOutcomes !== undefined) {
+                        response.pendingOutcomes = output.pendingOutcomes;
+                    }
+                } else {
+                    response.results = results;
+                }
+                if (output.waves) {
+                    response.waves = output.waves;
+                    response.stoppedAtWave = output.stoppedAtWave;
+                }
+                if (output.cancelled) {
+                    response.cancelled = true;
+                    response.cancelReason = output.cancelReason;
+                    response.notStarted = output.notStarted;
+                    response.rollback = output.rollback;
+                }
+                if (output.quota) {
+                    response.quota = output.quota;
+                }
+                if (output.preflight) {
+                    response.preflight = output.preflight;
+                }
+                if (output.snapshotCopy) {
+                    response.snapshotCopy = output.snapshotCopy;
+                }
+            }
+            if (output.snapshotSelection) {
+                response.snapshotSelection = output.snapshotSelection;
+            }
+            if (output.message) {
+                response.message = output.message;
+            }
+        } else if (status.runtimeStatus === OrchestrationRuntimeStatus.Failed) {
+            response.error = output;
+        }
+
+        return { status: 200, jsonBody: response };
+
+    } catch (error) {
+        logger.error(`❌ Failed to get status for ${instanceId}:`, error.message);
+        return { status: 500, jsonBody: { error: `Failed to get recovery batch status: ${error.message}` } };
+    }
+};
+
+// Register the function to query a recovery batch over HTTP
+app.http('httpStatus', {
+    route: 'recoveries/{id}',
+    methods: ['GET'],
+    authLevel: 'function',
+    extraInputs: [df.input.durableClient()],
+    handler: httpStatus
+});
+
+export default httpStatus;
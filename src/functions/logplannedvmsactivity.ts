@@ -0,0 +1,49 @@
+import * as df from 'durable-functions';
+import { ActivityHandler } from 'durable-functions';
+import { InvocationContext } from '@azure/functions';
+import { LOG_PLANNED_VMS_ACTIVITY } from '../common/constants';
+import { AzureLogger } from '../common/logger';
+import { LogManager } from '../controllers/log.manager';
+import { PlannedSnapshot, plannedJobLogEntries } from '../common/batch-retry';
+import { _getString } from '../common/apperror';
+import { PermanentError, TransientError, classifyError } from '../common/errors';
+
+/**
+ * Records one job log entry per VM planned by a batch before its restores start,
+ * a retry of the batch compares them with the job log entries of the restores
+ */
+const logPlannedVmsActivity: ActivityHandler = async (input: { batchId: string, snapshots: PlannedSnapshot[] }, context: InvocationContext): Promise<number> => {
+
+    const logger = new AzureLogger(context);
+    logger.info('Activity function logPlannedVmsActivity trigger request.');
+
+    try {
+        // Input validation (permanent errors)
+        if (!input?.batchId) {
+            throw new PermanentError('batchId is required');
+        }
+        if (!input.snapshots || !Array.isArray(input.snapshots)) {
+            throw new PermanentError('snapshots array is required');
+        }
+
+        const entries = plannedJobLogEntries(input.batchId, input.snapshots);
+        if (entries.length > 0) {
+            await new LogManager(logger).uploadLogs(entries);
+        }
+
+        logger.info(`Logged ${entries.length} VMs planned by batch ${input.batchId}`);
+        return entries.length;
+
+    } catch (error) {
+        const classifiedError = classifyError(error);
+        logger.error(`❌ Failed to log the VMs planned by batch ${input?.batchId}: ${_getString(classifiedError)}`, {
+            errorType: classifiedError.constructor.name,
+            isRetriable: classifiedError instanceof TransientError
+        });
+        throw classifiedError;
+    }
+};
+
+df.app.activity(LOG_PLANNED_VMS_ACTIVITY, { handler: logPlannedVmsActivity });
+
+export default logPlannedVmsActivity;
@@ -1,11 +1,22 @@
 import * as df from 'durable-functions';
-import { OrchestrationContext, OrchestrationHandler } from 'durable-functions';
-import { GET_MOST_RECENT_SNAPSHOTS_ACTIVITY, CREATE_VM_ACTIVITY, CREATE_VM_ASYNC_ACTIVITY } from '../common/constants';
-import { RecoveryBatch } from '../common/interfaces';
+import { OrchestrationContext, OrchestrationHandler, Task } from 'durable-functions';
+import { BATCH_ORCHESTRATOR, GET_MOST_RECENT_SNAPSHOTS_ACTIVITY, REGION_BATCH_ORCHESTRATOR, ROLLBACK_BATCH_ACTIVITY, GET_EXISTING_RESTORES_ACTIVITY, CHECK_VM_HEALTH_ACTIVITY, CHECK_QUOTA_ACTIVITY, VALIDATE_TARGET_ACTIVITY, CANCEL_BATCH_EVENT, VM_OUTCOME_TRACKER_ENTITY, THROTTLE_TRACKER_ENTITY, SNAPSHOT_COPY_ORCHESTRATOR, DELETE_SNAPSHOT_COPIES_ACTIVITY, GET_SUBNET_CAPACITY_ACTIVITY, GET_RESOURCE_NAMES_ACTIVITY, BATCH_PLAN_ENTITY, LOG_PLANNED_VMS_ACTIVITY } from '../common/constants';
+import { BatchCancelRequest, BatchContinuation, BatchRollbackResult, RecoveryBatch, RecoveryResource, RecoverySnapshot, RegionBatchInput, RegionBatchSummary, VmHealth, VmOutcomeTrackerState, BatchProgressStatus, WaveProgress, WaveResult, ThrottlingObservation, QuotaReport, PreflightReport, VmRestoreResult, SnapshotCopy, SubnetCapacity, ResourceNameInfo, BatchPlanState, BatchSchedule, BatchPlanSlice, BatchPlanSliceRequest, BatchPlanResults, BatchPlanReport } from '../common/interfaces';
 import { AzureLogger } from "../common/logger";
 import { _getString } from '../common/apperror';
 import { executeActivityWithRetry, RetryPolicies } from '../common/retry-utils';
 import { PermanentError, TransientError, FatalError, classifyError } from '../common/errors';
+import { failedVmGroupResults } from '../common/snapshot-groups';
+import { buildRecoveryPlan } from '../common/recovery-plan';
+import { groupExistingRestoresBySnapshot, resolveExistingRestore } from '../common/existing-restore-utils';
+import { extractSubscriptionIdFromResourceId } from '../common/utils';
+import { buildQuotaRequirements } from '../common/quota-check';
+import { blockedPreflightResults } from '../common/preflight-validation';
+import { adjustConcurrency, getConcurrencyLimits, isCoolingDown } from '../common/adaptive-throttling';
+import { assignTargetZones } from '../common/zone-placement';
+import { applySnapshotCopies, failAllSnapshotCopies, failedCopyResults, getRestoreLocation, listSnapshotsToCopy, summarizeSnapshotCopies } from '../common/cross-region';
+import { distributeSubnets, listSubnetsToDistribute } from '../common/subnet-distribution';
+import { assignRestoreNames } from '../common/restore-naming';
 
 
 // Batch processing version (for large numbers of VMs)
@@ -26,168 +37,604 @@ const batchOrchestrator: OrchestrationHandler = function* (context: Orchestratio
             maxTimeGenerated: input.maxTimeGenerated,
             useOriginalIpAddress: input.useOriginalIpAddress,
             waitForVmCreationCompletion: input.waitForVmCreationCompletion,
+            waitForVmCreationOutcomes: input.waitForVmCreationOutcomes || false,
             vmFilterCount: input.vmFilter?.length || 0,
-            batchId: input.batchId
+            batchId: input.batchId,
+            dryRun: input.dryRun || false,
+            existingRestoreMode: input.existingRestoreMode || 'skip',
+            quotaCheck: input.quotaCheck || 'enforce',
+            preflightCheck: input.preflightCheck || 'enforce',
+            crossRegion: input.crossRegion?.sourceRegions?.join(', '),
+            subnetMappingRules: input.subnetMapping?.rules?.length,
+            subnetDistribution: input.subnetDistribution || 'fill-first',
+            namingCollision: input.naming ? input.naming.onCollision || 'fail' : undefined,
+            zonePlacement: input.zonePlacement?.mode || 'source',
+            retryBatchId: input.retryBatchId
         });
 
+        // Cancel requests are only honored between batches (in-flight VM creations are not interrupted)
+        const cancelEvent = context.df.waitForExternalEvent(CANCEL_BATCH_EVENT);
+        let cancelRequest: BatchCancelRequest = null;
+
+        // Restore plan of the batch, kept outside the history of the orchestrator
+        const planEntity = new df.EntityId(BATCH_PLAN_ENTITY, input.batchId);
+
         // Extract parameters with defaults
         const batchSize = parseInt(process.env.SNAP_RECOVERY_BATCH_SIZE || '20');
         const delayBetweenBatches = parseInt(process.env.SNAP_RECOVERY_DELAY_BETWEEN_BATCHES || '10');
+        const batchesPerGeneration = parseInt(process.env.SNAP_RECOVERY_BATCHES_PER_GENERATION || '10');
+        const maxReportedFailures = parseInt(process.env.SNAP_RECOVERY_MAX_REPORTED_FAILURES || '500');
+        const existingRestoreMode = input.existingRestoreMode || 'skip';
+        const concurrencyLimits = getConcurrencyLimits(batchSize);
 
-        // Get snapshots with parameters (with manual retry logic for orchestrator)
-        let recoveryInfo;
-        let lastError;
-        const maxAttempts = 3;
+        // State of the batch, carried over by continueAsNew (the snapshots are only selected by the first generation)
+        let state: BatchContinuation = input.continuation;
+        if (!state) {
+            // Get snapshots with parameters (with manual retry logic for orchestrator)
+            let recoveryInfo;
+            let lastError;
+            const maxAttempts = 3;
         
-        for (let attempt = 1; attempt <= maxAttempts; attempt++) {
-            try {
-                recoveryInfo = yield context.df.callActivity(GET_MOST_RECENT_SNAPSHOTS_ACTIVITY, input);
-                break; // Success, exit retry loop
-            } catch (error) {
-                const classifiedError = classifyError(error);
-                lastError = classifiedError;
+            for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+                try {
+                    recoveryInfo = yield context.df.callActivity(GET_MOST_RECENT_SNAPSHOTS_ACTIVITY, input);
+                    break; // Success, exit retry loop
+                } catch (error) {
+                    const classifiedError = classifyError(error);
+                    lastError = classifiedError;
                 
-                logger.warn(`Get snapshots attempt ${attempt} failed:`, {
-                    errorType: classifiedError.constructor.name,
-                    isRetryable: !(classifiedError instanceof PermanentError || classifiedError instanceof FatalError),
-                    message: classifiedError.message,
-                    attempt,
-                    maxAttempts
-                });
+                    logger.warn(`Get snapshots attempt ${attempt} failed:`, {
+                        errorType: classifiedError.constructor.name,
+                        isRetryable: !(classifiedError instanceof PermanentError || classifiedError instanceof FatalError),
+                        message: classifiedError.message,
+                        attempt,
+                        maxAttempts
+                    });
                 
-                // Don't retry permanent or fatal errors
-                if (classifiedError instanceof PermanentError || classifiedError instanceof FatalError) {
-                    throw classifiedError;
-                }
+                    // Don't retry permanent or fatal errors
+                    if (classifiedError instanceof PermanentError || classifiedError instanceof FatalError) {
+                        throw classifiedError;
+                    }
                 
-                // Don't retry if this was the last attempt
-                if (attempt >= maxAttempts) {
-                    break;
-                }
+                    // Don't retry if this was the last attempt
+                    if (attempt >= maxAttempts) {
+                        break;
+                    }
                 
-                // Add delay before retry (exponential backoff)
-                const delayMs = Math.min(1000 * Math.pow(2, attempt - 1), 30000);
-                const delayTime = context.df.currentUtcDateTime;
-                delayTime.setMilliseconds(delayTime.getMilliseconds() + delayMs);
-                yield context.df.createTimer(delayTime);
+                    // Add delay before retry (exponential backoff)
+                    const delayMs = Math.min(1000 * Math.pow(2, attempt - 1), 30000);
+                    const delayTime = context.df.currentUtcDateTime;
+                    delayTime.setMilliseconds(delayTime.getMilliseconds() + delayMs);
+                    yield context.df.createTimer(delayTime);
+                }
             }
-        }
         
-        if (!recoveryInfo) {
-            throw lastError || new Error('Failed to get snapshots after retries');
+            if (!recoveryInfo) {
+                throw lastError || new Error('Failed to get snapshots after retries');
+            }
+
+            if (input.retryBatchId && !recoveryInfo?.snapshots?.length) {
+                return { success: false, message: `No failed or incomplete VMs to retry in batch ${input.retryBatchId}` };
+            }
+
+            if ((!recoveryInfo?.snapshots?.length && !recoveryInfo?.failedGroups?.length) || !recoveryInfo?.subnetLocations?.length) {
+                return { success: false, message: `No snapshots found in the same region of subnets ${input.targetSubnetIds.join(', ')}` };
+            }
+
+            // Availability zone of each VM, kept with the snapshots so that the zones do not change across generations
+            recoveryInfo.snapshots = assignTargetZones(recoveryInfo.snapshots, input.zonePlacement);
+        
+            // Find the VMs already restored from the same snapshots by a previous run (target resource group of the snapshot subscriptions)
+            const existingResources: RecoveryResource[] = yield context.df.callActivityWithRetry(GET_EXISTING_RESTORES_ACTIVITY, new df.RetryOptions(5000, 3), {
+                targetResourceGroup: input.targetResourceGroup,
+                subscriptionIds: [...new Set(recoveryInfo.snapshots.map((snapshot: RecoverySnapshot) => extractSubscriptionIdFromResourceId(snapshot.id)))]
+            });
+            const existingRestores = groupExistingRestoresBySnapshot(existingResources);
+            if (existingRestores.size > 0) {
+                logger.info(`Found existing restores for ${existingRestores.size} snapshots (mode: ${existingRestoreMode})`);
+            }
+
+            // Target subnet of each VM to restore among the subnets of its region (by free IP addresses), kept with the snapshots
+            const snapshotsToRestore = recoveryInfo.snapshots.filter((snapshot: RecoverySnapshot) =>
+                !resolveExistingRestore(snapshot, undefined, existingRestores.get(snapshot.snapshotName.toLowerCase()), existingRestoreMode));
+            const subnetsToDistribute = listSubnetsToDistribute(snapshotsToRestore, recoveryInfo.subnetLocations);
+            if (subnetsToDistribute.length > 0) {
+                const capacities: SubnetCapacity[] = yield context.df.callActivityWithRetry(GET_SUBNET_CAPACITY_ACTIVITY, new df.RetryOptions(5000, 3), {
+                    subnetIds: subnetsToDistribute
+                });
+                const distributed = new Map(distributeSubnets(snapshotsToRestore, recoveryInfo.subnetLocations, capacities, input.subnetDistribution, input.subnetMapping)
+                    .map(snapshot => [snapshot.id, snapshot]));
+                recoveryInfo.snapshots = recoveryInfo.snapshots.map((snapshot: RecoverySnapshot) => distributed.get(snapshot.id) || snapshot);
+                logger.info(`Distributed the VMs over ${subnetsToDistribute.length} subnets (mode: ${input.subnetDistribution || 'fill-first'})`);
+            }
+
+            // Names of the restored VMs, NICs and disks from the name templates (VMs without a valid name fail before any VM is created)
+            let namingFailures: VmRestoreResult[] = [];
+            if (input.naming) {
+                const resourceNames: { [subscriptionId: string]: ResourceNameInfo[] } = yield context.df.callActivityWithRetry(GET_RESOURCE_NAMES_ACTIVITY, new df.RetryOptions(5000, 3), {
+                    targetResourceGroup: input.targetResourceGroup,
+                    subscriptionIds: [...new Set(recoveryInfo.snapshots.map((snapshot: RecoverySnapshot) => extractSubscriptionIdFromResourceId(snapshot.id)))]
+                });
+                const naming = assignRestoreNames(recoveryInfo.snapshots, input.naming, resourceNames, input.targetResourceGroup, input.batchId, context.df.currentUtcDateTime);
+                recoveryInfo.snapshots = naming.snapshots;
+                namingFailures = naming.failures;
+                if (namingFailures.length > 0) {
+                    logger.warn(`Naming failed for ${namingFailures.length} VMs (collision strategy: ${input.naming.onCollision || 'fail'})`);
+                }
+            }
+
+            const plan = buildRecoveryPlan(input, recoveryInfo, context.df.currentUtcDateTime, existingRestores);
+            plan.skipped.push(...namingFailures.map(result => ({ vmName: result.vmName, snapshotId: result.snapshotId, snapshotName: result.snapshotName, reason: result.message })));
+
+            // Pre-flight validation of the VMs that would be restored (subnet capacity, original IPs, name conflicts, VM sizes)
+            let preflight: PreflightReport;
+            let blockedResults: VmRestoreResult[] = [];
+            const preflightCheck = input.preflightCheck || 'enforce';
+            if (preflightCheck !== 'skip' && plan.vms.length > 0) {
+                preflight = yield context.df.callActivityWithRetry(VALIDATE_TARGET_ACTIVITY, new df.RetryOptions(5000, 3), {
+                    targetResourceGroup: input.targetResourceGroup,
+                    useOriginalIpAddress: input.useOriginalIpAddress,
+                    vmSizeMapping: input.vmSizeMapping,
+                    vms: plan.vms
+                });
+                if (!preflight.passed) {
+                    logger.warn(`Pre-flight validation blocked ${preflight.blockedVms} VMs (mode: ${preflightCheck})`);
+                    if (preflightCheck === 'enforce') {
+                        blockedResults = blockedPreflightResults(preflight, recoveryInfo.snapshots);
+                    }
+                }
+            }
+
+            // Quota pre-flight check of the VMs that would be restored (vCPUs per VM family and disks per SKU)
+            let quota: QuotaReport;
+            const quotaCheck = input.quotaCheck || 'enforce';
+            const blockedVms = new Set(blockedResults.map(result => result.vmName));
+            if (quotaCheck !== 'skip' && plan.vms.length > blockedVms.size) {
+                const plannedSnapshots = new Set(plan.vms.filter(vm => !blockedVms.has(vm.vmName)).map(vm => vm.snapshotId));
+                quota = yield context.df.callActivityWithRetry(CHECK_QUOTA_ACTIVITY, new df.RetryOptions(5000, 3), {
+                    requirements: buildQuotaRequirements(recoveryInfo.snapshots.filter((snapshot: RecoverySnapshot) => plannedSnapshots.has(snapshot.id))),
+                    vmSizeMapping: input.vmSizeMapping
+                });
+                if (!quota.passed) {
+                    logger.warn(`Quota pre-flight check failed (mode: ${quotaCheck}): ${quota.shortfalls.join('; ')}`);
+                }
+            }
+
+            // Dry run: return the restore plan without creating any resource
+            if (input.dryRun) {
+                plan.quota = quota;
+                plan.preflight = preflight;
+                logger.info(`Dry run completed: ${plan.vms.length} VMs would be restored, ${plan.skipped.length} snapshots would be skipped`);
+
+                return {
+                    success: true,
+                    dryRun: true,
+                    totalPlanned: plan.vms.length,
+                    totalSkipped: plan.skipped.length,
+                    snapshotSelection: recoveryInfo.snapshotSelection,
+                    plan: plan
+                };
+            }
+
+            // Quota shortfalls fail the batch before any resource is created (instead of failing VMs halfway through)
+            if (quota && !quota.passed && quotaCheck === 'enforce') {
+                return {
+                    success: false,
+                    message: `Quota pre-flight check failed, no VM was restored: ${quota.shortfalls.join('; ')}`,
+                    quota: quota
+                };
+            }
+
+            // VMs blocked by the pre-flight validation fail before any VM is created
+            if (blockedResults.length > 0) {
+                recoveryInfo.snapshots = recoveryInfo.snapshots.filter((snapshot: RecoverySnapshot) => !blockedVms.has(snapshot.vmName));
+            }
+
+            // VM groups without a common snapshot run fail before any VM is created
+            const groupFailures = failedVmGroupResults(recoveryInfo.failedGroups);
+            if (groupFailures.length > 0) {
+                logger.warn(`${recoveryInfo.failedGroups.length} VM groups failed without a common snapshot run: ${recoveryInfo.failedGroups.map(group => group.name).join(', ')}`);
+            }
+
+            // Cross-region restore: the snapshots of the VMs to restore are copied to the region of their subnet first
+            const startedAt = context.df.currentUtcDateTime.toISOString();
+            const plannedSnapshots = new Set(plan.vms.map(vm => vm.snapshotId));
+            const snapshotsToCopy = listSnapshotsToCopy(recoveryInfo.snapshots.filter((snapshot: RecoverySnapshot) => plannedSnapshots.has(snapshot.id)));
+            let snapshotCopies: SnapshotCopy[];
+            let copyFailures: VmRestoreResult[] = [];
+            if (snapshotsToCopy.length > 0) {
+                logger.info(`Copying ${snapshotsToCopy.length} snapshots to the region of their target subnet`);
+                context.df.setCustomStatus({
+                    total: recoveryInfo.snapshots.length + groupFailures.length + blockedResults.length + namingFailures.length,
+                    successful: 0,
+                    failed: groupFailures.length + blockedResults.length + namingFailures.length,
+                    queued: 0,
+                    inProgress: 0,
+                    batchNumber: 0,
+                    phase: 'copying snapshots',
+                    startedAt: startedAt,
+                    updatedAt: context.df.currentUtcDateTime.toISOString()
+                } as BatchProgressStatus);
+
+                // A cancel request stops waiting for the copies (they go on in the background and are not restored)
+                const copyTask = context.df.callSubOrchestrator(SNAPSHOT_COPY_ORCHESTRATOR, {
+                    batchId: input.batchId,
+                    targetResourceGroup: input.targetResourceGroup,
+                    snapshots: snapshotsToCopy
+                }, `${context.df.instanceId}-copy`);
+                const winner = yield context.df.Task.any([copyTask, cancelEvent]);
+                if (winner === copyTask) {
+                    // A failed copy orchestration fails all the copies, so that their VMs fail and the copies are cleaned up
+                    if (copyTask.isFaulted) {
+                        logger.error(`Snapshot copy orchestration of batch ${input.batchId} failed: ${_getString(copyTask.result)}`);
+                        snapshotCopies = failAllSnapshotCopies(snapshotsToCopy, `Copy orchestration failed: ${(copyTask.result as Error)?.message || 'unknown error'}`);
+                    } else {
+                        snapshotCopies = copyTask.result as SnapshotCopy[];
+                    }
+                    copyFailures = failedCopyResults(snapshotCopies, recoveryInfo.snapshots);
+                    const failedVms = new Set(copyFailures.map(result => result.vmName));
+                    recoveryInfo.snapshots = applySnapshotCopies(recoveryInfo.snapshots.filter((snapshot: RecoverySnapshot) => !failedVms.has(snapshot.vmName)), snapshotCopies);
+                    if (copyFailures.length > 0) {
+                        logger.warn(`${copyFailures.length} VMs failed because of a failed snapshot copy`);
+                    }
+                } else {
+                    logger.warn(`Batch ${input.batchId} cancelled while copying snapshots, the copies are left in ${input.targetResourceGroup}`);
+                }
+            }
+
+            // Start process
+            logger.info(`Starting the restore for ${recoveryInfo.snapshots.length} VMs`);
+            const initialFailures = [...groupFailures, ...namingFailures, ...blockedResults, ...copyFailures];
+
+            // The restore plan is kept by the batch plan entity, the next generations only carry the cursor of the batch
+            const batchPlan: BatchPlanState = {
+                recoveryInfo,
+                existingResources,
+                waves: input.waves,
+                quota: quota,
+                preflight: preflight,
+                snapshotCopies: snapshotCopies,
+                failures: initialFailures.slice(0, maxReportedFailures),
+                unreportedFailures: Math.max(0, initialFailures.length - maxReportedFailures),
+                batches: []
+            };
+            yield context.df.callEntity(planEntity, 'create', batchPlan);
+
+            // The VMs planned by the batch are logged before any restore starts, a retry also restores the VMs never reached
+            try {
+                yield context.df.callActivityWithRetry(LOG_PLANNED_VMS_ACTIVITY, new df.RetryOptions(5000, 3), {
+                    batchId: input.batchId,
+                    snapshots: recoveryInfo.snapshots.map((snapshot: RecoverySnapshot) => ({
+                        id: snapshot.id,
+                        snapshotName: snapshot.snapshotName,
+                        vmName: snapshot.vmName,
+                        vmSize: snapshot.vmSize,
+                        diskSku: snapshot.diskSku,
+                        diskProfile: snapshot.diskProfile
+                    }))
+                });
+            } catch (error) {
+                logger.warn(`Unable to log the VMs planned by batch ${input.batchId}, a retry of the batch only restores the VMs started: ${(error as Error)?.message}`);
+            }
+
+            state = {
+                generation: 0,
+                waveIndex: 0,
+                offsets: {},
+                throttling: {},
+                batchNumber: 0,
+                startedAt: startedAt,
+                totals: { processed: initialFailures.length, successful: 0, failed: initialFailures.length, queued: 0 },
+                waveResults: [],
+                wave: newWaveProgress(),
+                blockedVmCount: namingFailures.length + blockedResults.length + copyFailures.length
+            };
+        } else {
+            logger.info(`Batch ${input.batchId} continued as new (generation ${state.generation}, batch ${state.batchNumber} done)`);
         }
 
-        if (!recoveryInfo?.snapshots?.length || !recoveryInfo?.subnetLocations?.length) {
-            return { success: false, message: `No snapshots found in the same region of subnets ${input.targetSubnetIds.join(', ')}` };
+        // Waves of the batch plan, without their snapshots (read one batch at a time)
+        const schedule: BatchSchedule = yield context.df.callEntity(planEntity, 'schedule');
+        if (!schedule) {
+            throw new FatalError(`No restore plan found for batch ${input.batchId}`);
         }
-        
-        // Start process
-        logger.info(`Starting the restore for ${recoveryInfo.snapshots.length} VMs`);
+        const groupFailureCount = schedule.failedGroupCount;
 
-        const allResults = [];
-        
-        // Process in batches
-        for (let i = 0; i < recoveryInfo.snapshots.length; i += batchSize) {
-            const batch = recoveryInfo.snapshots.slice(i, i + batchSize);
-
-            // Batch start
-            logger.info(`Processing batch ${Math.floor(i / batchSize) + 1} with ${batch.length} VMs`);
-
-            const batchTasks = batch.map((snapshot, index) => {
-                // Find a subnet in the same location as the snapshot
-                const matchingSubnet = recoveryInfo.subnetLocations.find(
-                    subnetLocation => subnetLocation.location === snapshot.location
-                );
-                
-                if (!matchingSubnet) {
-                    // Return a resolved "task" for missing subnet
-                    return Promise.resolve({ 
-                        success: false, 
-                        message: `No subnet found in location ${snapshot.location} for snapshot ${snapshot.snapshotName}`,
-                        snapshot: snapshot.snapshotName 
-                    });
+        // A cancel request raised while the orchestrator continued as new is only recorded by the batch plan entity
+        if (schedule.cancelRequest && !cancelEvent.isCompleted) {
+            cancelRequest = schedule.cancelRequest;
+            logger.warn(`Batch ${input.batchId} cancelled before generation ${state.generation}: ${cancelRequest.reason || 'no reason provided'}`);
+        }
+
+        // Stops scheduling new VM creations if the batch was cancelled
+        const isCancelled = (before: string): boolean => {
+            if (cancelEvent.isCompleted && !cancelRequest) {
+                cancelRequest = (cancelEvent.result as BatchCancelRequest) || { rollback: false };
+                logger.warn(`Batch ${input.batchId} cancelled before ${before}: ${cancelRequest.reason || 'no reason provided'}`);
+            }
+            return !!cancelRequest;
+        };
+
+        // Restore the waves in order (a single default wave without waves in the request)
+        const waves = schedule.waves;
+        let stoppedAtWave: string;
+        let roundsInGeneration = 0;
+
+        // Live progress of the batch (combined with the outcomes of the VM creation poller by the status API)
+        const publishProgress = (phase: BatchProgressStatus['phase'], inProgress: number = 0, waveIndex?: number): void => {
+            const status: BatchProgressStatus = {
+                total: schedule.vmCount + groupFailureCount + (state.blockedVmCount || 0),
+                successful: state.totals.successful,
+                failed: state.totals.failed,
+                queued: state.totals.queued,
+                inProgress: inProgress,
+                batchNumber: state.batchNumber,
+                phase: phase,
+                startedAt: state.startedAt,
+                updatedAt: context.df.currentUtcDateTime.toISOString()
+            };
+            if (input.waves?.length > 0 && waveIndex !== undefined) {
+                status.wave = waves[waveIndex].name;
+                status.waveNumber = waveIndex + 1;
+                status.waveCount = waves.length;
+            }
+            context.df.setCustomStatus(status);
+        };
+
+        for (let w = state.waveIndex; w < waves.length; w++) {
+            const wave = waves[w];
+            if (isCancelled(`starting wave ${wave.name}`)) {
+                break;
+            }
+
+            if (input.waves?.length > 0 && Object.keys(state.offsets).length === 0) {
+                logger.info(`Starting wave ${wave.name} with ${wave.vmCount} VMs`);
+            }
+
+            // Each batch restores the next VMs of every throttling scope (subscription and region), one region batch
+            // sub-orchestration per scope, as many as the concurrency of the scope (batchSize until throttled)
+            const scopes = new Map<string, number>(wave.scopes.map(scope => [scope.scope, scope.vmCount]));
+            const pendingScopes = (): string[] => [...scopes.keys()].filter(scope => (state.offsets[scope] || 0) < scopes.get(scope));
+            const collectVms = wave.healthGate && w < waves.length - 1;
+
+            while (pendingScopes().length > 0) {
+                // Stop scheduling new VM creations if the batch was cancelled
+                if (isCancelled(`processing batch ${state.batchNumber + 1}`)) {
+                    break;
                 }
-                
-                // Create VM activity call (with WAIT or NO WAIT)
-                if (input.waitForVmCreationCompletion) {
-                    // Wait for VM creation to complete
-                    return context.df.callActivity(CREATE_VM_ACTIVITY, {
-                        targetSubnetId: matchingSubnet.subnetId,
-                        targetResourceGroup: input.targetResourceGroup,
-                        useOriginalIpAddress: input.useOriginalIpAddress,
-                        sourceSnapshot: snapshot,
-                        batchId: input.batchId
-                    });
+
+                // Throttling reported before the first batch of a scope (other batches of the subscription) is its baseline
+                for (const scope of pendingScopes().filter(scope => !state.throttling[scope])) {
+                    const observation: ThrottlingObservation = concurrencyLimits.adaptive
+                        ? yield context.df.callEntity(new df.EntityId(THROTTLE_TRACKER_ENTITY, scope), 'get')
+                        : undefined;
+                    state.throttling[scope] = adjustConcurrency(undefined, observation, concurrencyLimits);
                 }
-                else {
-                    return context.df.callActivity(CREATE_VM_ASYNC_ACTIVITY, {
-                        targetSubnetId: matchingSubnet.subnetId,
+
+                // Scopes throttled by ARM wait for the Retry-After of their last throttled request
+                const now = context.df.currentUtcDateTime;
+                const readyScopes = pendingScopes().filter(scope => !isCoolingDown(state.throttling[scope], now));
+                if (readyScopes.length === 0) {
+                    const resumeAt = new Date(Math.min(...pendingScopes().map(scope => new Date(state.throttling[scope].cooldownUntil).getTime())));
+                    logger.warn(`All the remaining scopes of wave ${wave.name} are throttled, waiting until ${resumeAt.toISOString()}`);
+                    const cooldownTimer = context.df.createTimer(resumeAt);
+                    const winner = yield context.df.Task.any([cooldownTimer, cancelEvent]);
+                    if (winner === cancelEvent) {
+                        cooldownTimer.cancel();
+                    }
+                    continue;
+                }
+
+                // Next VMs of the ready scopes, read from the batch plan
+                state.batchNumber++;
+                const slices: BatchPlanSlice[] = yield context.df.callEntity(planEntity, 'slice', {
+                    waveIndex: w,
+                    slices: readyScopes.map(scope => ({ scope, offset: state.offsets[scope] || 0, count: state.throttling[scope].concurrency }))
+                } as BatchPlanSliceRequest);
+
+                const regionTasks = [];
+                let batchVmCount = 0;
+                readyScopes.forEach((scope, index) => {
+                    const { snapshots, existingResources } = slices[index];
+                    state.offsets[scope] = (state.offsets[scope] || 0) + state.throttling[scope].concurrency;
+                    if (snapshots.length === 0) {
+                        return;
+                    }
+                    batchVmCount += snapshots.length;
+
+                    const region = getRestoreLocation(snapshots[0]);
+                    const regionInput: RegionBatchInput = {
+                        batchId: input.batchId,
+                        batchNumber: state.batchNumber,
+                        region: region,
                         targetResourceGroup: input.targetResourceGroup,
                         useOriginalIpAddress: input.useOriginalIpAddress,
-                        sourceSnapshot: snapshot,
-                        batchId: input.batchId
-                    });
-                    
-                }
-            });
-            
-            const batchResults = yield context.df.Task.all(batchTasks);
-            
-            // Process results and log any failures
-            const successCount = batchResults.filter(result => result.success !== false).length;
-            const failureCount = batchResults.length - successCount;
-            
-            if (failureCount > 0) {
-                logger.warn(`Batch ${Math.floor(i / batchSize) + 1} completed with ${failureCount} failures:`, {
-                    successCount,
-                    failureCount,
-                    totalInBatch: batchResults.length
+                        waitForVmCreationCompletion: input.waitForVmCreationCompletion,
+                        compensationMode: input.compensationMode,
+                        existingRestoreMode: existingRestoreMode,
+                        snapshots: snapshots,
+                        subnetLocations: schedule.subnetLocations,
+                        existingResources: existingResources,
+                        collectVms: collectVms,
+                        vmSizeMapping: input.vmSizeMapping,
+                        subnetMapping: input.subnetMapping
+                    };
+                    const subscriptionId = extractSubscriptionIdFromResourceId(snapshots[0].id);
+                    regionTasks.push(context.df.callSubOrchestrator(REGION_BATCH_ORCHESTRATOR, regionInput, `${context.df.instanceId}-b${state.batchNumber}-${region}-${subscriptionId.substring(0, 8)}`));
                 });
-                
-                // Log individual failures
-                batchResults.forEach((result, index) => {
-                    if (result.success === false) {
-                        logger.error(`Failed VM creation in batch:`, {
-                            snapshot: result.snapshot || `batch[${index}]`,
-                            error: result.message,
-                            errorType: result.errorType || 'unknown',
-                            isRetryable: result.isRetryable
-                        });
+
+                // Batch start
+                logger.info(`Processing batch ${state.batchNumber} with ${batchVmCount} VMs in ${regionTasks.length} subscription regions`);
+
+                publishProgress('restoring', batchVmCount, w);
+                const summaries: RegionBatchSummary[] = yield context.df.Task.all(regionTasks);
+                summaries.forEach(summary => addRegionBatchSummary(state, summary));
+                context.df.signalEntity(planEntity, 'record', {
+                    batches: summaries.map(summary => summary.instanceId),
+                    failures: [].concat(...summaries.map(summary => summary.failures)),
+                    maxReportedFailures
+                } as BatchPlanResults);
+                publishProgress('restoring', 0, w);
+
+                // Adjust the concurrency of the scopes of the batch to the throttling reported by their restores
+                if (concurrencyLimits.adaptive) {
+                    for (const scope of readyScopes) {
+                        const observation: ThrottlingObservation = yield context.df.callEntity(new df.EntityId(THROTTLE_TRACKER_ENTITY, scope), 'get');
+                        const previous = state.throttling[scope];
+                        state.throttling[scope] = adjustConcurrency(previous, observation, concurrencyLimits);
+                        if (state.throttling[scope].concurrency < previous.concurrency) {
+                            logger.warn(`${observation.throttledRequests - previous.seenThrottledRequests} throttled requests in ${scope}, concurrency reduced from ${previous.concurrency} to ${state.throttling[scope].concurrency}${state.throttling[scope].cooldownUntil ? ` (cooldown until ${state.throttling[scope].cooldownUntil})` : ''}`);
+                        }
                     }
-                });
-            } else {
-                logger.info(`Batch ${Math.floor(i / batchSize) + 1} completed successfully: ${successCount} VMs created`);
+                }
+
+                // Optional: Add delay between batches to avoid rate limits (interrupted by a cancel request)
+                const hasNextRound = pendingScopes().length > 0;
+                if (hasNextRound && delayBetweenBatches > 0 && !cancelEvent.isCompleted) {
+                    const delay = context.df.currentUtcDateTime;
+                    delay.setSeconds(delay.getSeconds() + delayBetweenBatches);
+                    const delayTimer = context.df.createTimer(delay);
+                    const winner = yield context.df.Task.any([delayTimer, cancelEvent]);
+                    if (winner === cancelEvent) {
+                        delayTimer.cancel();
+                    }
+                }
+
+                // Start a new generation of the orchestrator every batchesPerGeneration batches to keep the history bounded
+                roundsInGeneration++;
+                if (hasNextRound && roundsInGeneration >= batchesPerGeneration && !cancelEvent.isCompleted) {
+                    state.waveIndex = w;
+                    state.generation++;
+                    logger.info(`Continuing batch ${input.batchId} as new after batch ${state.batchNumber} (generation ${state.generation})`);
+                    context.df.continueAsNew({ ...input, continuation: state });
+                    return;
+                }
+            }
+
+            // Wave end
+            const waveProgress = state.wave;
+            const waveResult: WaveResult = {
+                name: wave.name,
+                vmCount: wave.vmCount,
+                successful: waveProgress.successful,
+                failed: waveProgress.failed,
+                healthGate: 'skipped'
+            };
+            state.waveResults.push(waveResult);
+            state.wave = newWaveProgress();
+            state.offsets = {};
+
+            // The next wave starts after the health gate of this wave and its delay
+            if (w === waves.length - 1 || isCancelled(`the health gate of wave ${wave.name}`)) {
+                continue;
             }
-            
-            allResults.push(...batchResults);
 
-            // Optional: Add delay between batches to avoid rate limits
-            if (i + batchSize < recoveryInfo.snapshots.length && delayBetweenBatches > 0) {
+            if (wave.healthGate) {
+                publishProgress('health gate', 0, w);
+                const gate = yield* waitForWaveHealthGate(context, wave.name, waveProgress, input.targetResourceGroup, cancelEvent);
+                waveResult.healthGate = gate.passed ? 'passed' : 'failed';
+                waveResult.message = gate.message;
+                if (!gate.passed) {
+                    if (!isCancelled(`starting the wave after ${wave.name}`)) {
+                        logger.error(`Wave ${wave.name} failed its health gate, the next waves are not started: ${gate.message}`);
+                        stoppedAtWave = wave.name;
+                    }
+                    break;
+                }
+                logger.info(`Wave ${wave.name} passed its health gate: ${gate.message}`);
+            }
+
+            if (wave.delayAfterSeconds > 0 && !cancelEvent.isCompleted) {
                 const delay = context.df.currentUtcDateTime;
-                delay.setSeconds(delay.getSeconds() + delayBetweenBatches);
-                yield context.df.createTimer(delay);
+                delay.setSeconds(delay.getSeconds() + wave.delayAfterSeconds);
+                const delayTimer = context.df.createTimer(delay);
+                const winner = yield context.df.Task.any([delayTimer, cancelEvent]);
+                if (winner === cancelEvent) {
+                    delayTimer.cancel();
+                }
+            }
+        }
+
+        // Waves not started because of a failed health gate or a cancel request
+        const waveResults = state.waveResults;
+        for (const wave of waves.slice(waveResults.length)) {
+            waveResults.push({ name: wave.name, vmCount: wave.vmCount, successful: 0, failed: 0, healthGate: 'not started' });
+        }
+
+        // Outcomes of the queued async VM creations reported by the VM creation poller (replace the queued VMs in the final counts)
+        let outcomes: VmOutcomeTrackerState;
+        let pendingOutcomes: number;
+        if (input.waitForVmCreationOutcomes && !input.waitForVmCreationCompletion && state.totals.queued > 0 && !isCancelled('waiting for the VM creation outcomes')) {
+            publishProgress('waiting for outcomes');
+            outcomes = yield* waitForVmCreationOutcomes(context, input.batchId, state.totals.queued, cancelEvent);
+            pendingOutcomes = state.totals.queued - outcomes.succeeded - outcomes.failed;
+
+            context.df.signalEntity(planEntity, 'record', { batches: [], failures: outcomes.failures, maxReportedFailures } as BatchPlanResults);
+            isCancelled('the end of the batch');
+        }
+
+        // Delete the resources already created for the batch if the cancel request asked for a rollback
+        let rollbackResult: BatchRollbackResult;
+        if (cancelRequest?.rollback) {
+            publishProgress('rolling back');
+            logger.warn(`Rolling back the resources created for batch ${input.batchId} in ${input.targetResourceGroup}`);
+            rollbackResult = yield context.df.callActivityWithRetry(ROLLBACK_BATCH_ACTIVITY, new df.RetryOptions(5000, 3), {
+                batchId: input.batchId,
+                targetResourceGroup: input.targetResourceGroup
+            });
+        }
+
+        // Results of the batch kept by the batch plan entity (the plan is no longer needed)
+        const report: BatchPlanReport = yield context.df.callEntity(planEntity, 'report');
+        context.df.signalEntity(planEntity, 'delete');
+
+        // Cross-region restore: delete the snapshot copies, the disks were created from them
+        if (input.crossRegion?.deleteCopies && report.snapshotCopies?.length > 0) {
+            const deletion: { deleted: string[], failed: string[] } = yield context.df.callActivityWithRetry(DELETE_SNAPSHOT_COPIES_ACTIVITY, new df.RetryOptions(5000, 3), {
+                targetResourceGroup: input.targetResourceGroup,
+                copies: report.snapshotCopies
+            });
+            if (deletion.failed.length > 0) {
+                logger.warn(`Unable to delete ${deletion.failed.length} snapshot copies: ${deletion.failed.join(', ')}`);
             }
-            
         }
 
         // Calculate final statistics
-        const totalSuccessful = allResults.filter(result => result.success !== false).length;
-        const totalFailed = allResults.length - totalSuccessful;
+        const totalProcessed = state.totals.processed;
+        const totalSuccessful = state.totals.successful - (outcomes ? state.totals.queued - outcomes.succeeded : 0);
+        const totalFailed = state.totals.failed + (outcomes ? outcomes.failed : 0);
+        publishProgress('completed');
         
         logger.info(`Batch orchestrator completed:`, {
-            totalProcessed: allResults.length,
+            totalProcessed: totalProcessed,
             successful: totalSuccessful,
             failed: totalFailed,
-            successRate: totalSuccessful / allResults.length
+            successRate: totalSuccessful / totalProcessed,
+            cancelled: !!cancelRequest,
+            generations: state.generation + 1
         });
 
+        const { continuation, ...batchInput } = input;
         return {
-            success: totalSuccessful > 0, // Success if at least one VM was created
-            totalProcessed: allResults.length,
+            success: totalSuccessful > 0 && !cancelRequest && !stoppedAtWave, // Success if at least one VM was created and the batch was neither cancelled nor stopped by a health gate
+            totalProcessed: totalProcessed,
             successful: totalSuccessful,
             failed: totalFailed,
-            input: input, // Include original input for reference
-            results: allResults
+            cancelled: !!cancelRequest,
+            cancelReason: cancelRequest?.reason,
+            notStarted: schedule.vmCount - (totalProcessed - groupFailureCount - (state.blockedVmCount || 0)),
+            rollback: rollbackResult,
+            snapshotSelection: schedule.snapshotSelection,
+            waves: input.waves?.length > 0 ? waveResults : undefined,
+            stoppedAtWave: stoppedAtWave,
+            input: batchInput, // Include original input for reference
+            failures: report.failures, // Only the failed VMs are reported, the restored VMs are in the job log
+            unreportedFailures: report.unreportedFailures,
+            pendingOutcomes: pendingOutcomes, // Queued VM creations without outcome (only when waiting for the outcomes)
+            batches: report.batches, // Region batch sub-orchestrations, with the per-VM results in their history
+            quota: report.quota,
+            preflight: report.preflight,
+            snapshotCopy: report.snapshotCopies ? summarizeSnapshotCopies(report.snapshotCopies, context.df.currentUtcDateTime) : undefined
         };
         
     } catch (error) {
@@ -203,7 +650,98 @@ const batchOrchestrator: OrchestrationHandler = function* (context: Orchestratio
     }
 };
 
+/**
+ * Health gate of a wave: waits until the restored VMs of the wave are running with the guest agent ready.
+ * Fails right away if a VM of the wave failed, and after SNAP_RECOVERY_HEALTH_GATE_TIMEOUT_SECONDS or on a cancel request.
+ */
+function* waitForWaveHealthGate(context: OrchestrationContext, waveName: string, wave: WaveProgress, targetResourceGroup: string, cancelEvent: Task): Generator<Task, { passed: boolean, message: string }, any> {
+    if (wave.failedVms.length > 0) {
+        return { passed: false, message: `${wave.failedVms.length} VMs of wave ${waveName} failed: ${wave.failedVms.join(', ')}` };
+    }
+    if (wave.restoredVms.length === 0) {
+        return { passed: true, message: `No VMs to check in wave ${waveName}` };
+    }
+
+    const vms = wave.restoredVms;
+    const timeoutSeconds = parseInt(process.env.SNAP_RECOVERY_HEALTH_GATE_TIMEOUT_SECONDS || '1800'); // 30 minutes
+    const intervalSeconds = parseInt(process.env.SNAP_RECOVERY_HEALTH_GATE_INTERVAL_SECONDS || '60');
+    const deadline = context.df.currentUtcDateTime.getTime() + timeoutSeconds * 1000;
+
+    while (true) {
+        const health: VmHealth[] = yield context.df.callActivityWithRetry(CHECK_VM_HEALTH_ACTIVITY, new df.RetryOptions(5000, 3), { targetResourceGroup, vms });
+        const unhealthy = health.filter(vmHealth => !vmHealth.healthy);
+        if (unhealthy.length === 0) {
+            return { passed: true, message: `All ${health.length} VMs running with guest agent ready` };
+        }
+        if (context.df.currentUtcDateTime.getTime() >= deadline) {
+            return { passed: false, message: `Health gate timed out after ${timeoutSeconds}s: ${unhealthy.map(vmHealth => vmHealth.message).join('; ')}` };
+        }
+
+        const nextCheck = new Date(Math.min(context.df.currentUtcDateTime.getTime() + intervalSeconds * 1000, deadline));
+        const checkTimer = context.df.createTimer(nextCheck);
+        const winner = yield context.df.Task.any([checkTimer, cancelEvent]);
+        if (winner === cancelEvent) {
+            checkTimer.cancel();
+            return { passed: false, message: `Batch cancelled during the health gate of wave ${waveName}` };
+        }
+    }
+}
+
+/**
+ * Waits until the VM creation poller has reported the outcome of every queued VM creation of the batch.
+ * Stops after SNAP_RECOVERY_OUTCOME_TIMEOUT_SECONDS or on a cancel request, with the outcomes reported so far.
+ */
+function* waitForVmCreationOutcomes(context: OrchestrationContext, batchId: string, queued: number, cancelEvent: Task): Generator<Task, VmOutcomeTrackerState, any> {
+    const logger = new AzureLogger(context);
+    const tracker = new df.EntityId(VM_OUTCOME_TRACKER_ENTITY, batchId);
+    const timeoutSeconds = parseInt(process.env.SNAP_RECOVERY_OUTCOME_TIMEOUT_SECONDS || '3600'); // 1 hour
+    const intervalSeconds = parseInt(process.env.SNAP_RECOVERY_OUTCOME_INTERVAL_SECONDS || '60');
+    const deadline = context.df.currentUtcDateTime.getTime() + timeoutSeconds * 1000;
+
+    logger.info(`Waiting for the outcomes of ${queued} queued VM creations of batch ${batchId}`);
+    while (true) {
+        const counts: { succeeded: number, failed: number } = yield context.df.callEntity(tracker, 'counts');
+        if (counts.succeeded + counts.failed >= queued || context.df.currentUtcDateTime.getTime() >= deadline) {
+            break;
+        }
+
+        const nextCheck = new Date(Math.min(context.df.currentUtcDateTime.getTime() + intervalSeconds * 1000, deadline));
+        const checkTimer = context.df.createTimer(nextCheck);
+        const winner = yield context.df.Task.any([checkTimer, cancelEvent]);
+        if (winner === cancelEvent) {
+            checkTimer.cancel();
+            break;
+        }
+    }
+
+    // Failures are only read once, at the end
+    const outcomes: VmOutcomeTrackerState = yield context.df.callEntity(tracker, 'get');
+    logger.info(`VM creation outcomes of batch ${batchId}: ${outcomes.succeeded} succeeded, ${outcomes.failed} failed, ${queued - outcomes.succeeded - outcomes.failed} pending`);
+    return outcomes;
+}
+
+function newWaveProgress(): WaveProgress {
+    return { successful: 0, failed: 0, restoredVms: [], failedVms: [] };
+}
+
+/**
+ * Adds the counts of a region batch to the batch state (its failures are recorded by the batch plan entity)
+ */
+function addRegionBatchSummary(state: BatchContinuation, summary: RegionBatchSummary): void {
+    state.totals.processed += summary.total;
+    state.totals.successful += summary.successful;
+    state.totals.failed += summary.failed;
+    state.totals.queued += summary.queued;
+
+    state.wave.successful += summary.successful;
+    state.wave.failed += summary.failed;
+    if (summary.restoredVms) {
+        state.wave.restoredVms.push(...summary.restoredVms);
+        state.wave.failedVms.push(...summary.failures.map(failure => failure.vmName));
+    }
+}
+
 // Register orchestrators
-df.app.orchestration('batchOrchestrator', batchOrchestrator);
+df.app.orchestration(BATCH_ORCHESTRATOR, batchOrchestrator);
 
 export { batchOrchestrator };
\ No newline at end of file
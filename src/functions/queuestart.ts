@@ -3,7 +3,7 @@ import * as df from 'durable-functions';
 import { RecoveryBatch } from '../common/interfaces';
 import { isBatchOrchestratorInput, validateBatchOrchestratorInput, validateBatchOrchestratorInputStrict } from '../common/validation';
 import { generateGuid } from '../common/utils';
-import { QUEUE_RECOVERY_JOBS } from '../common/constants';
+import { BATCH_ORCHESTRATOR, QUEUE_RECOVERY_JOBS } from '../common/constants';
 
 const queueStart = async (queueItem: RecoveryBatch, context: InvocationContext): Promise<void> => {
 
@@ -56,8 +56,24 @@ const queueStart = async (queueItem: RecoveryBatch, context: InvocationContext):
                 targetResourceGroup: input.targetResourceGroup,
                 useOriginalIpAddress: input.useOriginalIpAddress,
                 waitForVmCreationCompletion: input.waitForVmCreationCompletion,
+                waitForVmCreationOutcomes: input.waitForVmCreationOutcomes || false,
                 hasVmFilters: !!input.vmFilter,
-                vmFilterCount: input.vmFilter ? input.vmFilter.length : 0
+                vmFilterCount: input.vmFilter ? input.vmFilter.length : 0,
+                dryRun: input.dryRun || false,
+                existingRestoreMode: input.existingRestoreMode || 'skip',
+                quotaCheck: input.quotaCheck || 'enforce',
+                preflightCheck: input.preflightCheck || 'enforce',
+                retryBatchId: input.retryBatchId,
+                snapshotSelection: input.snapshotSelection?.policy || 'latest',
+                vmSnapshotSelectionCount: input.vmSnapshotSelections?.length || 0,
+                vmGroupCount: input.vmGroups?.length || 0,
+                waveCount: input.waves?.length || 0,
+                vmSizeMapping: !!input.vmSizeMapping,
+                zonePlacement: input.zonePlacement?.mode || 'source',
+                crossRegionSourceCount: input.crossRegion?.sourceRegions?.length || 0,
+                subnetMappingRuleCount: input.subnetMapping?.rules?.length || 0,
+                subnetDistribution: input.subnetDistribution || 'fill-first',
+                naming: !!input.naming
             });
             
         } catch (error) {
@@ -73,11 +89,11 @@ const queueStart = async (queueItem: RecoveryBatch, context: InvocationContext):
         try {
             context.log('🔍 Starting orchestrator...');
 
-            // Create Batch Id for correlation
+            // Create Batch Id for correlation (also used as instance ID to query the batch status)
             input.batchId = generateGuid();
 
             // The input will be available in orchestrator via context.df.getInput()
-            const instanceId: string = await client.startNew('batchOrchestrator', { input });
+            const instanceId: string = await client.startNew(BATCH_ORCHESTRATOR, { instanceId: input.batchId, input });
             context.log('✅ Orchestrator started successfully');
 
             // Log instance ID for monitoring
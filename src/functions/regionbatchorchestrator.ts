@@ -0,0 +1,144 @@
+import * as df from 'durable-functions';
+import { OrchestrationContext, OrchestrationHandler } from 'durable-functions';
+import { REGION_BATCH_ORCHESTRATOR, VM_RESTORE_ORCHESTRATOR, CREATE_VM_ASYNC_ACTIVITY } from '../common/constants';
+import { NewVmDetails, RecoverySnapshot, RegionBatchInput, RegionBatchSummary, VmCreationResult, VmRestoreResult } from '../common/interfaces';
+import { AzureLogger } from "../common/logger";
+import { findSubnetForSnapshot, noSubnetFoundMessage } from '../common/subnet-utils';
+import { groupExistingRestoresBySnapshot, resolveExistingRestore } from '../common/existing-restore-utils';
+import { extractSubscriptionIdFromResourceId } from '../common/utils';
+
+
+// Restore of the VMs of one region in one batch: fans out one VM restore per snapshot and returns a compact summary
+const regionBatchOrchestrator: OrchestrationHandler = function* (context: OrchestrationContext) {
+
+    const logger = new AzureLogger(context);
+    const input = context.df.getInput() as RegionBatchInput;
+    logger.info(`Processing batch ${input.batchNumber} in ${input.region} with ${input.snapshots.length} VMs`);
+
+    const existingRestores = groupExistingRestoresBySnapshot(input.existingResources);
+    const batchResults: VmRestoreResult[] = [];
+    const batchTasks = [];
+    const batchTargets: { snapshot: RecoverySnapshot, targetSubnetId: string }[] = [];
+
+    for (const snapshot of input.snapshots) {
+        // Find a subnet in the same location as the snapshot (subnet mapping rules first)
+        const matchingSubnet = findSubnetForSnapshot(snapshot, input.subnetLocations, input.subnetMapping);
+
+        if (!matchingSubnet) {
+            // No activity for missing subnet
+            batchResults.push({
+                success: false,
+                vmName: snapshot.vmName,
+                snapshotId: snapshot.id,
+                snapshotName: snapshot.snapshotName,
+                message: noSubnetFoundMessage(snapshot)
+            });
+            continue;
+        }
+
+        // No activity for a VM already restored (or partially restored in skip mode)
+        const snapshotExistingResources = existingRestores.get(snapshot.snapshotName.toLowerCase()) || [];
+        const existingResult = resolveExistingRestore(snapshot, matchingSubnet.subnetId, snapshotExistingResources, input.existingRestoreMode);
+        if (existingResult) {
+            batchResults.push(existingResult);
+            continue;
+        }
+
+        const vmDetails: NewVmDetails = {
+            targetSubnetId: matchingSubnet.subnetId,
+            targetResourceGroup: input.targetResourceGroup,
+            useOriginalIpAddress: input.useOriginalIpAddress,
+            sourceSnapshot: snapshot,
+            batchId: input.batchId,
+            compensationMode: input.compensationMode,
+            existingRestoreMode: input.existingRestoreMode,
+            existingResources: snapshotExistingResources,
+            vmSizeMapping: input.vmSizeMapping
+        };
+
+        // VM restore sub-orchestration (WAIT) or create VM async activity (NO WAIT)
+        batchTargets.push({ snapshot, targetSubnetId: matchingSubnet.subnetId });
+        batchTasks.push(input.waitForVmCreationCompletion
+            ? context.df.callSubOrchestrator(VM_RESTORE_ORCHESTRATOR, vmDetails, `${context.df.instanceId}-${snapshot.vmName}`)
+            : context.df.callActivity(CREATE_VM_ASYNC_ACTIVITY, vmDetails));
+    }
+
+    let queued = 0;
+    if (batchTasks.length > 0) {
+        const activityResults = yield context.df.Task.all(batchTasks);
+        if (!input.waitForVmCreationCompletion) {
+            queued = activityResults.filter(result => result?.success).length;
+        }
+        activityResults.forEach((result, index) => {
+            batchResults.push(input.waitForVmCreationCompletion
+                ? result as VmRestoreResult
+                : toVmRestoreResult(batchTargets[index].snapshot, batchTargets[index].targetSubnetId, result));
+        });
+    }
+
+    // Process results and log any failures
+    const failures = batchResults.filter(result => !result.success);
+    const summary: RegionBatchSummary = {
+        instanceId: context.df.instanceId,
+        region: input.region,
+        batchNumber: input.batchNumber,
+        total: batchResults.length,
+        successful: batchResults.length - failures.length,
+        failed: failures.length,
+        queued: queued,
+        failures: failures
+    };
+
+    if (failures.length > 0) {
+        logger.warn(`Batch ${input.batchNumber} in ${input.region} completed with ${failures.length} failures:`, {
+            successCount: summary.successful,
+            failureCount: summary.failed,
+            totalInBatch: summary.total
+        });
+
+        // Log individual failures
+        failures.forEach((result) => {
+            logger.error(`Failed VM creation in batch:`, {
+                vmName: result.vmName,
+                snapshot: result.snapshotName,
+                error: result.message
+            });
+        });
+    } else {
+        logger.info(`Batch ${input.batchNumber} in ${input.region} completed successfully: ${summary.successful} VMs created`);
+    }
+
+    // Restored VMs for the health gate of the wave
+    if (input.collectVms) {
+        summary.restoredVms = batchResults
+            .filter(result => result.success)
+            .map(result => ({ vmName: result.restoredVmName || result.vmName, subscriptionId: extractSubscriptionIdFromResourceId(result.snapshotId) }));
+    }
+
+    return summary;
+};
+
+/**
+ * Converts the result of a create VM async activity into a per-VM result
+ */
+function toVmRestoreResult(snapshot: RecoverySnapshot, targetSubnetId: string, result: VmCreationResult): VmRestoreResult {
+    return {
+        success: !!result?.success,
+        vmName: snapshot.vmName,
+        snapshotId: snapshot.id,
+        snapshotName: snapshot.snapshotName,
+        targetSubnetId: targetSubnetId,
+        restoredVmName: snapshot.targetVmName,
+        jobId: result?.pollerMessage?.jobId,
+        operationId: result?.pollerMessage?.operationId,
+        ipAddress: result?.pollerMessage?.nicInfo?.ipAddress,
+        zone: snapshot.targetZone,
+        message: result?.success ? 'VM creation polling in progress' : result?.error,
+        snapshotSelection: snapshot.snapshotSelection,
+        vmGroup: snapshot.vmGroup
+    };
+}
+
+df.app.orchestration(REGION_BATCH_ORCHESTRATOR, regionBatchOrchestrator);
+
+export { regionBatchOrchestrator };
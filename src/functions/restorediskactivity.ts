@@ -0,0 +1,141 @@
+import * as df from 'durable-functions';
+import { ActivityHandler } from 'durable-functions';
+import { InvocationContext } from '@azure/functions';
+import { RESTORE_DISKS_ACTIVITY } from '../common/constants';
+import { AzureLogger } from '../common/logger';
+import { JobLogEntry, RestorePhaseInput, RestorePhaseOutcome, RestoredDisks, VmDisk } from '../common/interfaces';
+import { VmManager } from '../controllers/vm.manager';
+import { extractSubscriptionIdFromResourceId } from '../common/utils';
+import { _getString } from '../common/apperror';
+import { LogManager } from "../controllers/log.manager";
+import { RestoreTransaction } from '../common/restore-transaction';
+import { describeExistingResources } from '../common/existing-restore-utils';
+import { PermanentError, TransientError, BusinessError, classifyError, classifyVmManagerError } from '../common/errors';
+import { reportThrottling } from '../common/adaptive-throttling';
+
+/**
+ * Disk phase of the VM restore sub-orchestration: creates the OS and data disks of the VM from its snapshots
+ * Permanent failures are returned, transient failures are thrown to be retried by the phase retry policy.
+ */
+const restoreDisksActivity: ActivityHandler = async (input: RestorePhaseInput, context: InvocationContext): Promise<RestorePhaseOutcome<RestoredDisks>> => {
+
+    const logger = new AzureLogger(context);
+    logger.info('Activity function restoreDisksActivity trigger request.');
+
+    // Disks created by this attempt, deleted if the phase fails (the phase is retried with new disk names)
+    const transaction = new RestoreTransaction(logger);
+
+    let vmManager: VmManager;
+
+    try {
+        // Input validation (permanent errors)
+        const vmDetails = input?.vmDetails;
+        if (!vmDetails) {
+            throw new PermanentError('vmDetails is required');
+        }
+        if (!input.jobId) {
+            throw new PermanentError('jobId is required');
+        }
+        if (!vmDetails.sourceSnapshot) {
+            throw new PermanentError('sourceSnapshot is required');
+        }
+        if (!vmDetails.targetSubnetId) {
+            throw new PermanentError('targetSubnetId is required');
+        }
+        if (!vmDetails.targetResourceGroup) {
+            throw new PermanentError('targetResourceGroup is required');
+        }
+
+        // Business logic validation (data disk snapshots are restored together with the OS disk snapshot of the VM)
+        if (vmDetails.sourceSnapshot.diskProfile !== 'os-disk') {
+            throw new BusinessError(`Cannot create VM from ${vmDetails.sourceSnapshot.diskProfile} snapshot. Only os-disk snapshots are supported.`);
+        }
+
+        // Log start
+        const msgStart = `Starting the creation of VM ${vmDetails.sourceSnapshot.vmName} from ${vmDetails.sourceSnapshot.id} with ${vmDetails.sourceSnapshot.dataDiskSnapshots?.length || 0} data disks`
+        const logEntryStart: JobLogEntry = {
+            batchId: vmDetails.batchId,
+            jobId: input.jobId,
+            jobOperation: 'VM Create Start',
+            jobStatus: 'Restore In Progress',
+            jobType: 'Restore',
+            message: msgStart,
+            vmName: vmDetails.sourceSnapshot.vmName,
+            vmSize: vmDetails.sourceSnapshot.vmSize,
+            diskProfile: vmDetails.sourceSnapshot.diskProfile,
+            diskSku: vmDetails.sourceSnapshot.diskSku,
+            snapshotId: vmDetails.sourceSnapshot.id,
+            snapshotName: vmDetails.sourceSnapshot.snapshotName
+        }
+        const logManager = new LogManager(logger);
+        await logManager.uploadLog(logEntryStart);
+
+        const subscriptionId = extractSubscriptionIdFromResourceId(vmDetails.sourceSnapshot.id);
+        vmManager = new VmManager(logger, subscriptionId);
+
+        // Delete the resources already restored from the same snapshot by a previous run (already deleted resources are ignored on retries)
+        if (vmDetails.existingRestoreMode === 'replace' && vmDetails.existingResources?.length > 0) {
+            logger.warn(`Replacing ${vmDetails.existingResources.length} resources already restored from snapshot ${vmDetails.sourceSnapshot.snapshotName}: ${describeExistingResources(vmDetails.existingResources).join(', ')}`);
+            const { failed } = await vmManager.deleteRecoveryResources(vmDetails.existingResources);
+            if (failed.length > 0) {
+                throw new TransientError(`Unable to replace existing restore: failed to delete ${failed.map(f => `${f.resource.name} (${f.error})`).join(', ')}`);
+            }
+        }
+
+        // Delete the resources whose names are taken by the restore (naming collision strategy 'replace', already deleted resources are ignored on retries)
+        if (vmDetails.sourceSnapshot.replacedResources?.length > 0) {
+            logger.warn(`Replacing ${vmDetails.sourceSnapshot.replacedResources.length} resources with the names of the restore: ${vmDetails.sourceSnapshot.replacedResources.map(resource => `${resource.type} ${resource.name}`).join(', ')}`);
+            const failed = await vmManager.deleteReplacedResources(vmDetails.sourceSnapshot.replacedResources);
+            if (failed.length > 0) {
+                // Resources not restored by a recovery are never replaced, retrying does not help
+                const message = `Unable to replace the resources with the names of the restore: failed to delete ${failed.map(f => `${f.resource.name} (${f.error})`).join(', ')}`;
+                throw failed.some(f => f.refused) ? new PermanentError(message) : new TransientError(message);
+            }
+        }
+
+        // Create disk from snapshot (can have transient failures)
+        let osDisk: VmDisk;
+        try {
+            osDisk = await vmManager.createDiskFromSnapshot(vmDetails, input.jobId, undefined, transaction);
+            logger.info(`✅ Successfully created new disk: ${osDisk.id}`);
+        } catch (error) {
+            throw classifyVmManagerError(error, 'disk creation');
+        }
+
+        // Create data disks from the data disk snapshots of the same point in time
+        let dataDisks: VmDisk[];
+        try {
+            dataDisks = await vmManager.createDataDisksFromSnapshots(vmDetails, input.jobId, transaction);
+            dataDisks.forEach(dataDisk => logger.info(`✅ Successfully created new data disk for LUN ${dataDisk.lun}: ${dataDisk.id}`));
+        } catch (error) {
+            throw classifyVmManagerError(error, 'data disk creation');
+        }
+
+        return { value: { osDisk, dataDisks } };
+
+    } catch (error) {
+        const classifiedError = classifyError(error);
+
+        // Delete the disks of this attempt, the compensation of the restore only covers the results of completed phases
+        await transaction.compensate('delete');
+
+        logger.error(`❌ Failed to restore disks from snapshot ${input?.vmDetails?.sourceSnapshot?.id}: ${_getString(classifiedError)}`, {
+            errorType: classifiedError.constructor.name,
+            isRetriable: classifiedError instanceof TransientError,
+            originalError: error.message
+        });
+        if (!classifiedError.isRetryable) {
+            return { permanentError: classifiedError.message };
+        }
+        throw classifiedError;
+    } finally {
+        await reportThrottling(context, logger, input?.vmDetails?.sourceSnapshot, vmManager?.throttlingObservation);
+    }
+};
+
+df.app.activity(RESTORE_DISKS_ACTIVITY, {
+    extraInputs: [df.input.durableClient()],
+    handler: restoreDisksActivity
+});
+
+export default restoreDisksActivity;
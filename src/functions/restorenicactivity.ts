@@ -0,0 +1,67 @@
+import * as df from 'durable-functions';
+import { ActivityHandler } from 'durable-functions';
+import { InvocationContext } from '@azure/functions';
+import { RESTORE_NIC_ACTIVITY } from '../common/constants';
+import { AzureLogger } from '../common/logger';
+import { RestorePhaseInput, RestorePhaseOutcome, VmNic } from '../common/interfaces';
+import { VmManager } from '../controllers/vm.manager';
+import { extractSubscriptionIdFromResourceId } from '../common/utils';
+import { _getString } from '../common/apperror';
+import { PermanentError, TransientError, classifyError, classifyVmManagerError } from '../common/errors';
+import { reportThrottling } from '../common/adaptive-throttling';
+
+/**
+ * NIC phase of the VM restore sub-orchestration: creates the network interface of the VM in its target subnet.
+ * The NIC name is the restored NIC name assigned to the snapshot (name template, or derived from the VM name by default), so a retried attempt updates the NIC of the previous attempt.
+ */
+const restoreNicActivity: ActivityHandler = async (input: RestorePhaseInput, context: InvocationContext): Promise<RestorePhaseOutcome<VmNic>> => {
+
+    const logger = new AzureLogger(context);
+    logger.info('Activity function restoreNicActivity trigger request.');
+
+    let vmManager: VmManager;
+
+    try {
+        // Input validation (permanent errors)
+        if (!input?.vmDetails?.sourceSnapshot) {
+            throw new PermanentError('vmDetails with sourceSnapshot is required');
+        }
+        if (!input.jobId) {
+            throw new PermanentError('jobId is required');
+        }
+
+        const subscriptionId = extractSubscriptionIdFromResourceId(input.vmDetails.sourceSnapshot.id);
+        vmManager = new VmManager(logger, subscriptionId);
+
+        let nic: VmNic;
+        try {
+            nic = await vmManager.createNetworkInterfaceForVm(input.vmDetails, input.jobId);
+            logger.info(`✅ Successfully created NIC: ${nic.name} (${nic.ipAddress})`);
+        } catch (error) {
+            throw classifyVmManagerError(error, 'NIC creation');
+        }
+
+        return { value: nic };
+
+    } catch (error) {
+        const classifiedError = classifyError(error);
+        logger.error(`❌ Failed to create NIC of VM ${input?.vmDetails?.sourceSnapshot?.vmName}: ${_getString(classifiedError)}`, {
+            errorType: classifiedError.constructor.name,
+            isRetriable: classifiedError instanceof TransientError,
+            originalError: error.message
+        });
+        if (!classifiedError.isRetryable) {
+            return { permanentError: classifiedError.message };
+        }
+        throw classifiedError;
+    } finally {
+        await reportThrottling(context, logger, input?.vmDetails?.sourceSnapshot, vmManager?.throttlingObservation);
+    }
+};
+
+df.app.activity(RESTORE_NIC_ACTIVITY, {
+    extraInputs: [df.input.durableClient()],
+    handler: restoreNicActivity
+});
+
+export default restoreNicActivity;
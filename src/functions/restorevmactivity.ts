@@ -0,0 +1,70 @@
+import * as df from 'durable-functions';
+import { ActivityHandler } from 'durable-functions';
+import { InvocationContext } from '@azure/functions';
+import { RESTORE_VM_ACTIVITY } from '../common/constants';
+import { AzureLogger } from '../common/logger';
+import { RestorePhaseInput, RestorePhaseOutcome, VmInfo } from '../common/interfaces';
+import { VmManager } from '../controllers/vm.manager';
+import { extractSubscriptionIdFromResourceId } from '../common/utils';
+import { _getString } from '../common/apperror';
+import { PermanentError, TransientError, classifyError, classifyVmManagerError } from '../common/errors';
+import { reportThrottling } from '../common/adaptive-throttling';
+
+/**
+ * VM phase of the VM restore sub-orchestration: creates the VM with the disks and the NIC of the previous phases.
+ * The VM name is the restored VM name assigned to the snapshot (name template, or the source VM name by default), so a retried attempt updates the VM of the previous attempt.
+ */
+const restoreVmActivity: ActivityHandler = async (input: RestorePhaseInput, context: InvocationContext): Promise<RestorePhaseOutcome<VmInfo>> => {
+
+    const logger = new AzureLogger(context);
+    logger.info('Activity function restoreVmActivity trigger request.');
+
+    let vmManager: VmManager;
+
+    try {
+        // Input validation (permanent errors)
+        if (!input?.vmDetails?.sourceSnapshot) {
+            throw new PermanentError('vmDetails with sourceSnapshot is required');
+        }
+        if (!input.jobId) {
+            throw new PermanentError('jobId is required');
+        }
+        if (!input.osDisk || !input.nic) {
+            throw new PermanentError('osDisk and nic of the previous phases are required');
+        }
+
+        const subscriptionId = extractSubscriptionIdFromResourceId(input.vmDetails.sourceSnapshot.id);
+        vmManager = new VmManager(logger, subscriptionId);
+
+        let vm: VmInfo;
+        try {
+            vm = await vmManager.createVirtualMachine(input.vmDetails, input.osDisk, input.jobId, input.dataDisks || [], undefined, input.nic);
+            logger.info(`✅ Successfully created VM: ${vm.name}`);
+        } catch (error) {
+            throw classifyVmManagerError(error, 'VM creation');
+        }
+
+        return { value: vm };
+
+    } catch (error) {
+        const classifiedError = classifyError(error);
+        logger.error(`❌ Failed to create VM ${input?.vmDetails?.sourceSnapshot?.vmName}: ${_getString(classifiedError)}`, {
+            errorType: classifiedError.constructor.name,
+            isRetriable: classifiedError instanceof TransientError,
+            originalError: error.message
+        });
+        if (!classifiedError.isRetryable) {
+            return { permanentError: classifiedError.message };
+        }
+        throw classifiedError;
+    } finally {
+        await reportThrottling(context, logger, input?.vmDetails?.sourceSnapshot, vmManager?.throttlingObservation);
+    }
+};
+
+df.app.activity(RESTORE_VM_ACTIVITY, {
+    extraInputs: [df.input.durableClient()],
+    handler: restoreVmActivity
+});
+
+export default restoreVmActivity;
@@ -0,0 +1,61 @@
+import * as df from 'durable-functions';
+import { ActivityHandler } from 'durable-functions';
+import { InvocationContext } from '@azure/functions';
+import { ROLLBACK_BATCH_ACTIVITY } from '../common/constants';
+import { AzureLogger } from '../common/logger';
+import { BatchRollbackInput, BatchRollbackResult } from '../common/interfaces';
+import { ResourceGraphManager } from '../controllers/graph.manager';
+import { VmManager } from '../controllers/vm.manager';
+import { _getString } from '../common/apperror';
+import { PermanentError, TransientError, classifyError } from '../common/errors';
+
+const rollbackBatchActivity: ActivityHandler = async (input: BatchRollbackInput, context: InvocationContext): Promise<BatchRollbackResult> => {
+
+    const logger = new AzureLogger(context);
+    logger.info('Activity function rollbackBatchActivity trigger request.');
+
+    try {
+        // Input validation (permanent errors)
+        if (!input?.batchId) {
+            throw new PermanentError('batchId is required');
+        }
+        if (!input.targetResourceGroup) {
+            throw new PermanentError('targetResourceGroup is required');
+        }
+
+        // Find the resources created for the batch
+        const graphManager = new ResourceGraphManager(logger);
+        const resources = await graphManager.getRecoveryResourcesByBatchId(input.batchId, input.targetResourceGroup);
+        logger.info(`Found ${resources.length} resources to delete for batch ${input.batchId} in resource group ${input.targetResourceGroup}`);
+
+        const result: BatchRollbackResult = {
+            batchId: input.batchId,
+            deleted: [],
+            failed: []
+        };
+
+        // Resources are deleted with the VM manager of their subscription
+        const subscriptionIds = [...new Set(resources.map(resource => resource.subscriptionId))];
+        for (const subscriptionId of subscriptionIds) {
+            const vmManager = new VmManager(logger, subscriptionId);
+            const { deleted, failed } = await vmManager.deleteRecoveryResources(resources.filter(resource => resource.subscriptionId === subscriptionId));
+            result.deleted.push(...deleted);
+            result.failed.push(...failed);
+        }
+
+        logger.info(`Rollback of batch ${input.batchId} completed: ${result.deleted.length} resources deleted, ${result.failed.length} failed`);
+        return result;
+
+    } catch (error) {
+        const classifiedError = classifyError(error);
+        logger.error(`❌ Failed to rollback batch ${input?.batchId}: ${_getString(classifiedError)}`, {
+            errorType: classifiedError.constructor.name,
+            isRetriable: classifiedError instanceof TransientError
+        });
+        throw classifiedError;
+    }
+};
+
+df.app.activity(ROLLBACK_BATCH_ACTIVITY, { handler: rollbackBatchActivity });
+
+export default rollbackBatchActivity;
@@ -0,0 +1,46 @@
+import * as df from 'durable-functions';
+import { OrchestrationContext, OrchestrationHandler } from 'durable-functions';
+import { BATCH_ROLLBACK_ORCHESTRATOR, ROLLBACK_BATCH_ACTIVITY } from '../common/constants';
+import { BatchRollbackInput, BatchRollbackResult } from '../common/interfaces';
+import { AzureLogger } from "../common/logger";
+import { PermanentError, FatalError, classifyError } from '../common/errors';
+
+
+// Rollback of a batch that is no longer running (deletes the VMs, NICs and disks created for the batch)
+const batchRollbackOrchestrator: OrchestrationHandler = function* (context: OrchestrationContext) {
+
+    const logger = new AzureLogger(context);
+    logger.info('Batch Rollback Orchestrator started');
+
+    try {
+        const input = context.df.getInput() as BatchRollbackInput;
+        logger.info('Rollback orchestrator input received:', input);
+
+        const result: BatchRollbackResult = yield context.df.callActivityWithRetry(ROLLBACK_BATCH_ACTIVITY, new df.RetryOptions(5000, 3), input);
+
+        logger.info(`Batch rollback orchestrator completed:`, {
+            batchId: result.batchId,
+            deleted: result.deleted.length,
+            failed: result.failed.length
+        });
+
+        return {
+            success: result.failed.length === 0,
+            rollback: result
+        };
+
+    } catch (error) {
+        const classifiedError = classifyError(error);
+        logger.error('Batch rollback orchestrator failed:', {
+            errorType: classifiedError.constructor.name,
+            message: classifiedError.message,
+            isRetryable: !(classifiedError instanceof PermanentError || classifiedError instanceof FatalError)
+        });
+        throw classifiedError;
+    }
+};
+
+// Register orchestrators
+df.app.orchestration(BATCH_ROLLBACK_ORCHESTRATOR, batchRollbackOrchestrator);
+
+export { batchRollbackOrchestrator };
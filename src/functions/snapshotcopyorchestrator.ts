@@ -0,0 +1,59 @@
+import * as df from 'durable-functions';
+import { OrchestrationContext, OrchestrationHandler } from 'durable-functions';
+import { SNAPSHOT_COPY_ORCHESTRATOR, START_SNAPSHOT_COPY_ACTIVITY, CHECK_SNAPSHOT_COPIES_ACTIVITY } from '../common/constants';
+import { SnapshotCopy, SnapshotCopyInput } from '../common/interfaces';
+import { AzureLogger } from "../common/logger";
+import { summarizeSnapshotCopies } from '../common/cross-region';
+
+
+// Copy of the snapshots of a cross-region restore: starts the copies, then polls them until they are complete,
+// publishing their progress as custom status
+const snapshotCopyOrchestrator: OrchestrationHandler = function* (context: OrchestrationContext) {
+
+    const logger = new AzureLogger(context);
+    const input = context.df.getInput() as SnapshotCopyInput;
+    logger.info(`Copying ${input.snapshots.length} snapshots of batch ${input.batchId}`);
+
+    const timeoutSeconds = parseInt(process.env.SNAP_RECOVERY_COPY_TIMEOUT_SECONDS || '21600'); // 6 hours
+    const intervalSeconds = parseInt(process.env.SNAP_RECOVERY_COPY_INTERVAL_SECONDS || '60');
+    const deadline = context.df.currentUtcDateTime.getTime() + timeoutSeconds * 1000;
+
+    // Start the copies (a copy that cannot be started is returned as failed)
+    let copies: SnapshotCopy[] = yield context.df.Task.all(input.snapshots.map(snapshot =>
+        context.df.callActivity(START_SNAPSHOT_COPY_ACTIVITY, { batchId: input.batchId, targetResourceGroup: input.targetResourceGroup, snapshot })));
+    context.df.setCustomStatus(summarizeSnapshotCopies(copies, context.df.currentUtcDateTime));
+
+    // Poll the copies in progress until they are complete or the timeout
+    while (copies.some(copy => copy.status === 'copying')) {
+        if (context.df.currentUtcDateTime.getTime() >= deadline) {
+            copies = copies.map(copy => copy.status === 'copying'
+                ? { ...copy, status: 'failed', error: `Copy timed out after ${timeoutSeconds}s at ${copy.completionPercent}%` }
+                : copy);
+            break;
+        }
+
+        yield context.df.createTimer(new Date(Math.min(context.df.currentUtcDateTime.getTime() + intervalSeconds * 1000, deadline)));
+
+        const copying = copies.filter(copy => copy.status === 'copying');
+        const updated: SnapshotCopy[] = yield context.df.callActivityWithRetry(CHECK_SNAPSHOT_COPIES_ACTIVITY, new df.RetryOptions(5000, 3), {
+            targetResourceGroup: input.targetResourceGroup,
+            copies: copying
+        });
+        const updatedCopies = new Map(updated.map(copy => [copy.copyName, copy]));
+        copies = copies.map(copy => updatedCopies.get(copy.copyName) || copy);
+        context.df.setCustomStatus(summarizeSnapshotCopies(copies, context.df.currentUtcDateTime));
+    }
+
+    const progress = summarizeSnapshotCopies(copies, context.df.currentUtcDateTime);
+    context.df.setCustomStatus(progress);
+    if (progress.failed > 0) {
+        logger.warn(`${progress.failed} of ${progress.total} snapshot copies failed: ${copies.filter(copy => copy.status === 'failed').map(copy => `${copy.copyName} (${copy.error})`).join('; ')}`);
+    } else {
+        logger.info(`All ${progress.total} snapshot copies completed`);
+    }
+    return copies;
+};
+
+df.app.orchestration(SNAPSHOT_COPY_ORCHESTRATOR, snapshotCopyOrchestrator);
+
+export { snapshotCopyOrchestrator };
@@ -0,0 +1,55 @@
+import * as df from 'durable-functions';
+import { ActivityHandler } from 'durable-functions';
+import { InvocationContext } from '@azure/functions';
+import { START_SNAPSHOT_COPY_ACTIVITY } from '../common/constants';
+import { AzureLogger } from '../common/logger';
+import { RecoverySnapshot, SnapshotCopy } from '../common/interfaces';
+import { VmManager } from '../controllers/vm.manager';
+import { extractSubscriptionIdFromResourceId } from '../common/utils';
+import { buildSnapshotCopyName } from '../common/cross-region';
+import { _getString } from '../common/apperror';
+import { PermanentError, TransientError, classifyVmManagerError } from '../common/errors';
+
+/**
+ * Starts the copy of a snapshot to the region of the target subnets (cross-region restore)
+ * A copy that cannot be started is returned as failed, so that it only fails the VM of the snapshot.
+ */
+const startSnapshotCopyActivity: ActivityHandler = async (input: { batchId: string, targetResourceGroup: string, snapshot: RecoverySnapshot }, context: InvocationContext): Promise<SnapshotCopy> => {
+
+    const logger = new AzureLogger(context);
+    logger.info('Activity function startSnapshotCopyActivity trigger request.');
+
+    // Input validation (permanent errors)
+    if (!input?.snapshot?.id || !input.snapshot.targetLocation) {
+        throw new PermanentError('snapshot with a targetLocation is required');
+    }
+    if (!input.targetResourceGroup) {
+        throw new PermanentError('targetResourceGroup is required');
+    }
+
+    try {
+        const vmManager = new VmManager(logger, extractSubscriptionIdFromResourceId(input.snapshot.id));
+        const copy = await vmManager.startSnapshotCopy(input.snapshot, input.targetResourceGroup, input.batchId);
+        logger.info(`✅ Copy ${copy.copyName} of snapshot ${input.snapshot.snapshotName} to ${copy.location}: ${copy.status} (${copy.completionPercent}%)`);
+        return copy;
+
+    } catch (error) {
+        const classifiedError = classifyVmManagerError(error, 'snapshot copy');
+        logger.error(`❌ Failed to copy snapshot ${input.snapshot.snapshotName}: ${_getString(classifiedError)}`, {
+            errorType: classifiedError.constructor.name,
+            isRetriable: classifiedError instanceof TransientError
+        });
+        return {
+            sourceSnapshotId: input.snapshot.id,
+            copyName: buildSnapshotCopyName(input.snapshot.snapshotName, input.snapshot.targetLocation),
+            location: input.snapshot.targetLocation,
+            status: 'failed',
+            completionPercent: 0,
+            error: classifiedError.message
+        };
+    }
+};
+
+df.app.activity(START_SNAPSHOT_COPY_ACTIVITY, { handler: startSnapshotCopyActivity });
+
+export default startSnapshotCopyActivity;
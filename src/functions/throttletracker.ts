@@ -0,0 +1,33 @@
+import * as df from 'durable-functions';
+import { EntityContext, EntityHandler } from 'durable-functions';
+import { THROTTLE_TRACKER_ENTITY } from '../common/constants';
+import { ThrottlingObservation } from '../common/interfaces';
+
+// ARM throttling observed by the restore activities of a subscription and region (entity key: "{subscriptionId}/{region}")
+const throttleTracker: EntityHandler<ThrottlingObservation> = (context: EntityContext<ThrottlingObservation>) => {
+
+    const state = context.df.getState(() => ({ throttledRequests: 0, retryAfterSeconds: 0 }));
+
+    switch (context.df.operationName) {
+        case 'record': {
+            const observation = context.df.getInput() as ThrottlingObservation;
+            if (!observation?.throttledRequests) {
+                break;
+            }
+            state.throttledRequests += observation.throttledRequests;
+            if (!state.lastThrottledAt || observation.lastThrottledAt > state.lastThrottledAt) {
+                state.lastThrottledAt = observation.lastThrottledAt;
+                state.retryAfterSeconds = observation.retryAfterSeconds;
+            }
+            context.df.setState(state);
+            break;
+        }
+        case 'get':
+            context.df.return(state);
+            break;
+    }
+};
+
+df.app.entity(THROTTLE_TRACKER_ENTITY, throttleTracker);
+
+export default throttleTracker;
@@ -0,0 +1,81 @@
+import * as df from 'durable-functions';
+import { ActivityHandler } from 'durable-functions';
+import { InvocationContext } from '@azure/functions';
+import { VALIDATE_TARGET_ACTIVITY } from '../common/constants';
+import { AzureLogger } from '../common/logger';
+import { PreflightEnvironment, PreflightReport, PreflightRequest } from '../common/interfaces';
+import { VmManager } from '../controllers/vm.manager';
+import { extractSubscriptionIdFromResourceId } from '../common/utils';
+import { _getString } from '../common/apperror';
+import { PermanentError, TransientError, classifyError } from '../common/errors';
+import { isIpInPrefix, validateTargetEnvironment } from '../common/preflight-validation';
+
+/**
+ * Pre-flight validation of the target environment: reads the target subnets, the original IP addresses,
+ * the VMs and NICs of the target resource group and the VM sizes offered in each region, then validates each VM
+ */
+const validateTargetActivity: ActivityHandler = async (input: PreflightRequest, context: InvocationContext): Promise<PreflightReport> => {
+
+    const logger = new AzureLogger(context);
+    logger.info('Activity function validateTargetActivity trigger request.');
+
+    try {
+        // Input validation (permanent errors)
+        if (!input?.targetResourceGroup) {
+            throw new PermanentError('targetResourceGroup is required');
+        }
+        if (!input.vms || !Array.isArray(input.vms)) {
+            throw new PermanentError('vms array is required');
+        }
+
+        const environment: PreflightEnvironment = { subnets: [], ipAddresses: [], resourceNames: {}, vmSizes: {} };
+
+        // Target subnets (read with the VM manager of the subnet subscription)
+        for (const subnetId of [...new Set(input.vms.map(vm => vm.targetSubnetId))]) {
+            const vmManager = new VmManager(logger, extractSubscriptionIdFromResourceId(subnetId));
+            const subnet = await vmManager.getSubnetCapacity(subnetId);
+            environment.subnets.push(subnet);
+
+            // Original IP addresses requested in the subnet (the ones outside its prefixes are reported without checking them)
+            if (input.useOriginalIpAddress) {
+                const ipAddresses = [...new Set(input.vms
+                    .filter(vm => vm.targetSubnetId === subnetId && subnet.addressPrefixes.some(prefix => isIpInPrefix(vm.ipAddress, prefix)))
+                    .map(vm => vm.ipAddress))];
+                for (const ipAddress of ipAddresses) {
+                    environment.ipAddresses.push({ subnetId, ipAddress, available: await vmManager.isIpAddressAvailable(subnetId, ipAddress) });
+                }
+            }
+        }
+
+        // VMs and NICs of the target resource group and VM sizes offered, per subscription of the snapshots
+        for (const subscriptionId of [...new Set(input.vms.map(vm => extractSubscriptionIdFromResourceId(vm.snapshotId)))]) {
+            const vmManager = new VmManager(logger, subscriptionId);
+            environment.resourceNames[subscriptionId] = await vmManager.listResourceNames(input.targetResourceGroup);
+
+            const locations = [...new Set(input.vms.filter(vm => extractSubscriptionIdFromResourceId(vm.snapshotId) === subscriptionId).map(vm => vm.location))];
+            for (const location of locations) {
+                environment.vmSizes[`${subscriptionId}/${location}`] = await vmManager.listVmSizes(location);
+            }
+        }
+
+        const report = validateTargetEnvironment(input, environment);
+        if (report.passed) {
+            logger.info(`✅ Pre-flight validation passed for ${input.vms.length} VMs (${report.vms.length} with warnings)`);
+        } else {
+            logger.warn(`Pre-flight validation blocked ${report.blockedVms} of ${input.vms.length} VMs`);
+        }
+        return report;
+
+    } catch (error) {
+        const classifiedError = classifyError(error);
+        logger.error(`❌ Failed to validate the target environment in ${input?.targetResourceGroup}: ${_getString(classifiedError)}`, {
+            errorType: classifiedError.constructor.name,
+            isRetriable: classifiedError instanceof TransientError
+        });
+        throw classifiedError;
+    }
+};
+
+df.app.activity(VALIDATE_TARGET_ACTIVITY, { handler: validateTargetActivity });
+
+export default validateTargetActivity;
@@ -0,0 +1,86 @@
+import * as df from 'durable-functions';
+import { ActivityHandler } from 'durable-functions';
+import { InvocationContext } from '@azure/functions';
+import { VERIFY_VM_ACTIVITY } from '../common/constants';
+import { AzureLogger } from '../common/logger';
+import { JobLogEntry, RestorePhaseInput, RestorePhaseOutcome, VmHealth } from '../common/interfaces';
+import { VmManager } from '../controllers/vm.manager';
+import { extractSubscriptionIdFromResourceId } from '../common/utils';
+import { getRestoredVmName } from '../common/restore-naming';
+import { _getString } from '../common/apperror';
+import { LogManager } from "../controllers/log.manager";
+import { PermanentError, TransientError, classifyError } from '../common/errors';
+
+/**
+ * Verification phase of the VM restore sub-orchestration: checks that the restored VM is provisioned and running.
+ * Fails with a transient error while the VM is still starting, the phase retry policy polls until it is running.
+ * Permanent failures (e.g. failed provisioning) are returned, so that they are not retried.
+ */
+const verifyVmActivity: ActivityHandler = async (input: RestorePhaseInput, context: InvocationContext): Promise<RestorePhaseOutcome<VmHealth>> => {
+
+    const logger = new AzureLogger(context);
+    logger.info('Activity function verifyVmActivity trigger request.');
+
+    try {
+        // Input validation (permanent errors)
+        const vmDetails = input?.vmDetails;
+        if (!vmDetails?.sourceSnapshot) {
+            throw new PermanentError('vmDetails with sourceSnapshot is required');
+        }
+        if (!input.jobId) {
+            throw new PermanentError('jobId is required');
+        }
+
+        const subscriptionId = extractSubscriptionIdFromResourceId(vmDetails.sourceSnapshot.id);
+        const vmManager = new VmManager(logger, subscriptionId);
+        const health = await vmManager.getVmHealth(vmDetails.targetResourceGroup, getRestoredVmName(vmDetails.sourceSnapshot));
+
+        if (health.provisioningState === 'failed') {
+            throw new PermanentError(`VM ${health.vmName} provisioning failed`);
+        }
+        if (health.provisioningState !== 'succeeded' || health.powerState !== 'running') {
+            throw new TransientError(`VM ${health.vmName} is not running yet: provisioning ${health.provisioningState || 'unknown'}, power state ${health.powerState || 'unknown'}`);
+        }
+        logger.info(`✅ VM ${health.vmName} is provisioned and running`);
+
+        // Log end
+        const logEntryEnd: JobLogEntry = {
+            batchId: vmDetails.batchId,
+            jobId: input.jobId,
+            jobOperation: 'VM Create End',
+            jobStatus: 'Restore Completed',
+            jobType: 'Restore',
+            message: `Finished the creation of VM ${vmDetails.sourceSnapshot.vmName} from ${vmDetails.sourceSnapshot.id}`,
+            vmName: vmDetails.sourceSnapshot.vmName,
+            vmSize: vmDetails.sourceSnapshot.vmSize,
+            diskProfile: vmDetails.sourceSnapshot.diskProfile,
+            diskSku: vmDetails.sourceSnapshot.diskSku,
+            snapshotId: vmDetails.sourceSnapshot.id,
+            snapshotName: vmDetails.sourceSnapshot.snapshotName,
+            vmId: input.vm?.id,
+            ipAddress: input.vm?.ipAddress,
+            restoredVmSize: input.vm?.vmSize,
+            zone: input.vm?.zone,
+            subnetId: vmDetails.targetSubnetId
+        }
+        const logManager = new LogManager(logger);
+        await logManager.uploadLog(logEntryEnd);
+
+        return { value: health };
+
+    } catch (error) {
+        const classifiedError = classifyError(error);
+        logger.warn(`Verification of VM ${input?.vmDetails?.sourceSnapshot?.vmName} failed: ${_getString(classifiedError)}`, {
+            errorType: classifiedError.constructor.name,
+            isRetriable: classifiedError instanceof TransientError
+        });
+        if (!classifiedError.isRetryable) {
+            return { permanentError: classifiedError.message };
+        }
+        throw classifiedError;
+    }
+};
+
+df.app.activity(VERIFY_VM_ACTIVITY, { handler: verifyVmActivity });
+
+export default verifyVmActivity;
@@ -1,11 +1,14 @@
 import { app, InvocationContext } from '@azure/functions';
+import * as df from 'durable-functions';
 import { AzureLogger } from '../common/logger';
-import { JobLogEntry, VmCreationPollMessage, VmCreationResult } from '../common/interfaces';
+import { JobLogEntry, VmCreationOutcome, VmCreationPollMessage, VmCreationResult, VmPollDeadLetterMessage } from '../common/interfaces';
+import { ILogger } from '../common/logger';
+import { RestoreTransaction, describeCompensationOutcome } from '../common/restore-transaction';
 import { VmManager } from '../controllers/vm.manager';
 import { QueueManager } from '../controllers/queue.manager';
 import { extractSubscriptionIdFromResourceId } from '../common/utils';
 import { PermanentError, TransientError, classifyError } from '../common/errors';
-import { QUEUE_CONTROL_VM_CREATION } from '../common/constants';
+import { QUEUE_CONTROL_VM_CREATION, QUEUE_CONTROL_VM_CREATION_DEAD_LETTER, VM_OUTCOME_TRACKER_ENTITY } from '../common/constants';
 import { LogManager } from '../controllers/log.manager';
 
 export async function vmCreationPoller(queueItem: unknown, context: InvocationContext): Promise<void> {
@@ -13,11 +16,11 @@ export async function vmCreationPoller(queueItem: unknown, context: InvocationCo
     logger.info('🔍 VM Creation Poller function triggered');
 
     try {
-        // Decode and parse the queue message
+        // Decode and parse the queue message (invalid messages are moved to the dead-letter queue)
         let pollMessage: VmCreationPollMessage;
+        let messageText: string;
         try {
             // Handle Base64 encoded messages
-            let messageText: string;
             if (typeof queueItem === 'string') {
                 try {
                     // Try to decode from Base64
@@ -33,12 +36,15 @@ export async function vmCreationPoller(queueItem: unknown, context: InvocationCo
             pollMessage = JSON.parse(messageText);
         } catch (error) {
             logger.error('Failed to parse queue message:', error);
-            throw new PermanentError('Invalid queue message format');
+            await sendToDeadLetterQueue(logger, `Invalid queue message format: ${error.message}`, undefined, messageText ?? String(queueItem));
+            return;
         }
 
         // Validate message structure
-        if (!pollMessage.vmName || !pollMessage.targetResourceGroup || !pollMessage.operationId) {
-            throw new PermanentError('Missing required fields in poll message');
+        if (!pollMessage?.vmName || !pollMessage.targetResourceGroup || !pollMessage.operationId || !pollMessage.sourceSnapshot?.id) {
+            logger.error('Missing required fields in poll message');
+            await sendToDeadLetterQueue(logger, 'Missing required fields in poll message', pollMessage, messageText);
+            return;
         }
 
         logger.info(`Checking VM creation status for: ${pollMessage.vmName}, attempt: ${(pollMessage.retryCount || 0) + 1}`);
@@ -73,34 +79,33 @@ export async function vmCreationPoller(queueItem: unknown, context: InvocationCo
                 snapshotId: pollMessage.sourceSnapshot.id,
                 snapshotName: pollMessage.sourceSnapshot.snapshotName,
                 vmId: result.vmInfo.id,
-                ipAddress: result.vmInfo.ipAddress
+                ipAddress: result.vmInfo.ipAddress,
+                restoredVmSize: result.vmInfo.vmSize,
+                zone: result.vmInfo.zone,
+                subnetId: pollMessage.targetSubnetId
             }
             const logManager = new LogManager(logger);
             await logManager.uploadLog(logEntryEnd);
 
-        } else if (result.pollerMessage) {
-            // VM creation still in progress, schedule retry
-            const retryCount = result.pollerMessage.retryCount || 0;
+            await reportVmCreationOutcome(context, logger, pollMessage, true, msgEnd, result.vmInfo.id, result.vmInfo.ipAddress);
+
+        } else if (!result.vmFailed) {
+            // VM creation still in progress, or its status could not be checked (network error, throttling...): schedule retry
+            // (a status check error keeps the poller state of the message, the operation may still succeed)
+            const nextPollMessage: VmCreationPollMessage = result.pollerMessage || { ...pollMessage, retryCount: (pollMessage.retryCount || 0) + 1 };
+            const retryCount = nextPollMessage.retryCount || 0;
             const maxRetries = parseInt(process.env.SNAP_RECOVERY_VM_POLL_MAX_RETRIES || '30'); // 30 attempts = ~30 minutes with 1-minute intervals
             
             if (retryCount < maxRetries) {
-                logger.info(`🔄 VM creation still in progress for: ${pollMessage.vmName}, scheduling retry ${retryCount + 1}/${maxRetries}`);
-                
-                // Calculate delay - exponential backoff with max delay
-                const baseDelay = parseInt(process.env.SNAP_RECOVERY_VM_POLL_DELAY_SECONDS || '60'); // 1 minute base delay
-                const maxDelay = parseInt(process.env.SNAP_RECOVERY_VM_POLL_MAX_DELAY_SECONDS || '600'); // 10 minutes max delay
-                const delay = Math.min(baseDelay * Math.pow(1.5, Math.min(retryCount, 5)), maxDelay);
-                
-                // Schedule retry with delay
-                setTimeout(async () => {
-                    try {
-                        await queueManager.scheduleVmPollRetry(result.pollerMessage!, delay);
-                    } catch (error) {
-                        logger.error(`Failed to schedule retry for ${pollMessage.vmName}:`, error);
-                    }
-                }, delay * 1000);
+                if (result.pollerMessage) {
+                    logger.info(`🔄 VM creation still in progress for: ${pollMessage.vmName}, scheduling retry ${retryCount + 1}/${maxRetries}`);
+                } else {
+                    logger.warn(`🔄 VM creation status of ${pollMessage.vmName} could not be checked (${result.error}), scheduling retry ${retryCount + 1}/${maxRetries}`);
+                }
                 
-                logger.info(`Scheduled retry for ${pollMessage.vmName} in ${delay} seconds`);
+                // Next poll as a new message hidden until the delay has elapsed (a failure to queue it retries this message)
+                const delay = getPollDelaySeconds(retryCount);
+                await queueManager.scheduleVmPollRetry(nextPollMessage, delay);
                 
             } else {
                 // Max retries reached, mark as failed
@@ -124,11 +129,17 @@ export async function vmCreationPoller(queueItem: unknown, context: InvocationCo
                 };
                 const logManager = new LogManager(logger);
                 await logManager.uploadLog(logEntryFailed);
+
+                await reportVmCreationOutcome(context, logger, pollMessage, false, msgCreationFail);
+                await sendToDeadLetterQueue(logger, `Max retries (${maxRetries}) reached, last status: ${result.error}`, nextPollMessage);
             }
             
         } else {
-            // VM creation failed permanently
-            const msgCreationFail = `❌ VM creation failed permanently for: ${pollMessage.vmName}, error: ${result.error}`;
+            // VM creation failed permanently, compensate the partial resources created for the VM
+            const transaction = buildRestoreTransaction(pollMessage, vmManager, logger);
+            const compensation = await transaction.compensate(pollMessage.compensationMode || 'delete');
+
+            const msgCreationFail = `❌ VM creation failed permanently for: ${pollMessage.vmName}, error: ${result.error} (${describeCompensationOutcome(compensation)})`;
             logger.error(msgCreationFail);
 
             // Log failed
@@ -144,10 +155,14 @@ export async function vmCreationPoller(queueItem: unknown, context: InvocationCo
                 diskProfile: pollMessage.sourceSnapshot?.diskProfile,
                 diskSku: pollMessage.sourceSnapshot?.diskSku,
                 snapshotId: pollMessage.sourceSnapshot?.id,
-                snapshotName: pollMessage.sourceSnapshot?.snapshotName
+                snapshotName: pollMessage.sourceSnapshot?.snapshotName,
+                compensation: JSON.stringify(compensation)
             };
             const logManager = new LogManager(logger);
             await logManager.uploadLog(logEntryFailed);
+
+            await reportVmCreationOutcome(context, logger, pollMessage, false, msgCreationFail);
+            await sendToDeadLetterQueue(logger, `VM creation failed: ${result.error}`, pollMessage);
         }
 
     } catch (error) {
@@ -168,10 +183,89 @@ export async function vmCreationPoller(queueItem: unknown, context: InvocationCo
     }
 }
 
+/**
+ * Delay before the next poll of a VM creation: exponential backoff from SNAP_RECOVERY_VM_POLL_DELAY_SECONDS
+ * up to SNAP_RECOVERY_VM_POLL_MAX_DELAY_SECONDS
+ */
+function getPollDelaySeconds(retryCount: number): number {
+    const baseDelay = parseInt(process.env.SNAP_RECOVERY_VM_POLL_DELAY_SECONDS || '60'); // 1 minute base delay
+    const maxDelay = parseInt(process.env.SNAP_RECOVERY_VM_POLL_MAX_DELAY_SECONDS || '600'); // 10 minutes max delay
+    return Math.round(Math.min(baseDelay * Math.pow(1.5, Math.min(retryCount, 10)), maxDelay));
+}
+
+/**
+ * Moves a poll message that can no longer be processed to the dead-letter queue, with the reason
+ */
+async function sendToDeadLetterQueue(logger: ILogger, reason: string, pollMessage?: VmCreationPollMessage, rawMessage?: string): Promise<void> {
+    const deadLetter: VmPollDeadLetterMessage = {
+        reason,
+        deadLetteredAt: new Date().toISOString(),
+        retryCount: pollMessage?.retryCount,
+        pollMessage: pollMessage,
+        rawMessage: pollMessage ? undefined : rawMessage
+    };
+    const deadLetterQueue = new QueueManager(logger, process.env.AzureWebJobsStorage__accountname || "", QUEUE_CONTROL_VM_CREATION_DEAD_LETTER);
+    await deadLetterQueue.sendMessage(JSON.stringify(deadLetter));
+    logger.warn(`Poll message of ${pollMessage?.vmName || 'unknown VM'} moved to ${QUEUE_CONTROL_VM_CREATION_DEAD_LETTER}: ${reason}`);
+}
+
+/**
+ * Reports the outcome of an async VM creation to the VM outcome tracker of its batch
+ * (a failed report is only logged, the outcome is also in the job log)
+ */
+async function reportVmCreationOutcome(context: InvocationContext, logger: ILogger, pollMessage: VmCreationPollMessage, success: boolean, message: string, vmId?: string, ipAddress?: string): Promise<void> {
+    const outcome: VmCreationOutcome = {
+        batchId: pollMessage.batchId,
+        jobId: pollMessage.jobId,
+        vmName: pollMessage.sourceSnapshot?.vmName || pollMessage.vmName,
+        snapshotId: pollMessage.sourceSnapshot?.id,
+        snapshotName: pollMessage.sourceSnapshot?.snapshotName,
+        success,
+        vmId,
+        ipAddress,
+        message
+    };
+    try {
+        const client = df.getClient(context);
+        await client.signalEntity(new df.EntityId(VM_OUTCOME_TRACKER_ENTITY, pollMessage.batchId), 'record', outcome);
+    } catch (error) {
+        logger.error(`Failed to report the outcome of VM ${pollMessage.vmName} for batch ${pollMessage.batchId}:`, error);
+    }
+}
+
+/**
+ * Rebuilds the restore transaction of an async VM creation from the resources in the poll message
+ */
+function buildRestoreTransaction(pollMessage: VmCreationPollMessage, vmManager: VmManager, logger: ILogger): RestoreTransaction {
+    const transaction = new RestoreTransaction(logger);
+    const resourceGroup = pollMessage.targetResourceGroup;
+
+    // Registered in creation order (disks, NIC, VM) so that compensation deletes the VM first
+    for (const disk of [pollMessage.osDisk, ...(pollMessage.dataDisks || [])].filter(disk => !!disk)) {
+        transaction.register(
+            { type: 'disk', name: disk.name, resourceGroup },
+            () => vmManager.deleteDisk(resourceGroup, disk.name, pollMessage.jobId)
+        );
+    }
+    if (pollMessage.nicInfo) {
+        transaction.register(
+            { type: 'nic', name: pollMessage.nicInfo.name, resourceGroup },
+            () => vmManager.deleteNetworkInterface(resourceGroup, pollMessage.nicInfo.name, pollMessage.jobId)
+        );
+    }
+    transaction.register(
+        { type: 'vm', name: pollMessage.vmName, resourceGroup },
+        () => vmManager.deleteVirtualMachine(resourceGroup, pollMessage.vmName, pollMessage.jobId)
+    );
+
+    return transaction;
+}
+
 // Register the function
 app.storageQueue('vmCreationPoller', {
     queueName: QUEUE_CONTROL_VM_CREATION,
     connection: 'AzureWebJobsStorage',
+    extraInputs: [df.input.durableClient()],
     handler: vmCreationPoller
 });
 
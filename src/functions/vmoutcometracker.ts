@@ -0,0 +1,46 @@
+import * as df from 'durable-functions';
+import { EntityContext, EntityHandler } from 'durable-functions';
+import { VM_OUTCOME_TRACKER_ENTITY } from '../common/constants';
+import { VmCreationOutcome, VmOutcomeTrackerState } from '../common/interfaces';
+
+// Outcomes of the async VM creations of a batch (entity key: batchId), reported by the VM creation poller
+const vmOutcomeTracker: EntityHandler<VmOutcomeTrackerState> = (context: EntityContext<VmOutcomeTrackerState>) => {
+
+    const state = context.df.getState(() => ({ jobIds: [], succeeded: 0, failed: 0, failures: [] }));
+
+    switch (context.df.operationName) {
+        case 'record': {
+            const outcome = context.df.getInput() as VmCreationOutcome;
+            if (!outcome?.jobId || state.jobIds.includes(outcome.jobId)) {
+                break;
+            }
+            state.jobIds.push(outcome.jobId);
+            if (outcome.success) {
+                state.succeeded++;
+            } else {
+                state.failed++;
+                state.failures.push({
+                    success: false,
+                    vmName: outcome.vmName,
+                    snapshotId: outcome.snapshotId,
+                    snapshotName: outcome.snapshotName,
+                    jobId: outcome.jobId,
+                    message: outcome.message
+                });
+            }
+            context.df.setState(state);
+            break;
+        }
+        case 'counts':
+            // Polled by the batch orchestrator (without the failures, to keep its history small)
+            context.df.return({ succeeded: state.succeeded, failed: state.failed });
+            break;
+        case 'get':
+            context.df.return(state);
+            break;
+    }
+};
+
+df.app.entity(VM_OUTCOME_TRACKER_ENTITY, vmOutcomeTracker);
+
+export default vmOutcomeTracker;
@@ -0,0 +1,134 @@
+import * as df from 'durable-functions';
+import { OrchestrationContext, OrchestrationHandler, Task } from 'durable-functions';
+import { VM_RESTORE_ORCHESTRATOR, RESTORE_DISKS_ACTIVITY, RESTORE_NIC_ACTIVITY, RESTORE_VM_ACTIVITY, VERIFY_VM_ACTIVITY, COMPENSATE_RESTORE_ACTIVITY } from '../common/constants';
+import { CompensatedResource, CompensationOutcome, NewVmDetails, RestoredDisks, RestorePhase, RestorePhaseInput, RestorePhaseOutcome, RestorePhaseResult, VmInfo, VmNic, VmRestoreResult } from '../common/interfaces';
+import { AzureLogger } from "../common/logger";
+import { _getString } from '../common/apperror';
+import { describeCompensationOutcome } from '../common/restore-transaction';
+import { getRestoredNicName, getRestoredVmName } from '../common/restore-naming';
+import { PermanentError } from '../common/errors';
+
+// Retry policy of each restore phase for transient failures (the verification phase polls the VM until it is running,
+// about 15 minutes with the interval capped at 2 minutes)
+const PHASE_RETRY_OPTIONS: { [phase in RestorePhase]: { firstRetryIntervalMs: number, maxRetryIntervalMs: number, maxAttempts: number } } = {
+    disks: { firstRetryIntervalMs: 10000, maxRetryIntervalMs: 60000, maxAttempts: 3 },
+    nic: { firstRetryIntervalMs: 5000, maxRetryIntervalMs: 60000, maxAttempts: 3 },
+    vm: { firstRetryIntervalMs: 15000, maxRetryIntervalMs: 60000, maxAttempts: 3 },
+    verify: { firstRetryIntervalMs: 30000, maxRetryIntervalMs: 120000, maxAttempts: 10 }
+};
+
+// Restore of a single VM (sync VM creation): disks, NIC, VM and verification phases, each checkpointed by the durable history
+const vmRestoreOrchestrator: OrchestrationHandler = function* (context: OrchestrationContext) {
+
+    const logger = new AzureLogger(context);
+    const vmDetails = context.df.getInput() as NewVmDetails;
+    const snapshot = vmDetails.sourceSnapshot;
+
+    // Create Job Id (correlation Id) for operation (deterministic on replay)
+    const jobId = context.df.newGuid(context.df.instanceId);
+
+    const result: VmRestoreResult = {
+        success: false,
+        vmName: snapshot.vmName,
+        snapshotId: snapshot.id,
+        snapshotName: snapshot.snapshotName,
+        targetSubnetId: vmDetails.targetSubnetId,
+        restoredVmName: snapshot.targetVmName,
+        snapshotSelection: snapshot.snapshotSelection,
+        vmGroup: snapshot.vmGroup,
+        jobId: jobId,
+        phases: []
+    };
+
+    // Resources of the completed phases (and of the running phase), compensated if a phase fails
+    const resources: CompensatedResource[] = [];
+    const phaseInput: RestorePhaseInput = { vmDetails, jobId };
+    let phase: RestorePhase;
+
+    try {
+        phase = 'disks';
+        const disks: RestoredDisks = yield* runPhase(context, result.phases, phase, RESTORE_DISKS_ACTIVITY, phaseInput);
+        phaseInput.osDisk = disks.osDisk;
+        phaseInput.dataDisks = disks.dataDisks;
+        resources.push(...[disks.osDisk, ...disks.dataDisks]
+            .filter(disk => !disk.adopted)
+            .map(disk => ({ type: 'disk' as const, name: disk.name, resourceGroup: vmDetails.targetResourceGroup })));
+
+        // The NIC and the VM may exist even if their phase fails
+        phase = 'nic';
+        resources.push({ type: 'nic', name: getRestoredNicName(snapshot), resourceGroup: vmDetails.targetResourceGroup });
+        const nic: VmNic = yield* runPhase(context, result.phases, phase, RESTORE_NIC_ACTIVITY, phaseInput);
+        phaseInput.nic = nic;
+
+        phase = 'vm';
+        resources.push({ type: 'vm', name: getRestoredVmName(snapshot), resourceGroup: vmDetails.targetResourceGroup });
+        const vm: VmInfo = yield* runPhase(context, result.phases, phase, RESTORE_VM_ACTIVITY, phaseInput);
+        phaseInput.vm = vm;
+
+        phase = 'verify';
+        yield* runPhase(context, result.phases, phase, VERIFY_VM_ACTIVITY, phaseInput);
+
+        result.success = true;
+        result.vmId = vm.id;
+        result.ipAddress = vm.ipAddress;
+        result.zone = vm.zone;
+        result.message = 'VM created';
+        return result;
+
+    } catch (error) {
+        const errorMessage = _getString(error);
+        logger.error(`Restore of VM ${snapshot.vmName} failed in ${phase} phase: ${errorMessage}`);
+
+        // A failed VM does not fail the batch: the failure is returned in the result of the VM
+        result.message = `${phase} phase failed: ${errorMessage}`;
+        try {
+            const compensation: CompensationOutcome = yield context.df.callActivityWithRetry(COMPENSATE_RESTORE_ACTIVITY, new df.RetryOptions(5000, 3), {
+                vmDetails,
+                jobId,
+                resources,
+                failedPhase: phase,
+                error: errorMessage
+            });
+            if (resources.length > 0) {
+                result.message += ` (${describeCompensationOutcome(compensation)})`;
+            }
+        } catch (compensationError) {
+            logger.error(`Compensation of VM ${snapshot.vmName} failed: ${_getString(compensationError)}`);
+            result.message += ` (compensation failed: ${_getString(compensationError)})`;
+        }
+        return result;
+    }
+};
+
+/**
+ * Runs a restore phase activity with the retry policy of the phase and records its status and duration
+ * Only transient failures (thrown by the activity) are retried, permanent failures (returned) fail the phase right away.
+ */
+function* runPhase<T>(context: OrchestrationContext, phases: RestorePhaseResult[], phase: RestorePhase, activityName: string, input: RestorePhaseInput): Generator<Task, T, any> {
+    const retry = PHASE_RETRY_OPTIONS[phase];
+    const retryOptions = new df.RetryOptions(retry.firstRetryIntervalMs, retry.maxAttempts);
+    retryOptions.backoffCoefficient = 2;
+    retryOptions.maxRetryIntervalInMilliseconds = retry.maxRetryIntervalMs;
+
+    const startTime = context.df.currentUtcDateTime.getTime();
+    const phaseResult: RestorePhaseResult = { phase, status: 'succeeded', startTime: new Date(startTime).toISOString(), durationSeconds: 0 };
+    phases.push(phaseResult);
+
+    try {
+        const outcome: RestorePhaseOutcome<T> = yield context.df.callActivityWithRetry(activityName, retryOptions, input);
+        if (outcome.permanentError) {
+            throw new PermanentError(outcome.permanentError);
+        }
+        return outcome.value;
+    } catch (error) {
+        phaseResult.status = 'failed';
+        phaseResult.message = _getString(error);
+        throw error;
+    } finally {
+        phaseResult.durationSeconds = (context.df.currentUtcDateTime.getTime() - startTime) / 1000;
+    }
+}
+
+df.app.orchestration(VM_RESTORE_ORCHESTRATOR, vmRestoreOrchestrator);
+
+export { vmRestoreOrchestrator };
@@ -0,0 +1,79 @@
+import { afterEach, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { adjustConcurrency, ConcurrencyLimits, getConcurrencyLimits, getThrottlingScope, isCoolingDown, parseRetryAfter } from '../../src/common/adaptive-throttling';
+import { osDiskSnapshot, SUBSCRIPTION_ID } from './fixtures';
+
+const NOW = new Date('2025-01-01T12:00:00.000Z');
+const LIMITS: ConcurrencyLimits = { initial: 10, min: 2, max: 20, increaseStep: 5, adaptive: true };
+
+describe('getConcurrencyLimits', () => {
+    const variables = ['SNAP_RECOVERY_MIN_CONCURRENCY', 'SNAP_RECOVERY_MAX_CONCURRENCY', 'SNAP_RECOVERY_CONCURRENCY_STEP', 'SNAP_RECOVERY_ADAPTIVE_THROTTLING'];
+    afterEach(() => variables.forEach(variable => delete process.env[variable]));
+
+    it('defaults to twice the batch size at most', () => {
+        assert.deepEqual(getConcurrencyLimits(10), { initial: 10, min: 1, max: 20, increaseStep: 5, adaptive: true });
+    });
+
+    it('reads the limits from the environment', () => {
+        process.env.SNAP_RECOVERY_MIN_CONCURRENCY = '0';
+        process.env.SNAP_RECOVERY_MAX_CONCURRENCY = '5';
+        process.env.SNAP_RECOVERY_CONCURRENCY_STEP = '2';
+        process.env.SNAP_RECOVERY_ADAPTIVE_THROTTLING = 'False';
+        // The maximum is never below the batch size
+        assert.deepEqual(getConcurrencyLimits(10), { initial: 10, min: 1, max: 10, increaseStep: 2, adaptive: false });
+    });
+});
+
+describe('adjustConcurrency', () => {
+    it('starts at the initial concurrency with the throttling already reported as baseline', () => {
+        const state = adjustConcurrency(undefined, { throttledRequests: 3, retryAfterSeconds: 30, lastThrottledAt: NOW.toISOString() }, LIMITS);
+        assert.deepEqual(state, { concurrency: 10, seenThrottledRequests: 3, cooldownUntil: '2025-01-01T12:00:30.000Z' });
+    });
+
+    it('increases the concurrency after a batch without throttling, up to the maximum', () => {
+        assert.equal(adjustConcurrency({ concurrency: 10, seenThrottledRequests: 3 }, { throttledRequests: 3, retryAfterSeconds: 0 }, LIMITS).concurrency, 15);
+        assert.equal(adjustConcurrency({ concurrency: 18, seenThrottledRequests: 0 }, undefined, LIMITS).concurrency, 20);
+    });
+
+    it('halves the concurrency after throttled requests, down to the minimum, and starts a cooldown', () => {
+        const state = adjustConcurrency({ concurrency: 10, seenThrottledRequests: 3 }, { throttledRequests: 5, retryAfterSeconds: 60, lastThrottledAt: NOW.toISOString() }, LIMITS);
+        assert.deepEqual(state, { concurrency: 5, seenThrottledRequests: 5, cooldownUntil: '2025-01-01T12:01:00.000Z' });
+        assert.equal(adjustConcurrency({ concurrency: 3, seenThrottledRequests: 0 }, { throttledRequests: 1, retryAfterSeconds: 0 }, LIMITS).concurrency, 2);
+    });
+
+    it('keeps the concurrency without adaptive throttling', () => {
+        const current = { concurrency: 10, seenThrottledRequests: 0 };
+        assert.deepEqual(adjustConcurrency(current, { throttledRequests: 5, retryAfterSeconds: 60 }, { ...LIMITS, adaptive: false }), current);
+    });
+});
+
+describe('getThrottlingScope', () => {
+    it('throttles the restores per subscription and region', () => {
+        assert.equal(getThrottlingScope(osDiskSnapshot('vm1')), `${SUBSCRIPTION_ID}/westeurope`);
+        assert.equal(getThrottlingScope(osDiskSnapshot('vm2', { location: 'northeurope' })), `${SUBSCRIPTION_ID}/northeurope`);
+        assert.equal(getThrottlingScope(osDiskSnapshot('vm3', { location: 'northeurope', targetLocation: 'westeurope' })), `${SUBSCRIPTION_ID}/westeurope`);
+    });
+});
+
+describe('isCoolingDown', () => {
+    it('waits until the end of the cooldown', () => {
+        assert.ok(isCoolingDown({ concurrency: 5, seenThrottledRequests: 1, cooldownUntil: '2025-01-01T12:00:01.000Z' }, NOW));
+        assert.ok(!isCoolingDown({ concurrency: 5, seenThrottledRequests: 1, cooldownUntil: NOW.toISOString() }, NOW));
+        assert.ok(!isCoolingDown({ concurrency: 5, seenThrottledRequests: 0 }, NOW));
+        assert.ok(!isCoolingDown(undefined, NOW));
+    });
+});
+
+describe('parseRetryAfter', () => {
+    it('parses delays in seconds and HTTP dates', () => {
+        assert.equal(parseRetryAfter('120', NOW), 120);
+        assert.equal(parseRetryAfter('Wed, 01 Jan 2025 12:00:30 GMT', NOW), 30);
+    });
+
+    it('returns 0 for missing, invalid or past values', () => {
+        assert.equal(parseRetryAfter(undefined, NOW), 0);
+        assert.equal(parseRetryAfter('soon', NOW), 0);
+        assert.equal(parseRetryAfter('-5', NOW), 0);
+        assert.equal(parseRetryAfter('Wed, 01 Jan 2025 11:00:00 GMT', NOW), 0);
+    });
+});
@@ -0,0 +1,60 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { buildBatchSchedule, recordBatchResults, sliceBatchPlan } from '../../src/common/batch-plan';
+import { BatchPlanState, VmRestoreResult } from '../../src/common/interfaces';
+import { osDiskSnapshot, subnetLocation, SUBSCRIPTION_ID } from './fixtures';
+
+function batchPlan(overrides: Partial<BatchPlanState> = {}): BatchPlanState {
+    return {
+        recoveryInfo: {
+            snapshots: [
+                osDiskSnapshot('db1'),
+                osDiskSnapshot('web1'),
+                osDiskSnapshot('web2', { location: 'eastus' }),
+                osDiskSnapshot('web3')
+            ],
+            subnetLocations: [subnetLocation('subnet-a'), subnetLocation('subnet-east', 'eastus')],
+            failedGroups: [{ name: 'app', vmNames: ['app1', 'app2'], reason: 'No common run' }]
+        },
+        existingResources: [],
+        waves: [{ name: 'databases', vmNames: ['db1'], healthGate: false }],
+        failures: [],
+        unreportedFailures: 0,
+        batches: [],
+        ...overrides
+    } as BatchPlanState;
+}
+
+const failure = (vmName: string): VmRestoreResult => ({ success: false, vmName, snapshotId: null, snapshotName: null, message: 'failed' });
+
+describe('buildBatchSchedule', () => {
+    it('counts the VMs of each wave per throttling scope', () => {
+        const schedule = buildBatchSchedule(batchPlan());
+        assert.deepEqual(schedule.waves, [
+            { name: 'databases', healthGate: false, delayAfterSeconds: 0, vmCount: 1, scopes: [{ scope: `${SUBSCRIPTION_ID}/westeurope`, vmCount: 1 }] },
+            { name: 'default', healthGate: false, delayAfterSeconds: 0, vmCount: 3, scopes: [{ scope: `${SUBSCRIPTION_ID}/westeurope`, vmCount: 2 }, { scope: `${SUBSCRIPTION_ID}/eastus`, vmCount: 1 }] }
+        ]);
+        assert.equal(schedule.vmCount, 4);
+        assert.equal(schedule.failedGroupCount, 2);
+    });
+});
+
+describe('sliceBatchPlan', () => {
+    it('returns the next VMs of the requested scopes of a wave', () => {
+        const slices = sliceBatchPlan(batchPlan(), {
+            waveIndex: 1,
+            slices: [{ scope: `${SUBSCRIPTION_ID}/westeurope`, offset: 1, count: 5 }, { scope: `${SUBSCRIPTION_ID}/eastus`, offset: 0, count: 1 }]
+        });
+        assert.deepEqual(slices.map(slice => slice.snapshots.map(snapshot => snapshot.vmName)), [['web3'], ['web2']]);
+    });
+});
+
+describe('recordBatchResults', () => {
+    it('only counts the failures beyond the reported maximum', () => {
+        const plan = recordBatchResults(batchPlan({ failures: [failure('vm1')], batches: ['batch-1'] }),
+            { batches: ['batch-2'], failures: [failure('vm2'), failure('vm3'), failure('vm4')], maxReportedFailures: 2 });
+        assert.deepEqual(plan.failures.map(result => result.vmName), ['vm1', 'vm2']);
+        assert.equal(plan.unreportedFailures, 2);
+        assert.deepEqual(plan.batches, ['batch-1', 'batch-2']);
+    });
+});
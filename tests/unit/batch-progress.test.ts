@@ -0,0 +1,45 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { buildBatchProgress } from '../../src/common/batch-progress';
+import { BatchProgressStatus } from '../../src/common/interfaces';
+
+// Custom status of a batch of 10 VMs started at 12:00
+const status = (overrides: Partial<BatchProgressStatus> = {}): BatchProgressStatus => ({
+    total: 10,
+    successful: 0,
+    failed: 0,
+    queued: 0,
+    inProgress: 0,
+    batchNumber: 1,
+    phase: 'restoring',
+    startedAt: '2025-01-01T12:00:00.000Z',
+    updatedAt: '2025-01-01T12:10:00.000Z',
+    ...overrides
+});
+
+const NOW = new Date('2025-01-01T12:10:00.000Z');
+
+describe('buildBatchProgress', () => {
+    it('counts the VMs of the batch and estimates the end from the rate of finished VMs', () => {
+        const progress = buildBatchProgress(status({ successful: 3, failed: 1, inProgress: 2, wave: 'apps', waveNumber: 2, waveCount: 3 }), undefined, NOW);
+        assert.deepEqual([progress.completed, progress.failed, progress.inProgress, progress.notStarted], [3, 1, 2, 4]);
+        assert.deepEqual([progress.wave, progress.waveNumber, progress.waveCount], ['apps', 2, 3]);
+        // 4 VMs finished in 10 minutes, 6 VMs remaining
+        assert.equal(progress.eta, '2025-01-01T12:25:00.000Z');
+    });
+
+    it('keeps the queued async VM creations in progress until the poller reports their outcome', () => {
+        const progress = buildBatchProgress(status({ successful: 6, queued: 5, phase: 'waiting for outcomes' }), { succeeded: 2, failed: 1 }, NOW);
+        assert.deepEqual([progress.completed, progress.failed, progress.inProgress, progress.notStarted], [3, 1, 2, 4]);
+    });
+
+    it('ignores the outcomes reported beyond the queued VM creations', () => {
+        const progress = buildBatchProgress(status({ successful: 2, queued: 2 }), { succeeded: 3, failed: 4 }, NOW);
+        assert.deepEqual([progress.completed, progress.failed, progress.inProgress], [2, 0, 0]);
+    });
+
+    it('has no ETA before the first VM finished or once the batch completed', () => {
+        assert.equal(buildBatchProgress(status({ inProgress: 5 }), undefined, NOW).eta, undefined);
+        assert.equal(buildBatchProgress(status({ successful: 8, failed: 2, phase: 'completed' }), undefined, NOW).eta, undefined);
+    });
+});
@@ -0,0 +1,58 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { describeRetryJobState, plannedJobLogEntries, selectRetryJobStates } from '../../src/common/batch-retry';
+import { BatchJobState } from '../../src/common/interfaces';
+import { osDiskSnapshot } from './fixtures';
+
+const BATCH_ID = '6f1c2a1e-0b7d-4f7e-9a43-1d5b8e2c9f10';
+
+// Job state of a VM of the previous batch (completed restore unless overridden)
+function jobState(vmName: string, overrides: Partial<BatchJobState> = {}): BatchJobState {
+    return { vmName, snapshotId: `/snapshots/${vmName}`, snapshotName: `${vmName}-snapshot`, jobStatus: 'Restore Completed', message: '', completed: true, started: true, ...overrides };
+}
+
+// Job state of a VM only planned by the previous batch (cancelled, stopped by the health gate or failed orchestrator)
+function plannedState(vmName: string): BatchJobState {
+    return jobState(vmName, { jobStatus: 'Restore In Progress', completed: false, started: false });
+}
+
+describe('plannedJobLogEntries', () => {
+    it('records one planned entry per VM with its OS disk snapshot', () => {
+        const entries = plannedJobLogEntries(BATCH_ID, [osDiskSnapshot('vm1'), osDiskSnapshot('vm2')]);
+        assert.deepEqual(entries.map(entry => [entry.batchId, entry.vmName, entry.jobOperation, entry.jobStatus, entry.snapshotName, entry.diskProfile]), [
+            [BATCH_ID, 'vm1', 'VM Planned', 'Restore In Progress', 'vm1-os-disk-snapshot', 'os-disk'],
+            [BATCH_ID, 'vm2', 'VM Planned', 'Restore In Progress', 'vm2-os-disk-snapshot', 'os-disk']
+        ]);
+        assert.equal(entries[0].snapshotId, osDiskSnapshot('vm1').id);
+        assert.notEqual(entries[0].jobId, entries[1].jobId);
+    });
+});
+
+describe('selectRetryJobStates', () => {
+    it('retries the failed, incomplete and never started VMs of the batch', () => {
+        const retried = selectRetryJobStates([
+            jobState('vm1'),
+            jobState('vm2', { jobStatus: 'Restore Failed', completed: false }),
+            jobState('vm3', { jobStatus: 'Restore In Progress', completed: false }),
+            plannedState('vm4')
+        ]);
+        assert.deepEqual(retried.map(describeRetryJobState), ['vm2 (Restore Failed)', 'vm3 (Restore In Progress)', 'vm4 (not started)']);
+    });
+
+    it('retries the planned VMs of a batch cancelled before any restore', () => {
+        const retried = selectRetryJobStates([plannedState('vm1'), plannedState('vm2')]);
+        assert.deepEqual(retried.map(state => state.snapshotId), ['/snapshots/vm1', '/snapshots/vm2']);
+    });
+
+    it('retries a VM failed after a completed restore', () => {
+        assert.deepEqual(selectRetryJobStates([jobState('vm1', { jobStatus: 'Restore Failed' })]).map(state => state.vmName), ['vm1']);
+    });
+
+    it('only retries the VMs of the filter', () => {
+        assert.deepEqual(selectRetryJobStates([plannedState('vm1'), plannedState('vm2')], ['vm2']).map(state => state.vmName), ['vm2']);
+    });
+
+    it('skips the VMs without snapshot', () => {
+        assert.deepEqual(selectRetryJobStates([jobState('vm1', { jobStatus: 'Restore Failed', completed: false, snapshotId: '' })]), []);
+    });
+});
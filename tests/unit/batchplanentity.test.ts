@@ -0,0 +1,53 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { EntityContext } from 'durable-functions';
+import { BatchPlanState } from '../../src/common/interfaces';
+import batchPlan from '../../src/functions/batchplanentity';
+import { osDiskSnapshot, subnetLocation } from './fixtures';
+
+// Calls an operation of the batch plan entity, returning its new state and its return value
+function callBatchPlan(state: BatchPlanState | undefined, operationName: string, input?: unknown) {
+    let returned: unknown;
+    const context = {
+        df: {
+            operationName,
+            getInput: () => input,
+            getState: () => state,
+            setState: (newState: BatchPlanState) => { state = newState; },
+            return: (value: unknown) => { returned = value; },
+            destructOnExit: () => { state = undefined; }
+        }
+    } as unknown as EntityContext<BatchPlanState>;
+    batchPlan(context);
+    return { state, returned };
+}
+
+const plan = {
+    recoveryInfo: { snapshots: [osDiskSnapshot('vm1')], subnetLocations: [subnetLocation('subnet-a')] },
+    existingResources: [],
+    failures: [],
+    unreportedFailures: 0,
+    batches: []
+} as BatchPlanState;
+
+describe('batchPlan entity', () => {
+    it('keeps a cancel request recorded before the plan was created', () => {
+        let { state } = callBatchPlan(undefined, 'cancel', { rollback: true, reason: 'drill aborted' });
+        ({ state } = callBatchPlan(state, 'create', plan));
+        assert.deepEqual(state.cancelRequest, { rollback: true, reason: 'drill aborted' });
+        assert.equal(state.recoveryInfo, plan.recoveryInfo);
+    });
+
+    it('keeps the first cancel request', () => {
+        let { state } = callBatchPlan(plan, 'cancel', { rollback: false });
+        ({ state } = callBatchPlan(state, 'cancel', { rollback: true }));
+        assert.deepEqual(state.cancelRequest, { rollback: false });
+    });
+
+    it('has no schedule or report before the plan was created', () => {
+        assert.equal(callBatchPlan(undefined, 'schedule').returned, undefined);
+        assert.equal(callBatchPlan(undefined, 'report').returned, undefined);
+        assert.deepEqual(callBatchPlan(undefined, 'slice', { waveIndex: 0, slices: [] }).returned, []);
+        assert.equal((callBatchPlan(plan, 'schedule').returned as { vmCount: number }).vmCount, 1);
+    });
+});
@@ -0,0 +1,89 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { applySnapshotCopies, assignTargetLocations, buildSnapshotCopyName, failAllSnapshotCopies, failedCopyResults, getRestoreLocation, listSnapshotsToCopy, summarizeSnapshotCopies } from '../../src/common/cross-region';
+import { SnapshotCopy } from '../../src/common/interfaces';
+import { dataDiskSnapshot, osDiskSnapshot, subnetLocation } from './fixtures';
+
+const SUBNETS = [subnetLocation('subnet-a', 'westeurope'), subnetLocation('subnet-b', 'swedencentral')];
+
+// Snapshot copy of a snapshot to westeurope
+const copy = (sourceSnapshotId: string, status: SnapshotCopy['status'], error?: string): SnapshotCopy => ({
+    sourceSnapshotId,
+    copyName: 'copy',
+    copyId: status === 'completed' ? `${sourceSnapshotId}-westeurope` : undefined,
+    location: 'westeurope',
+    status,
+    completionPercent: status === 'completed' ? 100 : 40,
+    error
+});
+
+describe('assignTargetLocations', () => {
+    const snapshots = [
+        osDiskSnapshot('vm1'),
+        osDiskSnapshot('vm2', { location: 'northeurope', dataDiskSnapshots: [dataDiskSnapshot('vm2', 0, { location: 'northeurope' })] }),
+        osDiskSnapshot('vm3', { location: 'francecentral' }),
+        osDiskSnapshot('vm4', { location: 'eastus' })
+    ];
+
+    it('restores the snapshots of the source regions without target subnet in their target region or the region of the first subnet', () => {
+        const assigned = assignTargetLocations(snapshots, SUBNETS, { sourceRegions: ['NorthEurope', 'francecentral'], targetRegions: { francecentral: 'SwedenCentral' } });
+        assert.deepEqual(assigned.map(snapshot => [snapshot.vmName, snapshot.targetLocation, getRestoreLocation(snapshot)]), [
+            ['vm1', undefined, 'westeurope'],
+            ['vm2', 'westeurope', 'westeurope'],
+            ['vm3', 'swedencentral', 'swedencentral'],
+            ['vm4', undefined, 'eastus']
+        ]);
+        assert.equal(assigned[1].dataDiskSnapshots[0].targetLocation, 'westeurope');
+    });
+
+    it('keeps the snapshots in their region when the target region has no subnet', () => {
+        const assigned = assignTargetLocations(snapshots, SUBNETS, { sourceRegions: ['northeurope'], targetRegions: { northeurope: 'eastus' } });
+        assert.equal(assigned[1].targetLocation, undefined);
+        assert.equal(assignTargetLocations(snapshots, SUBNETS, undefined), snapshots);
+    });
+});
+
+describe('snapshot copies', () => {
+    const vm1 = osDiskSnapshot('vm1', { location: 'northeurope', targetLocation: 'westeurope', dataDiskSnapshots: [dataDiskSnapshot('vm1', 0, { targetLocation: 'westeurope' })] });
+    const vm2 = osDiskSnapshot('vm2');
+
+    it('names the copies after the snapshot and the region, within 80 characters', () => {
+        assert.equal(buildSnapshotCopyName('vm1-os-disk-snapshot', 'westeurope'), 'vm1-os-disk-snapshot-westeurope');
+        const name = buildSnapshotCopyName('x'.repeat(80), 'westeurope');
+        assert.equal(name.length, 80);
+        assert.ok(name.endsWith('x-westeurope'));
+    });
+
+    it('copies the OS and data disk snapshots restored in another region', () => {
+        assert.deepEqual(listSnapshotsToCopy([vm1, vm2]).map(snapshot => [snapshot.snapshotName, snapshot.dataDiskSnapshots]),
+            [['vm1-os-disk-snapshot', undefined], ['vm1-data-disk-lun0-snapshot', undefined]]);
+    });
+
+    it('restores the completed copies and fails the VMs of a failed copy with their group', () => {
+        const withGroups = [{ ...vm1, vmGroup: 'sap' }, { ...vm2, vmGroup: 'sap' }, osDiskSnapshot('vm3')];
+        const copies = [copy(vm1.id, 'completed'), copy(vm1.dataDiskSnapshots[0].id, 'failed', 'CopyFailed')];
+        const applied = applySnapshotCopies(withGroups, copies);
+        assert.equal(applied[0].copyId, `${vm1.id}-westeurope`);
+        assert.equal(applied[0].dataDiskSnapshots[0].copyId, undefined);
+        assert.deepEqual(failedCopyResults(copies, withGroups).map(result => [result.vmName, result.message]), [
+            ['vm1', `Copy of snapshot ${vm1.dataDiskSnapshots[0].id} to westeurope failed: CopyFailed`],
+            ['vm2', 'Snapshot copy failed for another member of VM group sap']
+        ]);
+    });
+
+    it('fails every copy when the copy orchestration failed, keeping the copy names to delete', () => {
+        const copies = failAllSnapshotCopies(listSnapshotsToCopy([vm1]), 'Orchestration failed');
+        assert.deepEqual(copies.map(failed => [failed.copyName, failed.location, failed.status, failed.error]), [
+            ['vm1-os-disk-snapshot-westeurope', 'westeurope', 'failed', 'Orchestration failed'],
+            ['vm1-data-disk-lun0-snapshot-westeurope', 'westeurope', 'failed', 'Orchestration failed']
+        ]);
+        assert.deepEqual(failedCopyResults(copies, [vm1, vm2]).map(result => result.vmName), ['vm1']);
+    });
+
+    it('summarizes the progress of the copies', () => {
+        const now = new Date('2025-01-01T12:00:00.000Z');
+        assert.deepEqual(summarizeSnapshotCopies([copy('a', 'completed'), copy('b', 'copying'), copy('c', 'failed')], now),
+            { total: 3, completed: 1, failed: 1, copying: 1, completionPercent: 60, updatedAt: '2025-01-01T12:00:00.000Z' });
+        assert.equal(summarizeSnapshotCopies([], now).completionPercent, 100);
+    });
+});
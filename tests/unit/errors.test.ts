@@ -0,0 +1,58 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { AzureError, BusinessError, classifyError, classifyVmManagerError, PermanentError, TransientError } from '../../src/common/errors';
+
+describe('classifyError', () => {
+    it('keeps the errors already classified', () => {
+        const error = new PermanentError('vmDetails is required');
+        assert.equal(classifyError(error), error);
+    });
+
+    it('retries the Azure errors with a transient status code only', () => {
+        const throttled = classifyError(Object.assign(new Error('Too many requests'), { statusCode: 429 }));
+        assert.ok(throttled instanceof AzureError && throttled.isRetryable);
+        assert.equal(classifyError(Object.assign(new Error('Bad request'), { statusCode: 400, code: 'InvalidParameter' })).isRetryable, false);
+    });
+
+    it('does not retry validation errors and retries unknown errors', () => {
+        assert.ok(classifyError(new Error('validation of the VM size failed')) instanceof BusinessError);
+        assert.ok(classifyError(new Error('socket hang up')) instanceof TransientError);
+    });
+});
+
+describe('classifyVmManagerError', () => {
+    it('does not retry configuration errors', () => {
+        for (const message of [
+            "IP address 10.1.0.4 does not belong to the range of subnet prefix '10.0.0.0/24'",
+            'Disk vm1-os-disk already exists',
+            "The client does not have authorization to perform action 'Microsoft.Compute/disks/write'",
+            "The Resource 'Microsoft.Compute/snapshots/vm1' was not found. NotFound"
+        ]) {
+            assert.ok(classifyVmManagerError(new Error(message), 'disk creation') instanceof PermanentError, message);
+        }
+    });
+
+    it('retries network errors and throttling', () => {
+        const error = classifyVmManagerError(new Error('connection reset by peer'), 'VM creation');
+        assert.ok(error instanceof TransientError);
+        assert.equal(error.message, 'VM creation failed due to network issues: connection reset by peer');
+        assert.ok(classifyVmManagerError(new Error('Request was throttled'), 'VM creation') instanceof TransientError);
+    });
+
+    it('does not retry quota errors', () => {
+        for (const message of [
+            "QuotaExceeded: Operation could not be completed as it results in exceeding approved standardDSv5Family Cores quota",
+            "OperationNotAllowed: Operation could not be completed as it results in exceeding approved Total Regional Cores quota. Additional details - Deployment Model: Resource Manager, Location: westeurope, Current Limit: 100"
+        ]) {
+            const error = classifyVmManagerError(new Error(message), 'VM creation');
+            assert.ok(error instanceof PermanentError, message);
+            assert.equal(error.message, `VM creation failed - quota exceeded: ${message}`);
+        }
+    });
+
+    it('retries rate limit errors', () => {
+        const error = classifyVmManagerError(new Error('The request rate limit of the subscription was reached'), 'NIC creation');
+        assert.ok(error instanceof TransientError);
+        assert.equal(error.message, 'NIC creation failed due to rate limiting: The request rate limit of the subscription was reached');
+    });
+});
@@ -0,0 +1,58 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { findExistingDisk, groupExistingRestoresBySnapshot, resolveExistingRestore } from '../../src/common/existing-restore-utils';
+import { RESOURCE_TYPE_DISK, RESOURCE_TYPE_NIC, RESOURCE_TYPE_VM } from '../../src/common/constants';
+import { osDiskSnapshot, restoredResource, subnetLocation } from './fixtures';
+
+const snapshot = osDiskSnapshot('vm1', { snapshotSelection: 'latest at or before 2025-01-01T12:00:00.000Z' });
+const targetSubnetId = subnetLocation('subnet-a').subnetId;
+const vm = restoredResource(RESOURCE_TYPE_VM, 'vm1', snapshot.snapshotName);
+const nic = restoredResource(RESOURCE_TYPE_NIC, 'vm1-nic', snapshot.snapshotName);
+const disk = restoredResource(RESOURCE_TYPE_DISK, 'vm1-os-disk', snapshot.snapshotName, { sourceResourceId: snapshot.id.toUpperCase() });
+
+describe('groupExistingRestoresBySnapshot', () => {
+    it('groups the restored resources by lower case snapshot name', () => {
+        const other = restoredResource(RESOURCE_TYPE_VM, 'vm2', 'VM2-Snapshot');
+        const untracked = restoredResource(RESOURCE_TYPE_VM, 'vm3', undefined);
+        const restores = groupExistingRestoresBySnapshot([vm, other, nic, untracked]);
+        assert.deepEqual([...restores.entries()], [[snapshot.snapshotName, [vm, nic]], ['vm2-snapshot', [other]]]);
+    });
+});
+
+describe('findExistingDisk', () => {
+    it('finds the disk created from the snapshot', () => {
+        assert.equal(findExistingDisk([vm, nic, disk], snapshot), disk);
+        assert.equal(findExistingDisk([vm, nic, disk], osDiskSnapshot('vm2')), undefined);
+    });
+});
+
+describe('resolveExistingRestore', () => {
+    it('restores the VMs without existing restore', () => {
+        assert.equal(resolveExistingRestore(snapshot, targetSubnetId, [], 'skip'), undefined);
+    });
+
+    it('reports an existing VM as restored, with the selection of its snapshot', () => {
+        assert.deepEqual(resolveExistingRestore(snapshot, targetSubnetId, [vm, nic, disk], 'adopt'), {
+            success: true,
+            vmName: 'vm1',
+            snapshotId: snapshot.id,
+            snapshotName: snapshot.snapshotName,
+            targetSubnetId,
+            existing: true,
+            snapshotSelection: 'latest at or before 2025-01-01T12:00:00.000Z',
+            vmId: vm.id,
+            message: 'VM vm1 already restored from snapshot vm1-os-disk-snapshot'
+        });
+    });
+
+    it('fails a partial restore in skip mode', () => {
+        const result = resolveExistingRestore(snapshot, targetSubnetId, [nic, disk]);
+        assert.equal(result.success, false);
+        assert.equal(result.message, "Partial restore from snapshot vm1-os-disk-snapshot found (networkinterfaces vm1-nic, disks vm1-os-disk), use existingRestoreMode 'adopt' or 'replace' to restore the VM");
+    });
+
+    it('restores the VM again to adopt a partial restore or to replace an existing restore', () => {
+        assert.equal(resolveExistingRestore(snapshot, targetSubnetId, [nic, disk], 'adopt'), undefined);
+        assert.equal(resolveExistingRestore(snapshot, targetSubnetId, [vm, nic, disk], 'replace'), undefined);
+    });
+});
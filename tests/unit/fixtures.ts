@@ -0,0 +1,95 @@
+// Test fixtures - snapshots, subnets, logger and invocation context of the unit tests
+
+import { InvocationContext } from '@azure/functions';
+import { RecoveryResource, RecoverySnapshot, SubnetLocation } from '../../src/common/interfaces';
+import { ILogger } from '../../src/common/logger';
+
+export const SUBSCRIPTION_ID = '00000000-0000-0000-0000-000000000001';
+
+/**
+ * OS disk snapshot of a VM (westeurope, taken on 2025-01-01 at 12:00 UTC unless overridden)
+ */
+export function osDiskSnapshot(vmName: string, overrides: Partial<RecoverySnapshot> = {}): RecoverySnapshot {
+    const snapshotName = overrides.snapshotName || `${vmName}-os-disk-snapshot`;
+    return {
+        snapshotName,
+        resourceGroup: 'rg-snapshots',
+        id: `/subscriptions/${SUBSCRIPTION_ID}/resourceGroups/rg-snapshots/providers/Microsoft.Compute/snapshots/${snapshotName}`,
+        location: 'westeurope',
+        timeCreated: '2025-01-01T12:00:00.000Z',
+        vmName,
+        vmSize: 'Standard_D2s_v5',
+        diskSku: 'Premium_LRS',
+        diskProfile: 'os-disk',
+        ipAddress: '10.0.0.4',
+        securityType: 'Standard',
+        ...overrides
+    };
+}
+
+/**
+ * Data disk snapshot of a VM
+ */
+export function dataDiskSnapshot(vmName: string, lun: number, overrides: Partial<RecoverySnapshot> = {}): RecoverySnapshot {
+    return osDiskSnapshot(vmName, { snapshotName: `${vmName}-data-disk-lun${lun}-snapshot`, diskProfile: 'data-disk', lun, ...overrides });
+}
+
+/**
+ * Target subnet of a region
+ */
+export function subnetLocation(name: string, location = 'westeurope'): SubnetLocation {
+    return {
+        subnetId: `/subscriptions/${SUBSCRIPTION_ID}/resourceGroups/rg-network/providers/Microsoft.Network/virtualNetworks/vnet-${location}/subnets/${name}`,
+        location
+    };
+}
+
+/**
+ * Resource of the target resource group restored from a snapshot (smcp-recovery tag)
+ * @param type Resource type (RESOURCE_TYPE_VM, RESOURCE_TYPE_NIC or RESOURCE_TYPE_DISK)
+ */
+export function restoredResource(type: string, name: string, snapshotName: string, overrides: Partial<RecoveryResource> = {}): RecoveryResource {
+    return {
+        id: `/subscriptions/${SUBSCRIPTION_ID}/resourceGroups/rg-restore/providers/${type}/${name}`,
+        name,
+        type,
+        resourceGroup: 'rg-restore',
+        subscriptionId: SUBSCRIPTION_ID,
+        tracking: { batchId: 'batch-0', jobId: `job-${name}`, snapshotName },
+        ...overrides
+    };
+}
+
+/**
+ * Logger keeping the messages, to check the warnings of the code under test
+ */
+export class TestLogger implements ILogger {
+    readonly messages: { level: string; message: string }[] = [];
+
+    info(message: string): void {
+        this.messages.push({ level: 'info', message });
+    }
+
+    warn(message: string): void {
+        this.messages.push({ level: 'warn', message });
+    }
+
+    error(message: string): void {
+        this.messages.push({ level: 'error', message });
+    }
+
+    debug(message: string): void {
+        this.messages.push({ level: 'debug', message });
+    }
+
+    warnings(): string[] {
+        return this.messages.filter(entry => entry.level === 'warn').map(entry => entry.message);
+    }
+}
+
+/**
+ * Invocation context of a function called by a test (logs discarded)
+ */
+export function testInvocationContext(): InvocationContext {
+    return new InvocationContext({ functionName: 'test', logHandler: () => undefined });
+}
@@ -0,0 +1,56 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { ResourceGraphManager } from '../../src/controllers/graph.manager';
+import { TestLogger } from './fixtures';
+
+// Resource Graph manager whose client returns the pages of results in turn, keeping the queries
+function fakeGraphManager(pages: { data: any[]; skipToken?: string }[]) {
+    const requests: { query: string; options?: { skipToken: string } }[] = [];
+    const graphManager: ResourceGraphManager = Object.assign(new ResourceGraphManager(new TestLogger()), {
+        clientGraph: { resources: async (request: { query: string; options?: { skipToken: string } }) => { requests.push(request); return pages.shift(); } }
+    });
+    return { graphManager, requests };
+}
+
+describe('ResourceGraphManager.getSnapshotsBySelection', () => {
+    it('follows the skip token to get all the pages of snapshots', async () => {
+        const { graphManager, requests } = fakeGraphManager([{ data: [{ vmName: 'vm1' }], skipToken: 'page-2' }, { data: [{ vmName: 'vm2' }] }]);
+        const snapshots = await graphManager.getSnapshotsBySelection(['westeurope'], { policy: 'latest', time: '2025-01-01T12:00:00.000Z' });
+        assert.deepEqual(snapshots.map(snapshot => snapshot.vmName), ['vm1', 'vm2']);
+        assert.deepEqual(requests.map(request => request.options), [undefined, { skipToken: 'page-2' }]);
+    });
+
+    it('excludes the data disk snapshots taken after the selection time or the end of the window', async () => {
+        const latest = fakeGraphManager([{ data: [] }]);
+        await latest.graphManager.getSnapshotsBySelection(['westeurope'], { policy: 'latest', time: '2025-01-01T12:00:00.000Z' });
+        assert.match(latest.requests[0].query, /\| where timeCreated <= todatetime\('2025-01-01T12:00:00.000Z'\)\s+\) on vmName/);
+
+        const window = fakeGraphManager([{ data: [] }]);
+        await window.graphManager.getSnapshotsBySelection(['westeurope'], { policy: 'window', minTime: '2025-01-01T10:00:00.000Z', maxTime: '2025-01-01T11:00:00.000Z' });
+        assert.match(window.requests[0].query, /\| where timeCreated <= todatetime\('2025-01-01T11:00:00.000Z'\)\s+\) on vmName/);
+    });
+});
+
+describe('ResourceGraphManager.getRecoveryResourcesByBatchId', () => {
+    const BATCH_ID = '6f1c2a1e-0b7d-4f7e-9a43-1d5b8e2c9f10';
+
+    it('matches the batch Id of the smcp-recovery tag', async () => {
+        const tracking = (batchId: string) => JSON.stringify({ batchId, jobId: 'job-1', snapshotName: 'vm1-snapshot' });
+        const { graphManager, requests } = fakeGraphManager([{ data: [
+            { id: '/vm1', name: 'vm1', type: 'microsoft.compute/virtualmachines', resourceGroup: 'rg-restore', subscriptionId: 'sub-1', tracking: tracking(BATCH_ID) },
+            { id: '/vm2', name: 'vm2', type: 'microsoft.compute/virtualmachines', resourceGroup: 'rg-restore', subscriptionId: 'sub-1', tracking: tracking('00000000-0000-0000-0000-000000000000') }
+        ] }]);
+        const resources = await graphManager.getRecoveryResourcesByBatchId(BATCH_ID, 'rg-restore');
+        assert.deepEqual(resources.map(resource => [resource.name, resource.tracking.batchId]), [['vm1', BATCH_ID]]);
+        assert.match(requests[0].query, new RegExp(`\\| where tostring\\(parse_json\\(tostring\\(tags\\['smcp-recovery'\\]\\)\\)\\.batchId\\) == '${BATCH_ID}'`));
+        assert.doesNotMatch(requests[0].query, /contains/);
+    });
+
+    it('rejects the batch Ids that are not GUIDs and the invalid resource groups without querying', async () => {
+        const { graphManager, requests } = fakeGraphManager([]);
+        await assert.rejects(graphManager.getRecoveryResourcesByBatchId("x' or 1 == 1", 'rg-restore'), /must be a GUID/);
+        await assert.rejects(graphManager.getRecoveryResourcesByBatchId(BATCH_ID, "rg' or true or '"), /Invalid resource group name/);
+        await assert.rejects(graphManager.getRecoveryResourcesByBatchId(BATCH_ID, 'rg-restore.'), /Invalid resource group name/);
+        assert.deepEqual(requests, []);
+    });
+});
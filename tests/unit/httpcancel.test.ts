@@ -0,0 +1,21 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { HttpRequest } from '@azure/functions';
+import httpCancel from '../../src/functions/httpcancel';
+import { testInvocationContext } from './fixtures';
+
+// Cancel request of a batch (the body is checked before the batch status is read)
+const request = (body: string) => ({ text: async () => body, params: { id: 'batch-1' } }) as unknown as HttpRequest;
+
+describe('httpCancel', () => {
+    it('rejects a rollback that is not a boolean', async () => {
+        assert.deepEqual(await httpCancel(request('{ "rollback": "yes" }'), testInvocationContext()),
+            { status: 400, jsonBody: { error: 'rollback must be a boolean (true or false) if provided' } });
+    });
+
+    it('rejects a body that is not JSON', async () => {
+        const response = await httpCancel(request('rollback'), testInvocationContext());
+        assert.equal(response.status, 400);
+        assert.match((response.jsonBody as { error: string }).error, /^Invalid JSON format: /);
+    });
+});
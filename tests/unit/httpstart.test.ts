@@ -0,0 +1,27 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { HttpRequest } from '@azure/functions';
+import httpStart from '../../src/functions/httpstart';
+import { testInvocationContext } from './fixtures';
+
+// Request with a body (only the body is read before the batch is started)
+const request = (body: string) => ({ text: async () => body, url: 'https://snaprecovery.azurewebsites.net/api/recoveries' }) as unknown as HttpRequest;
+
+describe('httpStart', () => {
+    it('rejects an empty body', async () => {
+        assert.deepEqual(await httpStart(request(' '), testInvocationContext()), { status: 400, jsonBody: { error: 'Empty request body - expected RecoveryBatch JSON' } });
+    });
+
+    it('rejects a body that is not JSON', async () => {
+        const response = await httpStart(request('{ targetResourceGroup'), testInvocationContext());
+        assert.equal(response.status, 400);
+        assert.match((response.jsonBody as { error: string }).error, /^Invalid JSON format: /);
+    });
+
+    it('rejects an invalid recovery batch with the validation errors of the queue trigger', async () => {
+        const response = await httpStart(request(JSON.stringify({ targetSubnetIds: [], targetResourceGroup: 'rg-restore' })), testInvocationContext());
+        assert.equal(response.status, 400);
+        assert.equal((response.jsonBody as { error: string }).error,
+            'Invalid BatchOrchestratorInput: targetSubnetIds array cannot be empty, maxTimeGenerated is required, useOriginalIpAddress is required, waitForVmCreationCompletion is required');
+    });
+});
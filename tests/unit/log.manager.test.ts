@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { LogsQueryResultStatus } from '@azure/monitor-query';
+import { LogManager } from '../../src/controllers/log.manager';
+import { LogQueryError } from '../../src/common/apperror';
+import { TestLogger } from './fixtures';
+
+const BATCH_ID = '6f1c2a1e-0b7d-4f7e-9a43-1d5b8e2c9f10';
+const COLUMNS = ['vmName', 'snapshotId', 'snapshotName', 'jobStatus', 'message', 'completed', 'started'];
+
+// Log manager whose Log Analytics query client returns the rows of a table, keeping the queries
+function fakeLogManager(rows: unknown[][], queries: string[] = []): LogManager {
+    const queryClient = {
+        queryWorkspace: async (workspaceId: string, query: string) => {
+            queries.push(query);
+            return { status: LogsQueryResultStatus.Success, tables: [{ name: 'PrimaryResult', columnDescriptors: COLUMNS.map(name => ({ name })), rows }] };
+        }
+    };
+    return Object.assign(new LogManager(new TestLogger()), { queryClient });
+}
+
+describe('LogManager.getBatchJobStates', () => {
+    beforeEach(() => process.env.LOGS_WORKSPACE_ID = 'workspace-1');
+    afterEach(() => delete process.env.LOGS_WORKSPACE_ID);
+
+    it('returns the job state of each VM of the batch', async () => {
+        const queries: string[] = [];
+        const states = await fakeLogManager([
+            ['vm1', '/snapshots/vm1', 'vm1-snapshot', 'Restore Completed', 'VM restored', true, true],
+            ['vm2', '/snapshots/vm2', 'vm2-snapshot', 'Restore Failed', 'Quota exceeded', false, true]
+        ], queries).getBatchJobStates(BATCH_ID);
+        assert.deepEqual(states, [
+            { vmName: 'vm1', snapshotId: '/snapshots/vm1', snapshotName: 'vm1-snapshot', jobStatus: 'Restore Completed', message: 'VM restored', completed: true, started: true },
+            { vmName: 'vm2', snapshotId: '/snapshots/vm2', snapshotName: 'vm2-snapshot', jobStatus: 'Restore Failed', message: 'Quota exceeded', completed: false, started: true }
+        ]);
+        assert.match(queries[0], new RegExp(`\\| where batchId == '${BATCH_ID}'`));
+    });
+
+    it('types the columns of the rows', async () => {
+        const states = await fakeLogManager([['vm1', null, 'vm1-snapshot', 'Restore Completed', undefined, 'true', 1]]).getBatchJobStates(BATCH_ID);
+        assert.deepEqual(states, [{ vmName: 'vm1', snapshotId: '', snapshotName: 'vm1-snapshot', jobStatus: 'Restore Completed', message: '', completed: true, started: true }]);
+    });
+
+    it('returns the VMs only planned by the batch as not started', async () => {
+        const queries: string[] = [];
+        const states = await fakeLogManager([['vm3', '/snapshots/vm3', 'vm3-snapshot', 'Restore In Progress', 'VM vm3 planned for restore from vm3-snapshot', false, false]], queries).getBatchJobStates(BATCH_ID);
+        assert.deepEqual(states.map(state => [state.vmName, state.completed, state.started]), [['vm3', false, false]]);
+        assert.match(queries[0], /startedCount = countif\(jobOperation != 'VM Planned'\)/);
+    });
+
+    it('rejects the batch Ids that are not GUIDs without querying', async () => {
+        const queries: string[] = [];
+        await assert.rejects(fakeLogManager([], queries).getBatchJobStates("x' or 1 == 1"), (error: Error) => error instanceof LogQueryError && /must be a GUID/.test(error.message));
+        assert.deepEqual(queries, []);
+    });
+
+    it('requires the Log Analytics workspace', async () => {
+        delete process.env.LOGS_WORKSPACE_ID;
+        await assert.rejects(fakeLogManager([]).getBatchJobStates(BATCH_ID), LogQueryError);
+    });
+});
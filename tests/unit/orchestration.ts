@@ -0,0 +1,54 @@
+// Orchestration harness - runs an orchestrator generator against a fake durable context, answering its tasks
+
+import { OrchestrationContext, OrchestrationHandler, RetryOptions } from 'durable-functions';
+
+// Task yielded by the orchestrator under test
+export interface FakeTask {
+    name: string; // Activity or sub-orchestrator name
+    input: any;
+    retryOptions?: RetryOptions;
+}
+
+/**
+ * Durable orchestration context of a test (no replay, fixed clock)
+ * @param input Input of the orchestration
+ * @param instanceId Instance ID of the orchestration
+ */
+export function fakeOrchestrationContext(input: unknown, instanceId = 'instance-1'): OrchestrationContext {
+    const noLog = () => undefined;
+    let guids = 0;
+    return {
+        log: noLog,
+        warn: noLog,
+        error: noLog,
+        df: {
+            instanceId,
+            isReplaying: false,
+            currentUtcDateTime: new Date('2025-01-01T12:00:00.000Z'),
+            getInput: () => input,
+            newGuid: () => `00000000-0000-0000-0000-${String(++guids).padStart(12, '0')}`,
+            callActivity: (name: string, activityInput: unknown): FakeTask => ({ name, input: activityInput }),
+            callActivityWithRetry: (name: string, retryOptions: RetryOptions, activityInput: unknown): FakeTask => ({ name, input: activityInput, retryOptions })
+        }
+    } as unknown as OrchestrationContext;
+}
+
+/**
+ * Runs an orchestrator to completion
+ * @param orchestrator Orchestrator under test
+ * @param context Fake orchestration context
+ * @param respond Result of each task (an Error fails the task)
+ * @returns Output of the orchestration and the tasks it scheduled, in order
+ */
+export function runOrchestration(orchestrator: OrchestrationHandler, context: OrchestrationContext, respond: (task: FakeTask) => unknown): { output: any; tasks: FakeTask[] } {
+    const tasks: FakeTask[] = [];
+    const generator = orchestrator(context) as Generator<FakeTask, unknown, unknown>;
+    let step = generator.next();
+    while (!step.done) {
+        const task = step.value as FakeTask;
+        tasks.push(task);
+        const result = respond(task);
+        step = result instanceof Error ? generator.throw(result) : generator.next(result);
+    }
+    return { output: step.value, tasks };
+}
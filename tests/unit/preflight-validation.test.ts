@@ -0,0 +1,133 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { blockedPreflightResults, countUsableAddresses, isIpInPrefix, validateTargetEnvironment } from '../../src/common/preflight-validation';
+import { PreflightEnvironment, RecoveryPlanVm } from '../../src/common/interfaces';
+import { RESOURCE_TYPE_NIC, RESOURCE_TYPE_VM } from '../../src/common/constants';
+import { osDiskSnapshot, SUBSCRIPTION_ID, subnetLocation } from './fixtures';
+
+const SUBNET_ID = subnetLocation('subnet-a').subnetId;
+
+// VM of a restore plan, restored in subnet-a with its original IP address 10.0.0.4
+const planVm = (vmName: string, overrides: Partial<RecoveryPlanVm> = {}): RecoveryPlanVm => {
+    const snapshot = osDiskSnapshot(vmName);
+    return {
+        vmName,
+        snapshotId: snapshot.id,
+        snapshotName: snapshot.snapshotName,
+        snapshotTime: snapshot.timeCreated,
+        location: snapshot.location,
+        targetSubnetId: SUBNET_ID,
+        ipAddress: snapshot.ipAddress,
+        vmSize: snapshot.vmSize,
+        securityType: snapshot.securityType,
+        nicName: `${vmName}-nic`,
+        osDiskName: `${vmName}-os-disk`,
+        dataDiskNames: [],
+        ...overrides
+    };
+};
+
+// Target environment with a /28 subnet (11 usable addresses) and 10.0.0.4 free
+const environment = (overrides: Partial<PreflightEnvironment> = {}): PreflightEnvironment => ({
+    subnets: [{ subnetId: SUBNET_ID, addressPrefixes: ['10.0.0.0/28'], usedIpAddresses: 0 }],
+    ipAddresses: [{ subnetId: SUBNET_ID, ipAddress: '10.0.0.4', available: true }],
+    resourceNames: {},
+    vmSizes: { [`${SUBSCRIPTION_ID}/westeurope`]: [{ name: 'Standard_D2s_v5', family: 'standardDSv5Family', vCpus: 2, zones: ['1', '2'] }] },
+    ...overrides
+});
+
+const validate = (vms: RecoveryPlanVm[], env: PreflightEnvironment, useOriginalIpAddress = true) =>
+    validateTargetEnvironment({ targetResourceGroup: 'rg-restore', useOriginalIpAddress, vms }, env);
+
+describe('isIpInPrefix', () => {
+    it('checks the network part of the address', () => {
+        assert.ok(isIpInPrefix('10.0.1.200', '10.0.0.0/23'));
+        assert.ok(!isIpInPrefix('10.0.2.1', '10.0.0.0/23'));
+        assert.ok(isIpInPrefix('192.168.1.1', '0.0.0.0/0'));
+        assert.ok(!isIpInPrefix('not an ip', '10.0.0.0/8'));
+    });
+});
+
+describe('countUsableAddresses', () => {
+    it('counts the IPv4 addresses without the addresses reserved by Azure', () => {
+        assert.equal(countUsableAddresses(['10.0.0.0/24', '10.0.1.0/29', 'fd00::/64']), 251 + 3);
+    });
+});
+
+describe('validateTargetEnvironment', () => {
+    it('passes the VMs that can be restored', () => {
+        assert.deepEqual(validate([planVm('vm1')], environment()), { passed: true, blockedVms: 0, vms: [] });
+    });
+
+    it('blocks the VM sizes not offered in the region and the IP addresses outside the subnet', () => {
+        const report = validate([planVm('vm1', { vmSize: 'Standard_M416s_v2', ipAddress: '10.1.0.4' })], environment());
+        assert.equal(report.passed, false);
+        assert.deepEqual(report.vms[0].errors, [
+            `VM size Standard_M416s_v2 is not offered in westeurope for subscription ${SUBSCRIPTION_ID}`,
+            `Original IP address 10.1.0.4 is not in the address prefixes of subnet ${SUBNET_ID} (10.0.0.0/28)`
+        ]);
+    });
+
+    it('checks the VM size after the size mapping rules', () => {
+        const vms = [planVm('vm1', { vmSize: 'Standard_D2s_v3', ipAddress: 'Dynamic' })];
+        const mapped = validateTargetEnvironment({ targetResourceGroup: 'rg-restore', useOriginalIpAddress: false, vms, vmSizeMapping: { familyFallback: true } }, environment());
+        assert.deepEqual(mapped.vms[0].warnings, ['VM size Standard_D2s_v3 is not offered in the region, falling back to Standard_D2s_v5']);
+        assert.equal(mapped.passed, true);
+        assert.equal(validate(vms, environment(), false).passed, false);
+    });
+
+    it('blocks the VMs placed in a zone without their VM size or without zone for their disk SKU', () => {
+        const report = validate([planVm('vm1', { zone: '3' }), planVm('vm2', { ipAddress: 'Dynamic', diskSkus: ['Premium_LRS', 'PremiumV2_LRS'] })], environment(), false);
+        assert.deepEqual(report.vms.map(vm => [vm.vmName, vm.errors]), [
+            ['vm1', [`VM size Standard_D2s_v5 is not offered in zone 3 of westeurope for subscription ${SUBSCRIPTION_ID} (zones 1, 2)`]],
+            ['vm2', ['Disk SKU PremiumV2_LRS can only be restored in an availability zone, the VM has no zone']]
+        ]);
+        assert.equal(validate([planVm('vm1', { zone: '2', diskSkus: ['PremiumV2_LRS'] })], environment()).passed, true);
+    });
+
+    it('blocks the IP addresses in use or requested twice, unless held by an existing restore', () => {
+        const inUse = environment({ ipAddresses: [{ subnetId: SUBNET_ID, ipAddress: '10.0.0.4', available: false }] });
+        assert.deepEqual(validate([planVm('vm1')], inUse).vms[0].errors, [`Original IP address 10.0.0.4 is already in use in subnet ${SUBNET_ID}`]);
+        const existing = validate([planVm('vm1', { existingResources: ['vm1'], existingRestoreMode: 'adopt' })], inUse).vms[0];
+        assert.deepEqual([existing.errors, existing.warnings], [[], ['Original IP address 10.0.0.4 is in use, possibly by the existing restore (adopt)']]);
+        assert.deepEqual(validate([planVm('vm1'), planVm('vm2')], environment()).vms.map(vm => [vm.vmName, vm.errors]),
+            [['vm2', ['Original IP address 10.0.0.4 is also requested by VM vm1']]]);
+    });
+
+    it('warns about VMs without original IP address and blocks the VMs beyond the free addresses of the subnet', () => {
+        const report = validate([planVm('vm1', { ipAddress: 'Dynamic' }), planVm('vm2', { ipAddress: 'Dynamic' })],
+            environment({ subnets: [{ subnetId: SUBNET_ID, addressPrefixes: ['10.0.0.0/28'], usedIpAddresses: 10 }] }));
+        assert.deepEqual(report.vms.map(vm => [vm.vmName, vm.errors, vm.warnings]), [
+            ['vm1', [], ['No original IP address recorded for the VM, a dynamic IP address will be assigned']],
+            ['vm2', [`No free IP address left in subnet ${SUBNET_ID} for the VMs of the batch`], ['No original IP address recorded for the VM, a dynamic IP address will be assigned']]
+        ]);
+        assert.equal(report.blockedVms, 1);
+    });
+
+    it('blocks the VM and NIC names used by resources not restored from the same snapshot', () => {
+        const report = validate([planVm('vm1')], environment({
+            resourceNames: {
+                [SUBSCRIPTION_ID]: [
+                    { type: RESOURCE_TYPE_VM, name: 'VM1', snapshotName: 'vm1-os-disk-snapshot' },
+                    { type: RESOURCE_TYPE_NIC, name: 'vm1-nic' }
+                ]
+            }
+        }));
+        assert.deepEqual(report.vms[0].errors, ['NIC name vm1-nic is already used in resource group rg-restore']);
+    });
+});
+
+describe('blockedPreflightResults', () => {
+    it('fails the blocked VMs and the other members of their VM group', () => {
+        const report = { passed: false, blockedVms: 1, vms: [{ vmName: 'db1', snapshotId: 'id', snapshotName: 'name', errors: ['error 1', 'error 2'], warnings: [] }] };
+        const results = blockedPreflightResults(report, [
+            osDiskSnapshot('db1', { vmGroup: 'sap' }),
+            osDiskSnapshot('app1', { vmGroup: 'sap' }),
+            osDiskSnapshot('web1')
+        ]);
+        assert.deepEqual(results.map(result => [result.vmName, result.success, result.message]), [
+            ['db1', false, 'Pre-flight validation failed: error 1; error 2'],
+            ['app1', false, 'Pre-flight validation failed for another member of VM group sap']
+        ]);
+    });
+});
@@ -0,0 +1,74 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { buildQuotaRequirements, evaluateQuota, summarizeQuotaReport } from '../../src/common/quota-check';
+import { ComputeUsage, QuotaRequirement, VmSizeInfo } from '../../src/common/interfaces';
+import { dataDiskSnapshot, osDiskSnapshot, SUBSCRIPTION_ID } from './fixtures';
+
+const VM_SIZES: VmSizeInfo[] = [
+    { name: 'Standard_D2s_v5', family: 'standardDSv5Family', vCpus: 2 },
+    { name: 'Standard_D4s_v5', family: 'standardDSv5Family', vCpus: 4 },
+    { name: 'Standard_E2s_v5', family: 'standardESv5Family', vCpus: 2 }
+];
+
+const requirement = (overrides: Partial<QuotaRequirement> = {}): QuotaRequirement => ({
+    subscriptionId: SUBSCRIPTION_ID,
+    location: 'westeurope',
+    vmSizes: {},
+    diskSkus: {},
+    ...overrides
+});
+
+describe('buildQuotaRequirements', () => {
+    it('totals the VM sizes and the disk SKUs per subscription and region', () => {
+        const requirements = buildQuotaRequirements([
+            osDiskSnapshot('vm1', { dataDiskSnapshots: [dataDiskSnapshot('vm1', 0, { diskSku: 'StandardSSD_LRS' })] }),
+            osDiskSnapshot('vm2', { vmSize: 'Standard_D4s_v5', diskSku: undefined }),
+            osDiskSnapshot('vm3', { location: 'northeurope' }),
+            osDiskSnapshot('vm4', { location: 'francecentral', targetLocation: 'westeurope' })
+        ]);
+        assert.deepEqual(requirements, [
+            requirement({ vmSizes: { Standard_D2s_v5: 2, Standard_D4s_v5: 1 }, diskSkus: { Premium_LRS: 2, StandardSSD_LRS: 1, Standard_LRS: 1 } }),
+            requirement({ location: 'northeurope', vmSizes: { Standard_D2s_v5: 1 }, diskSkus: { Premium_LRS: 1 } })
+        ]);
+    });
+});
+
+describe('evaluateQuota', () => {
+    it('checks the vCPUs per VM family, the regional vCPUs and the disks per SKU', () => {
+        const usages: ComputeUsage[] = [
+            { name: 'standardDSv5Family', currentValue: 90, limit: 100 },
+            { name: 'cores', currentValue: 10, limit: 100 },
+            { name: 'PremiumDiskCount', currentValue: 0, limit: 1000 }
+        ];
+        const report = evaluateQuota(requirement({ vmSizes: { Standard_D2s_v5: 2, Standard_D4s_v5: 2 }, diskSkus: { Premium_LRS: 4 } }), usages, VM_SIZES);
+        assert.equal(report.passed, false);
+        assert.deepEqual(report.checks.map(check => [check.quota, check.kind, check.required, check.available, check.status]), [
+            ['standardDSv5Family', 'vm family', 12, 10, 'fail'],
+            ['cores', 'regional vcpus', 12, 90, 'pass'],
+            ['PremiumDiskCount', 'disks', 4, 1000, 'pass']
+        ]);
+        assert.equal(report.checks[0].details, '2 x Standard_D2s_v5 (4 vCPUs), 2 x Standard_D4s_v5 (8 vCPUs)');
+    });
+
+    it('counts the vCPUs of the mapped VM sizes', () => {
+        const report = evaluateQuota(requirement({ vmSizes: { Standard_D4s_v5: 2 } }), [], VM_SIZES, { overrides: { Standard_D4s_v5: 'Standard_E2s_v5' } });
+        assert.deepEqual(report.checks.map(check => [check.quota, check.required]), [['standardESv5Family', 4], ['cores', 4]]);
+    });
+
+    it('does not fail on quotas without usage or on unknown VM sizes', () => {
+        const report = evaluateQuota(requirement({ vmSizes: { Standard_E2s_v5: 1, Standard_X1: 1 }, diskSkus: { Premium_LRS: 1 } }), [], VM_SIZES);
+        assert.equal(report.passed, true);
+        assert.deepEqual(report.checks.map(check => [check.quota, check.status]), [['standardESv5Family', 'unknown'], ['cores', 'unknown'], ['PremiumDiskCount', 'unknown']]);
+        assert.deepEqual(report.unknownVmSizes, ['Standard_X1']);
+    });
+});
+
+describe('summarizeQuotaReport', () => {
+    it('lists the shortfalls of every region', () => {
+        const passing = evaluateQuota(requirement({ diskSkus: { Premium_LRS: 1 } }), [{ name: 'PremiumDiskCount', currentValue: 0, limit: 10 }], VM_SIZES);
+        const failing = evaluateQuota(requirement({ location: 'northeurope', diskSkus: { Premium_LRS: 3 } }), [{ name: 'PremiumDiskCount', currentValue: 9, limit: 10 }], VM_SIZES);
+        assert.deepEqual(summarizeQuotaReport([passing]), { passed: true, regions: [passing], shortfalls: [] });
+        assert.deepEqual(summarizeQuotaReport([passing, failing]).shortfalls,
+            [`northeurope (subscription ${SUBSCRIPTION_ID}): PremiumDiskCount needs 3, 1 available of 10 (3 x Premium_LRS disks)`]);
+    });
+});
@@ -0,0 +1,103 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { buildRecoveryPlan } from '../../src/common/recovery-plan';
+import { RecoveryBatch } from '../../src/common/interfaces';
+import { RESOURCE_TYPE_NIC, RESOURCE_TYPE_VM } from '../../src/common/constants';
+import { dataDiskSnapshot, osDiskSnapshot, restoredResource, subnetLocation } from './fixtures';
+
+const PLAN_DATE = new Date(2025, 0, 1, 12, 30);
+
+const batch = (overrides: Partial<RecoveryBatch> = {}): RecoveryBatch => ({
+    targetSubnetIds: [subnetLocation('subnet-a').subnetId],
+    targetResourceGroup: 'rg-restore',
+    maxTimeGenerated: '2025-01-01T12:00:00.000Z',
+    useOriginalIpAddress: true,
+    waitForVmCreationCompletion: true,
+    batchId: 'batch-1',
+    dryRun: true,
+    ...overrides
+});
+
+describe('buildRecoveryPlan', () => {
+    it('describes the VMs that would be restored', () => {
+        const snapshot = osDiskSnapshot('vm1', { targetZone: '2', dataDiskSnapshots: [dataDiskSnapshot('vm1', 0, { diskSku: 'PremiumV2_LRS' })] });
+        const plan = buildRecoveryPlan(batch(), { snapshots: [snapshot], subnetLocations: [subnetLocation('subnet-a')] }, PLAN_DATE);
+        // Compared as JSON, without the optional fields left undefined
+        assert.deepEqual(JSON.parse(JSON.stringify(plan)), {
+            batchId: 'batch-1',
+            targetResourceGroup: 'rg-restore',
+            maxTimeGenerated: '2025-01-01T12:00:00.000Z',
+            vms: [{
+                vmName: 'vm1',
+                snapshotId: snapshot.id,
+                snapshotName: snapshot.snapshotName,
+                snapshotTime: snapshot.timeCreated,
+                location: 'westeurope',
+                targetSubnetId: subnetLocation('subnet-a').subnetId,
+                ipAddress: '10.0.0.4',
+                vmSize: 'Standard_D2s_v5',
+                securityType: 'Standard',
+                nicName: 'vm1-nic',
+                osDiskName: 'vm1-os-disk-20250101T1230',
+                dataDiskNames: ['vm1-data-disk-lun0-20250101T1230'],
+                zone: '2',
+                diskSkus: ['Premium_LRS', 'PremiumV2_LRS']
+            }],
+            skipped: []
+        });
+    });
+
+    it('plans dynamic IP addresses without useOriginalIpAddress', () => {
+        const plan = buildRecoveryPlan(batch({ useOriginalIpAddress: false }), { snapshots: [osDiskSnapshot('vm1')], subnetLocations: [subnetLocation('subnet-a')] }, PLAN_DATE);
+        assert.equal(plan.vms[0].ipAddress, 'Dynamic');
+    });
+
+    it('plans the snapshots restored from a copy in the region of the copy', () => {
+        const snapshot = osDiskSnapshot('vm1', { location: 'northeurope', targetLocation: 'westeurope' });
+        const plan = buildRecoveryPlan(batch(), { snapshots: [snapshot], subnetLocations: [subnetLocation('subnet-a')] }, PLAN_DATE);
+        assert.deepEqual([plan.vms[0].location, plan.vms[0].copiedFrom, plan.vms[0].targetSubnetId], ['westeurope', 'northeurope', subnetLocation('subnet-a').subnetId]);
+    });
+
+    it('skips the snapshots without target subnet in their location', () => {
+        const snapshot = osDiskSnapshot('vm1', { location: 'eastus' });
+        const plan = buildRecoveryPlan(batch(), { snapshots: [snapshot], subnetLocations: [subnetLocation('subnet-a')] }, PLAN_DATE);
+        assert.deepEqual(plan.vms, []);
+        assert.deepEqual(plan.skipped, [{
+            vmName: 'vm1',
+            snapshotId: snapshot.id,
+            snapshotName: snapshot.snapshotName,
+            reason: 'No subnet found in location eastus for snapshot vm1-os-disk-snapshot'
+        }]);
+    });
+
+    it('skips the VMs already restored and lists the resources of the restores to adopt', () => {
+        const restored = osDiskSnapshot('vm1');
+        const partial = osDiskSnapshot('vm2');
+        const existingRestores = new Map([
+            [restored.snapshotName, [restoredResource(RESOURCE_TYPE_VM, 'vm1', restored.snapshotName)]],
+            [partial.snapshotName, [restoredResource(RESOURCE_TYPE_NIC, 'vm2-nic', partial.snapshotName)]]
+        ]);
+        const plan = buildRecoveryPlan(batch({ existingRestoreMode: 'adopt' }), { snapshots: [restored, partial], subnetLocations: [subnetLocation('subnet-a')] }, PLAN_DATE, existingRestores);
+        assert.deepEqual(plan.skipped.map(vm => [vm.vmName, vm.reason]), [['vm1', 'VM vm1 already restored from snapshot vm1-os-disk-snapshot']]);
+        assert.deepEqual(plan.vms.map(vm => [vm.vmName, vm.existingResources, vm.existingRestoreMode]), [['vm2', ['networkinterfaces vm2-nic'], 'adopt']]);
+    });
+
+    it('skips the members of the VM groups without a common snapshot run', () => {
+        const plan = buildRecoveryPlan(batch(), {
+            snapshots: [osDiskSnapshot('web', { vmGroup: 'app' })],
+            subnetLocations: [subnetLocation('subnet-a')],
+            failedGroups: [{ name: 'data', vmNames: ['db1', 'db2'], reason: 'No snapshot found for db2 of VM group data' }]
+        }, PLAN_DATE);
+        assert.deepEqual(plan.vms.map(vm => [vm.vmName, vm.vmGroup]), [['web', 'app']]);
+        assert.deepEqual(plan.skipped, [
+            { vmName: 'db1', snapshotId: null, snapshotName: null, reason: 'No snapshot found for db2 of VM group data' },
+            { vmName: 'db2', snapshotId: null, snapshotName: null, reason: 'No snapshot found for db2 of VM group data' }
+        ]);
+    });
+
+    it('lists the VMs of each wave in restore order', () => {
+        const snapshots = ['web1', 'db1', 'db2'].map(vmName => osDiskSnapshot(vmName));
+        const plan = buildRecoveryPlan(batch({ waves: [{ name: 'data', vmNames: ['db1', 'db2'] }] }), { snapshots, subnetLocations: [subnetLocation('subnet-a')] }, PLAN_DATE);
+        assert.deepEqual(plan.waves, [{ name: 'data', vmNames: ['db1', 'db2'] }, { name: 'default', vmNames: ['web1'] }]);
+    });
+});
@@ -0,0 +1,106 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { assignRestoreNames, validateNameTemplate } from '../../src/common/restore-naming';
+import { RecoverySnapshot, ResourceNameInfo, RestoreNaming } from '../../src/common/interfaces';
+import { RESOURCE_TYPE_NIC, RESOURCE_TYPE_VM } from '../../src/common/constants';
+import { formatDateYYYYMMDDTHHMM } from '../../src/common/utils';
+import { dataDiskSnapshot, osDiskSnapshot, SUBSCRIPTION_ID } from './fixtures';
+
+const BATCH_ID = '6f1c2a1e-0b7d-4f7e-9a43-1d5b8e2c9f10';
+const DATE = new Date('2025-01-01T12:00:00.000Z');
+
+function assign(snapshots: RecoverySnapshot[], naming: RestoreNaming, existing: ResourceNameInfo[] = []) {
+    return assignRestoreNames(snapshots, naming, { [SUBSCRIPTION_ID]: existing }, 'rg-restore', BATCH_ID, DATE);
+}
+
+describe('validateNameTemplate', () => {
+    it('accepts known tokens', () => {
+        assert.deepEqual(validateNameTemplate('{vmName}-restored-{index}', 'vm'), []);
+        assert.deepEqual(validateNameTemplate('{vmName}-{diskProfile}-{lun}', 'disk'), []);
+    });
+
+    it('rejects unknown tokens and disk tokens in VM names', () => {
+        assert.deepEqual(validateNameTemplate('{vmName}-{lun}', 'vm'), ['has unknown tokens {lun} (allowed: {vmName}, {batchId}, {date}, {index})']);
+    });
+
+    it('rejects characters not allowed in Azure names', () => {
+        assert.deepEqual(validateNameTemplate('{vmName} restored', 'nic'), ['may only contain letters, digits, underscores, periods, hyphens and tokens']);
+        assert.deepEqual(validateNameTemplate('', 'vm'), ['must be a non-empty string']);
+    });
+});
+
+describe('assignRestoreNames', () => {
+    it('renders the name templates', () => {
+        const snapshot = osDiskSnapshot('vm1', { dataDiskSnapshots: [dataDiskSnapshot('vm1', 0), dataDiskSnapshot('vm1', 1)] });
+        const { snapshots, failures } = assign([snapshot], { vmName: 'dr-{vmName}-{index}', diskName: 'dr-{vmName}-{diskProfile}' });
+        assert.deepEqual(failures, []);
+        assert.equal(snapshots[0].targetVmName, 'dr-vm1-1');
+        assert.equal(snapshots[0].targetNicName, 'dr-vm1-1-nic');
+        // Data disk names without {lun} get the LUN suffix
+        assert.deepEqual([snapshots[0].targetDiskName, ...snapshots[0].dataDiskSnapshots.map(disk => disk.targetDiskName)],
+            ['dr-vm1-os-disk', 'dr-vm1-data-disk-lun0', 'dr-vm1-data-disk-lun1']);
+    });
+
+    it('names the disks after the restored VM by default', () => {
+        const { snapshots } = assign([osDiskSnapshot('vm1')], { vmName: 'dr-{vmName}' });
+        assert.equal(snapshots[0].targetDiskName, `dr-vm1-os-disk-${formatDateYYYYMMDDTHHMM(DATE)}`);
+    });
+
+    it('keeps the names of the resources restored from the same snapshot', () => {
+        const snapshot = osDiskSnapshot('vm1');
+        const { snapshots, failures } = assign([snapshot], {}, [{ type: RESOURCE_TYPE_VM, name: 'vm1', snapshotName: snapshot.snapshotName }]);
+        assert.deepEqual(failures, []);
+        assert.equal(snapshots[0].targetVmName, 'vm1');
+    });
+
+    it('fails the VMs with a collision by default', () => {
+        const { snapshots, failures } = assign([osDiskSnapshot('vm1')], {}, [{ type: RESOURCE_TYPE_VM, name: 'vm1' }]);
+        assert.deepEqual(snapshots, []);
+        assert.deepEqual(failures.map(failure => failure.message), ['Naming failed: VM name vm1 is already used in resource group rg-restore']);
+    });
+
+    it('appends a suffix until the name is free', () => {
+        const existing = [{ type: RESOURCE_TYPE_VM, name: 'vm1' }, { type: RESOURCE_TYPE_VM, name: 'vm1-1' }, { type: RESOURCE_TYPE_NIC, name: 'vm1-2-nic' }];
+        const { snapshots } = assign([osDiskSnapshot('vm1')], { onCollision: 'suffix' }, existing);
+        assert.equal(snapshots[0].targetVmName, 'vm1-2');
+        assert.equal(snapshots[0].targetNicName, 'vm1-2-nic-1');
+    });
+
+    it('appends a suffix to the names of another VM of the batch', () => {
+        const { snapshots } = assign([osDiskSnapshot('vm1'), osDiskSnapshot('vm2')], { vmName: 'dr', onCollision: 'suffix' });
+        assert.deepEqual(snapshots.map(snapshot => snapshot.targetVmName), ['dr', 'dr-1']);
+    });
+
+    it('replaces only the resources restored by a recovery', () => {
+        const recovered = assign([osDiskSnapshot('vm1')], { onCollision: 'replace' }, [{ type: RESOURCE_TYPE_VM, name: 'vm1', snapshotName: 'vm1-older-snapshot' }]);
+        assert.deepEqual(recovered.failures, []);
+        assert.deepEqual(recovered.snapshots[0].replacedResources, [{ type: 'vm', name: 'vm1', resourceGroup: 'rg-restore' }]);
+
+        const other = assign([osDiskSnapshot('vm1')], { onCollision: 'replace' }, [{ type: RESOURCE_TYPE_VM, name: 'vm1' }]);
+        assert.deepEqual(other.failures.map(failure => failure.message),
+            ['Naming failed: VM name vm1 is already used in resource group rg-restore by a resource not restored by a recovery, which is not replaced']);
+    });
+
+    it('never replaces the resources of another VM of the batch', () => {
+        const { snapshots, failures } = assign([osDiskSnapshot('vm1'), osDiskSnapshot('vm2')], { vmName: 'dr', onCollision: 'replace' });
+        assert.deepEqual(snapshots.map(snapshot => snapshot.vmName), ['vm1']);
+        assert.equal(failures.length, 1);
+        assert.match(failures[0].message, /^Naming failed: VM name dr is already used in resource group rg-restore by VM vm1 of the batch; NIC name dr-nic/);
+    });
+
+    it('rejects names that are not valid Azure names', () => {
+        const { failures } = assign([osDiskSnapshot('vm1')], { vmName: `{vmName}-${'x'.repeat(64)}` });
+        assert.equal(failures.length, 1);
+        assert.match(failures[0].message, /^Naming failed: VM name vm1-x+ is not a valid Azure name/);
+    });
+
+    it('fails the other members of the VM group of a failed VM', () => {
+        const snapshots = [osDiskSnapshot('web', { vmGroup: 'app' }), osDiskSnapshot('db', { vmGroup: 'app' }), osDiskSnapshot('vm3')];
+        const result = assign(snapshots, {}, [{ type: RESOURCE_TYPE_VM, name: 'db' }]);
+        assert.deepEqual(result.snapshots.map(snapshot => snapshot.vmName), ['vm3']);
+        assert.deepEqual(result.failures.map(failure => [failure.vmName, failure.message]), [
+            ['web', 'Naming failed for another member of VM group app'],
+            ['db', 'Naming failed: VM name db is already used in resource group rg-restore']
+        ]);
+    });
+});
@@ -0,0 +1,44 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { describeCompensationOutcome, RestoreTransaction } from '../../src/common/restore-transaction';
+import { TestLogger } from './fixtures';
+
+// Transaction of a restored VM with its NIC and disk, recording the deletions
+function restoreTransaction(deleted: string[], failing: string[] = []): RestoreTransaction {
+    const transaction = new RestoreTransaction(new TestLogger());
+    for (const [type, name] of [['disk', 'vm1-os-disk'], ['nic', 'vm1-nic'], ['vm', 'vm1']] as const) {
+        transaction.register({ type, name, resourceGroup: 'rg-restore' }, async () => {
+            if (failing.includes(name)) {
+                throw new Error('Conflict');
+            }
+            deleted.push(name);
+        });
+    }
+    return transaction;
+}
+
+describe('RestoreTransaction', () => {
+    it('deletes the resources in reverse order of creation', async () => {
+        const deleted: string[] = [];
+        const outcome = await restoreTransaction(deleted).compensate();
+        assert.deepEqual(deleted, ['vm1', 'vm1-nic', 'vm1-os-disk']);
+        assert.deepEqual(outcome.deleted.map(resource => resource.name), ['vm1', 'vm1-nic', 'vm1-os-disk']);
+        assert.equal(describeCompensationOutcome(outcome), 'deleted 3 partial resources');
+    });
+
+    it('goes on deleting after a failed deletion', async () => {
+        const deleted: string[] = [];
+        const outcome = await restoreTransaction(deleted, ['vm1-nic']).compensate('delete');
+        assert.deepEqual(deleted, ['vm1', 'vm1-os-disk']);
+        assert.deepEqual(outcome.failed.map(failure => failure.resource.name), ['vm1-nic']);
+        assert.equal(describeCompensationOutcome(outcome), 'deleted 2 partial resources, failed to delete nic vm1-nic');
+    });
+
+    it('only reports the resources in keep mode', async () => {
+        const deleted: string[] = [];
+        const outcome = await restoreTransaction(deleted).compensate('keep');
+        assert.deepEqual(deleted, []);
+        assert.deepEqual(outcome.kept.map(resource => resource.name), ['vm1-os-disk', 'vm1-nic', 'vm1']);
+        assert.equal(describeCompensationOutcome(outcome), 'kept 3 partial resources');
+    });
+});
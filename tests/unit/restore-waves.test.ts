@@ -0,0 +1,27 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { planRestoreWaves } from '../../src/common/restore-waves';
+import { osDiskSnapshot } from './fixtures';
+
+const snapshots = ['db1', 'app1', 'web1', 'web2'].map(vmName => osDiskSnapshot(vmName));
+const vmNames = (waves: ReturnType<typeof planRestoreWaves>) => waves.map(wave => [wave.name, wave.snapshots.map(snapshot => snapshot.vmName)]);
+
+describe('planRestoreWaves', () => {
+    it('restores all the VMs in the default wave without waves', () => {
+        assert.deepEqual(planRestoreWaves(undefined, snapshots), [{ name: 'default', snapshots, healthGate: false, delayAfterSeconds: 0 }]);
+    });
+
+    it('splits the VMs into the waves in order, with the VMs without wave last', () => {
+        const waves = planRestoreWaves([
+            { name: 'data', vmNames: ['db1'] },
+            { name: 'apps', vmNames: ['app1'], healthGate: false, delayAfterSeconds: 300 }
+        ], snapshots);
+        assert.deepEqual(vmNames(waves), [['data', ['db1']], ['apps', ['app1']], ['default', ['web1', 'web2']]]);
+        assert.deepEqual(waves.map(wave => [wave.healthGate, wave.delayAfterSeconds]), [[true, 0], [false, 300], [false, 0]]);
+    });
+
+    it('keeps the waves without VMs to restore and adds no default wave when every VM has a wave', () => {
+        const waves = planRestoreWaves([{ name: 'data', vmNames: ['db2'] }, { name: 'all', vmNames: ['db1', 'app1', 'web1', 'web2'] }], snapshots);
+        assert.deepEqual(vmNames(waves), [['data', []], ['all', ['db1', 'app1', 'web1', 'web2']]]);
+    });
+});
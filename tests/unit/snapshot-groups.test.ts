@@ -0,0 +1,70 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { describeVmGroupRun, findVmGroupRun, failedVmGroupResults } from '../../src/common/snapshot-groups';
+import { SnapshotSelection } from '../../src/common/interfaces';
+import { osDiskSnapshot } from './fixtures';
+
+const NOW = new Date('2025-01-02T00:00:00.000Z');
+
+describe('findVmGroupRun', () => {
+    const group = { name: 'app', vmNames: ['web', 'db'] };
+    const latest: SnapshotSelection = { policy: 'latest', time: NOW.toISOString() };
+    const snapshot = (vmName: string, timeCreated: string, runId?: string) =>
+        osDiskSnapshot(vmName, { snapshotName: `${vmName}-${timeCreated}`, timeCreated, runId });
+
+    it('selects the most recent run shared by all members', () => {
+        const run = findVmGroupRun(group, [
+            snapshot('web', '2025-01-01T10:00:00.000Z', 'run1'),
+            snapshot('db', '2025-01-01T10:01:00.000Z', 'run1'),
+            snapshot('web', '2025-01-01T11:00:00.000Z', 'run2'),
+            snapshot('db', '2025-01-01T11:01:00.000Z', 'run2'),
+            snapshot('web', '2025-01-01T12:00:00.000Z', 'run3')
+        ], latest, 300);
+        assert.ok(!('error' in run));
+        assert.equal(run.runId, 'run2');
+        assert.deepEqual(run.snapshots.map(s => s.snapshotName), ['web-2025-01-01T11:00:00.000Z', 'db-2025-01-01T11:01:00.000Z']);
+    });
+
+    it('selects the run nearest to the selection time', () => {
+        const run = findVmGroupRun(group, [
+            snapshot('web', '2025-01-01T10:00:00.000Z', 'run1'),
+            snapshot('db', '2025-01-01T10:01:00.000Z', 'run1'),
+            snapshot('web', '2025-01-01T11:00:00.000Z', 'run2'),
+            snapshot('db', '2025-01-01T11:01:00.000Z', 'run2')
+        ], { policy: 'nearest', time: '2025-01-01T10:10:00.000Z' }, 300);
+        assert.ok(!('error' in run));
+        assert.equal(run.runId, 'run1');
+    });
+
+    it('matches snapshots without run ID within the tolerance', () => {
+        const run = findVmGroupRun(group, [
+            snapshot('web', '2025-01-01T10:00:00.000Z'),
+            snapshot('db', '2025-01-01T10:04:00.000Z'),
+            snapshot('web', '2025-01-01T11:00:00.000Z'),
+            snapshot('db', '2025-01-01T11:20:00.000Z')
+        ], latest, 300);
+        assert.ok(!('error' in run));
+        assert.equal(run.runId, undefined);
+        assert.equal(run.runTime, new Date('2025-01-01T10:04:00.000Z').getTime());
+        assert.equal(describeVmGroupRun(group, run), 'group app snapshots at 2025-01-01T10:04:00.000Z');
+    });
+
+    it('fails a group with a member without snapshot', () => {
+        assert.deepEqual(findVmGroupRun(group, [snapshot('web', '2025-01-01T10:00:00.000Z')], latest, 300), { error: 'No snapshot found for db of VM group app' });
+    });
+
+    it('fails a group without a common run', () => {
+        const run = findVmGroupRun(group, [snapshot('web', '2025-01-01T10:00:00.000Z'), snapshot('db', '2025-01-01T11:00:00.000Z')], latest, 300);
+        assert.deepEqual(run, { error: 'No snapshot run with all the members of VM group app (same run ID or within 300s)' });
+    });
+});
+
+describe('failedVmGroupResults', () => {
+    it('fails every member of the failed groups', () => {
+        const results = failedVmGroupResults([{ name: 'app', vmNames: ['web', 'db'], reason: 'No common run' }]);
+        assert.deepEqual(results.map(result => [result.vmName, result.success, result.vmGroup, result.message]), [
+            ['web', false, 'app', 'No common run'],
+            ['db', false, 'app', 'No common run']
+        ]);
+    });
+});
@@ -0,0 +1,79 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { groupVmSnapshotSelections, resolveSelectionTime, resolveSnapshotSelection, validateSnapshotSelection } from '../../src/common/snapshot-selection';
+import { osDiskSnapshot } from './fixtures';
+
+const NOW = new Date('2025-01-02T00:00:00.000Z');
+
+describe('resolveSelectionTime', () => {
+    it('resolves latest to now', () => {
+        assert.equal(resolveSelectionTime('latest', NOW), NOW.toISOString());
+    });
+
+    it('resolves relative times before now', () => {
+        assert.equal(resolveSelectionTime('-30m', NOW), '2025-01-01T23:30:00.000Z');
+        assert.equal(resolveSelectionTime('-6h', NOW), '2025-01-01T18:00:00.000Z');
+        assert.equal(resolveSelectionTime('-2d', NOW), '2024-12-31T00:00:00.000Z');
+    });
+
+    it('normalizes ISO datetimes', () => {
+        assert.equal(resolveSelectionTime('2025-01-01T10:00:00Z', NOW), '2025-01-01T10:00:00.000Z');
+    });
+
+    it('rejects invalid expressions', () => {
+        assert.equal(resolveSelectionTime('', NOW), undefined);
+        assert.equal(resolveSelectionTime('+6h', NOW), undefined);
+        assert.equal(resolveSelectionTime('yesterday', NOW), undefined);
+    });
+});
+
+describe('validateSnapshotSelection', () => {
+    it('accepts valid selections', () => {
+        assert.deepEqual(validateSnapshotSelection({ policy: 'latest' }, 'snapshotSelection'), []);
+        assert.deepEqual(validateSnapshotSelection({ policy: 'nearest', time: '-6h' }, 'snapshotSelection'), []);
+        assert.deepEqual(validateSnapshotSelection({ policy: 'window', minTime: '-2d', maxTime: '-1d' }, 'snapshotSelection'), []);
+        assert.deepEqual(validateSnapshotSelection({ policy: 'pinned', snapshotId: osDiskSnapshot('vm1').id }, 'snapshotSelection'), []);
+    });
+
+    it('rejects unknown policies', () => {
+        assert.deepEqual(validateSnapshotSelection({ policy: 'oldest' }, 'snapshotSelection'), ["snapshotSelection.policy must be one of 'latest', 'nearest', 'window', 'pinned'"]);
+    });
+
+    it('requires the times of the policy', () => {
+        assert.deepEqual(validateSnapshotSelection({ policy: 'nearest' }, 'snapshotSelection'), ["snapshotSelection.time is required for the 'nearest' policy"]);
+        assert.equal(validateSnapshotSelection({ policy: 'window', minTime: '-1d' }, 'snapshotSelection').length, 1);
+    });
+
+    it('rejects a window ending before it starts', () => {
+        assert.deepEqual(validateSnapshotSelection({ policy: 'window', minTime: '-1d', maxTime: '-2d' }, 'snapshotSelection'), ['snapshotSelection.minTime must be before snapshotSelection.maxTime']);
+    });
+
+    it('requires a snapshot resource ID for the pinned policy', () => {
+        assert.deepEqual(validateSnapshotSelection({ policy: 'pinned', snapshotId: 'vm1-snapshot' }, 'snapshotSelection'), ["snapshotSelection.snapshotId must be a snapshot resource ID for the 'pinned' policy"]);
+    });
+});
+
+describe('resolveSnapshotSelection', () => {
+    it('defaults to the latest snapshot at or before maxTimeGenerated', () => {
+        assert.deepEqual(resolveSnapshotSelection(undefined, '2025-01-01T06:00:00Z', NOW), { policy: 'latest', time: '2025-01-01T06:00:00.000Z' });
+    });
+
+    it('resolves the relative times of a window', () => {
+        assert.deepEqual(resolveSnapshotSelection({ policy: 'window', minTime: '-2d', maxTime: '-1d' }, '2025-01-01T06:00:00Z', NOW),
+            { policy: 'window', minTime: '2024-12-31T00:00:00.000Z', maxTime: '2025-01-01T00:00:00.000Z' });
+    });
+});
+
+describe('groupVmSnapshotSelections', () => {
+    it('groups the VMs sharing a resolved selection', () => {
+        const groups = groupVmSnapshotSelections([
+            { vmName: 'vm1', policy: 'nearest', time: '2025-01-01T10:00:00.000Z' },
+            { vmName: 'vm2', policy: 'latest', time: '2025-01-01T06:00:00.000Z' },
+            { vmName: 'vm3', policy: 'nearest', time: '2025-01-01T10:00:00.000Z' }
+        ]);
+        assert.deepEqual([...groups.values()], [
+            { selection: { policy: 'nearest', time: '2025-01-01T10:00:00.000Z' }, vmNames: ['vm1', 'vm3'] },
+            { selection: { policy: 'latest', time: '2025-01-01T06:00:00.000Z' }, vmNames: ['vm2'] }
+        ]);
+    });
+});
@@ -0,0 +1,42 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { groupSnapshotsByVm } from '../../src/common/snapshot-utils';
+import { dataDiskSnapshot, osDiskSnapshot, TestLogger } from './fixtures';
+
+describe('groupSnapshotsByVm', () => {
+    it('restores the most recent OS disk snapshot of each VM', () => {
+        const grouped = groupSnapshotsByVm([
+            osDiskSnapshot('vm1', { snapshotName: 'vm1-old', timeCreated: '2025-01-01T10:00:00.000Z' }),
+            osDiskSnapshot('vm1', { snapshotName: 'vm1-new', timeCreated: '2025-01-01T12:00:00.000Z' }),
+            osDiskSnapshot('vm2')
+        ], new TestLogger());
+        assert.deepEqual(grouped.map(snapshot => [snapshot.snapshotName, snapshot.dataDiskSnapshots]), [['vm1-new', []], ['vm2-os-disk-snapshot', []]]);
+    });
+
+    it('attaches the data disk snapshot closest to the OS disk snapshot for each LUN, in LUN order', () => {
+        const grouped = groupSnapshotsByVm([
+            dataDiskSnapshot('vm1', 1, { snapshotName: 'lun1', timeCreated: '2025-01-01T12:01:00.000Z' }),
+            dataDiskSnapshot('vm1', 0, { snapshotName: 'lun0-far', timeCreated: '2025-01-01T09:00:00.000Z' }),
+            dataDiskSnapshot('vm1', 0, { snapshotName: 'lun0-near', timeCreated: '2025-01-01T11:59:00.000Z' }),
+            osDiskSnapshot('vm1')
+        ], new TestLogger());
+        assert.deepEqual(grouped[0].dataDiskSnapshots.map(disk => [disk.lun, disk.snapshotName]), [[0, 'lun0-near'], [1, 'lun1']]);
+    });
+
+    it('attaches the data disk snapshots without LUN to the next free LUN', () => {
+        const logger = new TestLogger();
+        const grouped = groupSnapshotsByVm([
+            osDiskSnapshot('vm1'),
+            dataDiskSnapshot('vm1', 0),
+            dataDiskSnapshot('vm1', undefined, { snapshotName: 'no-lun' })
+        ], logger);
+        assert.deepEqual(grouped[0].dataDiskSnapshots.map(disk => [disk.lun, disk.snapshotName]), [[0, 'vm1-data-disk-lun0-snapshot'], [1, 'no-lun']]);
+        assert.deepEqual(logger.warnings(), ['Data disk snapshot no-lun of VM vm1 has no LUN, attaching it to LUN 1']);
+    });
+
+    it('discards the data disk snapshots of VMs without OS disk snapshot', () => {
+        const logger = new TestLogger();
+        assert.deepEqual(groupSnapshotsByVm([dataDiskSnapshot('vm1', 0)], logger), []);
+        assert.deepEqual(logger.warnings(), ['Skipping 1 data disk snapshot(s) of VM vm1: no OS disk snapshot found']);
+    });
+});
@@ -0,0 +1,55 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { distributeSubnets, listSubnetsToDistribute } from '../../src/common/subnet-distribution';
+import { SubnetCapacity, SubnetMapping } from '../../src/common/interfaces';
+import { osDiskSnapshot, subnetLocation } from './fixtures';
+
+const subnetA = subnetLocation('subnet-a');
+const subnetB = subnetLocation('subnet-b');
+const subnetEast = subnetLocation('subnet-east', 'eastus');
+const sourceSubnetId = (vnet: string, subnet: string) =>
+    `/subscriptions/00000000-0000-0000-0000-000000000002/resourceGroups/rg/providers/Microsoft.Network/virtualNetworks/${vnet}/subnets/${subnet}`;
+
+// A /29 subnet has 3 usable addresses (Azure reserves 5)
+const capacity = (subnetId: string, usedIpAddresses: number): SubnetCapacity => ({ subnetId, addressPrefixes: ['10.0.0.0/29'], usedIpAddresses });
+
+describe('listSubnetsToDistribute', () => {
+    it('lists the subnets of the regions with several target subnets', () => {
+        const snapshots = [osDiskSnapshot('vm1'), osDiskSnapshot('vm2', { location: 'eastus' })];
+        assert.deepEqual(listSubnetsToDistribute(snapshots, [subnetA, subnetB, subnetEast]), [subnetA.subnetId, subnetB.subnetId]);
+    });
+});
+
+describe('distributeSubnets', () => {
+    const snapshots = ['vm1', 'vm2', 'vm3', 'vm4'].map(vmName => osDiskSnapshot(vmName));
+    const targetSubnets = (result: typeof snapshots) => result.map(snapshot => snapshot.targetSubnetId);
+
+    it('fills the first subnet before the next one', () => {
+        const result = distributeSubnets(snapshots, [subnetA, subnetB], [capacity(subnetA.subnetId, 1), capacity(subnetB.subnetId, 0)]);
+        assert.deepEqual(targetSubnets(result), [subnetA.subnetId, subnetA.subnetId, subnetB.subnetId, subnetB.subnetId]);
+    });
+
+    it('takes the subnets in turn in round-robin mode', () => {
+        const result = distributeSubnets(snapshots, [subnetA, subnetB], [], 'round-robin');
+        assert.deepEqual(targetSubnets(result), [subnetA.subnetId, subnetB.subnetId, subnetA.subnetId, subnetB.subnetId]);
+    });
+
+    it('skips the subnets without free IP address in round-robin mode', () => {
+        const result = distributeSubnets(snapshots, [subnetA, subnetB], [capacity(subnetA.subnetId, 2)], 'round-robin');
+        assert.deepEqual(targetSubnets(result), [subnetA.subnetId, subnetB.subnetId, subnetB.subnetId, subnetB.subnetId]);
+    });
+
+    it('assigns the first subnet when no subnet has a free IP address', () => {
+        const result = distributeSubnets(snapshots.slice(0, 1), [subnetA, subnetB], [capacity(subnetA.subnetId, 3), capacity(subnetB.subnetId, 3)]);
+        assert.deepEqual(targetSubnets(result), [subnetA.subnetId]);
+    });
+
+    it('leaves the VMs of regions with one subnet and the mapped VMs unassigned', () => {
+        const mapped = osDiskSnapshot('db1', { sourceSubnetId: sourceSubnetId('vnet-prod', 'db') });
+        const east = osDiskSnapshot('vm5', { location: 'eastus' });
+        const mapping: SubnetMapping = { rules: [{ match: 'prefix', pattern: 'vnet-prod/db', targetSubnetId: subnetA.subnetId }] };
+        // The mapped VM takes the last free IP address of subnet-a
+        const result = distributeSubnets([mapped, east, ...snapshots.slice(0, 1)], [subnetA, subnetB, subnetEast], [capacity(subnetA.subnetId, 2)], 'fill-first', mapping);
+        assert.deepEqual(targetSubnets(result), [undefined, undefined, subnetB.subnetId]);
+    });
+});
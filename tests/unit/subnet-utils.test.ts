@@ -0,0 +1,61 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { findMappedSubnet, findSubnetForSnapshot, getSourceSubnet, matchesSubnetRule } from '../../src/common/subnet-utils';
+import { SubnetMapping } from '../../src/common/interfaces';
+import { osDiskSnapshot, subnetLocation } from './fixtures';
+
+const subnetA = subnetLocation('subnet-a');
+const subnetB = subnetLocation('subnet-b');
+const subnetEast = subnetLocation('subnet-east', 'eastus');
+const sourceSubnetId = (vnet: string, subnet: string) =>
+    `/subscriptions/00000000-0000-0000-0000-000000000002/resourceGroups/rg/providers/Microsoft.Network/virtualNetworks/${vnet}/subnets/${subnet}`;
+
+describe('getSourceSubnet and matchesSubnetRule', () => {
+    it('reads the source VNet and subnet of a snapshot', () => {
+        assert.equal(getSourceSubnet(osDiskSnapshot('vm1', { sourceSubnetId: sourceSubnetId('vnet-prod', 'web') })), 'vnet-prod/web');
+        assert.equal(getSourceSubnet(osDiskSnapshot('vm1')), undefined);
+    });
+
+    it('matches prefixes and regular expressions case-insensitively', () => {
+        assert.ok(matchesSubnetRule({ match: 'prefix', pattern: 'VNET-PROD/', targetSubnetId: subnetA.subnetId }, 'vnet-prod/web'));
+        assert.ok(matchesSubnetRule({ match: 'regex', pattern: '/(web|app)$', targetSubnetId: subnetA.subnetId }, 'vnet-prod/App'));
+        assert.ok(!matchesSubnetRule({ match: 'regex', pattern: '/(web|app)$', targetSubnetId: subnetA.subnetId }, 'vnet-prod/db'));
+        assert.ok(!matchesSubnetRule({ match: 'prefix', pattern: '', targetSubnetId: subnetA.subnetId }, undefined));
+    });
+});
+
+describe('findSubnetForSnapshot', () => {
+    const mapping: SubnetMapping = {
+        rules: [
+            { match: 'prefix', pattern: 'vnet-prod/db', targetSubnetId: subnetB.subnetId },
+            { match: 'prefix', pattern: 'vnet-prod/', targetSubnetId: subnetEast.subnetId }
+        ],
+        defaultSubnetId: subnetB.subnetId
+    };
+
+    it('takes the first subnet of the restore location without mapping', () => {
+        assert.equal(findSubnetForSnapshot(osDiskSnapshot('vm1'), [subnetEast, subnetA, subnetB]), subnetA);
+        assert.equal(findSubnetForSnapshot(osDiskSnapshot('vm1', { targetLocation: 'eastus' }), [subnetA, subnetEast]), subnetEast);
+        assert.equal(findSubnetForSnapshot(osDiskSnapshot('vm1', { location: 'northeurope' }), [subnetA]), undefined);
+    });
+
+    it('takes the subnet assigned by the distribution first', () => {
+        assert.equal(findSubnetForSnapshot(osDiskSnapshot('vm1', { targetSubnetId: subnetB.subnetId }), [subnetA, subnetB], mapping), subnetB);
+    });
+
+    it('takes the first matching rule with a subnet in the restore location, or the default subnet', () => {
+        const subnets = [subnetA, subnetB, subnetEast];
+        assert.equal(findSubnetForSnapshot(osDiskSnapshot('db1', { sourceSubnetId: sourceSubnetId('vnet-prod', 'db') }), subnets, mapping), subnetB);
+        assert.equal(findSubnetForSnapshot(osDiskSnapshot('web1', { sourceSubnetId: sourceSubnetId('vnet-prod', 'web') }), subnets, mapping), subnetB);
+        assert.equal(findSubnetForSnapshot(osDiskSnapshot('web1', { sourceSubnetId: sourceSubnetId('vnet-prod', 'web') }), subnets, { rules: mapping.rules }), subnetA);
+    });
+});
+
+describe('findMappedSubnet', () => {
+    it('returns no subnet without mapping or without rule or default subnet in the location', () => {
+        const snapshot = osDiskSnapshot('web1', { sourceSubnetId: sourceSubnetId('vnet-prod', 'web') });
+        assert.equal(findMappedSubnet(snapshot, [subnetA, subnetB]), undefined);
+        assert.equal(findMappedSubnet(snapshot, [subnetA, subnetB], { rules: [{ match: 'prefix', pattern: 'vnet-prod/', targetSubnetId: subnetEast.subnetId }] }), undefined);
+        assert.equal(findMappedSubnet(snapshot, [subnetA, subnetB], { rules: [], defaultSubnetId: subnetB.subnetId.toUpperCase() }), subnetB);
+    });
+});
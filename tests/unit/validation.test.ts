@@ -0,0 +1,161 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { sanitizeBatchOrchestratorInput, validateBatchOrchestratorInput } from '../../src/common/validation';
+import { subnetLocation } from './fixtures';
+
+// Minimal valid recovery batch
+const validBatch = (overrides: { [field: string]: any } = {}) => ({
+    targetSubnetIds: [subnetLocation('subnet-a').subnetId],
+    targetResourceGroup: 'rg-restore',
+    maxTimeGenerated: '2025-01-01T12:00:00.000Z',
+    useOriginalIpAddress: false,
+    waitForVmCreationCompletion: true,
+    ...overrides
+});
+
+// Validation error message of a batch (undefined if valid)
+function validationError(overrides: { [field: string]: any }): string | undefined {
+    try {
+        validateBatchOrchestratorInput(validBatch(overrides));
+        return undefined;
+    } catch (error) {
+        return error.message;
+    }
+}
+
+describe('validateBatchOrchestratorInput', () => {
+    it('accepts a valid batch', () => {
+        assert.equal(validationError({}), undefined);
+    });
+
+    it('validates dryRun', () => {
+        assert.equal(validateBatchOrchestratorInput(validBatch({ dryRun: true })).dryRun, true);
+        assert.equal(validationError({ dryRun: 'yes' }), 'Invalid BatchOrchestratorInput: dryRun must be a boolean (true or false) if provided');
+    });
+
+    it('validates compensationMode', () => {
+        assert.equal(validateBatchOrchestratorInput(validBatch({ compensationMode: 'keep' })).compensationMode, 'keep');
+        assert.equal(validationError({ compensationMode: 'rollback' }), "Invalid BatchOrchestratorInput: compensationMode must be 'delete' or 'keep' if provided");
+    });
+
+    it('validates existingRestoreMode', () => {
+        assert.equal(validateBatchOrchestratorInput(validBatch({ existingRestoreMode: 'replace' })).existingRestoreMode, 'replace');
+        assert.equal(validationError({ existingRestoreMode: 'overwrite' }), "Invalid BatchOrchestratorInput: existingRestoreMode must be 'skip', 'adopt' or 'replace' if provided");
+    });
+
+    it('validates retryBatchId', () => {
+        assert.equal(validateBatchOrchestratorInput(validBatch({ retryBatchId: '6f1c2a1e-0b7d-4f7e-9a43-1d5b8e2c9f10' })).retryBatchId, '6f1c2a1e-0b7d-4f7e-9a43-1d5b8e2c9f10');
+        assert.equal(validationError({ retryBatchId: 42 }), 'Invalid BatchOrchestratorInput: retryBatchId must be a batch Id (GUID) if provided');
+        assert.equal(validationError({ retryBatchId: "x' or 1 == 1" }), 'Invalid BatchOrchestratorInput: retryBatchId must be a batch Id (GUID) if provided');
+    });
+
+    it('validates the batch and per-VM snapshot selections', () => {
+        const vmSnapshotSelections = [{ vmName: 'vm1', policy: 'nearest', time: '-6h' }];
+        assert.deepEqual(validateBatchOrchestratorInput(validBatch({ snapshotSelection: { policy: 'window', minTime: '-2d', maxTime: '-1d' }, vmSnapshotSelections })).vmSnapshotSelections, vmSnapshotSelections);
+        assert.equal(validationError({ snapshotSelection: { policy: 'nearest' }, vmSnapshotSelections: [{ policy: 'latest' }] }),
+            "Invalid BatchOrchestratorInput: snapshotSelection.time is required for the 'nearest' policy, vmSnapshotSelections[0].vmName must be a non-empty string");
+        assert.equal(validationError({ vmSnapshotSelections: { vm1: 'latest' } }), 'Invalid BatchOrchestratorInput: vmSnapshotSelections must be an array if provided');
+    });
+
+    it('validates the VM groups', () => {
+        assert.equal(validationError({ vmGroups: [{ name: 'app', vmNames: ['web', 'db'], toleranceSeconds: 120 }] }), undefined);
+        assert.equal(validationError({ vmGroups: [{ name: '', vmNames: [] }] }),
+            'Invalid BatchOrchestratorInput: vmGroups[0].name must be a non-empty string, vmGroups[0].vmNames must be a non-empty array of VM names');
+        assert.equal(validationError({ vmGroups: [{ name: 'app', vmNames: ['web'], toleranceSeconds: -1 }] }),
+            'Invalid BatchOrchestratorInput: vmGroups[0].toleranceSeconds must be a non-negative number if provided');
+    });
+
+    it('rejects VMs in several groups or with their own snapshot selection', () => {
+        assert.equal(validationError({
+            vmGroups: [{ name: 'app', vmNames: ['web', 'db'] }, { name: 'data', vmNames: ['db'] }],
+            vmSnapshotSelections: [{ vmName: 'web', policy: 'latest' }]
+        }), 'Invalid BatchOrchestratorInput: VM web of vmGroups[0] cannot also have a vmSnapshotSelections entry, VM db cannot belong to more than one VM group');
+        assert.equal(validationError({ vmGroups: [{ name: 'app', vmNames: ['web'] }], snapshotSelection: { policy: 'pinned', snapshotId: '/subscriptions/s/resourceGroups/rg/providers/Microsoft.Compute/snapshots/web' } }),
+            "Invalid BatchOrchestratorInput: vmGroups cannot be used with a 'pinned' snapshotSelection");
+    });
+
+    it('validates the restore waves', () => {
+        assert.equal(validationError({ waves: [{ name: 'data', vmNames: ['db1'], healthGate: false, delayAfterSeconds: 60 }, { name: 'apps', vmNames: ['app1'] }] }), undefined);
+        assert.equal(validationError({ waves: [{ name: 'data', vmNames: ['db1'], healthGate: 'yes', delayAfterSeconds: -1 }, { name: 'apps', vmNames: ['db1'] }] }),
+            'Invalid BatchOrchestratorInput: waves[0].healthGate must be a boolean if provided, waves[0].delayAfterSeconds must be a non-negative number if provided, VM db1 cannot belong to more than one wave');
+        assert.equal(validationError({ waves: [{ vmNames: 'db1' }] }),
+            'Invalid BatchOrchestratorInput: waves[0].name must be a non-empty string, waves[0].vmNames must be a non-empty array of VM names');
+    });
+
+    it('validates quotaCheck', () => {
+        assert.equal(validateBatchOrchestratorInput(validBatch({ quotaCheck: 'warn' })).quotaCheck, 'warn');
+        assert.equal(validationError({ quotaCheck: 'ignore' }), "Invalid BatchOrchestratorInput: quotaCheck must be 'enforce', 'warn' or 'skip' if provided");
+    });
+
+    it('validates preflightCheck', () => {
+        assert.equal(validateBatchOrchestratorInput(validBatch({ preflightCheck: 'skip' })).preflightCheck, 'skip');
+        assert.equal(validationError({ preflightCheck: true }), "Invalid BatchOrchestratorInput: preflightCheck must be 'enforce', 'warn' or 'skip' if provided");
+    });
+
+    it('validates the VM size mapping', () => {
+        assert.equal(validationError({ vmSizeMapping: { overrides: { Standard_D4s_v3: 'Standard_D4s_v5' }, fallbacks: { Standard_D4s_v5: ['Standard_D4s_v4'] }, familyFallback: true, drill: { vCpuRatio: 0.5, minVCpus: 2 } } }), undefined);
+        assert.equal(validationError({ vmSizeMapping: [] }), 'Invalid BatchOrchestratorInput: vmSizeMapping must be an object if provided');
+        assert.equal(validationError({ vmSizeMapping: { overrides: { Standard_D4s_v3: '' }, fallbacks: { Standard_D4s_v5: 'Standard_D4s_v4' }, familyFallback: 'yes', drill: { vCpuRatio: 2, minVCpus: 0 } } }),
+            'Invalid BatchOrchestratorInput: vmSizeMapping.overrides must map source VM sizes to VM sizes, vmSizeMapping.fallbacks must map VM sizes to arrays of VM sizes, ' +
+            'vmSizeMapping.familyFallback must be a boolean if provided, vmSizeMapping.drill.vCpuRatio must be a number greater than 0 and at most 1 if provided, ' +
+            'vmSizeMapping.drill.minVCpus must be a positive integer if provided');
+    });
+
+    it('validates the zone placement', () => {
+        assert.equal(validationError({ zonePlacement: { mode: 'spread', zones: ['1', '2'], vmZones: { db1: '3', app1: '' } } }), undefined);
+        assert.equal(validationError({ zonePlacement: { mode: 'fixed' } }), "Invalid BatchOrchestratorInput: zonePlacement.zone must be a zone number (e.g. '1') with the 'fixed' mode");
+        assert.equal(validationError({ zonePlacement: { mode: 'any', zones: [], vmZones: { db1: 'zone1' } } }),
+            "Invalid BatchOrchestratorInput: zonePlacement.mode must be 'source', 'fixed', 'spread' or 'regional', " +
+            "zonePlacement.zones must be a non-empty array of zone numbers (e.g. ['1', '2']) if provided, zonePlacement.vmZones must map VM names to zone numbers ('' for regional)");
+    });
+
+    it('validates the cross-region restore', () => {
+        assert.equal(validationError({ crossRegion: { sourceRegions: ['northeurope'], targetRegions: { northeurope: 'westeurope' }, deleteCopies: true } }), undefined);
+        assert.equal(validationError({ crossRegion: { sourceRegions: [], targetRegions: { northeurope: '' }, deleteCopies: 'no' } }),
+            'Invalid BatchOrchestratorInput: crossRegion.sourceRegions must be a non-empty array of region names, ' +
+            'crossRegion.targetRegions must map source regions to target region names if provided, crossRegion.deleteCopies must be a boolean if provided');
+    });
+
+    it('validates the subnet mapping rules against the target subnets', () => {
+        const subnetA = subnetLocation('subnet-a').subnetId;
+        assert.equal(validationError({ subnetMapping: { rules: [{ match: 'regex', pattern: '^vnet-prod/', targetSubnetId: subnetA.toUpperCase() }], defaultSubnetId: subnetA } }), undefined);
+        assert.equal(validationError({ subnetMapping: { rules: {} } }), 'Invalid BatchOrchestratorInput: subnetMapping.rules must be an array');
+        assert.equal(validationError({ subnetMapping: { rules: [{ match: 'glob', pattern: '', targetSubnetId: subnetA }, { match: 'regex', pattern: '(', targetSubnetId: 'subnet-b' }], defaultSubnetId: 'subnet-b' } }),
+            "Invalid BatchOrchestratorInput: subnetMapping.rules[0].match must be 'prefix' or 'regex', subnetMapping.rules[0].pattern must be a non-empty string, " +
+            'subnetMapping.rules[1].pattern is not a valid regular expression: Invalid regular expression: /(/i: Unterminated group, ' +
+            'subnetMapping.rules[1].targetSubnetId must be one of targetSubnetIds, subnetMapping.defaultSubnetId must be one of targetSubnetIds if provided');
+    });
+
+    it('validates subnetDistribution', () => {
+        assert.equal(validateBatchOrchestratorInput(validBatch({ subnetDistribution: 'round-robin' })).subnetDistribution, 'round-robin');
+        assert.equal(validationError({ subnetDistribution: 'random' }), "Invalid BatchOrchestratorInput: subnetDistribution must be 'fill-first' or 'round-robin' if provided");
+    });
+
+    it('validates the name templates', () => {
+        assert.equal(validationError({ naming: { vmName: 'dr-{vmName}', nicName: '{vmName}-nic-{index}', diskName: '{vmName}-{diskProfile}-{lun}', onCollision: 'suffix' } }), undefined);
+        assert.equal(validationError({ naming: { vmName: '{vmName}-{lun}', diskName: '{vmName} disk', onCollision: 'overwrite' } }),
+            'Invalid BatchOrchestratorInput: naming.vmName has unknown tokens {lun} (allowed: {vmName}, {batchId}, {date}, {index}), ' +
+            "naming.diskName may only contain letters, digits, underscores, periods, hyphens and tokens, naming.onCollision must be 'suffix', 'fail' or 'replace' if provided");
+    });
+
+    it('validates waitForVmCreationOutcomes', () => {
+        assert.equal(validateBatchOrchestratorInput(validBatch({ waitForVmCreationCompletion: false, waitForVmCreationOutcomes: true })).waitForVmCreationOutcomes, true);
+        assert.equal(validationError({ waitForVmCreationOutcomes: 'yes' }), 'Invalid BatchOrchestratorInput: waitForVmCreationOutcomes must be a boolean (true or false) if provided');
+    });
+});
+
+describe('sanitizeBatchOrchestratorInput', () => {
+    it('converts dryRun to a boolean only if requested', () => {
+        assert.equal(sanitizeBatchOrchestratorInput(validBatch({ dryRun: 'true' })).dryRun, true);
+        assert.equal(sanitizeBatchOrchestratorInput(validBatch()).dryRun, undefined);
+    });
+
+    it('converts waitForVmCreationOutcomes to a boolean only if requested', () => {
+        assert.equal(sanitizeBatchOrchestratorInput(validBatch({ waitForVmCreationOutcomes: 1 })).waitForVmCreationOutcomes, true);
+        assert.equal(sanitizeBatchOrchestratorInput(validBatch()).waitForVmCreationOutcomes, undefined);
+    });
+
+    it('trims retryBatchId', () => {
+        assert.equal(sanitizeBatchOrchestratorInput(validBatch({ retryBatchId: ' 6f1c2a1e-0b7d-4f7e-9a43-1d5b8e2c9f10 ' })).retryBatchId, '6f1c2a1e-0b7d-4f7e-9a43-1d5b8e2c9f10');
+    });
+});
@@ -0,0 +1,47 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { resolveVmSize } from '../../src/common/vm-size-mapping';
+import { VmSizeInfo } from '../../src/common/interfaces';
+
+const OFFERED: VmSizeInfo[] = [
+    { name: 'Standard_D2s_v5', family: 'standardDSv5Family', vCpus: 2 },
+    { name: 'Standard_D4s_v5', family: 'standardDSv5Family', vCpus: 4 },
+    { name: 'Standard_D8s_v5', family: 'standardDSv5Family', vCpus: 8 },
+    { name: 'Standard_D4s_v4', family: 'standardDSv4Family', vCpus: 4 },
+    { name: 'Standard_E4s_v5', family: 'standardESv5Family', vCpus: 4 }
+];
+
+describe('resolveVmSize', () => {
+    it('restores the source size without mapping rules', () => {
+        assert.deepEqual(resolveVmSize('Standard_D4s_v5', undefined, OFFERED), { vmSize: 'Standard_D4s_v5', rule: 'source' });
+    });
+
+    it('applies the overrides case-insensitively, even without offered sizes', () => {
+        assert.deepEqual(resolveVmSize('standard_d4s_v5', { overrides: { Standard_D4s_v5: 'Standard_E4s_v5' } }),
+            { vmSize: 'Standard_E4s_v5', rule: 'override', message: 'VM size standard_d4s_v5 overridden with Standard_E4s_v5' });
+    });
+
+    it('downsizes for drills to the smallest size of the family with enough vCPUs', () => {
+        assert.deepEqual(resolveVmSize('Standard_D8s_v5', { drill: {} }, OFFERED),
+            { vmSize: 'Standard_D4s_v5', rule: 'drill', message: 'VM size Standard_D8s_v5 downsized for drill to Standard_D4s_v5 (4 of 8 vCPUs)' });
+        assert.equal(resolveVmSize('Standard_D8s_v5', { drill: { vCpuRatio: 0.25 } }, OFFERED).vmSize, 'Standard_D2s_v5');
+        assert.equal(resolveVmSize('Standard_D2s_v5', { drill: {} }, OFFERED).rule, 'source');
+    });
+
+    it('falls back to the first available size when the size is not offered or out of quota', () => {
+        assert.deepEqual(resolveVmSize('Standard_D4s_v3', { fallbacks: { Standard_D4s_v3: ['Standard_D4s_v6', 'Standard_E4s_v5'] } }, OFFERED),
+            { vmSize: 'Standard_E4s_v5', rule: 'fallback', message: 'VM size Standard_D4s_v3 is not offered in the region, falling back to Standard_E4s_v5' });
+        const usages = [{ name: 'standardDSv5Family', currentValue: 98, limit: 100 }];
+        assert.deepEqual(resolveVmSize('Standard_D4s_v5', { fallbacks: { Standard_D4s_v5: ['Standard_D4s_v4'] } }, OFFERED, usages),
+            { vmSize: 'Standard_D4s_v4', rule: 'fallback', message: 'VM size Standard_D4s_v5 is out of quota, falling back to Standard_D4s_v4' });
+    });
+
+    it('tries the other versions of the size, newest first, with familyFallback', () => {
+        assert.equal(resolveVmSize('Standard_D4s_v3', { familyFallback: true }, OFFERED).vmSize, 'Standard_D4s_v5');
+    });
+
+    it('keeps the size when no fallback is available', () => {
+        assert.deepEqual(resolveVmSize('Standard_M8ms', { familyFallback: true }, OFFERED),
+            { vmSize: 'Standard_M8ms', rule: 'source', message: 'VM size Standard_M8ms is not offered in the region and no fallback is available' });
+    });
+});
@@ -0,0 +1,199 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { VmManager } from '../../src/controllers/vm.manager';
+import { VmError } from '../../src/common/apperror';
+import { RESOURCE_TYPE_DISK, RESOURCE_TYPE_NIC, RESOURCE_TYPE_VM } from '../../src/common/constants';
+import { VmCreationPollMessage } from '../../src/common/interfaces';
+import { osDiskSnapshot, restoredResource, SUBSCRIPTION_ID, TestLogger } from './fixtures';
+
+// Error of a failed ARM request
+const armError = (statusCode: number, code: string) => Object.assign(new Error(`${code} error`), { statusCode, code });
+
+// VM manager whose ARM clients are replaced by fakes
+function fakeVmManager(clients: { computeClient?: any; networkClient?: any }): VmManager {
+    return Object.assign(new VmManager(new TestLogger(), SUBSCRIPTION_ID), clients);
+}
+
+describe('VmManager deletions', () => {
+    it('deletes a VM, a NIC and a disk', async () => {
+        const deleted: string[] = [];
+        const vmManager = fakeVmManager({
+            computeClient: {
+                virtualMachines: { beginDeleteAndWait: async (resourceGroup: string, name: string) => { deleted.push(`vm ${resourceGroup}/${name}`); } },
+                disks: { beginDeleteAndWait: async (resourceGroup: string, name: string) => { deleted.push(`disk ${resourceGroup}/${name}`); } }
+            },
+            networkClient: {
+                networkInterfaces: { beginDeleteAndWait: async (resourceGroup: string, name: string) => { deleted.push(`nic ${resourceGroup}/${name}`); } }
+            }
+        });
+        await vmManager.deleteVirtualMachine('rg-restore', 'vm1');
+        await vmManager.deleteNetworkInterface('rg-restore', 'vm1-nic');
+        await vmManager.deleteDisk('rg-restore', 'vm1-os-disk');
+        assert.deepEqual(deleted, ['vm rg-restore/vm1', 'nic rg-restore/vm1-nic', 'disk rg-restore/vm1-os-disk']);
+    });
+
+    it('ignores the resources already deleted', async () => {
+        const vmManager = fakeVmManager({
+            computeClient: {
+                virtualMachines: { beginDeleteAndWait: async () => { throw armError(404, 'ResourceNotFound'); } },
+                disks: { beginDeleteAndWait: async () => { throw armError(404, 'NotFound'); } }
+            },
+            networkClient: { networkInterfaces: { beginDeleteAndWait: async () => { throw armError(404, 'NotFound'); } } }
+        });
+        await vmManager.deleteVirtualMachine('rg-restore', 'vm1');
+        await vmManager.deleteNetworkInterface('rg-restore', 'vm1-nic');
+        await vmManager.deleteDisk('rg-restore', 'vm1-os-disk');
+    });
+
+    it('reports the other deletion errors', async () => {
+        const vmManager = fakeVmManager({ computeClient: { disks: { beginDeleteAndWait: async () => { throw armError(409, 'OperationNotAllowed'); } } } });
+        await assert.rejects(vmManager.deleteDisk('rg-restore', 'vm1-os-disk'), (error: Error) => error instanceof VmError && error.message.startsWith("Unable to delete disk 'vm1-os-disk' with error: "));
+    });
+});
+
+describe('VmManager.deleteRecoveryResources', () => {
+    // ARM resources of a resource type, with the smcp-recovery tag of the restored resources
+    const fakeResources = (deleted: string[], tags: { [name: string]: string }) => ({
+        get: async (resourceGroup: string, name: string) => ({ name, tags: { 'smcp-recovery': tags[name] } }),
+        beginDeleteAndWait: async (resourceGroup: string, name: string) => { deleted.push(name); }
+    });
+
+    it('deletes the VMs, then the NICs and the disks still tagged with the job of the restore', async () => {
+        const resources = [
+            restoredResource(RESOURCE_TYPE_DISK, 'vm1-os-disk', 'vm1-snapshot'),
+            restoredResource(RESOURCE_TYPE_NIC, 'vm1-nic', 'vm1-snapshot'),
+            restoredResource(RESOURCE_TYPE_VM, 'vm1', 'vm1-snapshot')
+        ];
+        const tags = Object.fromEntries(resources.map(resource => [resource.name, JSON.stringify(resource.tracking)]));
+        tags['vm1-nic'] = JSON.stringify({ batchId: 'batch-2', jobId: 'job-of-another-restore' });
+
+        const deleted: string[] = [];
+        const vmManager = fakeVmManager({
+            computeClient: { virtualMachines: fakeResources(deleted, tags), disks: fakeResources(deleted, tags) },
+            networkClient: { networkInterfaces: fakeResources(deleted, tags) }
+        });
+        const result = await vmManager.deleteRecoveryResources(resources);
+        assert.deepEqual(deleted, ['vm1', 'vm1-os-disk']);
+        assert.deepEqual(result.deleted.map(resource => resource.name), ['vm1', 'vm1-os-disk']);
+        assert.deepEqual(result.failed.map(failure => failure.resource.name), ['vm1-nic']);
+    });
+});
+
+describe('VmManager.deleteReplacedResources', () => {
+    it('deletes the resources restored by a recovery and refuses the others', async () => {
+        const deleted: string[] = [];
+        const tags: { [name: string]: { [tag: string]: string } } = {
+            vm1: { 'smcp-recovery': JSON.stringify({ batchId: 'batch-0', jobId: 'job-0', snapshotName: 'vm1-older-snapshot' }) },
+            'vm1-nic': { owner: 'network team' }
+        };
+        const resources = (notFound: string[] = []) => ({
+            get: async (resourceGroup: string, name: string) => {
+                if (notFound.includes(name)) {
+                    throw armError(404, 'ResourceNotFound');
+                }
+                return { name, tags: tags[name] };
+            },
+            beginDeleteAndWait: async (resourceGroup: string, name: string) => { deleted.push(name); }
+        });
+        const vmManager = fakeVmManager({
+            computeClient: { virtualMachines: resources(), disks: resources(['vm1-os-disk']) },
+            networkClient: { networkInterfaces: resources() }
+        });
+
+        const failed = await vmManager.deleteReplacedResources([
+            { type: 'vm', name: 'vm1', resourceGroup: 'rg-restore' },
+            { type: 'nic', name: 'vm1-nic', resourceGroup: 'rg-restore' },
+            { type: 'disk', name: 'vm1-os-disk', resourceGroup: 'rg-restore' }
+        ]);
+        assert.deepEqual(deleted, ['vm1']);
+        assert.deepEqual(failed, [{ resource: { type: 'nic', name: 'vm1-nic', resourceGroup: 'rg-restore' }, error: 'not restored by a recovery', refused: true }]);
+    });
+});
+
+describe('VmManager.getVmHealth', () => {
+    // VM manager returning an instance view
+    const vmManagerWithInstanceView = (instanceView: () => Promise<any>) =>
+        fakeVmManager({ computeClient: { virtualMachines: { instanceView } } });
+
+    it('reports a running VM with a ready guest agent as healthy', async () => {
+        const health = await vmManagerWithInstanceView(async () => ({
+            statuses: [{ code: 'ProvisioningState/succeeded' }, { code: 'PowerState/running' }],
+            vmAgent: { statuses: [{ displayStatus: 'Ready' }] }
+        })).getVmHealth('rg-restore', 'vm1');
+        assert.deepEqual(health, { vmName: 'vm1', healthy: true, powerState: 'running', provisioningState: 'succeeded', agentStatus: 'Ready', message: undefined });
+    });
+
+    it('reports a VM without guest agent status or not created yet as not healthy', async () => {
+        const starting = await vmManagerWithInstanceView(async () => ({ statuses: [{ code: 'PowerState/starting' }] })).getVmHealth('rg-restore', 'vm1');
+        assert.equal(starting.message, 'VM vm1 is starting with guest agent not reporting');
+        const missing = await vmManagerWithInstanceView(async () => { throw armError(404, 'ResourceNotFound'); }).getVmHealth('rg-restore', 'vm1');
+        assert.deepEqual(missing, { vmName: 'vm1', healthy: false, message: 'VM vm1 does not exist yet' });
+    });
+});
+
+
+describe('VmManager.checkVmCreationStatus', () => {
+    // Poll message of the VM creation of vm1
+    const pollMessage = (pollerUrl: string): VmCreationPollMessage => ({
+        pollerUrl,
+        operationId: 'operation-1',
+        vmName: 'vm1',
+        targetResourceGroup: 'rg-restore',
+        sourceSnapshot: osDiskSnapshot('vm1'),
+        nicInfo: { id: 'vm1-nic-id', name: 'vm1-nic', ipAddress: '10.0.0.4' },
+        jobId: 'job-1',
+        batchId: 'batch-1',
+        createdAt: '2025-01-01T12:00:00.000Z',
+        retryCount: 2
+    });
+
+    // VM manager resuming a VM creation poller in the given operation state
+    function vmManagerWithPoller(operationState: any, poll: () => Promise<void> = async () => undefined) {
+        const resumedFrom: string[] = [];
+        const vmManager = fakeVmManager({
+            computeClient: {
+                virtualMachines: {
+                    beginCreateOrUpdate: async (resourceGroup: string, name: string, parameters: any, options: any) => {
+                        resumedFrom.push(options.resumeFrom);
+                        return {
+                            poll,
+                            getOperationState: () => operationState,
+                            getResult: () => ({ id: 'vm1-id', name: 'vm1', hardwareProfile: { vmSize: 'Standard_D4s_v5' }, zones: ['2'] }),
+                            toString: () => 'poller-state-2'
+                        };
+                    }
+                }
+            }
+        });
+        return { vmManager, resumedFrom };
+    }
+
+    it('resumes the operation from the serialized poller state', async () => {
+        const { vmManager, resumedFrom } = vmManagerWithPoller({ status: 'succeeded' });
+        const result = await vmManager.checkVmCreationStatus(pollMessage('poller-state-1'));
+        assert.deepEqual(resumedFrom, ['poller-state-1']);
+        assert.deepEqual(result, { success: true, vmInfo: { id: 'vm1-id', name: 'vm1', ipAddress: '10.0.0.4', vmSize: 'Standard_D4s_v5', zone: '2' } });
+    });
+
+    it('reports the error of a failed operation', async () => {
+        const { vmManager } = vmManagerWithPoller({ status: 'failed', error: { code: 'AllocationFailed', message: 'No capacity' } },
+            async () => { throw new Error('polling failed'); });
+        assert.deepEqual(await vmManager.checkVmCreationStatus(pollMessage('poller-state-1')),
+            { success: false, error: 'VM creation failed for vm1: AllocationFailed: No capacity', vmFailed: true });
+    });
+
+    it('polls again from the updated poller state while the operation is running', async () => {
+        const { vmManager } = vmManagerWithPoller({ status: 'running' });
+        const result = await vmManager.checkVmCreationStatus(pollMessage('poller-state-1'));
+        assert.equal(result.success, false);
+        assert.equal(result.vmFailed, undefined);
+        assert.equal(result.pollerMessage.pollerUrl, 'poller-state-2');
+        assert.equal(result.pollerMessage.retryCount, 3);
+    });
+
+    it('does not fail the VM when its status cannot be checked', async () => {
+        const { vmManager } = vmManagerWithPoller({ status: 'running' }, async () => { throw new Error('Connection reset'); });
+        const result = await vmManager.checkVmCreationStatus(pollMessage('poller-state-1'));
+        assert.deepEqual(result, { success: false, error: 'Error checking VM creation operation: Error: Connection reset' });
+    });
+});
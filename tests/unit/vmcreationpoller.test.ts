@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { VmCreationPollMessage, VmCreationResult, VmPollDeadLetterMessage } from '../../src/common/interfaces';
+import { QUEUE_CONTROL_VM_CREATION, QUEUE_CONTROL_VM_CREATION_DEAD_LETTER } from '../../src/common/constants';
+import { VmManager } from '../../src/controllers/vm.manager';
+import { QueueManager } from '../../src/controllers/queue.manager';
+import { LogManager } from '../../src/controllers/log.manager';
+import { vmCreationPoller } from '../../src/functions/vmcreationpoller';
+import { osDiskSnapshot, testInvocationContext } from './fixtures';
+
+// Poll message of the VM creation of vm1
+const pollMessage = (retryCount: number): VmCreationPollMessage => ({
+    pollerUrl: 'poller-state',
+    operationId: 'operation-1',
+    vmName: 'vm1',
+    targetResourceGroup: 'rg-restore',
+    sourceSnapshot: osDiskSnapshot('vm1'),
+    nicInfo: { id: 'vm1-nic-id', name: 'vm1-nic', ipAddress: '10.0.0.4' },
+    jobId: 'job-1',
+    batchId: 'batch-1',
+    createdAt: '2025-01-01T12:00:00.000Z',
+    retryCount
+});
+
+describe('vmCreationPoller', () => {
+    // Messages sent to the queues, with their visibility delay
+    let sent: { queue: string; message: any; delaySeconds?: number }[];
+    let status: VmCreationResult;
+
+    beforeEach(() => {
+        sent = [];
+        mock.method(QueueManager.prototype, 'sendMessage', async function (message: string, delaySeconds?: number) {
+            sent.push({ queue: this.queueName, message: JSON.parse(message), delaySeconds });
+        });
+        mock.method(LogManager.prototype, 'uploadLog', async () => undefined);
+        mock.method(VmManager.prototype, 'checkVmCreationStatus', async () => status);
+    });
+
+    afterEach(() => {
+        mock.restoreAll();
+        delete process.env.SNAP_RECOVERY_VM_POLL_MAX_RETRIES;
+    });
+
+    // Poll message of the next poll, returned by the VM manager while the VM is being created
+    const inProgress = (retryCount: number): VmCreationResult => ({ success: false, error: 'VM creation still in progress', pollerMessage: pollMessage(retryCount) });
+
+    it('polls again with an exponential backoff capped at the maximum delay', async () => {
+        for (const retryCount of [1, 2, 10]) {
+            status = inProgress(retryCount);
+            await vmCreationPoller(pollMessage(retryCount - 1), testInvocationContext());
+        }
+        assert.deepEqual(sent.map(entry => [entry.queue, entry.message.retryCount, entry.delaySeconds]),
+            [[QUEUE_CONTROL_VM_CREATION, 1, 90], [QUEUE_CONTROL_VM_CREATION, 2, 135], [QUEUE_CONTROL_VM_CREATION, 10, 600]]);
+    });
+
+    it('moves the message to the dead-letter queue when the maximum number of polls is reached', async () => {
+        process.env.SNAP_RECOVERY_VM_POLL_MAX_RETRIES = '3';
+        status = inProgress(3);
+        await vmCreationPoller(pollMessage(2), testInvocationContext());
+        assert.equal(sent.length, 1);
+        const deadLetter: VmPollDeadLetterMessage = sent[0].message;
+        assert.equal(sent[0].queue, QUEUE_CONTROL_VM_CREATION_DEAD_LETTER);
+        assert.equal(deadLetter.reason, 'Max retries (3) reached, last status: VM creation still in progress');
+        assert.equal(deadLetter.pollMessage.vmName, 'vm1');
+        assert.equal(deadLetter.retryCount, 3);
+    });
+
+    it('polls again when the status of the VM creation could not be checked', async () => {
+        status = { success: false, error: 'Error checking VM creation operation: Error: Connection reset' };
+        await vmCreationPoller(pollMessage(4), testInvocationContext());
+        assert.deepEqual(sent.map(entry => [entry.queue, entry.message.pollerUrl, entry.message.retryCount, entry.delaySeconds]),
+            [[QUEUE_CONTROL_VM_CREATION, 'poller-state', 5, 456]]);
+    });
+
+    it('deletes the resources of a failed VM creation and moves the message to the dead-letter queue', async () => {
+        const deleted: string[] = [];
+        mock.method(VmManager.prototype, 'deleteVirtualMachine', async (resourceGroup: string, name: string) => { deleted.push(name); });
+        mock.method(VmManager.prototype, 'deleteNetworkInterface', async (resourceGroup: string, name: string) => { deleted.push(name); });
+        status = { success: false, error: 'VM creation failed for vm1: AllocationFailed: No capacity', vmFailed: true };
+        await vmCreationPoller(pollMessage(4), testInvocationContext());
+        assert.deepEqual(deleted, ['vm1', 'vm1-nic']);
+        assert.deepEqual(sent.map(entry => [entry.queue, entry.message.reason]),
+            [[QUEUE_CONTROL_VM_CREATION_DEAD_LETTER, 'VM creation failed: VM creation failed for vm1: AllocationFailed: No capacity']]);
+    });
+
+    it('moves the invalid messages to the dead-letter queue', async () => {
+        await vmCreationPoller('not a poll message', testInvocationContext());
+        await vmCreationPoller({ vmName: 'vm1' }, testInvocationContext());
+        assert.deepEqual(sent.map(entry => entry.queue), [QUEUE_CONTROL_VM_CREATION_DEAD_LETTER, QUEUE_CONTROL_VM_CREATION_DEAD_LETTER]);
+        assert.match(sent[0].message.reason, /^Invalid queue message format: /);
+        assert.ok(sent[0].message.rawMessage);
+        assert.equal(sent[1].message.reason, 'Missing required fields in poll message');
+    });
+});
@@ -0,0 +1,57 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { EntityContext } from 'durable-functions';
+import { VmCreationOutcome, VmOutcomeTrackerState } from '../../src/common/interfaces';
+import vmOutcomeTracker from '../../src/functions/vmoutcometracker';
+
+// Calls an operation of the tracker entity, returning its new state and its return value
+function callTracker(state: VmOutcomeTrackerState | undefined, operationName: string, input?: VmCreationOutcome) {
+    let returned: unknown;
+    const context = {
+        df: {
+            operationName,
+            getInput: () => input,
+            getState: (initializer: () => VmOutcomeTrackerState) => state ?? initializer(),
+            setState: (newState: VmOutcomeTrackerState) => { state = newState; },
+            return: (value: unknown) => { returned = value; }
+        }
+    } as unknown as EntityContext<VmOutcomeTrackerState>;
+    vmOutcomeTracker(context);
+    return { state, returned };
+}
+
+const outcome = (jobId: string, success: boolean): VmCreationOutcome => ({
+    batchId: 'batch-1',
+    jobId,
+    vmName: `vm-${jobId}`,
+    snapshotId: `snapshot-id-${jobId}`,
+    snapshotName: `snapshot-${jobId}`,
+    success,
+    message: success ? undefined : 'AllocationFailed'
+});
+
+describe('vmOutcomeTracker', () => {
+    it('counts the outcomes and keeps the failures', () => {
+        let { state } = callTracker(undefined, 'record', outcome('job-1', true));
+        ({ state } = callTracker(state, 'record', outcome('job-2', false)));
+        assert.deepEqual(state, {
+            jobIds: ['job-1', 'job-2'],
+            succeeded: 1,
+            failed: 1,
+            failures: [{ success: false, vmName: 'vm-job-2', snapshotId: 'snapshot-id-job-2', snapshotName: 'snapshot-job-2', jobId: 'job-2', message: 'AllocationFailed' }]
+        });
+    });
+
+    it('ignores the outcomes reported twice', () => {
+        let { state } = callTracker(undefined, 'record', outcome('job-1', false));
+        ({ state } = callTracker(state, 'record', outcome('job-1', false)));
+        assert.equal(state.failed, 1);
+        assert.equal(state.failures.length, 1);
+    });
+
+    it('returns the counts without the failures', () => {
+        const { state } = callTracker(undefined, 'record', outcome('job-1', false));
+        assert.deepEqual(callTracker(state, 'counts').returned, { succeeded: 0, failed: 1 });
+        assert.equal(callTracker(state, 'get').returned, state);
+    });
+});
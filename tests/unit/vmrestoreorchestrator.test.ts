@@ -0,0 +1,76 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { vmRestoreOrchestrator } from '../../src/functions/vmrestoreorchestrator';
+import { COMPENSATE_RESTORE_ACTIVITY, RESTORE_DISKS_ACTIVITY, RESTORE_NIC_ACTIVITY, RESTORE_VM_ACTIVITY, VERIFY_VM_ACTIVITY } from '../../src/common/constants';
+import { NewVmDetails, RestoredDisks, RestorePhaseOutcome, VmInfo, VmNic } from '../../src/common/interfaces';
+import { fakeOrchestrationContext, FakeTask, runOrchestration } from './orchestration';
+import { dataDiskSnapshot, osDiskSnapshot, subnetLocation } from './fixtures';
+
+const vmDetails: NewVmDetails = {
+    targetSubnetId: subnetLocation('subnet-a').subnetId,
+    targetResourceGroup: 'rg-restore',
+    useOriginalIpAddress: false,
+    sourceSnapshot: osDiskSnapshot('vm1', { dataDiskSnapshots: [dataDiskSnapshot('vm1', 0)] }),
+    batchId: 'batch-1'
+};
+
+const disks: RestoredDisks = {
+    osDisk: { name: 'vm1-os-disk', id: '/disks/vm1-os-disk', osType: 'Linux' },
+    dataDisks: [{ name: 'vm1-data-disk-lun0', id: '/disks/vm1-data-disk-lun0', osType: undefined, lun: 0, adopted: true }]
+};
+const nic = { name: 'vm1-nic', id: '/nics/vm1-nic' } as VmNic;
+const vm = { id: '/vms/vm1', ipAddress: '10.0.0.5' } as VmInfo;
+
+// Results of the phase activities, the phases listed in failures fail (thrown errors, or returned permanent errors)
+function phaseResults(failures: { [activity: string]: Error | RestorePhaseOutcome<unknown> } = {}) {
+    return (task: FakeTask): unknown => failures[task.name] || {
+        [RESTORE_DISKS_ACTIVITY]: { value: disks },
+        [RESTORE_NIC_ACTIVITY]: { value: nic },
+        [RESTORE_VM_ACTIVITY]: { value: vm },
+        [VERIFY_VM_ACTIVITY]: { value: undefined },
+        [COMPENSATE_RESTORE_ACTIVITY]: { mode: 'delete', deleted: task.input?.resources, kept: [], failed: [] }
+    }[task.name];
+}
+
+describe('vmRestoreOrchestrator', () => {
+    it('runs the disk, NIC, VM and verify phases with the results of the previous phases', () => {
+        const { output, tasks } = runOrchestration(vmRestoreOrchestrator, fakeOrchestrationContext(vmDetails), phaseResults());
+        assert.deepEqual(tasks.map(task => task.name), [RESTORE_DISKS_ACTIVITY, RESTORE_NIC_ACTIVITY, RESTORE_VM_ACTIVITY, VERIFY_VM_ACTIVITY]);
+        assert.deepEqual(tasks[2].input.nic, nic);
+        assert.deepEqual(tasks[3].input.osDisk, disks.osDisk);
+        assert.equal(output.success, true);
+        assert.equal(output.vmId, '/vms/vm1');
+        assert.deepEqual(output.phases.map(phase => [phase.phase, phase.status]), [['disks', 'succeeded'], ['nic', 'succeeded'], ['vm', 'succeeded'], ['verify', 'succeeded']]);
+    });
+
+    it('compensates the resources of the completed and failed phases, without the adopted disks', () => {
+        const { output, tasks } = runOrchestration(vmRestoreOrchestrator, fakeOrchestrationContext(vmDetails), phaseResults({ [RESTORE_VM_ACTIVITY]: new Error('AllocationFailed') }));
+        assert.deepEqual(tasks.map(task => task.name), [RESTORE_DISKS_ACTIVITY, RESTORE_NIC_ACTIVITY, RESTORE_VM_ACTIVITY, COMPENSATE_RESTORE_ACTIVITY]);
+        assert.deepEqual(tasks[3].input.resources, [
+            { type: 'disk', name: 'vm1-os-disk', resourceGroup: 'rg-restore' },
+            { type: 'nic', name: 'vm1-nic', resourceGroup: 'rg-restore' },
+            { type: 'vm', name: 'vm1', resourceGroup: 'rg-restore' }
+        ]);
+        assert.equal(output.success, false);
+        assert.equal(output.message, 'vm phase failed: Error: AllocationFailed (deleted 3 partial resources)');
+        assert.deepEqual(output.phases.map(phase => [phase.phase, phase.status]), [['disks', 'succeeded'], ['nic', 'succeeded'], ['vm', 'failed']]);
+    });
+
+    it('fails a phase right away on a permanent failure', () => {
+        const { output, tasks } = runOrchestration(vmRestoreOrchestrator, fakeOrchestrationContext(vmDetails),
+            phaseResults({ [RESTORE_NIC_ACTIVITY]: { permanentError: 'Subnet not found' } }));
+        assert.deepEqual(tasks.map(task => task.name), [RESTORE_DISKS_ACTIVITY, RESTORE_NIC_ACTIVITY, COMPENSATE_RESTORE_ACTIVITY]);
+        assert.equal(output.message, 'nic phase failed: PermanentError: Subnet not found (deleted 2 partial resources)');
+    });
+
+    it('caps the retry interval of each phase', () => {
+        const { tasks } = runOrchestration(vmRestoreOrchestrator, fakeOrchestrationContext(vmDetails), phaseResults());
+        assert.deepEqual(tasks.map(task => [task.retryOptions.maxNumberOfAttempts, task.retryOptions.maxRetryIntervalInMilliseconds]), [[3, 60000], [3, 60000], [3, 60000], [10, 120000]]);
+    });
+
+    it('reports a failed compensation in the result of the VM', () => {
+        const { output } = runOrchestration(vmRestoreOrchestrator, fakeOrchestrationContext(vmDetails),
+            phaseResults({ [RESTORE_DISKS_ACTIVITY]: new Error('Snapshot not found'), [COMPENSATE_RESTORE_ACTIVITY]: new Error('Conflict') }));
+        assert.equal(output.message, 'disks phase failed: Error: Snapshot not found (compensation failed: Error: Conflict)');
+    });
+});
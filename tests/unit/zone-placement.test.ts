@@ -0,0 +1,46 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { assignTargetZones, getDiskZones, isZonalOnlyDiskSku } from '../../src/common/zone-placement';
+import { osDiskSnapshot } from './fixtures';
+
+const SNAPSHOTS = [
+    osDiskSnapshot('vm1', { zone: '1' }),
+    osDiskSnapshot('vm2'),
+    osDiskSnapshot('vm3', { zone: '3' }),
+    osDiskSnapshot('vm4', { zone: '2' })
+];
+
+const targetZones = (placement: Parameters<typeof assignTargetZones>[1]) => assignTargetZones(SNAPSHOTS, placement).map(snapshot => snapshot.targetZone);
+
+describe('assignTargetZones', () => {
+    it('restores the VMs in the zone of the source VM by default', () => {
+        assert.deepEqual(targetZones(undefined), ['1', undefined, '3', '2']);
+        assert.deepEqual(targetZones({ mode: 'source' }), ['1', undefined, '3', '2']);
+    });
+
+    it('places the VMs in a fixed zone, in turn over the zones or without zone', () => {
+        assert.deepEqual(targetZones({ mode: 'fixed', zone: '2' }), ['2', '2', '2', '2']);
+        assert.deepEqual(targetZones({ mode: 'spread' }), ['1', '2', '3', '1']);
+        assert.deepEqual(targetZones({ mode: 'spread', zones: ['2', '3'] }), ['2', '3', '2', '3']);
+        assert.deepEqual(targetZones({ mode: 'regional' }), [undefined, undefined, undefined, undefined]);
+    });
+
+    it('places the VMs of vmZones in their zone, or without zone for an empty zone', () => {
+        assert.deepEqual(targetZones({ mode: 'spread', vmZones: { vm1: '', vm2: '3' } }), [undefined, '3', '1', '2']);
+    });
+});
+
+describe('disk zones', () => {
+    it('pins the disks to the zone of the VM, except the zone-redundant disks', () => {
+        assert.deepEqual(getDiskZones('Premium_LRS', '2'), ['2']);
+        assert.equal(getDiskZones('Premium_ZRS', '2'), undefined);
+        assert.equal(getDiskZones('Premium_LRS', undefined), undefined);
+    });
+
+    it('recognizes the disk SKUs that need a zone', () => {
+        assert.ok(isZonalOnlyDiskSku('PremiumV2_LRS'));
+        assert.ok(isZonalOnlyDiskSku('UltraSSD_LRS'));
+        assert.ok(!isZonalOnlyDiskSku('Premium_LRS'));
+        assert.ok(!isZonalOnlyDiskSku(undefined));
+    });
+});